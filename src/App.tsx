@@ -39,11 +39,16 @@ const OwnerDashboard = lazy(() => import('./pages/OwnerDashboard').then(m => ({
 const Draft = lazy(() => import('./pages/Draft').then(m => ({ default: m.Draft })));
 const FreeAgents = lazy(() => import('./pages/FreeAgents').then(m => ({ default: m.FreeAgents })));
 const RecordBook = lazy(() => import('./pages/RecordBook').then(m => ({ default: m.RecordBook })));
+const Playoffs = lazy(() => import('./pages/Playoffs').then(m => ({ default: m.Playoffs })));
+const LeagueActivity = lazy(() => import('./pages/LeagueActivity').then(m => ({ default: m.LeagueActivity })));
 const RookieDraft = lazy(() => import('./pages/RookieDraft').then(m => ({ default: m.RookieDraft })));
 const Rules = lazy(() => import('./pages/Rules').then(m => ({ default: m.Rules })));
 const Prospects = lazy(() => import('./pages/Prospects').then(m => ({ default: m.Prospects })));
 const MockDraft = lazy(() => import('./pages/MockDraft').then(m => ({ default: m.MockDraft })));
 const TradeMachine = lazy(() => import('./pages/TradeMachine').then(m => ({ default: m.TradeMachine })));
+const TradeBlock = lazy(() => import('./pages/TradeBlock').then(m => ({ default: m.TradeBlock })));
+const PickLedger = lazy(() => import('./pages/PickLedger').then(m => ({ default: m.PickLedger })));
+const DraftLottery = lazy(() => import('./pages/DraftLottery').then(m => ({ default: m.DraftLottery })));
 const Inbox = lazy(() => import('./pages/Inbox').then(m => ({ default: m.Inbox })));
 const Profile = lazy(() => import('./pages/Profile').then(m => ({ default: m.Profile })));
 const Changelog = lazy(() => import('./pages/Changelog').then(m => ({ default: m.Changelog })));
@@ -282,6 +287,26 @@ function App() {
               </PrivateRoute>
             }
           />
+          <Route
+            path="/league/:leagueId/playoffs"
+            element={
+              <PrivateRoute>
+                <LeagueLayout>
+                  <Playoffs />
+                </LeagueLayout>
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/league/:leagueId/activity"
+            element={
+              <PrivateRoute>
+                <LeagueLayout>
+                  <LeagueActivity />
+                </LeagueLayout>
+              </PrivateRoute>
+            }
+          />
           <Route
             path="/league/:leagueId/rookie-draft"
             element={
@@ -332,6 +357,36 @@ function App() {
               </PrivateRoute>
             }
           />
+          <Route
+            path="/league/:leagueId/trade-block"
+            element={
+              <PrivateRoute>
+                <LeagueLayout>
+                  <TradeBlock />
+                </LeagueLayout>
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/league/:leagueId/picks"
+            element={
+              <PrivateRoute>
+                <LeagueLayout>
+                  <PickLedger />
+                </LeagueLayout>
+              </PrivateRoute>
+            }
+          />
+          <Route
+            path="/league/:leagueId/lottery"
+            element={
+              <PrivateRoute>
+                <LeagueLayout>
+                  <DraftLottery />
+                </LeagueLayout>
+              </PrivateRoute>
+            }
+          />
           <Route
             path="/league/:leagueId/inbox"
             element={
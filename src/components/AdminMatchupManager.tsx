@@ -4,6 +4,9 @@ import { supabase } from '../lib/supabase';
 import { logger } from '../lib/logger';
 import type { Team, Matchup, TeamRecord, ScoringMode } from '../types';
 import { mapTeam, mapMatchup } from '../lib/mappers';
+import { scoreMatchupWeek } from '../lib/scoringOps';
+import { advancePlayoffBracket } from '../lib/playoffOps';
+import { ScheduleGenerator } from './ScheduleGenerator';
 
 interface AdminMatchupManagerProps {
   leagueId: string;
@@ -12,7 +15,7 @@ interface AdminMatchupManagerProps {
   onClose: () => void;
 }
 
-type Tab = 'matchups' | 'scores';
+type Tab = 'matchups' | 'schedule' | 'scores';
 
 interface MatchupRow {
   homeTeamId: string;
@@ -155,90 +158,6 @@ export function AdminMatchupManager({ leagueId, seasonYear, scoringMode, onClose
     }
   };
 
-  const handleAutoGenerate = async () => {
-    if (teams.length < 2) {
-      toast.error('Need at least 2 teams.');
-      return;
-    }
-    if (teams.length % 2 !== 0) {
-      toast.error('Odd number of teams not supported yet.');
-      return;
-    }
-
-    const confirmed = confirm(
-      `Auto-generate round-robin matchups for all ${matchupWeeks.length} weeks?\n\n` +
-      `This will REPLACE all existing matchups for the ${seasonYear} season.\n` +
-      `${teams.length} teams × ${matchupWeeks.length} weeks = ${matchupWeeks.length * (teams.length / 2)} total matchups.`
-    );
-    if (!confirmed) return;
-
-    setSaving(true);
-    try {
-      // Delete all existing matchups for this season
-      await supabase
-        .from('league_matchups')
-        .delete()
-        .eq('league_id', leagueId)
-        .eq('season_year', seasonYear);
-
-      // Round-robin generation
-      const teamIds = teams.map(t => t.id);
-      const n = teamIds.length;
-      const rounds: Array<Array<[string, string]>> = [];
-      const rotatingTeams = [...teamIds];
-
-      for (let round = 0; round < n - 1; round++) {
-        const pairs: Array<[string, string]> = [];
-        for (let i = 0; i < n / 2; i++) {
-          const home = rotatingTeams[i];
-          const away = rotatingTeams[n - 1 - i];
-          if (round % 2 === 0) {
-            pairs.push([home, away]);
-          } else {
-            pairs.push([away, home]);
-          }
-        }
-        rounds.push(pairs);
-
-        // Rotate: keep first fixed, rotate rest clockwise
-        const last = rotatingTeams.pop()!;
-        rotatingTeams.splice(1, 0, last);
-      }
-
-      const allRows = [];
-      for (let weekIdx = 0; weekIdx < matchupWeeks.length; weekIdx++) {
-        const roundIdx = weekIdx % rounds.length;
-        const pairs = rounds[roundIdx];
-        const mw = matchupWeeks[weekIdx];
-
-        for (let pairIdx = 0; pairIdx < pairs.length; pairIdx++) {
-          allRows.push({
-            id: `${leagueId}_${seasonYear}_mw${mw}_${pairIdx + 1}`,
-            league_id: leagueId,
-            season_year: seasonYear,
-            matchup_week: mw,
-            home_team_id: pairs[pairIdx][0],
-            away_team_id: pairs[pairIdx][1],
-          });
-        }
-      }
-
-      // Insert in chunks
-      for (let i = 0; i < allRows.length; i += 500) {
-        const chunk = allRows.slice(i, i + 500);
-        const { error } = await supabase.from('league_matchups').insert(chunk);
-        if (error) throw error;
-      }
-
-      setMatchups(allRows.map(mapMatchup));
-      toast.success(`Generated ${allRows.length} matchups across ${matchupWeeks.length} weeks!`);
-    } catch (err: any) {
-      toast.error(`Error generating matchups: ${err.message}`);
-    } finally {
-      setSaving(false);
-    }
-  };
-
   const handleSaveScores = async () => {
     setSaving(true);
     try {
@@ -269,6 +188,7 @@ export function AdminMatchupManager({ leagueId, seasonYear, scoringMode, onClose
       }));
 
       toast.success(`Scores saved for Week ${selectedWeek}!`);
+      await advanceBracketIfPostseason();
     } catch (err: any) {
       toast.error(`Error saving scores: ${err.message}`);
     } finally {
@@ -276,6 +196,56 @@ export function AdminMatchupManager({ leagueId, seasonYear, scoringMode, onClose
     }
   };
 
+  // Post-season weeks feed the bracket: once a round is final, create the next one
+  const advanceBracketIfPostseason = async () => {
+    if (!matchups.some(m => m.matchupWeek === selectedWeek && m.bracket)) return;
+
+    const result = await advancePlayoffBracket({ leagueId, seasonYear });
+    if (!result.success) {
+      toast.error(`Bracket not advanced: ${result.error}`);
+      return;
+    }
+    if (result.created === 0) return;
+
+    const { data: matchupRows } = await supabase
+      .from('league_matchups')
+      .select('*')
+      .eq('league_id', leagueId)
+      .eq('season_year', seasonYear)
+      .order('matchup_week', { ascending: true });
+    setMatchups((matchupRows || []).map(mapMatchup));
+    toast.success(`Bracket advanced — ${result.created} new post-season matchup${result.created !== 1 ? 's' : ''}`);
+  };
+
+  const handleAutoScore = async () => {
+    const alreadyScored = matchups.some(m => m.matchupWeek === selectedWeek && m.homeScore !== null);
+    if (alreadyScored && !confirm(
+      `Week ${selectedWeek} already has scores.\n\n` +
+      `Re-scoring recomputes every matchup from uploaded box scores and overwrites the current scores.`
+    )) return;
+
+    setSaving(true);
+    try {
+      const result = await scoreMatchupWeek({ leagueId, seasonYear, matchupWeek: selectedWeek });
+      if (!result.success) {
+        toast.error(result.error || 'Scoring failed');
+        return;
+      }
+
+      const byId = new Map(result.scored.map(s => [s.matchupId, s]));
+      setMatchups(prev => prev.map(m => {
+        const s = byId.get(m.id);
+        if (!s) return m;
+        return { ...m, homeScore: s.homeScore, awayScore: s.awayScore, categoryResults: s.categoryResults, scoredAt: Date.now() };
+      }));
+
+      toast.success(`Scored ${result.scored.length} matchups for Week ${selectedWeek}`);
+      await advanceBracketIfPostseason();
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const teamMap = new Map(teams.map(t => [t.id, t]));
   const weekMatchups = matchups.filter(m => m.matchupWeek === selectedWeek);
 
@@ -348,6 +318,16 @@ export function AdminMatchupManager({ leagueId, seasonYear, scoringMode, onClose
             >
               Set Matchups
             </button>
+            <button
+              onClick={() => setTab('schedule')}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                tab === 'schedule'
+                  ? 'bg-green-400/20 text-green-400 border border-green-400/30'
+                  : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              Schedule Generator
+            </button>
             <button
               onClick={() => setTab('scores')}
               className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
@@ -363,30 +343,44 @@ export function AdminMatchupManager({ leagueId, seasonYear, scoringMode, onClose
 
         {/* Content */}
         <div className="p-6 space-y-6">
+          {tab === 'schedule' && (
+            <ScheduleGenerator
+              leagueId={leagueId}
+              seasonYear={seasonYear}
+              teams={teams}
+              onCommitted={(rows, replacedWeeks) => setMatchups(prev => [
+                ...prev.filter(m => !replacedWeeks.includes(m.matchupWeek)),
+                ...rows.map(mapMatchup),
+              ])}
+            />
+          )}
+
           {/* Week selector */}
-          <div className="flex items-center gap-4">
-            <label className="text-sm font-medium text-gray-300">Week</label>
-            <select
-              value={selectedWeek}
-              onChange={(e) => setSelectedWeek(parseInt(e.target.value))}
-              className="px-4 py-2 bg-mns-dark border border-gray-700 rounded-lg text-white focus:outline-none focus:border-green-400"
-            >
-              {matchupWeeks.map(w => (
-                <option key={w} value={w}>
-                  Week {w} {matchups.some(m => m.matchupWeek === w) ? '' : '(no matchups)'}
-                </option>
-              ))}
-            </select>
-            {tab === 'matchups' && (
-              <button
-                onClick={handleAutoGenerate}
-                disabled={saving}
-                className="ml-auto px-4 py-2 text-sm text-purple-400 border border-purple-400/30 rounded-lg hover:bg-purple-400/10 transition-colors disabled:opacity-50"
+          {tab !== 'schedule' && (
+            <div className="flex items-center gap-4">
+              <label className="text-sm font-medium text-gray-300">Week</label>
+              <select
+                value={selectedWeek}
+                onChange={(e) => setSelectedWeek(parseInt(e.target.value))}
+                className="px-4 py-2 bg-mns-dark border border-gray-700 rounded-lg text-white focus:outline-none focus:border-green-400"
               >
-                Auto-Generate All Weeks
-              </button>
-            )}
-          </div>
+                {matchupWeeks.map(w => (
+                  <option key={w} value={w}>
+                    Week {w} {matchups.some(m => m.matchupWeek === w) ? '' : '(no matchups)'}
+                  </option>
+                ))}
+              </select>
+              {tab === 'scores' && weekMatchups.length > 0 && (
+                <button
+                  onClick={handleAutoScore}
+                  disabled={saving}
+                  className="ml-auto px-4 py-2 text-sm text-purple-400 border border-purple-400/30 rounded-lg hover:bg-purple-400/10 transition-colors disabled:opacity-50"
+                >
+                  Score from Box Scores
+                </button>
+              )}
+            </div>
+          )}
 
           {tab === 'matchups' && (
             <>
@@ -495,6 +489,11 @@ export function AdminMatchupManager({ leagueId, seasonYear, scoringMode, onClose
                           </span>
                           <span className="text-xs text-gray-500">{formatRecord(matchup.awayTeamId)}</span>
                         </div>
+                        {matchup.scoredAt && (
+                          <span className="text-[10px] text-purple-400/70 whitespace-nowrap" title={new Date(matchup.scoredAt).toLocaleString()}>
+                            auto
+                          </span>
+                        )}
                       </div>
                     );
                   })}
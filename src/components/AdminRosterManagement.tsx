@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo } from 'react';
 import { toast } from 'sonner';
 import { supabase } from '../lib/supabase';
 import { logger } from '../lib/logger';
+import { useAuth } from '../contexts/AuthContext';
 import type { Team, Player, LeagueRosterSettings, PlayerSlot } from '../types';
 import { DEFAULT_ROSTER_SETTINGS } from '../types';
 import { mapTeam, mapPlayer } from '../lib/mappers';
@@ -18,6 +19,7 @@ interface AdminRosterManagementProps {
 type ActionType = 'add_to_ir' | 'move_to_active' | 'drop_player' | 'add_free_agent';
 
 export function AdminRosterManagement({ leagueId, seasonYear, rosterSettings = DEFAULT_ROSTER_SETTINGS, sport = 'nba', onClose }: AdminRosterManagementProps) {
+  const { user } = useAuth();
   const [teams, setTeams] = useState<Team[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
   const [loading, setLoading] = useState(true);
@@ -122,6 +124,8 @@ export function AdminRosterManagement({ leagueId, seasonYear, rosterSettings = D
             teamId: selectedTeam,
             leagueId,
             toSlot: 'ir',
+            performedBy: user?.email || undefined,
+            note: 'Commissioner action',
           });
           break;
         }
@@ -132,6 +136,8 @@ export function AdminRosterManagement({ leagueId, seasonYear, rosterSettings = D
             teamId: selectedTeam,
             leagueId,
             toSlot: 'active',
+            performedBy: user?.email || undefined,
+            note: 'Commissioner action',
           });
           break;
         }
@@ -141,6 +147,8 @@ export function AdminRosterManagement({ leagueId, seasonYear, rosterSettings = D
             playerId: selectedPlayer,
             teamId: selectedTeam,
             leagueId,
+            performedBy: user?.email || undefined,
+            note: 'Commissioner action',
           });
           break;
         }
@@ -151,6 +159,8 @@ export function AdminRosterManagement({ leagueId, seasonYear, rosterSettings = D
             teamId: selectedTeam,
             leagueId,
             slot: 'active',
+            performedBy: user?.email || undefined,
+            note: 'Commissioner action',
           });
           break;
         }
@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { useAuth } from '../contexts/AuthContext';
+import { saveSeasonResults } from '../lib/recordBook';
+import type { PodiumEntry } from '../lib/recordBook';
+import type { Team } from '../types';
+import { mapPlayoffBracket, mapSeasonResult, mapTeam } from '../lib/mappers';
+
+// Select value for a finisher who isn't a current team (former owners)
+const FORMER_OWNER = '__former';
+
+interface AdminSeasonResultsProps {
+  leagueId: string;
+  seasonYear: number;
+  onClose: () => void;
+}
+
+export function AdminSeasonResults({ leagueId, seasonYear: initialSeasonYear, onClose }: AdminSeasonResultsProps) {
+  const { user } = useAuth();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [seasonYear, setSeasonYear] = useState(initialSeasonYear);
+  const [champion, setChampion] = useState<PodiumEntry | null>(null);
+  const [runnerUp, setRunnerUp] = useState<PodiumEntry | null>(null);
+  const [thirdPlace, setThirdPlace] = useState<PodiumEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchTeams = async () => {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('*')
+        .eq('league_id', leagueId)
+        .order('name');
+
+      if (error) logger.error('Error loading teams:', error);
+      setTeams((data || []).map(mapTeam));
+      setLoading(false);
+    };
+
+    fetchTeams();
+  }, [leagueId]);
+
+  // Prefill from an existing record so re-opening edits rather than starts over,
+  // falling back to the finished playoff bracket
+  useEffect(() => {
+    if (loading) return;
+    const fetchExisting = async () => {
+      const [resultRes, bracketRes] = await Promise.all([
+        supabase.from('season_results').select('*').eq('id', `${leagueId}_${seasonYear}`).maybeSingle(),
+        supabase.from('playoff_brackets').select('*').eq('id', `${leagueId}_${seasonYear}`).maybeSingle(),
+      ]);
+
+      const entry = (teamId?: string, name?: string): PodiumEntry | null => {
+        const teamName = name || teams.find(t => t.id === teamId)?.name;
+        return teamName ? { teamId, name: teamName } : null;
+      };
+      if (resultRes.data) {
+        const existing = mapSeasonResult(resultRes.data);
+        setChampion(entry(existing.championTeamId, existing.championName));
+        setRunnerUp(entry(existing.runnerUpTeamId, existing.runnerUpName));
+        setThirdPlace(entry(existing.thirdPlaceTeamId, existing.thirdPlaceName));
+      } else {
+        const bracket = bracketRes.data ? mapPlayoffBracket(bracketRes.data) : null;
+        setChampion(entry(bracket?.championTeamId));
+        setRunnerUp(entry(bracket?.runnerUpTeamId));
+        setThirdPlace(entry(bracket?.thirdPlaceTeamId));
+      }
+    };
+
+    fetchExisting();
+  }, [leagueId, seasonYear, loading, teams]);
+
+  const finisher = (entry: PodiumEntry | null): PodiumEntry | undefined => {
+    const name = entry?.name.trim();
+    return name ? { teamId: entry!.teamId, name } : undefined;
+  };
+
+  const handleSave = async () => {
+    const podium = { champion: finisher(champion), runnerUp: finisher(runnerUp), thirdPlace: finisher(thirdPlace) };
+    if (!podium.champion) {
+      toast.error('Select a champion');
+      return;
+    }
+    const picked = [podium.champion, podium.runnerUp, podium.thirdPlace]
+      .filter((p): p is PodiumEntry => !!p)
+      .map(p => p.teamId || p.name.toLowerCase());
+    if (new Set(picked).size !== picked.length) {
+      toast.error('A team can only finish in one place');
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveSeasonResults({
+      leagueId,
+      seasonYear,
+      champion: podium.champion,
+      runnerUp: podium.runnerUp,
+      thirdPlace: podium.thirdPlace,
+      recordedBy: user?.email || 'unknown',
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      toast.error(`Failed to save results: ${result.error}`);
+      return;
+    }
+    toast.success(`${seasonYear} results recorded — ${podium.champion.name} crowned champion`);
+    onClose();
+  };
+
+  const selectClass = 'w-full rounded-md bg-mns-dark border border-gray-700 text-white px-3 py-2 text-sm focus:border-green-400 focus:ring-green-400';
+  const places = [
+    { label: '🥇 Champion', entry: champion, onChange: setChampion },
+    { label: '🥈 Runner-up', entry: runnerUp, onChange: setRunnerUp },
+    { label: '🥉 Third Place', entry: thirdPlace, onChange: setThirdPlace },
+  ];
+  const selectValue = (entry: PodiumEntry | null) =>
+    !entry ? '' : entry.teamId && teams.some(t => t.id === entry.teamId) ? entry.teamId : FORMER_OWNER;
+  const handleSelect = (value: string, onChange: (entry: PodiumEntry | null) => void) => {
+    if (value === FORMER_OWNER) {
+      onChange({ name: '' });
+      return;
+    }
+    const team = teams.find(t => t.id === value);
+    onChange(team ? { teamId: team.id, name: team.name } : null);
+  };
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <div className="text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-mns-card rounded-lg border border-gray-800 max-w-md w-full my-8">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-800">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-white">Season Results</h2>
+              <p className="text-sm text-gray-400 mt-1">Final standings shown in the Record Book</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Season</label>
+            <input
+              type="number"
+              value={seasonYear}
+              onChange={(e) => setSeasonYear(parseInt(e.target.value) || initialSeasonYear)}
+              className={selectClass}
+            />
+          </div>
+          {places.map(place => (
+            <div key={place.label}>
+              <label className="block text-sm font-medium text-gray-300 mb-1">{place.label}</label>
+              <select value={selectValue(place.entry)} onChange={(e) => handleSelect(e.target.value, place.onChange)} className={selectClass}>
+                <option value="">—</option>
+                {teams.map(team => (
+                  <option key={team.id} value={team.id}>{team.name}</option>
+                ))}
+                <option value={FORMER_OWNER}>Former owner…</option>
+              </select>
+              {selectValue(place.entry) === FORMER_OWNER && (
+                <input
+                  type="text"
+                  value={place.entry?.name || ''}
+                  onChange={(e) => place.onChange({ ...place.entry, name: e.target.value })}
+                  placeholder="Owner or team name"
+                  className={`${selectClass} mt-2`}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-gray-800 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-400 hover:text-white"
+          >
+            Skip
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !champion?.name.trim()}
+            className="px-5 py-2 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Results'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
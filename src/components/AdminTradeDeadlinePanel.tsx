@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTradeProposals } from '../hooks/useTradeProposals';
+import { grantTradeDeadlineException } from '../lib/tradeDeadline';
+import { isTradeDeadlinePassed } from '../lib/scheduleUtils';
+import type { LeagueSchedule, Team } from '../types';
+
+interface AdminTradeDeadlinePanelProps {
+  leagueId: string;
+  schedule?: LeagueSchedule;
+  teams: Team[];
+}
+
+export function AdminTradeDeadlinePanel({ leagueId, schedule, teams }: AdminTradeDeadlinePanelProps) {
+  const queryClient = useQueryClient();
+  const { proposals, deadlineExceptions, loading } = useTradeProposals(leagueId);
+  const [teamIds, setTeamIds] = useState<string[]>([]);
+  const [reason, setReason] = useState('');
+  const [hours, setHours] = useState(24);
+  const [isGranting, setIsGranting] = useState(false);
+
+  const deadlinePassed = isTradeDeadlinePassed(schedule);
+  const teamName = (id: string) => teams.find(t => t.id === id)?.name || id;
+  const tradesUsing = (exceptionId: string) => proposals.filter(p => p.deadlineExceptionId === exceptionId).length;
+
+  const toggleTeam = (id: string) =>
+    setTeamIds(prev => (prev.includes(id) ? prev.filter(t => t !== id) : [...prev, id]));
+
+  const handleGrant = async () => {
+    if (!confirm(`Let ${teamIds.map(teamName).join(', ')} trade past the deadline for ${hours}h?\n\nReason: ${reason}`)) return;
+
+    setIsGranting(true);
+    const result = await grantTradeDeadlineException({
+      leagueId,
+      teamIds,
+      reason,
+      expiresAt: Date.now() + hours * 60 * 60 * 1000,
+    });
+    setIsGranting(false);
+    if (!result.success) {
+      toast.error(`Failed to grant exception: ${result.error}`);
+      return;
+    }
+    toast.success('Deadline exception granted');
+    setTeamIds([]);
+    setReason('');
+    queryClient.invalidateQueries({ queryKey: ['tradeProposals', leagueId] });
+  };
+
+  return (
+    <div className="bg-mns-card rounded-lg border border-gray-800 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">Trade Deadline</h2>
+        <span className={`text-xs ${deadlinePassed ? 'text-red-400' : 'text-gray-500'}`}>
+          {!schedule?.tradeDeadlineDate
+            ? 'No deadline set'
+            : `${deadlinePassed ? 'Passed' : 'Closes end of'} ${schedule.tradeDeadlineDate} (ET)`}
+        </span>
+      </div>
+
+      {deadlinePassed && (
+        <div className="space-y-3 mb-6">
+          <p className="text-sm text-gray-400">
+            Grant an exception to let specific teams propose and complete trades with each other after the deadline.
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {teams.map(team => (
+              <label key={team.id} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={teamIds.includes(team.id)}
+                  onChange={() => toggleTeam(team.id)}
+                  className="rounded border-gray-600"
+                />
+                <span className="truncate">{team.name}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              placeholder="Reason (recorded for audit)"
+              value={reason}
+              maxLength={500}
+              onChange={(e) => setReason(e.target.value)}
+              className="flex-1 min-w-[200px] px-3 py-2 bg-mns-dark border border-gray-700 rounded text-white text-sm"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Open for
+              <input
+                type="number"
+                min={1}
+                max={168}
+                value={hours}
+                onChange={(e) => setHours(Math.max(1, Number(e.target.value) || 1))}
+                className="w-20 px-2 py-2 bg-mns-dark border border-gray-700 rounded text-white text-sm"
+              />
+              hours
+            </label>
+            <button
+              onClick={handleGrant}
+              disabled={isGranting || teamIds.length < 2 || !reason.trim()}
+              className="px-4 py-2 bg-yellow-400/10 text-yellow-400 border border-yellow-400/30 rounded text-sm font-semibold hover:bg-yellow-400/20 disabled:opacity-50"
+            >
+              {isGranting ? 'Granting...' : 'Grant Exception'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Exception Log</h3>
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : deadlineExceptions.length === 0 ? (
+        <p className="text-sm text-gray-500">No deadline exceptions granted</p>
+      ) : (
+        <ul className="space-y-2">
+          {deadlineExceptions.map(exception => {
+            const active = exception.expiresAt > Date.now();
+            const used = tradesUsing(exception.id);
+            return (
+              <li key={exception.id} className="text-sm bg-mns-dark rounded p-3 border border-gray-800">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-white truncate">{exception.teamIds.map(teamName).join(', ')}</span>
+                  <span className={`text-xs shrink-0 ${active ? 'text-yellow-400' : 'text-gray-500'}`}>
+                    {active ? `Open until ${new Date(exception.expiresAt).toLocaleString()}` : 'Expired'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-400 mt-1">{exception.reason}</div>
+                <div className="text-xs text-gray-600 mt-1">
+                  Granted by {exception.grantedBy} on {new Date(exception.createdAt).toLocaleString()}
+                  {used > 0 && ` · used by ${used} trade${used !== 1 ? 's' : ''}`}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '../contexts/AuthContext';
+import { useTradeProposals } from '../hooks/useTradeProposals';
+import { commissionerVetoTrade, finalizeTradeReview, isReviewOpen } from '../lib/tradeReview';
+import type { LeagueTradeReviewSettings, TradeProposal } from '../types';
+
+interface AdminTradeReviewPanelProps {
+  leagueId: string;
+  settings: LeagueTradeReviewSettings;
+  onTradeExecuted?: () => void;
+}
+
+const teamsLabel = (proposal: TradeProposal) => {
+  const names = new Map<string, string>();
+  proposal.assets.forEach(a => {
+    names.set(a.fromTeamId, a.fromTeamName);
+    names.set(a.toTeamId, a.toTeamName);
+  });
+  return Array.from(names.values()).join(' / ');
+};
+
+export function AdminTradeReviewPanel({ leagueId, settings, onTradeExecuted }: AdminTradeReviewPanelProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { proposals, reviewProposals, vetoVotes, loading } = useTradeProposals(leagueId);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const recentVetoes = proposals.filter(p => p.status === 'vetoed').slice(0, 5);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['tradeProposals', leagueId] });
+
+  const handleVeto = async (proposal: TradeProposal) => {
+    const reason = (reasons[proposal.id] || '').trim();
+    if (!reason) {
+      toast.error('Enter a reason for the veto');
+      return;
+    }
+    if (!confirm(`Veto ${teamsLabel(proposal)}?\n\nReason: ${reason}`)) return;
+
+    setBusyId(proposal.id);
+    const result = await commissionerVetoTrade({ proposalId: proposal.id, reason });
+    setBusyId(null);
+    if (!result.success) {
+      toast.error(`Veto failed: ${result.error}`);
+      return;
+    }
+    toast.success('Trade vetoed');
+    refresh();
+  };
+
+  const handleExecute = async (proposal: TradeProposal) => {
+    setBusyId(proposal.id);
+    const result = await finalizeTradeReview(proposal, user?.email || 'commissioner');
+    setBusyId(null);
+    if (!result.success) {
+      toast.error(`Trade execution failed: ${result.error}`);
+      return;
+    }
+    toast.success('Trade executed');
+    refresh();
+    onTradeExecuted?.();
+  };
+
+  return (
+    <div className="bg-mns-card rounded-lg border border-gray-800 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">Trades Under Review</h2>
+        <span className="text-xs text-gray-500">
+          {settings.enabled
+            ? `${settings.reviewHours}h review · ${settings.vetoVotesRequired} owner votes to veto`
+            : 'Review period off — accepted trades execute immediately'}
+        </span>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : reviewProposals.length === 0 ? (
+        <p className="text-sm text-gray-500">No trades are under review</p>
+      ) : (
+        <div className="space-y-3">
+          {reviewProposals.map(proposal => {
+            const open = isReviewOpen(proposal);
+            const votes = vetoVotes.get(proposal.id) || [];
+            return (
+              <div key={proposal.id} className="bg-mns-dark rounded-lg p-4 border border-orange-400/30">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-white font-medium truncate">{teamsLabel(proposal)}</div>
+                    <div className="text-xs text-gray-400 truncate">
+                      {proposal.assets.map(a => `${a.displayName} → ${a.toTeamName}`).join(' · ')}
+                    </div>
+                  </div>
+                  <div className="text-right text-xs shrink-0">
+                    <div className="text-orange-400">
+                      {open ? `Executes ${new Date(proposal.reviewEndsAt!).toLocaleString()}` : 'Review closed'}
+                    </div>
+                    <div className="text-gray-500">Veto votes: {votes.length}/{settings.vetoVotesRequired}</div>
+                  </div>
+                </div>
+
+                <div className="mt-3 flex items-center gap-3">
+                  {open ? (
+                    <>
+                      <input
+                        type="text"
+                        placeholder="Veto reason (shown to owners)"
+                        value={reasons[proposal.id] || ''}
+                        onChange={(e) => setReasons(prev => ({ ...prev, [proposal.id]: e.target.value }))}
+                        className="flex-1 px-3 py-2 bg-mns-card border border-gray-700 rounded text-white text-sm"
+                      />
+                      <button
+                        onClick={() => handleVeto(proposal)}
+                        disabled={busyId === proposal.id}
+                        className="px-4 py-2 bg-red-400/10 text-red-400 border border-red-400/30 rounded text-sm font-semibold hover:bg-red-400/20 disabled:opacity-50"
+                      >
+                        Veto Trade
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => handleExecute(proposal)}
+                      disabled={busyId === proposal.id}
+                      className="px-4 py-2 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {busyId === proposal.id ? 'Executing...' : 'Execute Now'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {recentVetoes.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Recently Vetoed</h3>
+          <ul className="space-y-1">
+            {recentVetoes.map(proposal => (
+              <li key={proposal.id} className="text-sm flex items-center justify-between gap-4">
+                <span className="text-gray-300 truncate">{teamsLabel(proposal)}</span>
+                <span className="text-xs text-red-400 shrink-0">
+                  {proposal.vetoedBy === 'league_vote' ? 'League vote' : `Commissioner: ${proposal.vetoReason || 'no reason'}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { useMatchups } from '../hooks/useMatchups';
+import { useWaiverClaims } from '../hooks/useWaiverClaims';
+import { computeFaabRemaining, computeWaiverPriority, processWaivers } from '../lib/waiverOps';
+import type { LeagueWaiverSettings, ScoringMode, Team } from '../types';
+import { mapTeam, mapWaiverOrder } from '../lib/mappers';
+
+interface AdminWaiverManagerProps {
+  leagueId: string;
+  seasonYear: number;
+  scoringMode: ScoringMode;
+  waiverSettings: LeagueWaiverSettings;
+  onClose: () => void;
+}
+
+export function AdminWaiverManager({ leagueId, seasonYear, scoringMode, waiverSettings, onClose }: AdminWaiverManagerProps) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [rollingOrder, setRollingOrder] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const { records } = useMatchups({ leagueId, seasonYear, scoringMode });
+  const { claims, runs } = useWaiverClaims({ leagueId, seasonYear });
+
+  const fetchOrder = useCallback(async () => {
+    const { data } = await supabase
+      .from('waiver_orders')
+      .select('*')
+      .eq('id', `${leagueId}_${seasonYear}`)
+      .maybeSingle();
+    setRollingOrder(data ? mapWaiverOrder(data).teamIds : []);
+  }, [leagueId, seasonYear]);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const { data: teamRows } = await supabase
+          .from('teams')
+          .select('*')
+          .eq('league_id', leagueId)
+          .order('name');
+        setTeams((teamRows || []).map(mapTeam));
+        await fetchOrder();
+      } catch (err) {
+        logger.error('Error loading waiver data:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [leagueId, fetchOrder]);
+
+  const teamById = useMemo(() => new Map(teams.map(t => [t.id, t])), [teams]);
+
+  const priorityOrder = useMemo(
+    () => computeWaiverPriority({
+      teamIds: teams.map(t => t.id),
+      mode: waiverSettings.priorityMode,
+      records,
+      rollingOrder,
+    }),
+    [teams, waiverSettings.priorityMode, records, rollingOrder]
+  );
+
+  const isFaab = waiverSettings.claimMode === 'faab';
+  const faabRemaining = useMemo(
+    () => computeFaabRemaining(waiverSettings.faabBudget, teams.map(t => t.id), claims),
+    [waiverSettings.faabBudget, teams, claims]
+  );
+
+  const pendingClaims = claims.filter(c => c.status === 'pending');
+
+  const handleProcess = async () => {
+    if (!confirm(`Process ${pendingClaims.length} pending claim(s)? Awarded players are moved immediately.`)) return;
+
+    setProcessing(true);
+    const result = await processWaivers({
+      leagueId,
+      seasonYear,
+      records,
+    });
+    setProcessing(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to process waivers');
+      return;
+    }
+
+    toast.success(
+      `Waivers processed: ${result.awarded} awarded, ${result.failed} failed` +
+      (result.deferred ? `, ${result.deferred} still on waivers` : '')
+    );
+    fetchOrder();
+  };
+
+  const teamName = (teamId: string) => teamById.get(teamId)?.name || teamId;
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+        <div className="text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-mns-card rounded-lg border border-gray-800 max-w-4xl w-full my-8">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-800">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-white">Manage Waivers</h2>
+              <p className="text-sm text-gray-400 mt-1">
+                {seasonYear} Season — {isFaab ? `FAAB ($${waiverSettings.faabBudget} budget), ` : ''}
+                {waiverSettings.priorityMode === 'rolling' ? 'Rolling' : 'Reverse standings'} priority, {waiverSettings.periodHours}h waiver period
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 grid md:grid-cols-2 gap-6">
+          {/* Priority Order */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3">
+              {isFaab ? 'Tiebreak Priority' : 'Current Priority'}
+            </h3>
+            <ol className="space-y-1">
+              {priorityOrder.map((teamId, index) => {
+                const record = records.get(teamId);
+                return (
+                  <li key={teamId} className="flex items-center gap-2 p-2 bg-mns-dark border border-gray-800 rounded">
+                    <span className="text-green-400 font-bold text-sm w-6 text-right">{index + 1}.</span>
+                    <span className="flex-1 text-white text-sm truncate">{teamName(teamId)}</span>
+                    {record && (
+                      <span className="text-xs text-gray-500 tabular-nums">
+                        {record.wins}-{record.losses}-{record.ties}
+                      </span>
+                    )}
+                    {isFaab && (
+                      <span className="text-xs text-green-400 tabular-nums w-12 text-right">
+                        ${faabRemaining.get(teamId) ?? waiverSettings.faabBudget}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+
+          {/* Pending Claims */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">
+                Pending Claims ({pendingClaims.length})
+              </h3>
+              <button
+                onClick={handleProcess}
+                disabled={processing || pendingClaims.length === 0}
+                className="px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {processing ? 'Processing...' : 'Process Waivers'}
+              </button>
+            </div>
+            {pendingClaims.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center">No pending claims</p>
+            ) : (
+              <div className="space-y-1">
+                {[...pendingClaims].sort((a, b) => a.createdAt - b.createdAt).map(claim => (
+                  <div key={claim.id} className="p-2 bg-mns-dark border border-gray-800 rounded text-sm">
+                    <div className="text-white">
+                      {teamName(claim.teamId)} → <span className="text-green-400">{claim.playerName}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {isFaab ? 'Blind bid · ' : ''}
+                      {claim.dropPlayerName ? `Drop ${claim.dropPlayerName} · ` : ''}
+                      {new Date(claim.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Recent Runs */}
+        <div className="px-6 pb-6">
+          <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3">Recent Runs</h3>
+          {runs.length === 0 ? (
+            <p className="text-sm text-gray-500">No waiver runs yet this season</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="text-left py-1">Processed</th>
+                  <th className="text-left py-1">By</th>
+                  <th className="text-center py-1">Awarded</th>
+                  <th className="text-center py-1">Failed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr key={run.id} className="border-t border-gray-800">
+                    <td className="py-1.5 text-gray-300">{new Date(run.processedAt).toLocaleString()}</td>
+                    <td className="py-1.5 text-gray-400">{run.processedBy}</td>
+                    <td className="py-1.5 text-center text-green-400">{run.awarded}</td>
+                    <td className="py-1.5 text-center text-red-400">{run.failed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
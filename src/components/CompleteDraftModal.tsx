@@ -3,19 +3,9 @@ import { useModalA11y } from '../hooks/useModalA11y';
 import { toast } from 'sonner';
 import { supabase } from '../lib/supabase';
 import { logger } from '../lib/logger';
-import { stackKeeperRounds } from '../lib/keeperAlgorithms';
-import type {
-  Draft,
-  Team,
-  Player,
-  RosterDoc,
-  DraftHistory,
-  DraftHistoryPick,
-  DraftHistoryKeeper,
-  DraftHistoryPlayer,
-  PlayerSlot,
-  TeamFees
-} from '../types';
+import { completeDraft } from '../lib/draftCompletion';
+import type { DraftCompletionError } from '../lib/draftCompletion';
+import type { Draft, Team, Player, RosterDoc, LeagueKeeperRules } from '../types';
 import { mapTeam, mapPlayer } from '../lib/mappers';
 
 interface CompleteDraftModalProps {
@@ -23,6 +13,7 @@ interface CompleteDraftModalProps {
   leagueId: string;
   seasonYear: number;
   maxActive?: number;
+  keeperRules?: LeagueKeeperRules;
   onClose: () => void;
   onComplete: () => void;
   currentUserEmail: string;
@@ -35,7 +26,8 @@ export function CompleteDraftModal({
   onClose,
   onComplete,
   currentUserEmail,
-  maxActive: _maxActive = 13
+  maxActive = 13,
+  keeperRules
 }: CompleteDraftModalProps) {
   const [teams, setTeams] = useState<Team[]>([]);
   const [players, setPlayers] = useState<Map<string, Player>>(new Map());
@@ -43,6 +35,7 @@ export function CompleteDraftModal({
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
   const [step, setStep] = useState<'confirm' | 'processing' | 'complete'>('confirm');
+  const [errors, setErrors] = useState<DraftCompletionError[]>([]);
   const { modalRef } = useModalA11y({ isOpen: true, onClose });
 
   useEffect(() => {
@@ -101,274 +94,35 @@ export function CompleteDraftModal({
     }
   };
 
-  const completeDraft = async () => {
+  const handleComplete = async () => {
     setProcessing(true);
     setStep('processing');
+    setErrors([]);
 
-    try {
-      // Step 1: Create Draft History
-      const draftHistory = createDraftHistory();
-      const draftHistoryId = `${leagueId}_${seasonYear}`;
-      const { error: historyError } = await supabase
-        .from('draft_history')
-        .upsert({
-          id: draftHistoryId,
-          league_id: draftHistory.leagueId,
-          season_year: draftHistory.seasonYear,
-          picks: draftHistory.picks,
-          keepers: draftHistory.keepers,
-          redshirt_players: draftHistory.redshirtPlayers,
-          international_players: draftHistory.internationalPlayers,
-          completed_at: draftHistory.completedAt,
-          completed_by: draftHistory.completedBy,
-        });
-
-      if (historyError) throw historyError;
-
-      // Step 2: Set players.team_id + players.slot for each team
-      for (const team of teams) {
-        const slotAssignments = getTeamSlotAssignments(team);
-
-        for (const { playerId, slot } of slotAssignments) {
-          const { error: slotError } = await supabase
-            .from('players')
-            .update({ team_id: team.id, slot, on_ir: slot === 'ir' })
-            .eq('id', playerId);
-
-          if (slotError) {
-            logger.error(`Failed to set slot for player ${playerId} on team ${team.name}:`, slotError);
-          }
-        }
-      }
-
-      // Step 3: Create Team Fees documents (pre-draft fees only)
-      for (const team of teams) {
-        const teamFeesData = createTeamFees(team);
-        const feesId = `${leagueId}_${team.id}_${seasonYear}`;
-        const { error: feesError } = await supabase
-          .from('team_fees')
-          .upsert({
-            id: feesId,
-            league_id: teamFeesData.leagueId,
-            team_id: teamFeesData.teamId,
-            season_year: teamFeesData.seasonYear,
-            franchise_tag_fees: teamFeesData.franchiseTagFees,
-            redshirt_fees: teamFeesData.redshirtFees,
-            first_apron_fee: teamFeesData.firstApronFee,
-            second_apron_penalty: teamFeesData.secondApronPenalty,
-            unredshirt_fees: teamFeesData.unredshirtFees,
-            fees_locked: teamFeesData.feesLocked,
-            total_fees: teamFeesData.totalFees,
-            fee_transactions: teamFeesData.feeTransactions,
-            created_at: teamFeesData.createdAt,
-            updated_at: teamFeesData.updatedAt,
-          });
-
-        if (feesError) throw feesError;
-      }
-
-      // Step 4: Update draft status
-      const draftId = `${leagueId}_${seasonYear}`;
-      const { error: draftError } = await supabase
-        .from('drafts')
-        .update({
-          status: 'completed',
-          completed_at: Date.now()
-        })
-        .eq('id', draftId);
-
-      if (draftError) throw draftError;
-
-      // Step 5: Update league status
-      const { error: leagueError } = await supabase
-        .from('leagues')
-        .update({
-          draft_status: 'completed',
-          season_status: 'pre_season',
-          league_phase: 'regular_season',
-        })
-        .eq('id', leagueId);
-
-      if (leagueError) throw leagueError;
-
-      setStep('complete');
-      setTimeout(() => {
-        onComplete();
-      }, 2000);
-    } catch (error) {
-      logger.error('Error completing draft:', error);
-      toast.error(`Failed to complete draft: ${error}`);
-      setProcessing(false);
-      setStep('confirm');
-    }
-  };
-
-  const createDraftHistory = (): DraftHistory => {
-    const picks: DraftHistoryPick[] = [];
-    const keepers: DraftHistoryKeeper[] = [];
-    const redshirtPlayers: DraftHistoryPlayer[] = [];
-    const internationalPlayers: DraftHistoryPlayer[] = [];
-
-    // Process all draft picks
-    draft.picks.forEach(pick => {
-      if (pick.playerId && pick.playerName) {
-        const player = players.get(pick.playerId);
-        const team = teams.find(t => t.id === pick.teamId);
-
-        if (player && team) {
-          picks.push({
-            overallPick: pick.overallPick,
-            round: pick.round,
-            pickInRound: pick.pickInRound,
-            teamId: team.id,
-            teamName: team.name,
-            teamAbbrev: team.abbrev,
-            playerId: player.id,
-            playerName: player.name,
-            salary: player.salary,
-            nextYearKeeperRound: Math.max(1, pick.round - 1)
-          });
-        }
-      }
-    });
-
-    // Process keepers from rosters
-    rosters.forEach((roster, teamId) => {
-      const team = teams.find(t => t.id === teamId);
-      if (!team) return;
-
-      const { entries: stackedEntries } = stackKeeperRounds(roster.entries);
-
-      stackedEntries.forEach(entry => {
-        const player = players.get(entry.playerId);
-        if (!player) return;
-
-        if (entry.decision === 'KEEP' && entry.keeperRound && entry.baseRound) {
-          keepers.push({
-            teamId: team.id,
-            teamName: team.name,
-            teamAbbrev: team.abbrev,
-            playerId: player.id,
-            playerName: player.name,
-            salary: player.salary,
-            baseRound: entry.baseRound,
-            keeperRound: entry.keeperRound,
-            nextYearKeeperRound: Math.max(1, entry.keeperRound - 1)
-          });
-        } else if (entry.decision === 'REDSHIRT') {
-          redshirtPlayers.push({
-            teamId: team.id,
-            teamName: team.name,
-            teamAbbrev: team.abbrev,
-            playerId: player.id,
-            playerName: player.name
-          });
-        } else if (entry.decision === 'INT_STASH') {
-          internationalPlayers.push({
-            teamId: team.id,
-            teamName: team.name,
-            teamAbbrev: team.abbrev,
-            playerId: player.id,
-            playerName: player.name
-          });
-        }
-      });
-    });
-
-    return {
-      id: `${leagueId}_${seasonYear}`,
+    const result = await completeDraft({
+      draft,
       leagueId,
       seasonYear,
-      picks,
-      keepers,
-      redshirtPlayers,
-      internationalPlayers,
-      completedAt: Date.now(),
-      completedBy: currentUserEmail
-    };
-  };
-
-  const getTeamSlotAssignments = (team: Team): { playerId: string; slot: PlayerSlot }[] => {
-    const assignments: { playerId: string; slot: PlayerSlot }[] = [];
-    const roster = rosters.get(team.id);
-
-    // Add keepers with their appropriate slots
-    if (roster) {
-      roster.entries.forEach(entry => {
-        if (entry.decision === 'KEEP') {
-          assignments.push({ playerId: entry.playerId, slot: 'active' });
-        } else if (entry.decision === 'REDSHIRT') {
-          assignments.push({ playerId: entry.playerId, slot: 'redshirt' });
-        } else if (entry.decision === 'INT_STASH') {
-          assignments.push({ playerId: entry.playerId, slot: 'international' });
-        }
-      });
-    }
-
-    // Add drafted players to active roster
-    draft.picks.forEach(pick => {
-      if (pick.teamId === team.id && pick.playerId && !pick.isKeeperSlot) {
-        assignments.push({ playerId: pick.playerId, slot: 'active' });
-      }
+      teams,
+      players,
+      rosters,
+      maxActive,
+      completedBy: currentUserEmail,
+      keeperRules,
     });
 
-    return assignments;
-  };
-
-  const createTeamFees = (team: Team): TeamFees => {
-    const roster = rosters.get(team.id);
-
-    let franchiseTags = 0;
-    let redshirtCount = 0;
-
-    if (roster) {
-      const { franchiseTags: tags } = stackKeeperRounds(roster.entries);
-      franchiseTags = tags;
-      redshirtCount = roster.entries.filter(e => e.decision === 'REDSHIRT').length;
-
-      console.log(`[CompleteDraftModal] Team ${team.name}:`, {
-        franchiseTags,
-        redshirtCount,
-        rosterEntriesCount: roster.entries.length
-      });
-    } else {
-      console.log(`[CompleteDraftModal] No roster found for team ${team.name}`);
+    if (!result.success) {
+      setErrors(result.errors);
+      toast.error(`Failed to complete draft: ${result.error}`);
+      setProcessing(false);
+      setStep('confirm');
+      return;
     }
 
-    const franchiseTagFees = franchiseTags * 15;
-    const redshirtFees = redshirtCount * 10;
-
-    return {
-      id: `${leagueId}_${team.id}_${seasonYear}`,
-      leagueId,
-      teamId: team.id,
-      seasonYear,
-      franchiseTagFees,
-      redshirtFees,
-      firstApronFee: 0,
-      secondApronPenalty: 0,
-      unredshirtFees: 0,
-      feesLocked: false,
-      totalFees: franchiseTagFees + redshirtFees,
-      feeTransactions: [
-        ...(franchiseTags > 0 ? [{
-          type: 'franchise' as const,
-          amount: franchiseTagFees,
-          timestamp: Date.now(),
-          triggeredBy: currentUserEmail,
-          note: `${franchiseTags} franchise tag${franchiseTags > 1 ? 's' : ''}`
-        }] : []),
-        ...(redshirtCount > 0 ? [{
-          type: 'redshirt' as const,
-          amount: redshirtFees,
-          timestamp: Date.now(),
-          triggeredBy: currentUserEmail,
-          note: `${redshirtCount} redshirt player${redshirtCount > 1 ? 's' : ''}`
-        }] : [])
-      ],
-      createdAt: Date.now(),
-      updatedAt: Date.now()
-    };
+    setStep('complete');
+    setTimeout(() => {
+      onComplete();
+    }, 2000);
   };
 
   if (loading) {
@@ -463,6 +217,22 @@ export function CompleteDraftModal({
           </div>
         </div>
 
+        {/* Validation Errors */}
+        {errors.length > 0 && (
+          <div className="p-6 border-b border-gray-800">
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+              <div className="font-semibold text-red-400 mb-2">
+                {errors.length} problem{errors.length !== 1 ? 's' : ''} must be fixed before the draft can be archived
+              </div>
+              <ul className="list-disc list-inside text-sm text-gray-300 space-y-1">
+                {errors.map((err, idx) => (
+                  <li key={`${err.code}-${idx}`}>{err.message}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
         {/* Warning */}
         <div className="p-6 border-b border-gray-800">
           <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4">
@@ -495,7 +265,7 @@ export function CompleteDraftModal({
             Cancel
           </button>
           <button
-            onClick={completeDraft}
+            onClick={handleComplete}
             disabled={processing}
             className="flex-1 px-6 py-3 bg-purple-500 text-white font-semibold rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -4,9 +4,10 @@ interface DraftBoardViewProps {
   players: Player[];
   entries: RosterEntry[];
   pickAssignments?: PickAssignment[];  // NEW: Pick assignments from pickAssignments collection
+  onClockPick?: number | null;  // Overall pick currently on the clock (live draft)
 }
 
-export function DraftBoardView({ players, entries, pickAssignments = [] }: DraftBoardViewProps) {
+export function DraftBoardView({ players, entries, pickAssignments = [], onClockPick = null }: DraftBoardViewProps) {
   const playersMap = new Map(players.map(p => [p.id, p]));
 
   // Group ALL picks by round from pickAssignments (source of truth)
@@ -42,6 +43,7 @@ export function DraftBoardView({ players, entries, pickAssignments = [] }: Draft
               {roundPicks.map((pick, index) => {
                 const player = playersMap.get(pick.playerId!);
                 const isKeeper = pick.isKeeperSlot;
+                const isOnClock = !player && pick.overallPick === onClockPick;
 
                 return (
                   <div
@@ -49,7 +51,9 @@ export function DraftBoardView({ players, entries, pickAssignments = [] }: Draft
                     className={`flex items-center gap-4 p-4 rounded-lg border ${
                       isKeeper
                         ? 'bg-green-400/5 border-green-400/30'
-                        : 'bg-purple-400/5 border-purple-400/30'
+                        : isOnClock
+                          ? 'bg-yellow-400/10 border-yellow-400/50'
+                          : 'bg-purple-400/5 border-purple-400/30'
                     }`}
                   >
                     {/* Round Number (only show for first pick in round) */}
@@ -105,7 +109,11 @@ export function DraftBoardView({ players, entries, pickAssignments = [] }: Draft
                       </div>
                     ) : (
                       <div className="flex-1">
-                        <span className="text-gray-500 text-sm">Available</span>
+                        {isOnClock ? (
+                          <span className="text-yellow-400 text-sm font-semibold">On the clock</span>
+                        ) : (
+                          <span className="text-gray-500 text-sm">Available</span>
+                        )}
                         {pick.wasTraded && pick.originalTeamAbbrev && (
                           <span className="text-xs text-gray-500 ml-2">
                             (from {pick.originalTeamAbbrev})
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { logger } from '../lib/logger';
+import { saveDraftQueue } from '../hooks/useDraftQueue';
+import type { DraftQueue, Player, ProjectedStats, WatchList } from '../types';
+
+interface DraftQueuePanelProps {
+  draftId: string;
+  leagueId: string;
+  teamId: string;
+  queue: DraftQueue | null;
+  setQueue: (queue: DraftQueue | null) => void;
+  watchList: WatchList | null;
+  players: Player[];
+  draftedPlayerIds: Set<string>;
+  projectedStats: Map<string, ProjectedStats>;
+}
+
+export function DraftQueuePanel({
+  draftId,
+  leagueId,
+  teamId,
+  queue,
+  setQueue,
+  watchList,
+  players,
+  draftedPlayerIds,
+  projectedStats,
+}: DraftQueuePanelProps) {
+  const [saving, setSaving] = useState(false);
+
+  // Only undrafted free agents can still be autopicked
+  const availableByFantraxId = new Map(
+    players
+      .filter(p => !p.roster?.teamId && !draftedPlayerIds.has(p.id))
+      .map(p => [p.fantraxId, p])
+  );
+
+  const queuedIds = (queue?.playerIds || []).filter(id => availableByFantraxId.has(id));
+
+  const save = async (playerIds: string[]) => {
+    setSaving(true);
+    try {
+      setQueue(await saveDraftQueue(draftId, leagueId, teamId, playerIds));
+    } catch (error) {
+      logger.error('Error saving draft queue:', error);
+      toast.error('Failed to save draft queue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBuildFromWatchList = () => {
+    const watched = (watchList?.playerIds || []).filter(id => availableByFantraxId.has(id));
+    const merged = [...queuedIds, ...watched.filter(id => !queuedIds.includes(id))];
+    if (merged.length === queuedIds.length) {
+      toast.info('No available watch list players to add');
+      return;
+    }
+    save(merged);
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= queuedIds.length) return;
+    const reordered = [...queuedIds];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    save(reordered);
+  };
+
+  const handleRemove = (fantraxId: string) => {
+    save(queuedIds.filter(id => id !== fantraxId));
+  };
+
+  const handleClear = () => {
+    if (!confirm('Clear your draft queue?')) return;
+    save([]);
+  };
+
+  return (
+    <div className="bg-mns-card rounded-lg border border-gray-800 p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-lg font-bold text-white">Draft Queue</h2>
+          <p className="text-xs text-gray-500">
+            {queue
+              ? 'Autopick takes the first available player here when your clock runs out'
+              : 'No queue saved — autopick uses your watch list order, then best available'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleBuildFromWatchList}
+            disabled={saving}
+            className="px-3 py-1.5 text-xs bg-purple-500/20 text-purple-400 rounded hover:bg-purple-500/30 transition-colors disabled:opacity-50"
+          >
+            + From Watch List
+          </button>
+          {queuedIds.length > 0 && (
+            <button
+              onClick={handleClear}
+              disabled={saving}
+              className="px-3 py-1.5 text-xs bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {queuedIds.length === 0 ? (
+        <div className="text-sm text-gray-500 py-4 text-center">
+          Queue is empty. Add players from your watch list or with the Q button in the player list.
+        </div>
+      ) : (
+        <ol className="space-y-1">
+          {queuedIds.map((fantraxId, index) => {
+            const player = availableByFantraxId.get(fantraxId)!;
+            const stats = projectedStats.get(fantraxId);
+            return (
+              <li
+                key={fantraxId}
+                className="flex items-center gap-3 px-3 py-2 bg-mns-dark rounded border border-gray-800"
+              >
+                <span className="text-xs text-gray-500 w-5 tabular-nums">{index + 1}.</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white truncate">{player.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {player.nbaTeam} | {player.position}
+                    {stats?.rkOv ? ` | Rk ${stats.rkOv}` : ''}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleMove(index, -1)}
+                  disabled={saving || index === 0}
+                  className="text-gray-400 hover:text-white disabled:text-gray-700 px-1"
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => handleMove(index, 1)}
+                  disabled={saving || index === queuedIds.length - 1}
+                  className="text-gray-400 hover:text-white disabled:text-gray-700 px-1"
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => handleRemove(fantraxId)}
+                  disabled={saving}
+                  className="text-gray-500 hover:text-red-400 px-1"
+                  aria-label="Remove from queue"
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
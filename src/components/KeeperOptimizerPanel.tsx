@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { optimizeKeepers, DEFAULT_DOLLARS_PER_ROUND } from '../lib/keeperOptimizer';
+import type { KeeperSet } from '../lib/keeperOptimizer';
+import type { LeagueCapSettings, LeagueFeeSettings, LeagueKeeperRules, Player, ProjectedStats, RosterEntry } from '../types';
+
+interface KeeperOptimizerPanelProps {
+  leagueId: string;
+  players: Player[];
+  entries: RosterEntry[];
+  projectedStats: Map<string, ProjectedStats>;
+  maxKeepers?: number;
+  tradeDelta: number;
+  cap?: LeagueCapSettings;
+  fees?: LeagueFeeSettings;
+  keeperRules?: LeagueKeeperRules;
+  isSaving: boolean;
+  onLoad: (set: KeeperSet) => void;
+}
+
+const FEE_SENSITIVITY = [
+  { label: 'Low — $50 ≈ one round', dollarsPerRound: 50 },
+  { label: `Normal — $${DEFAULT_DOLLARS_PER_ROUND} ≈ one round`, dollarsPerRound: DEFAULT_DOLLARS_PER_ROUND },
+  { label: 'High — $10 ≈ one round', dollarsPerRound: 10 },
+];
+
+const formatSalary = (salary: number) => `$${(salary / 1_000_000).toFixed(1)}M`;
+
+export function KeeperOptimizerPanel({
+  leagueId, players, entries, projectedStats, maxKeepers, tradeDelta, cap, fees, keeperRules, isSaving, onLoad,
+}: KeeperOptimizerPanelProps) {
+  const [numTeams, setNumTeams] = useState(0);
+  const [topN, setTopN] = useState(5);
+  const [dollarsPerRound, setDollarsPerRound] = useState(DEFAULT_DOLLARS_PER_ROUND);
+  const [results, setResults] = useState<KeeperSet[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Round values depend on how many teams draft
+  useEffect(() => {
+    const loadTeamCount = async () => {
+      const { count, error } = await supabase
+        .from('teams')
+        .select('id', { count: 'exact', head: true })
+        .eq('league_id', leagueId);
+      if (error) {
+        logger.error('Error loading team count:', error);
+        return;
+      }
+      setNumTeams(count || 0);
+    };
+    loadTeamCount();
+  }, [leagueId]);
+
+  const handleRun = () => {
+    setIsRunning(true);
+    // Let the button show its busy state before the search blocks the thread
+    setTimeout(() => {
+      setResults(optimizeKeepers({
+        players,
+        entries,
+        projectedStats,
+        numTeams,
+        maxKeepers,
+        tradeDelta,
+        cap,
+        fees,
+        keeperRules,
+        topN,
+        dollarsPerRound,
+      }));
+      setIsRunning(false);
+    }, 0);
+  };
+
+  return (
+    <div className="bg-mns-card p-6 rounded-lg border border-gray-800 mb-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">Keeper Optimizer</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Ranks keeper sets by projected value over the rounds they use, after fees. Redshirts and stashes stay as you set them.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={dollarsPerRound}
+            onChange={(e) => setDollarsPerRound(Number(e.target.value))}
+            className="px-3 py-2 bg-mns-dark border border-gray-700 rounded text-white text-sm"
+            title="How much fees count against value"
+          >
+            {FEE_SENSITIVITY.map(option => (
+              <option key={option.dollarsPerRound} value={option.dollarsPerRound}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={topN}
+            onChange={(e) => setTopN(Number(e.target.value))}
+            className="px-3 py-2 bg-mns-dark border border-gray-700 rounded text-white text-sm"
+          >
+            {[3, 5, 10].map(n => (
+              <option key={n} value={n}>Top {n}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleRun}
+            disabled={isRunning || numTeams === 0 || projectedStats.size === 0}
+            className="px-4 py-2 border-2 border-green-400 text-green-400 rounded hover:bg-green-400/10 disabled:opacity-50 font-medium transition-all cursor-pointer"
+          >
+            {isRunning ? 'Searching...' : 'Find Best Keepers'}
+          </button>
+        </div>
+      </div>
+
+      {results && results.length === 0 && (
+        <p className="text-sm text-gray-500">No keeper set fits under your cap with the current redshirt and stash decisions.</p>
+      )}
+
+      {results && results.length > 0 && (
+        <div className="space-y-3">
+          {results.map(set => (
+            <div key={set.rank} className="bg-mns-dark rounded-lg border border-gray-800 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-3">
+                  <span className="text-lg font-bold text-green-400">#{set.rank}</span>
+                  <span className="text-sm text-white">
+                    Net value {set.netValue.toFixed(1)}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {set.projectedValue.toFixed(1)} projected − {set.roundCost.toFixed(1)} rounds − {set.feeCost.toFixed(1)} fees
+                  </span>
+                </div>
+                <button
+                  onClick={() => onLoad(set)}
+                  disabled={isSaving}
+                  className="px-3 py-1 text-xs border border-green-400/50 text-green-400 rounded hover:bg-green-400/10 disabled:opacity-50"
+                >
+                  Load as Scenario
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-1 mb-2">
+                {set.keepers.length === 0 ? (
+                  <span className="text-xs text-gray-500">No keepers</span>
+                ) : set.keepers.map(keeper => (
+                  <span
+                    key={keeper.playerId}
+                    title={`Score ${keeper.score.toFixed(1)} · ${keeper.salaryScore.toFixed(1)} per $M · base round ${keeper.baseRound}`}
+                    className="text-xs px-2 py-0.5 rounded bg-green-400/10 text-green-400 border border-green-400/30"
+                  >
+                    Rd {keeper.keeperRound} · {keeper.name}
+                  </span>
+                ))}
+              </div>
+
+              <div className="text-xs text-gray-400 mb-1">
+                Cap {formatSalary(set.summary.capUsed)} · Fees ${set.summary.totalFees}
+              </div>
+              <ul className="text-xs text-gray-500 list-disc list-inside space-y-0.5">
+                {set.explanations.map((line, i) => (
+                  <li key={i}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { DEFAULT_KEEPER_RULES } from '../types';
+import type { LeagueKeeperRules, RookieKeeperRoundRule } from '../types';
+
+interface KeeperRulesEditorProps {
+  rules: LeagueKeeperRules;
+  onChange: (rules: LeagueKeeperRules) => void;
+  inputClass?: string;
+}
+
+const defaultInputClass = 'w-full px-3 py-2 bg-mns-dark border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-green-400';
+
+const RULE_FIELDS: { key: keyof RookieKeeperRoundRule; label: string }[] = [
+  { key: 'round', label: 'Rookie Rd' },
+  { key: 'pickFrom', label: 'Pick From' },
+  { key: 'pickTo', label: 'Pick To' },
+  { key: 'keeperRound', label: 'Keeper Rd' },
+];
+
+/**
+ * Editor for a league's keeper rules (League.keeperRules). Shared by the
+ * create-league wizard and league settings.
+ */
+export function KeeperRulesEditor({ rules, onChange, inputClass = defaultInputClass }: KeeperRulesEditorProps) {
+  const setNumber = (key: Exclude<keyof LeagueKeeperRules, 'rookieRounds'>, value: string, min: number) =>
+    onChange({ ...rules, [key]: Math.max(min, parseInt(value) || min) });
+
+  const updateRule = (index: number, key: keyof RookieKeeperRoundRule, value: string) =>
+    onChange({
+      ...rules,
+      rookieRounds: rules.rookieRounds.map((rule, i) => (i === index ? { ...rule, [key]: Math.max(1, parseInt(value) || 1) } : rule)),
+    });
+
+  const addRule = () => {
+    const last = rules.rookieRounds[rules.rookieRounds.length - 1];
+    const next: RookieKeeperRoundRule = last
+      ? { round: last.round, pickFrom: last.pickTo + 1, pickTo: last.pickTo + 3, keeperRound: Math.min(rules.draftRounds, last.keeperRound + 1) }
+      : { round: 1, pickFrom: 1, pickTo: 3, keeperRound: 5 };
+    onChange({ ...rules, rookieRounds: [...rules.rookieRounds, next] });
+  };
+
+  const removeRule = (index: number) =>
+    onChange({ ...rules, rookieRounds: rules.rookieRounds.filter((_, i) => i !== index) });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-1">Draft Rounds</label>
+          <input type="number" min={1} max={30} value={rules.draftRounds}
+            onChange={(e) => setNumber('draftRounds', e.target.value, 1)}
+            className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-1">Rounds Earlier per Year</label>
+          <input type="number" min={0} max={5} value={rules.roundEscalation}
+            onChange={(e) => setNumber('roundEscalation', e.target.value, 0)}
+            className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-1">Free Round-1 Keepers</label>
+          <input type="number" min={0} max={5} value={rules.freeFirstRoundKeepers}
+            onChange={(e) => setNumber('freeFirstRoundKeepers', e.target.value, 0)}
+            className={inputClass} />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-gray-400">Rookie Keeper Scale</label>
+          <div className="flex gap-3">
+            <button type="button" onClick={() => onChange(DEFAULT_KEEPER_RULES)} className="text-xs text-gray-500 hover:text-white">
+              Reset to defaults
+            </button>
+            <button type="button" onClick={addRule} className="text-xs text-green-400 hover:text-green-300">
+              + Add range
+            </button>
+          </div>
+        </div>
+        {rules.rookieRounds.length === 0 ? (
+          <p className="text-xs text-gray-500">No ranges — every rookie's keeper round is set by an admin</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[repeat(4,minmax(0,1fr))_2rem] gap-2 text-xs text-gray-500">
+              {RULE_FIELDS.map(field => <span key={field.key}>{field.label}</span>)}
+            </div>
+            {rules.rookieRounds.map((rule, index) => (
+              <div key={index} className="grid grid-cols-[repeat(4,minmax(0,1fr))_2rem] gap-2 items-center">
+                {RULE_FIELDS.map(field => (
+                  <input
+                    key={field.key}
+                    type="number"
+                    min={1}
+                    max={field.key === 'keeperRound' ? rules.draftRounds : undefined}
+                    value={rule[field.key]}
+                    onChange={(e) => updateRule(index, field.key, e.target.value)}
+                    className={inputClass}
+                  />
+                ))}
+                <button
+                  type="button"
+                  onClick={() => removeRule(index)}
+                  className="text-gray-500 hover:text-red-400 text-lg leading-none"
+                  aria-label="Remove range"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Rookies keep in the round their draft slot maps to; picks outside every range need an admin to set the round. Returning keepers cost the round they used last season minus the rounds-earlier setting.
+        Round-1 keepers beyond the free allowance need a franchise tag.
+      </p>
+    </div>
+  );
+}
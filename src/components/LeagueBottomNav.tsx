@@ -40,7 +40,7 @@ export function LeagueBottomNav() {
   const isRoster = path.includes('/team/');
   const isPlayers = path.includes('/free-agents');
   const isTrade = path.includes('/trade-machine');
-  const morePages = ['/draft', '/rookie-draft', '/mock-draft', '/prospects', '/rules', '/record-book', '/inbox'];
+  const morePages = ['/draft', '/rookie-draft', '/lottery', '/mock-draft', '/prospects', '/rules', '/playoffs', '/record-book', '/trade-block', '/picks', '/activity', '/inbox'];
   const isMoreActive = morePages.some(p => path === `${base}${p}`);
 
   const handleNav = (to: string) => {
@@ -53,8 +53,13 @@ export function LeagueBottomNav() {
     { label: 'Mock Draft', path: `${base}/mock-draft`, section: 'Draft' },
     { label: 'Prospects', path: `${base}/prospects`, section: 'Draft' },
     { label: 'Rookie Draft', path: `${base}/rookie-draft`, section: 'Draft' },
+    { label: 'Lottery', path: `${base}/lottery`, section: 'Draft' },
     { label: 'Rules', path: `${base}/rules`, section: 'League' },
+    { label: 'Playoffs', path: `${base}/playoffs`, section: 'League' },
     { label: 'Record Book', path: `${base}/record-book`, section: 'League' },
+    { label: 'Trade Block', path: `${base}/trade-block`, section: 'League' },
+    { label: 'Pick Ledger', path: `${base}/picks`, section: 'League' },
+    { label: 'Activity', path: `${base}/activity`, section: 'League' },
     { label: 'Inbox', path: `${base}/inbox`, section: 'League' },
   ];
 
@@ -53,7 +53,12 @@ export function LeagueTopNav() {
     { label: 'Mock Draft', path: `${base}/mock-draft` },
     { label: 'Prospects', path: `${base}/prospects` },
     { label: 'Rookie Draft', path: `${base}/rookie-draft` },
+    { label: 'Lottery', path: `${base}/lottery` },
+    { label: 'Playoffs', path: `${base}/playoffs` },
     { label: 'Record Book', path: `${base}/record-book` },
+    { label: 'Trade Block', path: `${base}/trade-block` },
+    { label: 'Pick Ledger', path: `${base}/picks` },
+    { label: 'Activity', path: `${base}/activity` },
   ];
 
   const isMoreActive = moreItems.some(item => path === item.path);
@@ -0,0 +1,66 @@
+import { memo, useMemo } from 'react';
+import { getLotteryPickDistribution } from '../lib/lottery';
+import type { TeamStanding } from '../lib/lottery';
+
+interface LotteryOddsMatrixProps {
+  lotteryTeams: TeamStanding[];   // Worst first, money teams already excluded
+  moneyTeams?: TeamStanding[];
+}
+
+const formatPct = (pct: number) => {
+  if (pct === 0) return '—';
+  if (pct < 0.1) return '<0.1';
+  return pct.toFixed(1);
+};
+
+export const LotteryOddsMatrix = memo(function LotteryOddsMatrix({ lotteryTeams, moneyTeams = [] }: LotteryOddsMatrixProps) {
+  const distribution = useMemo(() => getLotteryPickDistribution(lotteryTeams), [lotteryTeams]);
+  const picks = distribution.length;
+
+  if (picks === 0) return null;
+
+  return (
+    <div className="bg-mns-card rounded-lg border border-gray-800 overflow-hidden">
+      <div className="p-6 border-b border-gray-800">
+        <h2 className="text-lg font-bold text-white">Pick Probabilities</h2>
+        <p className="text-sm text-gray-400 mt-1">
+          Chance (%) of each lottery team landing each pick, from current standings
+          {moneyTeams.length > 0 && ` — ${moneyTeams.map(t => t.teamName).join(', ')} pick after the lottery`}
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-mns-dark border-b border-gray-800">
+            <tr>
+              <th className="sticky left-0 bg-mns-dark px-3 py-3 text-left text-xs font-semibold text-gray-400 uppercase tracking-wider">Team</th>
+              {Array.from({ length: picks }, (_, i) => (
+                <th key={i} className="px-2 py-3 text-center text-xs font-semibold text-gray-400 uppercase tracking-wider">{i + 1}</th>
+              ))}
+              <th className="px-3 py-3 text-center text-xs font-semibold text-gray-400 uppercase tracking-wider">Avg</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {distribution.map((row, i) => (
+              <tr key={row.team.teamId}>
+                <td className="sticky left-0 bg-mns-card px-3 py-2 whitespace-nowrap">
+                  <span className="text-gray-500 mr-2">{i + 1}</span>
+                  <span className="text-white font-semibold">{row.team.teamName}</span>
+                </td>
+                {row.pickPct.map((pct, pick) => (
+                  <td
+                    key={pick}
+                    className={`px-2 py-2 text-center tabular-nums ${pct === 0 ? 'text-gray-700' : pct >= 25 ? 'text-black font-semibold' : 'text-gray-200'}`}
+                    style={pct > 0 ? { backgroundColor: `rgba(74, 222, 128, ${Math.min(0.9, 0.08 + pct / 60)})` } : undefined}
+                  >
+                    {formatPct(pct)}
+                  </td>
+                ))}
+                <td className="px-3 py-2 text-center text-gray-300 tabular-nums">{row.expectedPick.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+});
@@ -1,6 +1,7 @@
 import { memo } from 'react';
 import { Link } from 'react-router-dom';
 import type { Matchup, Team, TeamRecord } from '../types';
+import type { SimulationResult } from '../lib/matchupSimulator';
 
 interface MatchupCardProps {
   matchups: Matchup[];
@@ -9,9 +10,10 @@ interface MatchupCardProps {
   myTeamId?: string;
   currentWeek: number | null;
   leagueId: string;
+  winProbabilities?: Map<string, SimulationResult>;  // keyed by matchup ID
 }
 
-export const MatchupCard = memo(function MatchupCard({ matchups, teams, records, myTeamId, currentWeek, leagueId }: MatchupCardProps) {
+export const MatchupCard = memo(function MatchupCard({ matchups, teams, records, myTeamId, currentWeek, leagueId, winProbabilities }: MatchupCardProps) {
   if (matchups.length === 0 || currentWeek === null) return null;
 
   const teamMap = new Map(teams.map(t => [t.id, t]));
@@ -35,6 +37,8 @@ export const MatchupCard = memo(function MatchupCard({ matchups, teams, records,
           const awayTeam = teamMap.get(matchup.awayTeamId);
           const isMyMatchup = matchup.homeTeamId === myTeamId || matchup.awayTeamId === myTeamId;
           const hasScores = matchup.homeScore !== null && matchup.awayScore !== null;
+          const odds = !hasScores ? winProbabilities?.get(matchup.id) : undefined;
+          const formatOdds = (p: number) => `${Math.round(p * 100)}%`;
 
           return (
             <Link
@@ -61,6 +65,13 @@ export const MatchupCard = memo(function MatchupCard({ matchups, teams, records,
                 }`}>
                   {hasScores ? Math.round(matchup.awayScore!) : ''}
                 </span>
+                {odds && (
+                  <span className={`text-xs tabular-nums ml-2 ${
+                    odds.awayWinProbability > odds.homeWinProbability ? 'text-green-400' : 'text-gray-500'
+                  }`} title="Rest-of-week win probability">
+                    {formatOdds(odds.awayWinProbability)}
+                  </span>
+                )}
               </div>
 
               {/* Divider */}
@@ -85,6 +96,13 @@ export const MatchupCard = memo(function MatchupCard({ matchups, teams, records,
                 }`}>
                   {hasScores ? Math.round(matchup.homeScore!) : ''}
                 </span>
+                {odds && (
+                  <span className={`text-xs tabular-nums ml-2 ${
+                    odds.homeWinProbability > odds.awayWinProbability ? 'text-green-400' : 'text-gray-500'
+                  }`} title="Rest-of-week win probability">
+                    {formatOdds(odds.homeWinProbability)}
+                  </span>
+                )}
               </div>
             </Link>
           );
@@ -0,0 +1,96 @@
+import { useQuery } from '@tanstack/react-query';
+import { evaluatePhaseTransition } from '../lib/phaseTransitions';
+import { usePhaseTransitions } from '../hooks/usePhaseTransitions';
+import type { League, LeaguePhase } from '../types';
+import { LEAGUE_PHASE_LABELS } from '../types';
+
+interface PhaseTransitionChecklistProps {
+  league: League;
+  nextPhase: LeaguePhase | null;
+}
+
+export function PhaseTransitionChecklist({ league, nextPhase }: PhaseTransitionChecklistProps) {
+  const { transitions } = usePhaseTransitions(league.id, 5);
+  const { data: preview, isLoading, error } = useQuery({
+    queryKey: ['phaseTransitionPreview', league.id, league.seasonYear, league.leaguePhase, nextPhase],
+    queryFn: () => evaluatePhaseTransition(league, nextPhase!),
+    enabled: !!nextPhase,
+  });
+
+  return (
+    <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+      {/* Checklist for the next transition */}
+      <div>
+        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
+          {nextPhase ? `Before ${LEAGUE_PHASE_LABELS[nextPhase]}` : 'Next Season'}
+        </h3>
+        {!nextPhase ? (
+          <p className="text-sm text-gray-500">Use the season rollover to start next year.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-gray-500">Checking...</p>
+        ) : error ? (
+          <p className="text-sm text-red-400">Couldn't check preconditions: {(error as Error).message}</p>
+        ) : preview && (
+          <div className="space-y-3">
+            {preview.checks.length === 0 ? (
+              <p className="text-sm text-gray-500">No preconditions</p>
+            ) : (
+              <ul className="space-y-2">
+                {preview.checks.map(check => (
+                  <li key={check.id} className="flex items-start gap-2 text-sm">
+                    <span className={check.passed ? 'text-green-400' : check.severity === 'blocker' ? 'text-red-400' : 'text-yellow-400'}>
+                      {check.passed ? '✓' : check.severity === 'blocker' ? '✗' : '!'}
+                    </span>
+                    <div>
+                      <div className={check.passed ? 'text-gray-300' : 'text-white'}>{check.label}</div>
+                      {check.detail && !check.passed && <div className="text-xs text-gray-500">{check.detail}</div>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {preview.sideEffects.length > 0 && (
+              <div className="text-xs text-gray-500">
+                On advance: {preview.sideEffects.map(effect => effect.label).join(' · ')}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Recent transitions */}
+      <div>
+        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">Phase History</h3>
+        {transitions.length === 0 ? (
+          <p className="text-sm text-gray-500">No phase changes recorded yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {transitions.map(t => (
+              <li key={t.id} className="text-sm">
+                <div className="text-gray-300">
+                  {LEAGUE_PHASE_LABELS[t.fromPhase]} → <span className="text-white">{LEAGUE_PHASE_LABELS[t.toPhase]}</span>
+                  {t.forced && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-red-400/10 text-red-400" title={t.blockers.join(', ')}>
+                      forced
+                    </span>
+                  )}
+                  {t.sideEffects.some(e => !e.success) && (
+                    <span
+                      className="ml-2 px-1.5 py-0.5 rounded text-xs bg-yellow-400/10 text-yellow-400"
+                      title={t.sideEffects.filter(e => !e.success).map(e => `${e.label}: ${e.detail}`).join('\n')}
+                    >
+                      side effect failed
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {t.performedBy} · {new Date(t.createdAt).toLocaleString()}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useModalA11y } from '../hooks/useModalA11y';
+import { PlayerTransactionHistory } from './PlayerTransactionHistory';
 import type { Player, ProjectedStats, PreviousStats } from '../types';
 
 interface PlayerModalProps {
@@ -321,6 +322,11 @@ export function PlayerModal({
               )}
             </div>
           )}
+
+          {/* Transaction History */}
+          {player.roster?.leagueId && (
+            <PlayerTransactionHistory leagueId={player.roster.leagueId} playerId={player.id} />
+          )}
         </div>
 
         {/* Footer */}
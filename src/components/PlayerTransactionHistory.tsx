@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { describeTransaction } from '../lib/transactionLog';
+import { useTransactions } from '../hooks/useTransactions';
+import { TRANSACTION_TYPE_LABELS } from '../types';
+
+interface PlayerTransactionHistoryProps {
+  leagueId: string;
+  playerId: string;
+}
+
+export function PlayerTransactionHistory({ leagueId, playerId }: PlayerTransactionHistoryProps) {
+  const { transactions, loading } = useTransactions({ leagueId, playerId, limit: 50 });
+
+  const { data: teamNames = new Map<string, string>() } = useQuery({
+    queryKey: ['teamNames', leagueId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('id, name')
+        .eq('league_id', leagueId);
+
+      if (error) throw error;
+      return new Map((data || []).map((row: { id: string; name: string }) => [row.id, row.name]));
+    },
+  });
+
+  const teamName = (id?: string) => (id ? teamNames.get(id) || id : 'Unknown team');
+
+  return (
+    <div>
+      <h3 className="text-base md:text-lg font-semibold text-gray-900 mb-2 md:mb-3">Transaction History</h3>
+      {loading ? (
+        <div className="text-sm text-gray-500">Loading...</div>
+      ) : transactions.length === 0 ? (
+        <div className="text-sm text-gray-500">No transactions for this player yet</div>
+      ) : (
+        <ul className="space-y-1.5">
+          {transactions.map(tx => (
+            <li key={tx.id} className="flex items-start gap-2 text-sm">
+              <span className="shrink-0 px-1.5 py-0.5 text-[10px] md:text-xs rounded bg-gray-100 text-gray-600">
+                {TRANSACTION_TYPE_LABELS[tx.type]}
+              </span>
+              <div className="min-w-0">
+                <div className="text-gray-900">{describeTransaction(tx, teamName)}</div>
+                <div className="text-xs text-gray-500">
+                  {new Date(tx.createdAt).toLocaleDateString()}
+                  {tx.note && ` · ${tx.note}`}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { logger } from '../lib/logger';
 import { dropPlayerFromTeam, movePlayerSlot, swapPlayerSlots } from '../lib/rosterOps';
+import { logTransaction } from '../lib/transactionLog';
 import type { Player, Team, League, RosterSummary, TeamFees, PlayerSlot } from '../types';
 import { DEFAULT_ROSTER_SETTINGS } from '../types';
 import { useGames } from '../hooks/useGames';
@@ -20,7 +21,7 @@ interface RegularSeasonRosterViewProps {
   userEmail: string;
 }
 
-export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner, league, userEmail: _userEmail }: RegularSeasonRosterViewProps) {
+export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner, league, userEmail }: RegularSeasonRosterViewProps) {
   const rosterSettings = league.roster ?? DEFAULT_ROSTER_SETTINGS;
   const queryClient = useQueryClient();
   const [processing, setProcessing] = useState(false);
@@ -187,6 +188,7 @@ export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner,
         teamId: team.id,
         leagueId: league.id,
         toSlot: 'active',
+        performedBy: userEmail,
       });
 
       if (!result.success) {
@@ -222,6 +224,17 @@ export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner,
 
       if (feesError) throw feesError;
 
+      await logTransaction({
+        leagueId: league.id,
+        type: 'fee',
+        teamId: team.id,
+        playerId,
+        playerName: player.name,
+        amount: 25,
+        note: 'Redshirt activation fee',
+        performedBy: userEmail,
+      });
+
       toast.success(`${player.name} activated from redshirt ($25 fee)`);
       setProcessing(false);
     } catch (error) {
@@ -252,6 +265,7 @@ export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner,
         playerId,
         teamId: team.id,
         leagueId: league.id,
+        performedBy: userEmail,
       });
 
       if (!result.success) {
@@ -292,6 +306,7 @@ export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner,
         teamId: team.id,
         leagueId: league.id,
         toSlot: 'ir',
+        performedBy: userEmail,
       });
 
       if (!result.success) {
@@ -325,6 +340,7 @@ export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner,
         teamId: team.id,
         leagueId: league.id,
         toSlot: 'active',
+        performedBy: userEmail,
       });
 
       if (!result.success) {
@@ -362,6 +378,7 @@ export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner,
         leagueId: league.id,
         playerASlot: 'ir',
         playerBSlot: 'active',
+        performedBy: userEmail,
       });
 
       if (!result.success) {
@@ -399,6 +416,7 @@ export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner,
         teamId: team.id,
         leagueId: league.id,
         toSlot: 'bench',
+        performedBy: userEmail,
       });
 
       if (!result.success) {
@@ -430,6 +448,7 @@ export function RegularSeasonRosterView({ teamPlayers, team, teamFees, isOwner,
         teamId: team.id,
         leagueId: league.id,
         toSlot: 'active',
+        performedBy: userEmail,
       });
 
       if (!result.success) {
@@ -0,0 +1,324 @@
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { isPostseasonLabel } from '../lib/recordBook';
+import { generateSchedule, validateSchedule } from '../lib/scheduleGenerator';
+import type { GeneratedWeek, ScheduleWeek } from '../lib/scheduleGenerator';
+import type { Team } from '../types';
+
+interface ScheduleGeneratorProps {
+  leagueId: string;
+  seasonYear: number;
+  teams: Team[];
+  onCommitted: (rows: Array<{
+    id: string;
+    league_id: string;
+    season_year: number;
+    matchup_week: number;
+    home_team_id: string;
+    away_team_id: string;
+  }>, replacedWeeks: number[]) => void;
+}
+
+export function ScheduleGenerator({ leagueId, seasonYear, teams, onCommitted }: ScheduleGeneratorProps) {
+  const [weeks, setWeeks] = useState<ScheduleWeek[]>([]);
+  const [minRepeatGap, setMinRepeatGap] = useState(2);
+  const [rivalries, setRivalries] = useState<Array<[string, string]>>([]);
+  const [rivalryWeeks, setRivalryWeeks] = useState<number[]>([]);
+  const [preview, setPreview] = useState<GeneratedWeek[] | null>(null);
+  const [committing, setCommitting] = useState(false);
+
+  // Any option change invalidates the preview
+  const updateRivalries = (update: (prev: Array<[string, string]>) => Array<[string, string]>) => {
+    setRivalries(update);
+    setPreview(null);
+  };
+  const updateRivalryWeeks = (update: (prev: number[]) => number[]) => {
+    setRivalryWeeks(update);
+    setPreview(null);
+  };
+
+  // Regular-season matchup weeks; combined weeks carry a weight > 1
+  useEffect(() => {
+    const fetchWeeks = async () => {
+      const { data, error } = await supabase
+        .from('league_weeks')
+        .select('matchup_week, label')
+        .eq('league_id', leagueId)
+        .eq('season_year', seasonYear)
+        .order('week_number', { ascending: true });
+
+      if (error) {
+        logger.error('Error loading league weeks:', error);
+        return;
+      }
+
+      const weights = new Map<number, number>();
+      for (const row of data || []) {
+        if (isPostseasonLabel(row.label)) continue;
+        weights.set(row.matchup_week, (weights.get(row.matchup_week) || 0) + 1);
+      }
+      setWeeks([...weights.entries()].map(([matchupWeek, weight]) => ({ matchupWeek, weight })));
+    };
+
+    fetchWeeks();
+  }, [leagueId, seasonYear]);
+
+  const teamIds = useMemo(() => teams.map(t => t.id), [teams]);
+  const teamName = (id: string) => teams.find(t => t.id === id)?.name || id;
+
+  const report = useMemo(
+    () => (preview ? validateSchedule(preview, teamIds, minRepeatGap) : null),
+    [preview, teamIds, minRepeatGap]
+  );
+
+  const handlePreview = () => {
+    if (teams.length < 2) {
+      toast.error('Need at least 2 teams.');
+      return;
+    }
+    if (weeks.length === 0) {
+      toast.error('No regular-season weeks found — generate league weeks first.');
+      return;
+    }
+    setPreview(generateSchedule({ teamIds, weeks, minRepeatGap, rivalries, rivalryWeeks }));
+  };
+
+  const handleCommit = async () => {
+    if (!preview) return;
+
+    const replacedWeeks = preview.map(w => w.matchupWeek);
+    const confirmed = confirm(
+      `Replace all regular-season matchups for the ${seasonYear} season?\n\n` +
+      `${preview.length} weeks, ${preview.reduce((sum, w) => sum + w.pairs.length, 0)} matchups. Post-season matchups are kept.`
+    );
+    if (!confirmed) return;
+
+    setCommitting(true);
+    try {
+      const { error: deleteError } = await supabase
+        .from('league_matchups')
+        .delete()
+        .eq('league_id', leagueId)
+        .eq('season_year', seasonYear)
+        .in('matchup_week', replacedWeeks);
+
+      if (deleteError) throw deleteError;
+
+      const rows = preview.flatMap(week => week.pairs.map(([home, away], idx) => ({
+        id: `${leagueId}_${seasonYear}_mw${week.matchupWeek}_${idx + 1}`,
+        league_id: leagueId,
+        season_year: seasonYear,
+        matchup_week: week.matchupWeek,
+        home_team_id: home,
+        away_team_id: away,
+      })));
+
+      // Insert in chunks
+      for (let i = 0; i < rows.length; i += 500) {
+        const { error } = await supabase.from('league_matchups').insert(rows.slice(i, i + 500));
+        if (error) throw error;
+      }
+
+      onCommitted(rows, replacedWeeks);
+      setPreview(null);
+      toast.success(`Scheduled ${rows.length} matchups across ${preview.length} weeks!`);
+    } catch (err) {
+      toast.error(`Error saving schedule: ${(err as { message?: string })?.message}`);
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 bg-mns-dark border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-green-400';
+  const longWeeks = weeks.filter(w => w.weight > 1);
+
+  return (
+    <div className="space-y-6">
+      {/* Options */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">No repeat opponents within</label>
+          <select value={minRepeatGap} onChange={(e) => { setMinRepeatGap(parseInt(e.target.value)); setPreview(null); }} className={`w-full ${inputClass}`}>
+            {[0, 1, 2, 3, 4, 5, 6].map(n => (
+              <option key={n} value={n}>{n === 0 ? 'No limit' : `${n} week${n !== 1 ? 's' : ''}`}</option>
+            ))}
+          </select>
+        </div>
+        <div className="text-xs text-gray-500 self-end pb-2">
+          {teams.length} teams, {weeks.length} regular-season weeks
+          {longWeeks.length > 0 && ` (${longWeeks.length} combined: ${longWeeks.map(w => `Wk ${w.matchupWeek}`).join(', ')})`}
+          {teams.length % 2 !== 0 && ' — one bye per week'}
+        </div>
+      </div>
+
+      {/* Rivalries */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-300">Rivalries</h3>
+          <button
+            onClick={() => updateRivalries(prev => [...prev, ['', '']])}
+            className="text-xs text-green-400 hover:text-green-300"
+          >
+            + Add rivalry
+          </button>
+        </div>
+        {rivalries.length === 0 ? (
+          <p className="text-xs text-gray-500">No rivalries — rivalry weeks are scheduled like any other week</p>
+        ) : (
+          <div className="space-y-2">
+            {rivalries.map(([a, b], idx) => (
+              <div key={idx} className="flex items-center gap-2">
+                {[a, b].map((value, side) => (
+                  <select
+                    key={side}
+                    value={value}
+                    onChange={(e) => updateRivalries(prev => prev.map((pair, i) => {
+                      if (i !== idx) return pair;
+                      return side === 0 ? [e.target.value, pair[1]] : [pair[0], e.target.value];
+                    }))}
+                    className={`flex-1 ${inputClass}`}
+                  >
+                    <option value="">-- Team --</option>
+                    {teams.map(t => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                ))}
+                <button
+                  onClick={() => updateRivalries(prev => prev.filter((_, i) => i !== idx))}
+                  className="text-gray-500 hover:text-red-400 px-2"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {rivalries.length > 0 && (
+          <div className="mt-3">
+            <label className="block text-xs font-medium text-gray-400 mb-1">Rivalry weeks</label>
+            <div className="flex flex-wrap gap-1">
+              {weeks.map(({ matchupWeek }) => {
+                const active = rivalryWeeks.includes(matchupWeek);
+                return (
+                  <button
+                    key={matchupWeek}
+                    onClick={() => updateRivalryWeeks(prev => active ? prev.filter(w => w !== matchupWeek) : [...prev, matchupWeek])}
+                    className={`px-2 py-1 text-xs rounded border transition-colors ${
+                      active
+                        ? 'bg-purple-400/20 text-purple-400 border-purple-400/30'
+                        : 'text-gray-500 border-gray-700 hover:text-white'
+                    }`}
+                  >
+                    {matchupWeek}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={handlePreview}
+        className="w-full px-4 py-3 text-purple-400 border border-purple-400/30 font-semibold rounded-lg hover:bg-purple-400/10 transition-colors"
+      >
+        Preview Schedule
+      </button>
+
+      {preview && report && (
+        <>
+          {/* Validation Report */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-300 mb-2">Validation</h3>
+            {report.violations.length === 0 ? (
+              <p className="text-sm text-green-400">
+                No constraint violations — each pair meets {report.minOpponentCount === report.maxOpponentCount
+                  ? `${report.minOpponentCount}×`
+                  : `${report.minOpponentCount}–${report.maxOpponentCount}×`}
+              </p>
+            ) : (
+              <ul className="text-sm text-red-400 space-y-1">
+                {report.violations.map((v, idx) => (
+                  <li key={idx}>
+                    Week {v.matchupWeek}: {v.kind === 'double_booked'
+                      ? `${teamName(v.teamIds[0])} is scheduled twice`
+                      : `${teamName(v.teamIds[0])} and ${teamName(v.teamIds[1])} meet again ${v.weeksApart} week${v.weeksApart !== 1 ? 's' : ''} later`}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="overflow-x-auto mt-3">
+              <table className="text-xs">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left pr-3 py-1">Team</th>
+                    <th className="px-2 py-1">G</th>
+                    <th className="px-2 py-1">H/A</th>
+                    <th className="px-2 py-1">Bye</th>
+                    <th className="px-2 py-1" title="Calendar weeks played (combined weeks count extra)">Wks</th>
+                    {teams.map(t => (
+                      <th key={t.id} className="px-1.5 py-1 font-medium" title={t.name}>{t.abbrev || t.name.slice(0, 3)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.teams.map(summary => (
+                    <tr key={summary.teamId} className="border-t border-gray-800">
+                      <td className="pr-3 py-1 text-white whitespace-nowrap">{teamName(summary.teamId)}</td>
+                      <td className="px-2 py-1 text-center text-gray-300">{summary.games}</td>
+                      <td className="px-2 py-1 text-center text-gray-300">{summary.home}/{summary.away}</td>
+                      <td className="px-2 py-1 text-center text-gray-300">{summary.byes}</td>
+                      <td className="px-2 py-1 text-center text-gray-300">{summary.weightedGames}</td>
+                      {teams.map(t => {
+                        if (t.id === summary.teamId) return <td key={t.id} className="px-1.5 py-1 text-center text-gray-700">—</td>;
+                        const count = summary.opponentCounts.get(t.id) || 0;
+                        const off = count < report.maxOpponentCount;
+                        return (
+                          <td key={t.id} className={`px-1.5 py-1 text-center ${off ? 'text-yellow-400' : 'text-gray-400'}`}>{count}</td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Week-by-week preview */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-300 mb-2">Weeks</h3>
+            <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+              {preview.map(week => (
+                <div key={week.matchupWeek} className="bg-mns-dark rounded-lg border border-gray-800 p-3">
+                  <div className="text-xs text-gray-400 mb-1">
+                    Week {week.matchupWeek}
+                    {week.weight > 1 && <span className="text-yellow-400 ml-2">{week.weight} weeks long</span>}
+                    {week.isRivalryWeek && <span className="text-purple-400 ml-2">Rivalry week</span>}
+                  </div>
+                  <div className="text-xs text-gray-300 space-y-0.5">
+                    {week.pairs.map(([home, away]) => (
+                      <div key={home}>{teamName(home)} vs {teamName(away)}</div>
+                    ))}
+                    {week.byeTeamId && <div className="text-gray-500">Bye: {teamName(week.byeTeamId)}</div>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleCommit}
+            disabled={committing}
+            className="w-full px-4 py-3 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 disabled:opacity-50 transition-colors"
+          >
+            {committing ? 'Saving...' : 'Commit Schedule'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
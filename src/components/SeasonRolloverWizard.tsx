@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { logger } from '../lib/logger';
+import { useAuth } from '../contexts/AuthContext';
+import { applySeasonRollover, planSeasonRollover, rolloverReportCsv } from '../lib/seasonRollover';
+import type { RolloverChangeKind, RolloverNextPhase, RolloverPlan } from '../lib/seasonRollover';
+import { LEAGUE_PHASE_LABELS } from '../types';
+
+interface SeasonRolloverWizardProps {
+  leagueId: string;
+  seasonYear: number;
+  onClose: () => void;
+  onComplete: (seasonYear: number, phase: RolloverNextPhase) => void;
+}
+
+const CHANGE_LABELS: Record<RolloverChangeKind, { label: string; className: string }> = {
+  keeper_round: { label: 'Keeper round', className: 'bg-green-400/10 text-green-400' },
+  redshirt_promoted: { label: 'Redshirt promoted', className: 'bg-yellow-400/10 text-yellow-400' },
+  redshirt_expired: { label: 'Redshirt expired', className: 'bg-orange-400/10 text-orange-400' },
+  rookie_graduated: { label: 'Rookie graduated', className: 'bg-blue-400/10 text-blue-400' },
+  slot_reset: { label: 'Slot reset', className: 'bg-gray-700 text-gray-300' },
+  needs_review: { label: 'Needs review', className: 'bg-red-400/10 text-red-400' },
+};
+
+const formatRound = (round: number | null) => (round === null ? '–' : `R${round}`);
+
+export function SeasonRolloverWizard({ leagueId, seasonYear, onClose, onComplete }: SeasonRolloverWizardProps) {
+  const { user } = useAuth();
+  const [nextPhase, setNextPhase] = useState<RolloverNextPhase>('rookie_draft');
+  const [plan, setPlan] = useState<RolloverPlan | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [expandedTeam, setExpandedTeam] = useState<string | null>(null);
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      setPlan(await planSeasonRollover(leagueId, nextPhase));
+    } catch (err) {
+      logger.error('Error building rollover preview:', err);
+      toast.error(`Failed to build preview: ${(err as { message?: string })?.message || err}`);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!plan) return;
+    const blob = new Blob([rolloverReportCsv(plan)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${plan.leagueId}_rollover_${plan.fromSeason}_to_${plan.toSeason}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    const confirmed = confirm(
+      `Roll ${plan.leagueName} into the ${plan.toSeason}-${plan.toSeason + 1} season?\n\n` +
+      `${plan.playerUpdates.length} players updated, every keeper roster reset, ` +
+      `regular season rosters cleared. This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setApplying(true);
+    const result = await applySeasonRollover(plan, user?.email || 'unknown');
+    setApplying(false);
+
+    if (!result.success) {
+      toast.error(`Rollover failed: ${result.error}`);
+      return;
+    }
+    toast.success(`Welcome to ${plan.toSeason}-${plan.toSeason + 1} — ${result.playersUpdated ?? 0} players updated`);
+    onComplete(plan.toSeason, plan.nextPhase);
+  };
+
+  const totals = plan && {
+    changes: plan.teams.reduce((sum, t) => sum + t.changes.length, 0),
+    promoted: plan.teams.reduce((sum, t) => sum + t.changes.filter(c => c.kinds.includes('redshirt_promoted')).length, 0),
+    expired: plan.teams.reduce((sum, t) => sum + t.changes.filter(c => c.kinds.includes('redshirt_expired')).length, 0),
+    review: plan.teams.reduce((sum, t) => sum + t.changes.filter(c => c.kinds.includes('needs_review')).length, 0),
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-mns-card rounded-lg border border-gray-800 max-w-4xl w-full my-8">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-800">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-white">Season Rollover</h2>
+              <p className="text-sm text-gray-400 mt-1">
+                {seasonYear}-{seasonYear + 1} → {seasonYear + 1}-{seasonYear + 2}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white text-2xl leading-none"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Options */}
+          <div className="flex items-end gap-4 flex-wrap">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Next season starts in</label>
+              <select
+                value={nextPhase}
+                onChange={(e) => {
+                  setNextPhase(e.target.value as RolloverNextPhase);
+                  setPlan(null);
+                }}
+                className="rounded-md bg-mns-dark border border-gray-700 text-white px-3 py-2 text-sm focus:border-green-400 focus:ring-green-400"
+              >
+                <option value="rookie_draft">{LEAGUE_PHASE_LABELS.rookie_draft}</option>
+                <option value="keeper_season">{LEAGUE_PHASE_LABELS.keeper_season}</option>
+              </select>
+            </div>
+            <button
+              onClick={handlePreview}
+              disabled={previewing}
+              className="px-4 py-2 text-sm border border-green-400 text-green-400 rounded-lg hover:bg-green-400/10 transition-colors disabled:opacity-50"
+            >
+              {previewing ? 'Building Preview...' : plan ? 'Refresh Preview' : 'Preview Rollover'}
+            </button>
+            {plan && (
+              <button
+                onClick={handleDownload}
+                className="px-4 py-2 text-sm border border-gray-700 text-gray-300 rounded-lg hover:text-white hover:border-gray-500 transition-colors"
+              >
+                Download Dry-Run Report
+              </button>
+            )}
+          </div>
+
+          {!plan ? (
+            <div className="text-sm text-gray-400 space-y-1">
+              <p>The rollover will, in one transaction:</p>
+              <ul className="list-disc list-inside text-gray-500">
+                <li>Carry each player's keeper round forward from the {seasonYear} draft history</li>
+                <li>Promote redshirts to active and expire last year's redshirts</li>
+                <li>Graduate rookies and reset bench/IR slots</li>
+                <li>Clear regular season rosters and start a fresh keeper roster for every team</li>
+                <li>Bump the league to {seasonYear + 1} and set the phase</li>
+              </ul>
+            </div>
+          ) : (
+            <>
+              {plan.warnings.length > 0 && (
+                <div className="bg-yellow-400/10 border border-yellow-400/30 rounded-lg p-4 space-y-1">
+                  {plan.warnings.map(warning => (
+                    <p key={warning} className="text-sm text-yellow-400">⚠ {warning}</p>
+                  ))}
+                </div>
+              )}
+
+              {totals && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                  {[
+                    { label: 'Player changes', value: totals.changes },
+                    { label: 'Redshirts promoted', value: totals.promoted },
+                    { label: 'Redshirts expired', value: totals.expired },
+                    { label: 'Need review', value: totals.review },
+                  ].map(stat => (
+                    <div key={stat.label} className="bg-mns-dark rounded-lg p-3">
+                      <div className="text-white font-semibold text-lg">{stat.value}</div>
+                      <div className="text-xs text-gray-500">{stat.label}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Per-team preview */}
+              <div className="space-y-2">
+                {plan.teams.map(team => {
+                  const expanded = expandedTeam === team.teamId;
+                  return (
+                    <div key={team.teamId} className="bg-mns-dark rounded-lg border border-gray-800">
+                      <button
+                        onClick={() => setExpandedTeam(expanded ? null : team.teamId)}
+                        className="w-full flex items-center justify-between px-4 py-3 text-left"
+                      >
+                        <span className="text-white font-medium">{team.teamName}</span>
+                        <span className="text-xs text-gray-500">
+                          {team.changes.length} player{team.changes.length !== 1 ? 's' : ''}
+                          {' · '}{team.keeperEntriesCleared} keeper entries cleared
+                          {team.regularSeasonRosterCleared && ' · lineup cleared'}
+                          <span className="ml-2">{expanded ? '▾' : '▸'}</span>
+                        </span>
+                      </button>
+                      {expanded && (
+                        <div className="px-4 pb-3 overflow-x-auto">
+                          {team.changes.length === 0 ? (
+                            <p className="text-sm text-gray-500">No player changes</p>
+                          ) : (
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-xs text-gray-500 uppercase">
+                                  <th className="text-left py-1">Player</th>
+                                  <th className="text-left py-1">Changes</th>
+                                  <th className="text-center py-1">Slot</th>
+                                  <th className="text-center py-1">Prior Rd</th>
+                                  <th className="text-center py-1">Next Rd</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {team.changes.map(change => (
+                                  <tr key={change.playerId} className="border-t border-gray-800">
+                                    <td className="py-1.5 text-white">{change.playerName}</td>
+                                    <td className="py-1.5">
+                                      <div className="flex flex-wrap gap-1">
+                                        {change.kinds.map(kind => (
+                                          <span key={kind} className={`px-2 py-0.5 rounded text-xs ${CHANGE_LABELS[kind].className}`}>
+                                            {CHANGE_LABELS[kind].label}
+                                          </span>
+                                        ))}
+                                      </div>
+                                    </td>
+                                    <td className="py-1.5 text-center text-gray-400">
+                                      {change.before.slot === change.after.slot ? change.after.slot : `${change.before.slot} → ${change.after.slot}`}
+                                    </td>
+                                    <td className="py-1.5 text-center text-gray-400">
+                                      {formatRound(change.before.priorYearRound)} → {formatRound(change.after.priorYearRound)}
+                                    </td>
+                                    <td className="py-1.5 text-center text-gray-300">{formatRound(change.after.derivedBaseRound)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-800 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-400 hover:text-white"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!plan || applying}
+            className="px-5 py-2 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50"
+          >
+            {applying ? 'Rolling Over...' : `Start ${seasonYear + 1} Season`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import type { TeamTradeAnalysis } from '../lib/tradeAnalyzer';
+import type { MatchupCategory } from '../types';
+
+interface TradeAnalyzerPanelProps {
+  analysis: TeamTradeAnalysis[];
+  hasProjections: boolean;
+}
+
+const formatCategory = (category: MatchupCategory, value: number | null) => {
+  if (value === null) return '-';
+  if (category === 'FG%' || category === 'FT%') return value.toFixed(3).replace(/^0/, '');
+  if (category === 'A/TO') return value.toFixed(2);
+  return value.toFixed(1);
+};
+
+const rankChangeClass = (before: number, after: number) =>
+  after < before ? 'text-green-400' : after > before ? 'text-red-400' : 'text-gray-500';
+
+export function TradeAnalyzerPanel({ analysis, hasProjections }: TradeAnalyzerPanelProps) {
+  const [expanded, setExpanded] = useState(true);
+  if (analysis.length === 0) return null;
+
+  return (
+    <div className="bg-mns-card rounded-lg border border-gray-800 p-5 mb-6">
+      <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center justify-between mb-1 text-left">
+        <h3 className="text-lg font-semibold text-white">Trade Analyzer</h3>
+        <span className="text-xs text-gray-500">{expanded ? 'Hide' : 'Show'}</span>
+      </button>
+      <p className="text-xs text-gray-500 mb-4">
+        Projected per-game category line and league rank, before → after. Ranks move when any team's line changes.
+      </p>
+
+      {expanded && (
+        <div className={`grid gap-4 ${analysis.length === 2 ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1 md:grid-cols-3'}`}>
+          {analysis.map(team => (
+            <div key={team.teamId} className="bg-mns-dark rounded-lg p-4 border border-gray-800 space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-white">{team.teamName}</h4>
+                <span className="text-xs text-gray-400">
+                  Top-half cats:{' '}
+                  <span className={rankChangeClass(team.categoryWinsAfter, team.categoryWinsBefore)}>
+                    {team.categoryWinsBefore} → {team.categoryWinsAfter}
+                  </span>
+                </span>
+              </div>
+
+              {/* Category lines */}
+              {hasProjections ? (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="text-left font-medium py-1">Cat</th>
+                      <th className="text-right font-medium">Before</th>
+                      <th className="text-right font-medium">After</th>
+                      <th className="text-right font-medium">Rank</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {team.categories.map(c => (
+                      <tr key={c.category} className="border-t border-gray-800/60">
+                        <td className="py-1 text-gray-400">{c.category}</td>
+                        <td className="text-right text-gray-300 font-mono">{formatCategory(c.category, c.before)}</td>
+                        <td className="text-right text-white font-mono">{formatCategory(c.category, c.after)}</td>
+                        <td className={`text-right font-mono ${rankChangeClass(c.rankBefore, c.rankAfter)}`}>
+                          {c.rankBefore === c.rankAfter ? c.rankAfter : `${c.rankBefore} → ${c.rankAfter}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-xs text-gray-500">No projections loaded for this season.</p>
+              )}
+
+              {/* Incoming players */}
+              {team.incomingPlayers.length > 0 && (
+                <div>
+                  <div className="text-xs text-gray-500 mb-1">Incoming keeper value</div>
+                  <div className="space-y-1">
+                    {team.incomingPlayers.map(p => (
+                      <div key={p.playerId} className="flex items-center justify-between text-xs">
+                        <span className="text-white truncate">{p.name}</span>
+                        <span className="text-gray-400 shrink-0 ml-2">
+                          {p.keeperRound != null ? `Rd ${p.keeperRound}` : 'Rd ?'}
+                          {p.impliedRound != null && ` · worth Rd ${p.impliedRound}`}
+                          {p.roundSurplus != null && p.roundSurplus !== 0 && (
+                            <span className={p.roundSurplus > 0 ? 'text-green-400' : 'text-red-400'}>
+                              {' '}({p.roundSurplus > 0 ? '+' : ''}{p.roundSurplus})
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Rookie picks */}
+              {(team.incomingPicks.length > 0 || team.outgoingPicks.length > 0) && (
+                <div>
+                  <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                    <span>Rookie picks</span>
+                    <span className={team.pickValueNet > 0 ? 'text-green-400' : team.pickValueNet < 0 ? 'text-red-400' : 'text-gray-500'}>
+                      Net value {team.pickValueNet > 0 ? '+' : ''}{team.pickValueNet}
+                    </span>
+                  </div>
+                  <div className="space-y-1">
+                    {[...team.incomingPicks.map(p => ({ ...p, incoming: true })), ...team.outgoingPicks.map(p => ({ ...p, incoming: false }))].map(p => (
+                      <div key={`${p.pickId}_${p.incoming}`} className="flex items-center justify-between text-xs">
+                        <span className={`truncate ${p.incoming ? 'text-white' : 'text-gray-500 line-through'}`}>{p.label}</span>
+                        <span className="text-gray-400 shrink-0 ml-2" title={p.isEstimate ? 'Future draft — valued at the middle slot' : undefined}>
+                          {p.isEstimate ? '~' : ''}#{p.expectedSlot.toFixed(1)}
+                          {p.pctFirstPick > 0 && ` · ${p.pctFirstPick.toFixed(1)}% #1`}
+                          {' · '}{p.value}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
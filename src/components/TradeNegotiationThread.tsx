@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { postTradeComment } from '../lib/tradeNegotiation';
+import type { TradeComment, TradeProposal } from '../types';
+
+interface TradeNegotiationThreadProps {
+  proposal: TradeProposal;      // Latest version
+  history: TradeProposal[];     // Earlier versions, oldest first
+  comments: TradeComment[];
+  teamNames: Map<string, string>;
+  userTeamId: string | null;
+  userEmail: string;
+}
+
+const versionSummary = (proposal: TradeProposal) =>
+  proposal.assets.map(a => `${a.displayName} → ${a.toTeamName}`).join(' · ');
+
+export function TradeNegotiationThread({
+  proposal,
+  history,
+  comments,
+  teamNames,
+  userTeamId,
+  userEmail,
+}: TradeNegotiationThreadProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+
+  // Anyone who was part of any version can keep talking
+  const canComment = !!userTeamId && [proposal, ...history].some(p => p.involvedTeamIds.includes(userTeamId));
+
+  // Names of teams that only appeared in earlier versions
+  const names = new Map(teamNames);
+  history.forEach(version => version.assets.forEach(a => {
+    if (!names.has(a.fromTeamId)) names.set(a.fromTeamId, a.fromTeamName);
+    if (!names.has(a.toTeamId)) names.set(a.toTeamId, a.toTeamName);
+  }));
+
+  const handlePost = async () => {
+    if (!userTeamId || !draft.trim()) return;
+    setIsPosting(true);
+    const result = await postTradeComment({ proposal, teamId: userTeamId, authorEmail: userEmail, body: draft });
+    setIsPosting(false);
+    if (!result.success) {
+      toast.error(`Failed to post comment: ${result.error}`);
+      return;
+    }
+    setDraft('');
+    queryClient.invalidateQueries({ queryKey: ['tradeProposals', proposal.leagueId] });
+  };
+
+  if (history.length === 0 && comments.length === 0 && !canComment) return null;
+
+  return (
+    <div className="bg-mns-dark rounded-lg p-4 border border-gray-800 space-y-4">
+      <div className="text-xs text-gray-400">Negotiation</div>
+
+      {/* Earlier versions */}
+      {history.length > 0 && (
+        <ol className="space-y-2">
+          {history.map((version, i) => (
+            <li key={version.id} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-mono text-gray-500">v{i + 1}</span>
+                <span className="text-gray-300">{names.get(version.proposedByTeamId) || 'Unknown'}</span>
+                <span className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+                <span className="text-xs text-gray-500 uppercase">{version.status === 'superseded' ? 'countered' : version.status}</span>
+              </div>
+              <div className="text-xs text-gray-500 truncate">{versionSummary(version)}</div>
+            </li>
+          ))}
+          <li className="text-sm flex items-center gap-2">
+            <span className="text-xs font-mono text-cyan-400">v{history.length + 1}</span>
+            <span className="text-white">{names.get(proposal.proposedByTeamId) || 'Unknown'}</span>
+            <span className="text-xs text-gray-500">current</span>
+          </li>
+        </ol>
+      )}
+
+      {/* Comments */}
+      {comments.length > 0 && (
+        <div className="space-y-2">
+          {comments.map(comment => (
+            <div key={comment.id} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="text-white font-medium">{names.get(comment.teamId) || comment.authorEmail}</span>
+                <span className="text-xs text-gray-500">{new Date(comment.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="text-gray-300 whitespace-pre-wrap">{comment.body}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canComment && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            maxLength={1000}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handlePost(); }}
+            placeholder="Add a comment..."
+            className="flex-1 px-3 py-2 bg-mns-card border border-gray-700 rounded text-white text-sm"
+          />
+          <button
+            onClick={handlePost}
+            disabled={isPosting || !draft.trim()}
+            className="px-4 py-2 bg-cyan-400 text-black rounded text-sm font-semibold hover:bg-cyan-500 disabled:opacity-50"
+          >
+            Post
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
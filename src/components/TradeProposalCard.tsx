@@ -1,27 +1,41 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { supabase } from '../lib/supabase';
 import { logger } from '../lib/logger';
-import { executeTrade } from '../lib/tradeExecution';
-import type { TradeProposal, TradeProposalResponse, TradeAsset } from '../types';
+import { completeAcceptedTrade, castVetoVote, finalizeTradeReview } from '../lib/tradeReview';
+import { useLeague } from '../contexts/LeagueContext';
+import { TradeNegotiationThread } from './TradeNegotiationThread';
+import type { TradeProposal, TradeProposalResponse, TradeAsset, TradeComment, TradeVetoVote } from '../types';
+import { DEFAULT_TRADE_REVIEW_SETTINGS } from '../types';
 
 interface TradeProposalCardProps {
   proposal: TradeProposal;
   responses: TradeProposalResponse[];
+  vetoVotes?: TradeVetoVote[];
+  history?: TradeProposal[];    // Earlier versions of this negotiation, oldest first
+  comments?: TradeComment[];
   userTeamId: string | null;
   userEmail: string;
   onTradeExecuted?: () => void;
+  onCounter?: (proposal: TradeProposal) => void;  // Defaults to opening the Trade Machine
 }
 
 export function TradeProposalCard({
   proposal,
   responses,
+  vetoVotes = [],
+  history = [],
+  comments = [],
   userTeamId,
   userEmail,
   onTradeExecuted,
+  onCounter,
 }: TradeProposalCardProps) {
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { currentLeague } = useLeague();
   const [isExpanded, setIsExpanded] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -29,16 +43,34 @@ export function TradeProposalCard({
   const needsMyResponse = myResponse?.status === 'pending';
   const isExpired = proposal.expiresAt ? Date.now() > proposal.expiresAt : false;
   const isPending = proposal.status === 'pending' && !isExpired;
+  const isInReview = proposal.status === 'in_review';
   const isUnread = needsMyResponse && isPending;
 
+  // Veto voting is for owners of teams outside the trade
+  const vetoVotesRequired = currentLeague?.tradeReview?.vetoVotesRequired ?? DEFAULT_TRADE_REVIEW_SETTINGS.vetoVotesRequired;
+  const canVoteVeto = isInReview && !!userTeamId && !proposal.involvedTeamIds.includes(userTeamId);
+  const hasVotedVeto = vetoVotes.some(v => v.teamId === userTeamId);
+
+  // Counts down to the proposal expiring, or to the end of the review window
+  const countdownTo = isInReview ? proposal.reviewEndsAt : isPending ? proposal.expiresAt : undefined;
+
   // Live countdown timer
   const [timeLeft, setTimeLeft] = useState('');
+  const finalizeRequested = useRef(false);
   useEffect(() => {
-    if (!proposal.expiresAt || !isPending) return;
+    if (!countdownTo) return;
     const tick = () => {
-      const diff = proposal.expiresAt! - Date.now();
+      const diff = countdownTo - Date.now();
       if (diff <= 0) {
-        setTimeLeft('Expired');
+        setTimeLeft(isInReview ? 'Review closed' : 'Expired');
+        // Review window closed — ask the server to execute it (first caller wins)
+        if (isInReview && !finalizeRequested.current) {
+          finalizeRequested.current = true;
+          finalizeTradeReview(proposal, userEmail || 'trade_review').then(result => {
+            if (result.success) onTradeExecuted?.();
+            queryClient.invalidateQueries({ queryKey: ['tradeProposals', proposal.leagueId] });
+          });
+        }
         return;
       }
       const days = Math.floor(diff / (1000 * 60 * 60 * 24));
@@ -56,7 +88,7 @@ export function TradeProposalCard({
     tick();
     const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, [proposal.expiresAt, isPending]);
+  }, [countdownTo, isInReview, proposal, userEmail, onTradeExecuted, queryClient]);
 
   // Group assets by source team
   const assetsByTeam = new Map<string, TradeAsset[]>();
@@ -101,21 +133,13 @@ export function TradeProposalCard({
       const allAccepted = (allResponses || []).every((r: any) => r.status === 'accepted');
 
       if (allAccepted) {
-        // Auto-execute the trade
-        const result = await executeTrade({
-          proposalId: proposal.id,
-          assets: proposal.assets.map(a => ({
-            type: a.type,
-            id: a.id,
-            fromTeamId: a.fromTeamId,
-            toTeamId: a.toTeamId,
-          })),
-          leagueId: proposal.leagueId,
-          executedBy: userEmail,
-        });
+        // Execute now, or start the league review window if the league uses one
+        const result = await completeAcceptedTrade(proposal, userEmail);
 
         if (!result.success) {
           toast.error(`Trade execution failed: ${result.error}`);
+        } else if (result.inReview) {
+          toast.success(`All teams accepted. Trade is under league review until ${new Date(result.reviewEndsAt!).toLocaleString()}.`);
         } else {
           toast.success('Trade executed successfully!');
           onTradeExecuted?.();
@@ -157,6 +181,34 @@ export function TradeProposalCard({
     }
   };
 
+  const handleVetoVote = async () => {
+    if (!canVoteVeto || hasVotedVeto || !userTeamId) return;
+    if (!confirm('Vote to veto this trade? Votes can\'t be withdrawn.')) return;
+    setIsSubmitting(true);
+    try {
+      const result = await castVetoVote({ proposalId: proposal.id, teamId: userTeamId });
+      if (!result.success) {
+        toast.error(`Veto vote failed: ${result.error}`);
+      } else if (result.vetoed) {
+        toast.success('Veto vote recorded. The trade has been vetoed.');
+      } else {
+        toast.success(`Veto vote recorded (${result.votes}/${result.required}).`);
+      }
+      queryClient.invalidateQueries({ queryKey: ['tradeProposals', proposal.leagueId] });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCounter = () => {
+    if (!needsMyResponse || !isPending) return;
+    if (onCounter) {
+      onCounter(proposal);
+    } else {
+      navigate(`/league/${proposal.leagueId}/trade-machine?counter=${proposal.id}`);
+    }
+  };
+
   const handleReject = async () => {
     if (!myResponse || !isPending) return;
     setIsSubmitting(true);
@@ -209,6 +261,24 @@ export function TradeProposalCard({
             PENDING
           </span>
         );
+      case 'in_review':
+        return (
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-bold bg-orange-400/20 text-orange-400 border border-orange-400/30">
+            IN REVIEW
+          </span>
+        );
+      case 'vetoed':
+        return (
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-bold bg-red-400/20 text-red-400 border border-red-400/30">
+            VETOED
+          </span>
+        );
+      case 'superseded':
+        return (
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-bold bg-gray-400/20 text-gray-400 border border-gray-400/30">
+            COUNTERED
+          </span>
+        );
       case 'executed':
         return (
           <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-bold bg-green-400/20 text-green-400 border border-green-400/30">
@@ -264,17 +334,28 @@ export function TradeProposalCard({
                 </span>
               )}
               {statusBadge()}
+              {proposal.deadlineExceptionId && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-bold bg-yellow-400/10 text-yellow-400 border border-yellow-400/30"
+                  title="Allowed after the trade deadline by a commissioner exception"
+                >
+                  DEADLINE EXCEPTION
+                </span>
+              )}
             </div>
             <p className="text-gray-500 text-sm truncate">
               {proposal.assets.length} asset{proposal.assets.length !== 1 ? 's' : ''} involved
+              {history.length > 0 && ` · counter-offer #${history.length}`}
+              {comments.length > 0 && ` · ${comments.length} comment${comments.length !== 1 ? 's' : ''}`}
             </p>
           </div>
 
           <div className="flex items-center gap-3">
-            {isPending && timeLeft && timeLeft !== 'Expired' ? (
+            {countdownTo && timeLeft && countdownTo > Date.now() ? (
               <span className={`text-xs font-mono font-semibold ${
-                (proposal.expiresAt! - Date.now()) < 60 * 60 * 1000 ? 'text-red-400' :
-                (proposal.expiresAt! - Date.now()) < 6 * 60 * 60 * 1000 ? 'text-yellow-400' :
+                isInReview ? 'text-orange-400' :
+                (countdownTo - Date.now()) < 60 * 60 * 1000 ? 'text-red-400' :
+                (countdownTo - Date.now()) < 6 * 60 * 60 * 1000 ? 'text-yellow-400' :
                 'text-cyan-400'
               }`}>
                 {timeLeft}
@@ -313,9 +394,10 @@ export function TradeProposalCard({
                         asset.type === 'keeper' ? 'bg-green-400/20 text-green-400' :
                         asset.type === 'redshirt' ? 'bg-yellow-400/20 text-yellow-400' :
                         asset.type === 'int_stash' ? 'bg-blue-400/20 text-blue-400' :
+                        asset.type === 'draft_pick' ? 'bg-pink-400/20 text-pink-400' :
                         'bg-purple-400/20 text-purple-400'
                       }`}>
-                        {asset.type === 'int_stash' ? 'STASH' : asset.type === 'rookie_pick' ? 'PICK' : asset.type.toUpperCase()}
+                        {asset.type === 'int_stash' ? 'STASH' : asset.type === 'rookie_pick' ? 'PICK' : asset.type === 'draft_pick' ? 'DRAFT PICK' : asset.type.toUpperCase()}
                       </span>
                       <span className="text-white">{asset.displayName}</span>
                       {asset.salary > 0 && (
@@ -340,6 +422,16 @@ export function TradeProposalCard({
             </div>
           )}
 
+          {/* Negotiation history and comments */}
+          <TradeNegotiationThread
+            proposal={proposal}
+            history={history}
+            comments={comments}
+            teamNames={teamNames}
+            userTeamId={userTeamId}
+            userEmail={userEmail}
+          />
+
           {/* Response Status */}
           <div className="bg-mns-dark rounded-lg p-4 border border-gray-800">
             <div className="text-xs text-gray-400 mb-3">Team Responses</div>
@@ -378,6 +470,32 @@ export function TradeProposalCard({
             </div>
           )}
 
+          {/* League Review */}
+          {isInReview && (
+            <div className="bg-orange-400/5 rounded-lg p-4 border border-orange-400/30 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="text-xs text-orange-400 font-semibold uppercase tracking-wider">League Review</div>
+                <span className="text-sm text-gray-400">
+                  Veto votes: <span className="text-white font-semibold">{vetoVotes.length}/{vetoVotesRequired}</span>
+                </span>
+              </div>
+              <p className="text-sm text-gray-400">
+                {proposal.reviewEndsAt && proposal.reviewEndsAt > Date.now()
+                  ? `Executes automatically on ${new Date(proposal.reviewEndsAt).toLocaleString()} unless vetoed.`
+                  : 'Review period is over. Executing trade...'}
+              </p>
+              {canVoteVeto && (
+                <button
+                  onClick={handleVetoVote}
+                  disabled={isSubmitting || hasVotedVeto || !proposal.reviewEndsAt || proposal.reviewEndsAt <= Date.now()}
+                  className="w-full px-4 py-2 bg-red-400/10 text-red-400 border border-red-400/30 rounded-lg font-semibold hover:bg-red-400/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {hasVotedVeto ? 'You voted to veto' : isSubmitting ? 'Processing...' : 'Vote to Veto'}
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Action Buttons */}
           {needsMyResponse && isPending && (
             <div className="flex gap-3 pt-4 border-t border-gray-800">
@@ -388,6 +506,13 @@ export function TradeProposalCard({
               >
                 {isSubmitting ? 'Processing...' : 'Reject'}
               </button>
+              <button
+                onClick={handleCounter}
+                disabled={isSubmitting}
+                className="flex-1 px-4 py-3 bg-gray-700/30 text-white border border-gray-600/50 rounded-lg font-semibold hover:bg-gray-700/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Counter
+              </button>
               <button
                 onClick={handleAccept}
                 disabled={isSubmitting}
@@ -419,6 +544,23 @@ export function TradeProposalCard({
               </p>
             </div>
           )}
+          {proposal.status === 'vetoed' && (
+            <div className="pt-4 border-t border-gray-800">
+              <p className="text-sm text-red-400 text-center">
+                {proposal.vetoedBy === 'league_vote' ? 'This trade was vetoed by league vote.' : 'This trade was vetoed by the commissioner.'}
+              </p>
+              {proposal.vetoReason && proposal.vetoedBy !== 'league_vote' && (
+                <p className="text-sm text-gray-400 text-center mt-1">Reason: {proposal.vetoReason}</p>
+              )}
+            </div>
+          )}
+          {proposal.status === 'superseded' && (
+            <div className="pt-4 border-t border-gray-800">
+              <p className="text-sm text-gray-400 text-center">
+                This proposal was replaced by a counter-offer.
+              </p>
+            </div>
+          )}
           {proposal.status === 'rejected' && (
             <div className="pt-4 border-t border-gray-800">
               <p className="text-sm text-red-400 text-center">
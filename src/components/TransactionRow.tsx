@@ -0,0 +1,40 @@
+import { describeTransaction } from '../lib/transactionLog';
+import type { Transaction, TransactionType } from '../types';
+import { TRANSACTION_TYPE_LABELS } from '../types';
+
+const TYPE_STYLES: Record<TransactionType, string> = {
+  add: 'bg-green-500/20 text-green-400',
+  drop: 'bg-pink-500/20 text-pink-400',
+  trade: 'bg-purple-500/20 text-purple-400',
+  move_to_ir: 'bg-red-500/20 text-red-400',
+  activate_from_ir: 'bg-blue-500/20 text-blue-400',
+  redshirt_activation: 'bg-yellow-500/20 text-yellow-400',
+  fee: 'bg-gray-700 text-gray-300',
+};
+
+interface TransactionRowProps {
+  transaction: Transaction;
+  teamNames: Map<string, string>;
+}
+
+export function TransactionRow({ transaction, teamNames }: TransactionRowProps) {
+  const teamName = (id?: string) => (id ? teamNames.get(id) || id : 'Unknown team');
+
+  return (
+    <div className="flex items-start gap-3 py-2">
+      <span className={`shrink-0 px-2 py-0.5 text-xs rounded ${TYPE_STYLES[transaction.type]}`}>
+        {TRANSACTION_TYPE_LABELS[transaction.type]}
+      </span>
+      <div className="flex-1 min-w-0">
+        <div className="text-sm text-white">
+          {describeTransaction(transaction, teamName)}
+        </div>
+        <div className="text-xs text-gray-500">
+          {new Date(transaction.createdAt).toLocaleString()}
+          {transaction.note && ` · ${transaction.note}`}
+          {transaction.performedBy && ` · by ${transaction.performedBy}`}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import type { WaiverClaim, WaiverRun } from '../types';
+
+interface WaiverBidHistoryProps {
+  claims: WaiverClaim[];          // League-wide claims for the season
+  runs: WaiverRun[];
+  teamNames: Map<string, string>;
+}
+
+/**
+ * FAAB bids per processing run. Bids stay blind until their run is
+ * processed, so only resolved claims are listed.
+ */
+export function WaiverBidHistory({ claims, runs, teamNames }: WaiverBidHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const faabRuns = runs.filter(run => run.claimMode === 'faab');
+  const claimsByRun = new Map<string, WaiverClaim[]>();
+  for (const claim of claims) {
+    if (!claim.runId || claim.bidAmount === undefined) continue;
+    if (!claimsByRun.has(claim.runId)) claimsByRun.set(claim.runId, []);
+    claimsByRun.get(claim.runId)!.push(claim);
+  }
+
+  const visibleRuns = faabRuns.filter(run => claimsByRun.has(run.id));
+  if (visibleRuns.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-mns-card rounded-lg border border-gray-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 hover:bg-gray-800/30 transition-colors"
+      >
+        <span className="text-white font-medium">FAAB Bid History</span>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          {visibleRuns.map(run => {
+            // Group each run's bids by player, highest bid first
+            const byPlayer = new Map<string, WaiverClaim[]>();
+            for (const claim of claimsByRun.get(run.id)!) {
+              if (!byPlayer.has(claim.playerId)) byPlayer.set(claim.playerId, []);
+              byPlayer.get(claim.playerId)!.push(claim);
+            }
+
+            return (
+              <div key={run.id}>
+                <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">
+                  {new Date(run.processedAt).toLocaleString()}
+                </div>
+                <div className="space-y-2">
+                  {[...byPlayer.values()].map(bids => {
+                    const sorted = [...bids].sort((a, b) => (b.bidAmount || 0) - (a.bidAmount || 0));
+                    return (
+                      <div key={sorted[0].playerId} className="bg-mns-dark rounded border border-gray-800 p-3">
+                        <div className="text-sm text-white font-medium mb-1">{sorted[0].playerName}</div>
+                        <ul className="space-y-0.5">
+                          {sorted.map(bid => (
+                            <li key={bid.id} className="flex items-center justify-between text-xs">
+                              <span className={bid.status === 'awarded' ? 'text-green-400' : 'text-gray-400'}>
+                                {teamNames.get(bid.teamId) || bid.teamId}
+                                {bid.status === 'awarded' && ' ✓'}
+                              </span>
+                              <span className="tabular-nums text-gray-300">${bid.bidAmount}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { cancelWaiverClaim } from '../lib/waiverOps';
+import type { WaiverClaim } from '../types';
+
+interface WaiverClaimCardProps {
+  claim: WaiverClaim;
+  canCancel: boolean;
+}
+
+const STATUS_STYLES: Record<WaiverClaim['status'], { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-500/20 text-yellow-400' },
+  awarded: { label: 'Awarded', className: 'bg-green-500/20 text-green-400' },
+  failed: { label: 'Not Awarded', className: 'bg-red-500/20 text-red-400' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-700 text-gray-400' },
+};
+
+export function WaiverClaimCard({ claim, canCancel }: WaiverClaimCardProps) {
+  const [cancelling, setCancelling] = useState(false);
+  const style = STATUS_STYLES[claim.status];
+
+  const handleCancel = async () => {
+    if (!confirm(`Cancel your claim on ${claim.playerName}?`)) return;
+    setCancelling(true);
+    const result = await cancelWaiverClaim(claim.id);
+    setCancelling(false);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to cancel claim');
+      return;
+    }
+    toast.success('Claim cancelled');
+  };
+
+  return (
+    <div className="bg-mns-card rounded-lg border border-gray-800 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="text-white font-medium">
+            Claim: <span className="text-green-400">{claim.playerName}</span>
+          </div>
+          {claim.bidAmount !== undefined && (
+            <div className="text-sm text-gray-400">
+              Bid: <span className="text-white tabular-nums">${claim.bidAmount}</span>
+            </div>
+          )}
+          {claim.dropPlayerName && (
+            <div className="text-sm text-gray-400">
+              Drop: <span className="text-pink-400">{claim.dropPlayerName}</span>
+            </div>
+          )}
+          <div className="text-xs text-gray-500 mt-1">
+            Submitted {new Date(claim.createdAt).toLocaleString()}
+            {claim.processedAt && ` · Processed ${new Date(claim.processedAt).toLocaleString()}`}
+            {claim.priority ? ` · Priority #${claim.priority}` : ''}
+          </div>
+          {claim.failureReason && (
+            <div className="text-xs text-red-400 mt-1">{claim.failureReason}</div>
+          )}
+        </div>
+        <div className="flex flex-col items-end gap-2 shrink-0">
+          <span className={`px-2 py-0.5 text-xs rounded-full ${style.className}`}>{style.label}</span>
+          {canCancel && claim.status === 'pending' && (
+            <button
+              onClick={handleCancel}
+              disabled={cancelling}
+              className="text-xs text-gray-500 hover:text-red-400 disabled:opacity-50"
+            >
+              {cancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
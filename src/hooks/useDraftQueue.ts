@@ -0,0 +1,83 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { mapDraftQueue } from '../lib/mappers';
+import type { DraftQueue } from '../types';
+
+/**
+ * A team's draft queue. `queue` is null until the team saves one — autopick
+ * then falls back to the team's watchlist order.
+ */
+export function useDraftQueue(draftId: string | undefined, teamId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: queue = null, isLoading: loading } = useQuery({
+    queryKey: ['draftQueue', draftId, teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('draft_queues')
+        .select('*')
+        .eq('draft_id', draftId!)
+        .eq('team_id', teamId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? mapDraftQueue(data) : null;
+    },
+    enabled: !!draftId && !!teamId,
+  });
+
+  // Autopick removes drafted players from every queue server-side
+  useEffect(() => {
+    if (!draftId || !teamId) return;
+
+    const channel = supabase.channel(`draft-queue-${draftId}-${teamId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'draft_queues',
+          filter: `id=eq.${draftId}_${teamId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['draftQueue', draftId, teamId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [draftId, teamId, queryClient]);
+
+  const setQueue = (updatedQueue: DraftQueue | null) => {
+    queryClient.setQueryData(['draftQueue', draftId, teamId], updatedQueue);
+  };
+
+  return { queue, loading, setQueue };
+}
+
+export async function saveDraftQueue(
+  draftId: string,
+  leagueId: string,
+  teamId: string,
+  playerIds: string[]
+): Promise<DraftQueue> {
+  const id = `${draftId}_${teamId}`;
+  const { data, error } = await supabase
+    .from('draft_queues')
+    .upsert({
+      id,
+      draft_id: draftId,
+      league_id: leagueId,
+      team_id: teamId,
+      player_ids: playerIds,
+      updated_at: new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return mapDraftQueue(data);
+}
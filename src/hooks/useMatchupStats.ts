@@ -0,0 +1,69 @@
+import { useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { mapDailyLineup, mapPlayerBoxScore } from '../lib/mappers';
+import { indexBoxScores } from '../lib/matchupScoring';
+import type { DailyLineup } from '../types';
+
+/**
+ * Actual box scores + daily lineups for the two teams in a matchup week.
+ * Box scores are keyed by date → fantraxId; lineups are grouped by team.
+ */
+export function useMatchupStats(params: {
+  leagueId?: string;
+  teamIds: string[];
+  fantraxIds: string[];
+  startDate?: string;
+  endDate?: string;
+}) {
+  const { leagueId, teamIds, fantraxIds, startDate, endDate } = params;
+  const enabled = !!leagueId && teamIds.length > 0 && !!startDate && !!endDate;
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ['matchupStats', leagueId, teamIds, fantraxIds, startDate, endDate],
+    queryFn: async () => {
+      const [boxRes, lineupRes] = await Promise.all([
+        fantraxIds.length > 0
+          ? supabase
+              .from('player_box_scores')
+              .select('*')
+              .in('fantrax_id', fantraxIds)
+              .gte('game_date', startDate!)
+              .lte('game_date', endDate!)
+          : Promise.resolve({ data: [], error: null }),
+        supabase
+          .from('daily_lineups')
+          .select('*')
+          .eq('league_id', leagueId!)
+          .in('team_id', teamIds)
+          .gte('game_date', startDate!)
+          .lte('game_date', endDate!),
+      ]);
+
+      if (boxRes.error) throw boxRes.error;
+      if (lineupRes.error) throw lineupRes.error;
+
+      return {
+        boxScores: (boxRes.data || []).map(mapPlayerBoxScore),
+        lineups: (lineupRes.data || []).map(mapDailyLineup),
+      };
+    },
+    enabled,
+  });
+
+  const boxScoresByDate = useMemo(() => indexBoxScores(data?.boxScores || []), [data?.boxScores]);
+
+  const lineupsByTeam = useMemo(() => {
+    const map = new Map<string, DailyLineup[]>();
+    for (const lineup of data?.lineups || []) {
+      const existing = map.get(lineup.teamId) || [];
+      existing.push(lineup);
+      map.set(lineup.teamId, existing);
+    }
+    return map;
+  }, [data?.lineups]);
+
+  const hasActualStats = (data?.boxScores.length || 0) > 0;
+
+  return { boxScoresByDate, lineupsByTeam, hasActualStats, loading };
+}
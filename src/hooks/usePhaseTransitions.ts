@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { mapPhaseTransition } from '../lib/mappers';
+
+export function usePhaseTransitions(leagueId?: string, limit = 20) {
+  const queryClient = useQueryClient();
+
+  const { data: transitions = [], isLoading: loading, error } = useQuery({
+    queryKey: ['phaseTransitions', leagueId, limit],
+    queryFn: async () => {
+      const { data, error: err } = await supabase
+        .from('phase_transitions')
+        .select('*')
+        .eq('league_id', leagueId!)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (err) throw err;
+      return (data || []).map(mapPhaseTransition);
+    },
+    enabled: !!leagueId,
+  });
+
+  // The audit log is append-only
+  useEffect(() => {
+    if (!leagueId) return;
+
+    const channel = supabase
+      .channel(`phase-transitions-${leagueId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'phase_transitions',
+        filter: `league_id=eq.${leagueId}`,
+      }, () => {
+        queryClient.invalidateQueries({ queryKey: ['phaseTransitions', leagueId] });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueId, queryClient]);
+
+  return { transitions, loading, error: error as Error | null };
+}
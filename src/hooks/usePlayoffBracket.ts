@@ -0,0 +1,72 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { mapMatchup, mapPlayoffBracket } from '../lib/mappers';
+
+interface UsePlayoffBracketOptions {
+  leagueId?: string;
+  seasonYear?: number;
+}
+
+export function usePlayoffBracket(options: UsePlayoffBracketOptions) {
+  const queryClient = useQueryClient();
+  const { leagueId, seasonYear } = options;
+
+  const { data, isLoading: loading, error } = useQuery({
+    queryKey: ['playoffBracket', leagueId, seasonYear],
+    queryFn: async () => {
+      const [bracketRes, matchupRes] = await Promise.all([
+        supabase.from('playoff_brackets').select('*').eq('id', `${leagueId}_${seasonYear}`).maybeSingle(),
+        supabase
+          .from('league_matchups')
+          .select('*')
+          .eq('league_id', leagueId!)
+          .eq('season_year', seasonYear!)
+          .not('bracket', 'is', null)
+          .order('matchup_week', { ascending: true }),
+      ]);
+
+      if (bracketRes.error) throw bracketRes.error;
+      if (matchupRes.error) throw matchupRes.error;
+
+      return {
+        bracket: bracketRes.data ? mapPlayoffBracket(bracketRes.data) : null,
+        matchups: (matchupRes.data || []).map(mapMatchup),
+      };
+    },
+    enabled: !!leagueId && !!seasonYear,
+  });
+
+  // Scores and new rounds both arrive as league_matchups changes
+  useEffect(() => {
+    if (!leagueId || !seasonYear) return;
+
+    const invalidate = () => queryClient.invalidateQueries({ queryKey: ['playoffBracket', leagueId, seasonYear] });
+    const channel = supabase
+      .channel(`playoff-bracket-${leagueId}-${seasonYear}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'league_matchups',
+        filter: `league_id=eq.${leagueId}`,
+      }, invalidate)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'playoff_brackets',
+        filter: `league_id=eq.${leagueId}`,
+      }, invalidate)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueId, seasonYear, queryClient]);
+
+  return {
+    bracket: data?.bracket ?? null,
+    matchups: data?.matchups ?? [],
+    loading,
+    error: error as Error | null,
+  };
+}
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { getPrizeSpots } from '../lib/lottery';
+import { DEFAULT_PRIZE_SPOTS } from '../lib/tradeAnalyzer';
+import type { League } from '../types';
+
+/**
+ * How many teams finish "in the money" (and so skip the rookie lottery),
+ * from the same pool LeagueHome shows: buy-ins plus this season's fees,
+ * marked to the portfolio's value when the league has one. Falls back to
+ * DEFAULT_PRIZE_SPOTS while loading.
+ */
+export function usePrizeSpots(league: League | null | undefined, teamCount: number): number {
+  const { data: prizeSpots = DEFAULT_PRIZE_SPOTS } = useQuery({
+    queryKey: ['prizeSpots', league?.id, league?.seasonYear, teamCount],
+    queryFn: async () => {
+      const [feesRes, portfolioRes] = await Promise.all([
+        supabase.from('team_fees').select('total_fees').eq('league_id', league!.id).eq('season_year', league!.seasonYear),
+        supabase.from('portfolios').select('usd_invested, cached_usd_value').eq('id', league!.id).maybeSingle(),
+      ]);
+      if (feesRes.error) throw feesRes.error;
+      if (portfolioRes.error) throw portfolioRes.error;
+
+      const fees = (feesRes.data || []).reduce((sum, row) => sum + (Number(row.total_fees) || 0), 0);
+      const totalCollected = teamCount * (league!.fees?.buyIn ?? 50) + fees;
+      const portfolio = portfolioRes.data;
+      const totalPrizePool = portfolio?.cached_usd_value
+        ? portfolio.cached_usd_value + (totalCollected - portfolio.usd_invested)
+        : totalCollected;
+      return getPrizeSpots(totalPrizePool, totalCollected);
+    },
+    enabled: !!league && teamCount > 0,
+  });
+
+  return prizeSpots;
+}
@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase, fetchAllRows } from '../lib/supabase';
+import { isPostseasonLabel } from '../lib/recordBook';
+import { mapDraftHistory, mapLeague, mapMatchup, mapSeasonResult, mapTeam } from '../lib/mappers';
+
+/**
+ * Everything the Record Book needs, across every season of the league:
+ * recorded podiums, all matchups, post-season weeks and archived drafts.
+ */
+export function useRecordBook(leagueId?: string) {
+  const { data, isLoading: loading, error } = useQuery({
+    queryKey: ['recordBook', leagueId],
+    queryFn: async () => {
+      const [leagueRes, teamsRes, resultsRes, historyRes, matchupRows, weekRows] = await Promise.all([
+        supabase.from('leagues').select('*').eq('id', leagueId!).single(),
+        supabase.from('teams').select('*').eq('league_id', leagueId!),
+        supabase.from('season_results').select('*').eq('league_id', leagueId!).order('season_year', { ascending: false }),
+        supabase.from('draft_history').select('*').eq('league_id', leagueId!),
+        fetchAllRows('league_matchups', '*', q => q.eq('league_id', leagueId)),
+        fetchAllRows('league_weeks', 'season_year, matchup_week, label', q => q.eq('league_id', leagueId)),
+      ]);
+
+      if (leagueRes.error) throw leagueRes.error;
+      if (teamsRes.error) throw teamsRes.error;
+      if (resultsRes.error) throw resultsRes.error;
+      if (historyRes.error) throw historyRes.error;
+
+      // seasonYear → matchup weeks that were playoffs or consolation
+      const postseasonWeeks = new Map<number, Set<number>>();
+      for (const row of weekRows) {
+        if (!isPostseasonLabel(row.label)) continue;
+        if (!postseasonWeeks.has(row.season_year)) postseasonWeeks.set(row.season_year, new Set());
+        postseasonWeeks.get(row.season_year)!.add(row.matchup_week);
+      }
+
+      return {
+        league: mapLeague(leagueRes.data),
+        teams: (teamsRes.data || []).map(mapTeam),
+        results: (resultsRes.data || []).map(mapSeasonResult),
+        draftHistories: (historyRes.data || []).map(mapDraftHistory),
+        matchups: matchupRows.map(mapMatchup),
+        postseasonWeeks,
+      };
+    },
+    enabled: !!leagueId,
+  });
+
+  return { data, loading, error: error as Error | null };
+}
@@ -1,7 +1,7 @@
 import { useEffect } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
-import type { RosterEntry, Player } from '../types';
+import type { RosterEntry, Player, LeagueKeeperRules } from '../types';
 import { stackKeeperRounds, computeSummary } from '../lib/keeperAlgorithms';
 import { mapRoster, mapPlayer, mapTeam, mapLeague } from '../lib/mappers';
 
@@ -190,6 +190,7 @@ interface UpdateRosterParams {
   entries: RosterEntry[];
   allPlayers: Map<string, Player>;
   tradeDelta: number;
+  keeperRules?: LeagueKeeperRules;
 }
 
 // Helper to remove undefined values from an object
@@ -207,11 +208,11 @@ function removeUndefined(obj: any): any {
 }
 
 export async function updateRoster(params: UpdateRosterParams) {
-  const { leagueId, teamId, entries, allPlayers, tradeDelta } = params;
+  const { leagueId, teamId, entries, allPlayers, tradeDelta, keeperRules } = params;
   const rosterId = `${leagueId}_${teamId}`;
 
   // Apply stacking algorithm
-  const { entries: stackedEntries, franchiseTags } = stackKeeperRounds(entries);
+  const { entries: stackedEntries, franchiseTags } = stackKeeperRounds(entries, keeperRules);
 
   // Compute summary
   const summary = computeSummary({
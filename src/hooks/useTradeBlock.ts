@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { mapTradeBlockEntry } from '../lib/mappers';
+
+export function useTradeBlock(leagueId?: string) {
+  const queryClient = useQueryClient();
+
+  const { data: entries = [], isLoading: loading } = useQuery({
+    queryKey: ['tradeBlock', leagueId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('trade_block_entries')
+        .select('*')
+        .eq('league_id', leagueId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapTradeBlockEntry);
+    },
+    enabled: !!leagueId,
+  });
+
+  // Realtime subscription — invalidate on changes
+  useEffect(() => {
+    if (!leagueId) return;
+
+    const channel = supabase
+      .channel(`trade-block-${leagueId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'trade_block_entries',
+        filter: `league_id=eq.${leagueId}`,
+      }, () => {
+        queryClient.invalidateQueries({ queryKey: ['tradeBlock', leagueId] });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueId, queryClient]);
+
+  return { entries, loading };
+}
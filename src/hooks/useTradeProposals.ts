@@ -1,8 +1,10 @@
 import { useEffect, useMemo } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
-import { mapTradeProposal, mapTradeResponse } from '../lib/mappers';
-import type { TradeProposal, TradeProposalResponse } from '../types';
+import { mapTradeComment, mapTradeDeadlineException, mapTradeProposal, mapTradeResponse, mapTradeVetoVote } from '../lib/mappers';
+import { groupTradeThreads } from '../lib/tradeNegotiation';
+import { expireTradesAtDeadline } from '../lib/tradeDeadline';
+import type { TradeComment, TradeDeadlineException, TradeProposal, TradeProposalResponse, TradeVetoVote } from '../types';
 
 export function useTradeProposals(leagueId?: string, teamId?: string) {
   const queryClient = useQueryClient();
@@ -10,6 +12,9 @@ export function useTradeProposals(leagueId?: string, teamId?: string) {
   const { data, isLoading: loading } = useQuery({
     queryKey: ['tradeProposals', leagueId],
     queryFn: async () => {
+      // Past the trade deadline, leftover pending proposals expire before we read them
+      await expireTradesAtDeadline(leagueId!);
+
       // Fetch proposals
       const { data: proposalRows, error: propErr } = await supabase
         .from('trade_proposals')
@@ -40,21 +45,83 @@ export function useTradeProposals(leagueId?: string, teamId?: string) {
         }
       }
 
-      return { proposals: allProposals, responses: respMap };
+      // Veto votes for trades under league review
+      const voteMap = new Map<string, TradeVetoVote[]>();
+      const { data: voteRows, error: voteErr } = await supabase
+        .from('trade_veto_votes')
+        .select('*')
+        .eq('league_id', leagueId!);
+
+      if (voteErr) throw voteErr;
+
+      for (const row of voteRows || []) {
+        const vote = mapTradeVetoVote(row);
+        const existing = voteMap.get(vote.proposalId) || [];
+        existing.push(vote);
+        voteMap.set(vote.proposalId, existing);
+      }
+
+      // Negotiation comments, keyed by thread
+      const commentMap = new Map<string, TradeComment[]>();
+      const { data: commentRows, error: commentErr } = await supabase
+        .from('trade_comments')
+        .select('*')
+        .eq('league_id', leagueId!)
+        .order('created_at', { ascending: true });
+
+      if (commentErr) throw commentErr;
+
+      for (const row of commentRows || []) {
+        const comment = mapTradeComment(row);
+        const existing = commentMap.get(comment.threadId) || [];
+        existing.push(comment);
+        commentMap.set(comment.threadId, existing);
+      }
+
+      // Commissioner deadline exceptions, newest first
+      const { data: exceptionRows, error: exceptionErr } = await supabase
+        .from('trade_deadline_exceptions')
+        .select('*')
+        .eq('league_id', leagueId!)
+        .order('created_at', { ascending: false });
+
+      if (exceptionErr) throw exceptionErr;
+
+      return {
+        proposals: allProposals,
+        responses: respMap,
+        vetoVotes: voteMap,
+        comments: commentMap,
+        deadlineExceptions: (exceptionRows || []).map(mapTradeDeadlineException),
+      };
     },
     enabled: !!leagueId,
   });
 
-  // Client-side filter to proposals involving this team
+  // Client-side filter to proposals involving this team. A negotiation is
+  // kept whole: if the team is in any version, every version is returned.
   const proposals = useMemo(() => {
     const all = data?.proposals || [];
     if (teamId) {
-      return all.filter((p: TradeProposal) => p.involvedTeamIds.includes(teamId));
+      const threadIds = new Set(all.filter((p: TradeProposal) => p.involvedTeamIds.includes(teamId)).map(p => p.threadId));
+      return all.filter((p: TradeProposal) => threadIds.has(p.threadId));
     }
     return all;
   }, [data?.proposals, teamId]);
 
+  // Every version of each negotiation, oldest first
+  const threads = useMemo(() => groupTradeThreads(proposals), [proposals]);
+
+  // Every trade under league review, including ones this team isn't part of (they can vote on those)
+  const reviewProposals = useMemo(
+    () => (data?.proposals || []).filter((p: TradeProposal) => p.status === 'in_review'),
+    [data?.proposals]
+  );
+
   const responses = data?.responses || new Map<string, TradeProposalResponse[]>();
+  const vetoVotes = data?.vetoVotes || new Map<string, TradeVetoVote[]>();
+  const comments = data?.comments || new Map<string, TradeComment[]>();
+  const deadlineExceptions: TradeDeadlineException[] = data?.deadlineExceptions || [];
 
   // Realtime subscription — invalidate on changes
   useEffect(() => {
@@ -77,6 +144,30 @@ export function useTradeProposals(leagueId?: string, teamId?: string) {
       }, () => {
         queryClient.invalidateQueries({ queryKey: ['tradeProposals', leagueId] });
       })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'trade_comments',
+        filter: `league_id=eq.${leagueId}`,
+      }, () => {
+        queryClient.invalidateQueries({ queryKey: ['tradeProposals', leagueId] });
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'trade_deadline_exceptions',
+        filter: `league_id=eq.${leagueId}`,
+      }, () => {
+        queryClient.invalidateQueries({ queryKey: ['tradeProposals', leagueId] });
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'trade_veto_votes',
+        filter: `league_id=eq.${leagueId}`,
+      }, () => {
+        queryClient.invalidateQueries({ queryKey: ['tradeProposals', leagueId] });
+      })
       .subscribe();
 
     return () => {
@@ -84,5 +175,5 @@ export function useTradeProposals(leagueId?: string, teamId?: string) {
     };
   }, [leagueId, queryClient]);
 
-  return { proposals, responses, loading };
+  return { proposals, reviewProposals, threads, responses, vetoVotes, comments, deadlineExceptions, loading };
 }
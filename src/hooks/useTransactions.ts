@@ -0,0 +1,66 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { mapTransaction } from '../lib/mappers';
+import type { TransactionType } from '../types';
+
+interface UseTransactionsOptions {
+  leagueId?: string;
+  teamId?: string;         // Either side of the transaction
+  playerId?: string;
+  type?: TransactionType;
+  startDate?: string;      // YYYY-MM-DD, inclusive
+  endDate?: string;        // YYYY-MM-DD, inclusive
+  limit?: number;
+}
+
+export function useTransactions(options: UseTransactionsOptions) {
+  const queryClient = useQueryClient();
+  const { leagueId, teamId, playerId, type, startDate, endDate, limit = 200 } = options;
+
+  const { data: transactions = [], isLoading: loading, error } = useQuery({
+    queryKey: ['transactions', leagueId, { teamId, playerId, type, startDate, endDate, limit }],
+    queryFn: async () => {
+      let query = supabase
+        .from('transactions')
+        .select('*')
+        .eq('league_id', leagueId!)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (teamId) query = query.or(`team_id.eq.${teamId},other_team_id.eq.${teamId}`);
+      if (playerId) query = query.eq('player_id', playerId);
+      if (type) query = query.eq('type', type);
+      if (startDate) query = query.gte('created_at', `${startDate}T00:00:00`);
+      if (endDate) query = query.lte('created_at', `${endDate}T23:59:59.999`);
+
+      const { data, error: err } = await query;
+      if (err) throw err;
+      return (data || []).map(mapTransaction);
+    },
+    enabled: !!leagueId,
+  });
+
+  // New transactions are inserts only (the table is append-only)
+  useEffect(() => {
+    if (!leagueId) return;
+
+    const channel = supabase
+      .channel(`transactions-${leagueId}-${playerId || 'all'}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'transactions',
+        filter: `league_id=eq.${leagueId}`,
+      }, () => {
+        queryClient.invalidateQueries({ queryKey: ['transactions', leagueId] });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueId, playerId, queryClient]);
+
+  return { transactions, loading, error: error as Error | null };
+}
@@ -0,0 +1,100 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { mapWaiverClaim, mapWaiverRun } from '../lib/mappers';
+
+interface UseWaiverClaimsOptions {
+  leagueId?: string;
+  seasonYear?: number;
+  teamId?: string;   // Only this team's claims; omit for the whole league (commissioner view)
+}
+
+export function useWaiverClaims(options: UseWaiverClaimsOptions = {}) {
+  const queryClient = useQueryClient();
+  const { leagueId, seasonYear, teamId } = options;
+
+  const { data: allClaims = [], isLoading: loading, error } = useQuery({
+    queryKey: ['waiverClaims', leagueId, seasonYear],
+    queryFn: async () => {
+      const { data, error: err } = await supabase
+        .from('waiver_claims')
+        .select('*')
+        .eq('league_id', leagueId!)
+        .eq('season_year', seasonYear!)
+        .order('created_at', { ascending: false });
+
+      if (err) throw err;
+      return (data || []).map(mapWaiverClaim);
+    },
+    enabled: !!leagueId && !!seasonYear,
+  });
+
+  // Pending bids are blind: only the caller's own come back
+  const { data: myBids } = useQuery({
+    queryKey: ['waiverBids', leagueId, seasonYear],
+    queryFn: async () => {
+      const { data, error: err } = await supabase.rpc('get_my_waiver_bids', { p_league_id: leagueId! });
+      if (err) throw err;
+      return new Map<string, number>(
+        ((data || []) as Array<{ claim_id: string; bid_amount: number }>).map(b => [b.claim_id, b.bid_amount])
+      );
+    },
+    enabled: !!leagueId && !!seasonYear,
+  });
+
+  const { data: runs = [] } = useQuery({
+    queryKey: ['waiverRuns', leagueId, seasonYear],
+    queryFn: async () => {
+      const { data, error: err } = await supabase
+        .from('waiver_runs')
+        .select('*')
+        .eq('league_id', leagueId!)
+        .eq('season_year', seasonYear!)
+        .order('processed_at', { ascending: false })
+        .limit(20);
+
+      if (err) throw err;
+      return (data || []).map(mapWaiverRun);
+    },
+    enabled: !!leagueId && !!seasonYear,
+  });
+
+  const claims = useMemo(() => {
+    const withBids = allClaims.map(c =>
+      c.bidAmount === undefined && myBids?.has(c.id) ? { ...c, bidAmount: myBids.get(c.id) } : c
+    );
+    return teamId ? withBids.filter(c => c.teamId === teamId) : withBids;
+  }, [allClaims, myBids, teamId]);
+
+  // Realtime subscription — invalidate cache on changes
+  useEffect(() => {
+    if (!leagueId || !seasonYear) return;
+
+    const channel = supabase
+      .channel(`waiver-claims-${leagueId}-${seasonYear}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'waiver_claims',
+        filter: `league_id=eq.${leagueId}`,
+      }, () => {
+        queryClient.invalidateQueries({ queryKey: ['waiverClaims', leagueId, seasonYear] });
+        queryClient.invalidateQueries({ queryKey: ['waiverBids', leagueId, seasonYear] });
+      })
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'waiver_runs',
+        filter: `league_id=eq.${leagueId}`,
+      }, () => {
+        queryClient.invalidateQueries({ queryKey: ['waiverRuns', leagueId, seasonYear] });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueId, seasonYear, queryClient]);
+
+  return { claims, runs, loading, error: error as Error | null };
+}
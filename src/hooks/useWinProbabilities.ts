@@ -0,0 +1,164 @@
+import { useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { supabase, fetchAllRows } from '../lib/supabase';
+import {
+  mapDailyLineup, mapMatchup, mapNBAGame, mapPlayer, mapPlayerBoxScore,
+} from '../lib/mappers';
+import { getDatesInRange } from '../lib/scheduleUtils';
+import { computeTeamTotals, indexBoxScores, resolveStartersByDate } from '../lib/matchupScoring';
+import {
+  buildRemainingGames, createRng, seedFromString, simulateMatchup,
+} from '../lib/matchupSimulator';
+import type { SimulationResult } from '../lib/matchupSimulator';
+import { useProjectedStats } from './useProjectedStats';
+import { todayET } from '../utils/date';
+import type { Player, RegularSeasonRoster } from '../types';
+
+// Roster view of a team from players.slot (source of truth)
+function rosterFromPlayers(leagueId: string, seasonYear: number, teamId: string, players: Player[]): RegularSeasonRoster {
+  const teamPlayers = players.filter(p => p.roster.teamId === teamId);
+  return {
+    id: `${leagueId}_${teamId}`,
+    leagueId,
+    teamId,
+    seasonYear,
+    activeRoster: teamPlayers.filter(p => p.slot === 'active' || p.slot === 'bench').map(p => p.id),
+    irSlots: teamPlayers.filter(p => p.slot === 'ir').map(p => p.id),
+    redshirtPlayers: teamPlayers.filter(p => p.slot === 'redshirt').map(p => p.id),
+    internationalPlayers: teamPlayers.filter(p => p.slot === 'international').map(p => p.id),
+    benchedPlayers: teamPlayers.filter(p => p.slot === 'bench').map(p => p.id),
+    isLegalRoster: true,
+    lastUpdated: Date.now(),
+    updatedBy: '',
+  };
+}
+
+/**
+ * Rest-of-week win probabilities for every matchup in a matchup week.
+ * Actual box scores so far + Monte Carlo over the remaining schedule.
+ * Each matchup is seeded from its ID so the odds are stable across renders.
+ */
+export function useWinProbabilities(params: {
+  leagueId?: string;
+  seasonYear?: number;
+  matchupWeek?: number | null;
+  iterations?: number;
+}) {
+  const { leagueId, seasonYear, matchupWeek, iterations = 1000 } = params;
+  const { projectedStats, loading: projectionsLoading } = useProjectedStats();
+  const enabled = !!leagueId && !!seasonYear && matchupWeek !== null && matchupWeek !== undefined;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['winProbabilityInputs', leagueId, seasonYear, matchupWeek],
+    queryFn: async () => {
+      const { data: weekRows, error: weekErr } = await supabase
+        .from('league_weeks')
+        .select('start_date, end_date')
+        .eq('league_id', leagueId!)
+        .eq('season_year', seasonYear!)
+        .eq('matchup_week', matchupWeek!)
+        .order('week_number', { ascending: true });
+
+      if (weekErr) throw weekErr;
+      if (!weekRows || weekRows.length === 0) return null;
+
+      const startDate = weekRows[0].start_date;
+      const endDate = weekRows[weekRows.length - 1].end_date;
+
+      const [matchupRes, playerRes, lineupRes, gameRes, boxRows] = await Promise.all([
+        supabase
+          .from('league_matchups')
+          .select('*')
+          .eq('league_id', leagueId!)
+          .eq('season_year', seasonYear!)
+          .eq('matchup_week', matchupWeek!),
+        supabase
+          .from('players')
+          .select('*')
+          .eq('league_id', leagueId!)
+          .not('team_id', 'is', null),
+        supabase
+          .from('daily_lineups')
+          .select('*')
+          .eq('league_id', leagueId!)
+          .gte('game_date', startDate)
+          .lte('game_date', endDate),
+        supabase
+          .from('games')
+          .select('*')
+          .gte('game_date', startDate)
+          .lte('game_date', endDate),
+        fetchAllRows('player_box_scores', '*', q => q.gte('game_date', startDate).lte('game_date', endDate)),
+      ]);
+
+      if (matchupRes.error) throw matchupRes.error;
+      if (playerRes.error) throw playerRes.error;
+      if (lineupRes.error) throw lineupRes.error;
+      if (gameRes.error) throw gameRes.error;
+
+      return {
+        dates: getDatesInRange(startDate, endDate),
+        matchups: (matchupRes.data || []).map(mapMatchup),
+        players: (playerRes.data || []).map(mapPlayer),
+        lineups: (lineupRes.data || []).map(mapDailyLineup),
+        games: (gameRes.data || []).map(mapNBAGame),
+        boxScores: boxRows.map(mapPlayerBoxScore),
+      };
+    },
+    enabled,
+  });
+
+  const probabilities = useMemo(() => {
+    const result = new Map<string, SimulationResult>();
+    if (!data || !leagueId || !seasonYear || projectedStats.size === 0) return result;
+
+    const boxScoresByDate = indexBoxScores(data.boxScores);
+    const today = todayET();
+    const remainingDates = data.dates.filter(d => d >= today && !boxScoresByDate.has(d));
+
+    const nbaTeamsPlayingByDate = new Map<string, Set<string>>();
+    for (const game of data.games) {
+      if (!nbaTeamsPlayingByDate.has(game.gameDate)) nbaTeamsPlayingByDate.set(game.gameDate, new Set());
+      nbaTeamsPlayingByDate.get(game.gameDate)!.add(game.awayTeam);
+      nbaTeamsPlayingByDate.get(game.gameDate)!.add(game.homeTeam);
+    }
+
+    const playerInfo = new Map(data.players.map(p => [p.id, { fantraxId: p.fantraxId, nbaTeam: p.nbaTeam }]));
+    const fantraxIdByPlayerId = new Map(data.players.map(p => [p.id, p.fantraxId]));
+
+    const teamInput = (teamId: string) => {
+      const roster = rosterFromPlayers(leagueId, seasonYear, teamId, data.players);
+      const lineups = data.lineups.filter(l => l.teamId === teamId);
+      const benchedSet = new Set(roster.benchedPlayers);
+      const startersByDate = resolveStartersByDate(
+        data.dates,
+        lineups,
+        roster.activeRoster.filter(id => !benchedSet.has(id))
+      );
+      return {
+        current: computeTeamTotals({ dates: data.dates, startersByDate, fantraxIdByPlayerId, boxScoresByDate }),
+        remainingGames: buildRemainingGames({
+          remainingDates,
+          roster,
+          lineups,
+          playerInfo,
+          projections: projectedStats,
+          nbaTeamsPlayingByDate,
+        }),
+      };
+    };
+
+    for (const matchup of data.matchups) {
+      result.set(matchup.id, simulateMatchup({
+        home: teamInput(matchup.homeTeamId),
+        away: teamInput(matchup.awayTeamId),
+        iterations,
+        rng: createRng(seedFromString(matchup.id)),
+      }));
+    }
+
+    return result;
+  }, [data, leagueId, seasonYear, projectedStats, iterations]);
+
+  return { probabilities, loading: (enabled && isLoading) || projectionsLoading };
+}
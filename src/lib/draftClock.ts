@@ -0,0 +1,70 @@
+import { supabase } from './supabase';
+import type { Draft } from '../types';
+
+/**
+ * Pick clock helpers. The clock is enforced server-side by the
+ * draft-autopick edge function; the client only displays it and asks the
+ * function to sweep once its local countdown hits zero.
+ */
+
+export const PICK_CLOCK_OPTIONS: Array<{ seconds: number; label: string }> = [
+  { seconds: 0, label: 'No clock' },
+  { seconds: 60, label: '1 minute' },
+  { seconds: 90, label: '90 seconds' },
+  { seconds: 120, label: '2 minutes' },
+  { seconds: 180, label: '3 minutes' },
+  { seconds: 300, label: '5 minutes' },
+  { seconds: 3600, label: '1 hour' },
+  { seconds: 28800, label: '8 hours' },
+];
+
+/**
+ * Timestamp when the current pick expires, or null when the draft has no
+ * clock or isn't live.
+ */
+export function getPickDeadline(draft: Draft): number | null {
+  const seconds = draft.settings.pickClockSeconds || 0;
+  if (!seconds || draft.status !== 'in_progress' || !draft.currentPick) return null;
+  return draft.currentPick.startedAt + seconds * 1000;
+}
+
+export function formatPickClock(remainingMs: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+export interface AutopickResponse {
+  status: 'picked' | 'not_expired' | 'no_clock' | 'already_picked' | 'no_players';
+  overallPick?: number;
+  playerName?: string;
+  remainingMs?: number;  // not_expired: time left on the server clock
+}
+
+// Retry delay when the autopick request itself fails
+export const AUTOPICK_RETRY_MS = 5000;
+
+/**
+ * Ask the server to autopick if this draft's clock has expired.
+ * Safe to call from every open client — the function re-checks expiry
+ * against server time and only one caller can claim the pick. Returns
+ * the server's answer for this draft, or null if the request failed.
+ */
+export async function requestAutopick(draftId: string): Promise<AutopickResponse | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('draft-autopick', {
+      body: { draftId },
+    });
+    if (error) {
+      console.error('Autopick request error:', error);
+      return null;
+    }
+    return (data?.results?.[0] as AutopickResponse | undefined) ?? null;
+  } catch (err) {
+    console.error('Failed to request autopick:', err);
+    return null;
+  }
+}
@@ -0,0 +1,249 @@
+import { supabase } from './supabase';
+import { logger } from './logger';
+import { nextYearKeeperRound, stackKeeperRounds } from './keeperAlgorithms';
+import { logTransactions } from './transactionLog';
+import type { RosterOpResult } from './rosterOps';
+import type {
+  Draft,
+  DraftHistory,
+  DraftHistoryKeeper,
+  DraftHistoryPick,
+  DraftHistoryPlayer,
+  LeagueKeeperRules,
+  Player,
+  RosterDoc,
+  Team,
+  TeamFees,
+} from '../types';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type DraftCompletionErrorCode =
+  | 'empty_pick'
+  | 'over_max_active'
+  | 'duplicate_player'
+  | 'draft_not_found'
+  | 'already_completed'
+  | 'database_error';
+
+export interface DraftCompletionError {
+  code: DraftCompletionErrorCode;
+  message: string;
+  teamId?: string;
+  overallPick?: number;
+  playerId?: string;
+}
+
+export interface CompleteDraftResult extends RosterOpResult {
+  errors: DraftCompletionError[];
+  playersAssigned?: number;
+}
+
+interface DraftCompletionInput {
+  draft: Draft;
+  leagueId: string;
+  seasonYear: number;
+  teams: Team[];
+  players: Map<string, Player>;
+  rosters: Map<string, RosterDoc>;  // keyed by teamId
+  completedBy: string;
+  keeperRules?: LeagueKeeperRules;
+  pickOwners?: Map<number, string>;  // overallPick → current team, for traded picks (pick_assignments)
+}
+
+// ─── Payload Builders ────────────────────────────────────────────────────────
+
+const historyPlayer = (team: Team, player: Player): DraftHistoryPlayer => ({
+  teamId: team.id,
+  teamName: team.name,
+  teamAbbrev: team.abbrev,
+  playerId: player.id,
+  playerName: player.name,
+});
+
+/** Archive of the finished board plus every team's stacked keepers, redshirts and stashes. */
+export function buildDraftHistory(input: DraftCompletionInput): DraftHistory {
+  const { draft, leagueId, seasonYear, teams, players, rosters, completedBy, keeperRules, pickOwners } = input;
+  const picks: DraftHistoryPick[] = [];
+  const keepers: DraftHistoryKeeper[] = [];
+  const redshirtPlayers: DraftHistoryPlayer[] = [];
+  const internationalPlayers: DraftHistoryPlayer[] = [];
+
+  draft.picks.forEach(pick => {
+    if (!pick.playerId || !pick.playerName) return;
+    const player = players.get(pick.playerId);
+    // Credit the team that owned the pick when it was made, as complete_draft does
+    const ownerId = pickOwners?.get(pick.overallPick) || pick.teamId;
+    const team = teams.find(t => t.id === ownerId);
+    if (!player || !team) return;
+
+    picks.push({
+      overallPick: pick.overallPick,
+      round: pick.round,
+      pickInRound: pick.pickInRound,
+      teamId: team.id,
+      teamName: team.name,
+      teamAbbrev: team.abbrev,
+      playerId: player.id,
+      playerName: player.name,
+      salary: player.salary,
+      nextYearKeeperRound: nextYearKeeperRound(pick.round, keeperRules),
+    });
+  });
+
+  rosters.forEach((roster, teamId) => {
+    const team = teams.find(t => t.id === teamId);
+    if (!team) return;
+
+    const { entries: stackedEntries } = stackKeeperRounds(roster.entries, keeperRules);
+    stackedEntries.forEach(entry => {
+      const player = players.get(entry.playerId);
+      if (!player) return;
+
+      if (entry.decision === 'KEEP' && entry.keeperRound && entry.baseRound) {
+        keepers.push({
+          ...historyPlayer(team, player),
+          salary: player.salary,
+          baseRound: entry.baseRound,
+          keeperRound: entry.keeperRound,
+          nextYearKeeperRound: nextYearKeeperRound(entry.keeperRound, keeperRules),
+        });
+      } else if (entry.decision === 'REDSHIRT') {
+        redshirtPlayers.push(historyPlayer(team, player));
+      } else if (entry.decision === 'INT_STASH') {
+        internationalPlayers.push(historyPlayer(team, player));
+      }
+    });
+  });
+
+  return {
+    id: `${leagueId}_${seasonYear}`,
+    leagueId,
+    seasonYear,
+    picks,
+    keepers,
+    redshirtPlayers,
+    internationalPlayers,
+    completedAt: Date.now(),
+    completedBy,
+  };
+}
+
+/** Pre-draft fees for one team: franchise tags from stacking and redshirts. */
+export function buildTeamFees(input: DraftCompletionInput, team: Team): TeamFees {
+  const { leagueId, seasonYear, rosters, completedBy, keeperRules } = input;
+  const roster = rosters.get(team.id);
+  const franchiseTags = roster ? stackKeeperRounds(roster.entries, keeperRules).franchiseTags : 0;
+  const redshirtCount = roster ? roster.entries.filter(e => e.decision === 'REDSHIRT').length : 0;
+
+  const franchiseTagFees = franchiseTags * 15;
+  const redshirtFees = redshirtCount * 10;
+  const now = Date.now();
+
+  return {
+    id: `${leagueId}_${team.id}_${seasonYear}`,
+    leagueId,
+    teamId: team.id,
+    seasonYear,
+    franchiseTagFees,
+    redshirtFees,
+    firstApronFee: 0,
+    secondApronPenalty: 0,
+    unredshirtFees: 0,
+    feesLocked: false,
+    totalFees: franchiseTagFees + redshirtFees,
+    feeTransactions: [
+      ...(franchiseTags > 0 ? [{
+        type: 'franchise' as const,
+        amount: franchiseTagFees,
+        timestamp: now,
+        triggeredBy: completedBy,
+        note: `${franchiseTags} franchise tag${franchiseTags > 1 ? 's' : ''}`,
+      }] : []),
+      ...(redshirtCount > 0 ? [{
+        type: 'redshirt' as const,
+        amount: redshirtFees,
+        timestamp: now,
+        triggeredBy: completedBy,
+        note: `${redshirtCount} redshirt player${redshirtCount > 1 ? 's' : ''}`,
+      }] : []),
+    ],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// ─── Complete ────────────────────────────────────────────────────────────────
+
+/** Current owner of each traded main draft pick, keyed by overall pick. */
+async function loadPickOwners(leagueId: string, seasonYear: number): Promise<Map<number, string>> {
+  const { data, error } = await supabase
+    .from('pick_assignments')
+    .select('overall_pick, current_team_id')
+    .eq('league_id', leagueId)
+    .eq('season_year', seasonYear);
+  if (error) throw error;
+
+  const owners = new Map<number, string>();
+  (data || []).forEach(row => {
+    if (row.current_team_id) owners.set(row.overall_pick, row.current_team_id);
+  });
+  return owners;
+}
+
+/**
+ * Finalize a draft atomically via the complete_draft stored procedure
+ * (00032_complete_draft.sql). The procedure validates the board — every
+ * pick filled, no player on two teams, every team at or under `maxActive`
+ * active players — and only then archives history, assigns player slots,
+ * writes team fees and moves the league to the regular season. Validation
+ * problems come back together in `errors`; nothing is written in that case.
+ */
+export async function completeDraft(input: DraftCompletionInput & { maxActive: number }): Promise<CompleteDraftResult> {
+  const { draft, leagueId, seasonYear, teams, maxActive, completedBy } = input;
+  const ctx = { leagueId, seasonYear, draftId: draft.id };
+
+  try {
+    const pickOwners = input.pickOwners ?? await loadPickOwners(leagueId, seasonYear);
+    const history = buildDraftHistory({ ...input, pickOwners });
+    const fees = teams.map(team => buildTeamFees(input, team));
+
+    const { data, error } = await supabase.rpc('complete_draft', {
+      p_draft_id: draft.id,
+      p_league_id: leagueId,
+      p_season_year: seasonYear,
+      p_max_active: maxActive,
+      p_history: {
+        picks: history.picks,
+        keepers: history.keepers,
+        redshirtPlayers: history.redshirtPlayers,
+        internationalPlayers: history.internationalPlayers,
+      },
+      p_team_fees: fees,
+      p_completed_by: completedBy,
+    });
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string; errors?: DraftCompletionError[]; players_assigned?: number };
+    if (!result.success) {
+      logger.error('completeDraft: rejected', result.error, { ...ctx, errors: result.errors?.length ?? 0 });
+      return { success: false, error: result.error, errors: result.errors || [] };
+    }
+
+    await logTransactions(fees.flatMap(teamFees => teamFees.feeTransactions.map(fee => ({
+      leagueId,
+      type: 'fee' as const,
+      teamId: teamFees.teamId,
+      amount: fee.amount,
+      note: fee.note,
+      performedBy: fee.triggeredBy,
+    }))));
+
+    logger.info('completeDraft: success', { ...ctx, playersAssigned: result.players_assigned });
+    return { success: true, errors: [], playersAssigned: result.players_assigned };
+  } catch (err) {
+    logger.error('completeDraft: failed', err, ctx);
+    const message = (err as { message?: string })?.message || 'Failed to complete draft';
+    return { success: false, error: message, errors: [{ code: 'database_error', message }] };
+  }
+}
@@ -6,19 +6,30 @@ interface SendEmailParams {
   data: Record<string, string>;
 }
 
+export interface SendEmailResult {
+  success: boolean;
+  error?: string;
+}
+
 /**
  * Send a notification email via the send-email edge function.
- * Fire-and-forget — failures are logged but never block the UI.
+ * Never throws — failures are logged and returned so callers that care
+ * (e.g. phase transitions) can surface them; others can ignore the result.
  */
-export async function sendNotificationEmail(params: SendEmailParams): Promise<void> {
+export async function sendNotificationEmail(params: SendEmailParams): Promise<SendEmailResult> {
   try {
     const { error } = await supabase.functions.invoke('send-email', {
       body: params,
     });
     if (error) {
       console.error('Email send error:', error);
+      // Non-2xx responses carry the edge function's { error } body in the context
+      const body = await (error as { context?: Response }).context?.json?.().catch(() => null);
+      return { success: false, error: body?.error || error.message || 'Failed to send email' };
     }
+    return { success: true };
   } catch (err) {
     console.error('Failed to send notification email:', err);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to send email' };
   }
 }
@@ -0,0 +1,92 @@
+import { supabase, fetchAllRows } from './supabase';
+import { logger } from './logger';
+import { mapPlayer } from './mappers';
+import type { League } from '../types';
+
+export interface LockFeesResult {
+  teamsProcessed: number;
+  errors: string[];  // One message per team that failed
+}
+
+/**
+ * Lock every team's fees for the league's current season.
+ *
+ * Apron charges are computed from current payroll (active + bench + IR):
+ * the first apron fee is sticky once charged, and the second apron penalty
+ * never drops below what was previously stored. Pre-draft fees (franchise
+ * tags, redshirts, unredshirts) are carried over as-is.
+ *
+ * Throws if teams or players can't be loaded; per-team failures are
+ * collected in `errors` so one bad row doesn't stop the rest.
+ */
+export async function lockTeamFees(league: League): Promise<LockFeesResult> {
+  const { data: teamsRows, error: teamsErr } = await supabase
+    .from('teams')
+    .select('id, name')
+    .eq('league_id', league.id);
+  if (teamsErr) throw teamsErr;
+
+  const playersRows = await fetchAllRows('players', '*', q => q.eq('league_id', league.id));
+  const allPlayers = playersRows.map(mapPlayer);
+
+  const secondApron = league.cap?.secondApron || 225_000_000;
+  const penaltyRate = league.fees?.penaltyRatePerM ?? 2;
+  const firstApron = league.cap?.firstApron || 195_000_000;
+  const firstApronFeeAmount = league.fees?.firstApronFee ?? 50;
+
+  let teamsProcessed = 0;
+  const errors: string[] = [];
+
+  for (const team of (teamsRows || [])) {
+    try {
+      // Sum salary from active + bench + ir players on this team
+      let totalSalary = 0;
+      allPlayers
+        .filter(p => p.roster.teamId === team.id && ['active', 'bench', 'ir'].includes(p.slot))
+        .forEach(p => { totalSalary += p.salary || 0; });
+
+      const overBy = (secondApron > 0) ? Math.max(0, totalSalary - secondApron) : 0;
+      const overByM = Math.ceil(overBy / 1_000_000);
+      const currentPenalty = overByM * penaltyRate;
+
+      const feesId = `${league.id}_${team.id}_${league.seasonYear}`;
+      const { data: existing } = await supabase
+        .from('team_fees')
+        .select('*')
+        .eq('id', feesId)
+        .maybeSingle();
+
+      // Sticky: preserve existing first apron charge; only add for newly over teams
+      const firstApronFee = (existing?.first_apron_fee && existing.first_apron_fee > 0)
+        ? existing.first_apron_fee
+        : ((firstApron > 0 && totalSalary > firstApron) ? firstApronFeeAmount : 0);
+
+      // Highest watermark: never drop below previously stored penalty
+      const secondApronPenalty = Math.max(existing?.second_apron_penalty || 0, currentPenalty);
+
+      const franchiseTagFees = existing?.franchise_tag_fees || 0;
+      const redshirtFees = existing?.redshirt_fees || 0;
+      const unredshirtFees = existing?.unredshirt_fees || 0;
+      const totalFees = franchiseTagFees + redshirtFees + unredshirtFees + firstApronFee + secondApronPenalty;
+
+      const { error: updateErr } = await supabase
+        .from('team_fees')
+        .update({
+          first_apron_fee: firstApronFee,
+          second_apron_penalty: secondApronPenalty,
+          total_fees: totalFees,
+          fees_locked: true,
+          locked_at: new Date().toISOString(),
+        })
+        .eq('id', feesId);
+      if (updateErr) throw updateErr;
+
+      teamsProcessed++;
+    } catch (error) {
+      logger.error(`Error processing team ${team.id}:`, error);
+      errors.push(`Team ${team.name}: ${(error as { message?: string })?.message || error}`);
+    }
+  }
+
+  return { teamsProcessed, errors };
+}
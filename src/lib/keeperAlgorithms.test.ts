@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest';
+import { baseKeeperRound, computeSummary, nextYearKeeperRound, stackKeeperRounds } from './keeperAlgorithms';
+import { DEFAULT_KEEPER_RULES } from '../types';
+import type { Player, RookieDraftInfo, RosterEntry } from '../types';
+
+const player = (id: string, salary: number, overrides: Partial<Player> = {}): Player => ({
+  id,
+  fantraxId: id,
+  name: id,
+  position: 'G',
+  salary,
+  nbaTeam: 'BOS',
+  sport: 'nba',
+  slot: 'active',
+  roster: {
+    leagueId: 'league',
+    teamId: 'team',
+    onIR: false,
+    isRookie: false,
+    isInternationalStash: false,
+    intEligible: false,
+  },
+  ...overrides,
+});
+
+const rookie = (round: RookieDraftInfo['round'], pick: number) =>
+  player(`rookie-${round}-${pick}`, 5_000_000, {
+    roster: {
+      leagueId: 'league',
+      teamId: 'team',
+      onIR: false,
+      isRookie: true,
+      isInternationalStash: false,
+      intEligible: false,
+      rookieDraftInfo: { round, pick, redshirtEligible: true },
+    },
+  });
+
+const keep = (playerId: string, baseRound: number, priority?: number): RosterEntry => ({
+  playerId,
+  decision: 'KEEP',
+  baseRound,
+  priority,
+});
+
+/** keeperRound for each entry, keyed by playerId */
+const roundsOf = (entries: RosterEntry[]) =>
+  Object.fromEntries(entries.filter(e => e.decision === 'KEEP').map(e => [e.playerId, e.keeperRound]));
+
+describe('baseKeeperRound', () => {
+  it.each([
+    { round: 1, pick: 1, expected: 5 },
+    { round: 1, pick: 3, expected: 5 },
+    { round: 1, pick: 4, expected: 6 },
+    { round: 1, pick: 9, expected: 7 },
+    { round: 1, pick: 12, expected: 8 },
+    { round: 2, pick: 1, expected: 13 },
+    { round: 3, pick: 12, expected: 13 },
+    { round: 1, pick: 13, expected: null },
+  ] as const)('rookie round $round pick $pick keeps in round $expected', ({ round, pick, expected }) => {
+    expect(baseKeeperRound(rookie(round, pick))).toBe(expected);
+  });
+
+  it.each([
+    { priorYearRound: 6, expected: 5 },
+    { priorYearRound: 2, expected: 1 },
+    { priorYearRound: 1, expected: 1 },
+  ])('returning keeper from round $priorYearRound costs round $expected', ({ priorYearRound, expected }) => {
+    expect(baseKeeperRound(player('vet', 20_000_000, { keeper: { priorYearRound } }))).toBe(expected);
+  });
+
+  it('needs admin attention without draft or keeper history', () => {
+    expect(baseKeeperRound(player('unknown', 1_000_000))).toBeNull();
+  });
+
+  it('follows league keeper rules', () => {
+    const rules = {
+      ...DEFAULT_KEEPER_RULES,
+      rookieRounds: [{ round: 1, pickFrom: 1, pickTo: 12, keeperRound: 3 }],
+      roundEscalation: 2,
+    };
+    expect(baseKeeperRound(rookie(1, 7), rules)).toBe(3);
+    expect(baseKeeperRound(rookie(2, 1), rules)).toBeNull();
+    expect(baseKeeperRound(player('vet', 20_000_000, { keeper: { priorYearRound: 6 } }), rules)).toBe(4);
+    expect(nextYearKeeperRound(2, rules)).toBe(1);
+  });
+});
+
+describe('stackKeeperRounds', () => {
+  it.each([
+    {
+      name: 'distinct base rounds keep their rounds',
+      entries: [keep('a', 3), keep('b', 7), keep('c', 13)],
+      rounds: { a: 3, b: 7, c: 13 },
+      tags: 0,
+    },
+    {
+      name: 'same base round stacks backward, lower priority earliest',
+      entries: [keep('a', 5, 1), keep('b', 5, 2), keep('c', 5, 3)],
+      rounds: { a: 3, b: 4, c: 5 },
+      tags: 0,
+    },
+    {
+      name: 'backward collision through round 1 resolves forward',
+      entries: [keep('a', 2, 1), keep('b', 2, 2), keep('c', 2, 3)],
+      rounds: { c: 2, b: 1, a: 3 },
+      tags: 0,
+    },
+    {
+      name: 'higher base rounds claim their round before lower ones move',
+      entries: [keep('a', 4), keep('b', 5), keep('c', 5)],
+      rounds: { b: 5, c: 4, a: 3 },
+      tags: 0,
+    },
+    {
+      name: 'one round-1 keeper is free',
+      entries: [keep('a', 1), keep('b', 3)],
+      rounds: { a: 1, b: 3 },
+      tags: 0,
+    },
+    {
+      name: 'extra round-1 keepers are tagged into rounds 2, 3, …',
+      entries: [keep('a', 1, 1), keep('b', 1, 2), keep('c', 1, 3), keep('d', 6)],
+      rounds: { a: 1, b: 2, c: 3, d: 6 },
+      tags: 2,
+    },
+    {
+      name: 'tagged round-1 keepers push a colliding keeper forward, never into round 1',
+      entries: [keep('a', 1, 1), keep('b', 1, 2), keep('c', 1, 3), keep('d', 2)],
+      rounds: { a: 1, b: 2, c: 3, d: 4 },
+      tags: 2,
+    },
+    {
+      name: 'with round-1 keepers, same base round stacks backward to round 2',
+      entries: [keep('a', 1), keep('b', 3, 1), keep('c', 3, 2)],
+      rounds: { a: 1, b: 3, c: 2 },
+      tags: 0,
+    },
+    {
+      name: 'with round-1 keepers, a base round 2 collision resolves forward',
+      entries: [keep('a', 1), keep('b', 2, 1), keep('c', 2, 2)],
+      rounds: { a: 1, b: 2, c: 3 },
+      tags: 0,
+    },
+  ])('$name', ({ entries, rounds, tags }) => {
+    const result = stackKeeperRounds(entries.map(e => ({ ...e })));
+    expect(roundsOf(result.entries)).toEqual(rounds);
+    expect(result.franchiseTags).toBe(tags);
+  });
+
+  it('round-1 keepers follow priority, not list order', () => {
+    const result = stackKeeperRounds([keep('a', 1, 2), keep('b', 1, 1)]);
+    expect(roundsOf(result.entries)).toEqual({ a: 2, b: 1 });
+  });
+
+  it('clears keeper rounds on non-KEEP decisions and skips entries without a base round', () => {
+    const result = stackKeeperRounds([
+      { playerId: 'r', decision: 'REDSHIRT', baseRound: 5, keeperRound: 5 },
+      { playerId: 's', decision: 'INT_STASH', keeperRound: 9 },
+      { playerId: 'd', decision: 'DROP', baseRound: 4, keeperRound: 4 },
+      { playerId: 'x', decision: 'KEEP' },
+      keep('a', 4),
+    ]);
+    const byId = new Map(result.entries.map(e => [e.playerId, e]));
+    expect(byId.get('r')!.keeperRound).toBeUndefined();
+    expect(byId.get('s')!.keeperRound).toBeUndefined();
+    expect(byId.get('d')!.keeperRound).toBeUndefined();
+    expect(byId.get('x')!.keeperRound).toBeUndefined();
+    expect(byId.get('a')!.keeperRound).toBe(4);
+  });
+
+  it('stops at the league\'s last draft round', () => {
+    const rules = { ...DEFAULT_KEEPER_RULES, draftRounds: 3 };
+    const result = stackKeeperRounds([keep('a', 2, 1), keep('b', 2, 2), keep('c', 2, 3), keep('d', 2, 4)], rules);
+    const assigned = result.entries.map(e => e.keeperRound!);
+    expect(Math.max(...assigned)).toBe(3);
+  });
+
+  it('charges only round-1 keepers past the free allowance', () => {
+    const rules = { ...DEFAULT_KEEPER_RULES, freeFirstRoundKeepers: 2 };
+    expect(stackKeeperRounds([keep('a', 1), keep('b', 1)], rules).franchiseTags).toBe(0);
+    expect(stackKeeperRounds([keep('a', 1), keep('b', 1), keep('c', 1)], rules).franchiseTags).toBe(1);
+  });
+});
+
+describe('computeSummary', () => {
+  const summarize = (salaries: number[], overrides: Partial<Parameters<typeof computeSummary>[0]> = {}) => {
+    const players = salaries.map((salary, i) => player(`p${i}`, salary));
+    return computeSummary({
+      entries: players.map(p => ({ playerId: p.id, decision: 'KEEP' })),
+      allPlayers: new Map(players.map(p => [p.id, p])),
+      tradeDelta: 0,
+      franchiseTags: 0,
+      ...overrides,
+    });
+  };
+
+  it.each([
+    { capUsed: 194_999_999, firstApronFee: 0 },
+    { capUsed: 195_000_000, firstApronFee: 0 },
+    { capUsed: 195_000_001, firstApronFee: 50 },
+    { capUsed: 224_000_000, firstApronFee: 50 },
+  ])('first apron fee at $capUsed is $firstApronFee', ({ capUsed, firstApronFee }) => {
+    expect(summarize([capUsed]).firstApronFee).toBe(firstApronFee);
+  });
+
+  it.each([
+    { capUsed: 225_000_000, overByM: 0, penaltyDues: 0 },
+    { capUsed: 225_000_001, overByM: 1, penaltyDues: 2 },
+    { capUsed: 226_000_000, overByM: 1, penaltyDues: 2 },
+    { capUsed: 227_500_000, overByM: 3, penaltyDues: 6 },
+  ])('second apron penalty at $capUsed is $penaltyDues', ({ capUsed, overByM, penaltyDues }) => {
+    const summary = summarize([capUsed]);
+    expect(summary.overSecondApronByM).toBe(overByM);
+    expect(summary.penaltyDues).toBe(penaltyDues);
+  });
+
+  it('uses league apron and fee settings', () => {
+    const summary = summarize([100_000_000, 105_000_000], {
+      firstApron: 180_000_000,
+      firstApronFee: 75,
+      penaltyStart: 200_000_000,
+      penaltyRatePerM: 3,
+    });
+    expect(summary.capUsed).toBe(205_000_000);
+    expect(summary.firstApronFee).toBe(75);
+    expect(summary.penaltyDues).toBe(15);
+  });
+
+  it('skips the first apron fee when the league has no first apron', () => {
+    expect(summarize([210_000_000], { firstApron: 0 }).firstApronFee).toBe(0);
+  });
+
+  it('totals apron, penalty, franchise tag and redshirt fees', () => {
+    const players = [player('k1', 120_000_000), player('k2', 106_000_000), player('r1', 4_000_000), player('r2', 4_000_000)];
+    const summary = computeSummary({
+      entries: [
+        { playerId: 'k1', decision: 'KEEP' },
+        { playerId: 'k2', decision: 'KEEP' },
+        { playerId: 'r1', decision: 'REDSHIRT' },
+        { playerId: 'r2', decision: 'REDSHIRT' },
+      ],
+      allPlayers: new Map(players.map(p => [p.id, p])),
+      tradeDelta: 0,
+      franchiseTags: 2,
+    });
+    expect(summary.capUsed).toBe(226_000_000);  // Redshirts don't count against the cap
+    expect(summary.firstApronFee).toBe(50);
+    expect(summary.penaltyDues).toBe(2);
+    expect(summary.franchiseTagDues).toBe(30);
+    expect(summary.redshirtDues).toBe(20);
+    expect(summary.totalFees).toBe(102);
+  });
+
+  it('counts drafted players against the cap', () => {
+    const summary = summarize([150_000_000], { draftedPlayers: [player('d1', 50_000_000)] });
+    expect(summary.capUsed).toBe(200_000_000);
+    expect(summary.draftedCount).toBe(1);
+  });
+
+  it.each([
+    { tradeDelta: 0, capEffective: 225_000_000 },
+    { tradeDelta: 20_000_000, capEffective: 245_000_000 },
+    { tradeDelta: 40_000_000, capEffective: 255_000_000 },
+    { tradeDelta: -60_000_000, capEffective: 170_000_000 },
+  ])('effective cap with trade delta $tradeDelta is $capEffective', ({ tradeDelta, capEffective }) => {
+    expect(summarize([], { tradeDelta }).capEffective).toBe(capEffective);
+  });
+});
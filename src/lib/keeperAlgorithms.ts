@@ -1,26 +1,28 @@
-import type { Player, RosterEntry, RosterSummary } from '../types';
+import { DEFAULT_KEEPER_RULES } from '../types';
+import type { LeagueKeeperRules, Player, RosterEntry, RosterSummary } from '../types';
+
+/**
+ * Round a player costs next season after occupying `round` this season
+ */
+export function nextYearKeeperRound(round: number, rules: LeagueKeeperRules = DEFAULT_KEEPER_RULES): number {
+  return Math.max(1, round - rules.roundEscalation);
+}
 
 /**
  * Derives the base keeper round for a player before stacking is applied
  */
-export function baseKeeperRound(player: Player): number | null {
+export function baseKeeperRound(player: Player, rules: LeagueKeeperRules = DEFAULT_KEEPER_RULES): number | null {
   // Handle rookies with draft info
   if (player.roster.isRookie && player.roster.rookieDraftInfo) {
     const { round, pick } = player.roster.rookieDraftInfo;
 
-    if (round === 1) {
-      if (pick >= 1 && pick <= 3) return 5;
-      if (pick >= 4 && pick <= 6) return 6;
-      if (pick >= 7 && pick <= 9) return 7;
-      if (pick >= 10 && pick <= 12) return 8;
-    }
-
-    if (round === 2 || round === 3) return 13;
+    const rule = rules.rookieRounds.find(r => r.round === round && pick >= r.pickFrom && pick <= r.pickTo);
+    if (rule) return rule.keeperRound;
   }
 
   // Handle returning players with prior year keeper info
   if (player.keeper?.priorYearRound) {
-    return Math.max(1, player.keeper.priorYearRound - 1);
+    return nextYearKeeperRound(player.keeper.priorYearRound, rules);
   }
 
   return null; // Requires admin attention
@@ -38,9 +40,11 @@ interface StackingResult {
  * 1. Players with earlier base rounds have priority over later base rounds
  * 2. When multiple players have the same base round, they stack sequentially
  * 3. Franchise-tagged Round 1 keepers must go AFTER all higher base round players (2-14)
- * 4. Only one Round-1 keeper is free; extras need franchise tags ($15 each)
+ * 4. Only `rules.freeFirstRoundKeepers` Round-1 keepers are free; extras need franchise tags ($15 each)
  */
-export function stackKeeperRounds(entries: RosterEntry[]): StackingResult {
+export function stackKeeperRounds(entries: RosterEntry[], rules: LeagueKeeperRules = DEFAULT_KEEPER_RULES): StackingResult {
+  const lastRound = rules.draftRounds;
+
   // Only process KEEP entries with baseRound defined
   const keepers = entries.filter(
     (e) => e.decision === "KEEP" && e.baseRound !== undefined
@@ -69,8 +73,8 @@ export function stackKeeperRounds(entries: RosterEntry[]): StackingResult {
     firstR1Keeper.keeperRound = 1;
     occupiedRounds.add(1);
 
-    // Extra Round 1 keepers need franchise tags
-    franchiseTags = extraR1Keepers.length;
+    // Round 1 keepers past the free allowance need franchise tags
+    franchiseTags = Math.max(0, round1Keepers.length - rules.freeFirstRoundKeepers);
 
     // STEP 2: Place franchise-tagged R1 keepers in rounds 2, 3, 4, etc. (they must come before higher base rounds)
     let nextRound = 2;
@@ -116,10 +120,10 @@ export function stackKeeperRounds(entries: RosterEntry[]): StackingResult {
         // If backward doesn't work, go forward
         else {
           let forwardRound = baseRound + 1;
-          while (forwardRound <= 13 && occupiedRounds.has(forwardRound)) {
+          while (forwardRound <= lastRound && occupiedRounds.has(forwardRound)) {
             forwardRound++;
           }
-          if (forwardRound <= 13) {
+          if (forwardRound <= lastRound) {
             foundRound = forwardRound;
           }
         }
@@ -129,7 +133,7 @@ export function stackKeeperRounds(entries: RosterEntry[]): StackingResult {
           occupiedRounds.add(foundRound);
         } else {
           // Fallback - should not happen with max 8 keepers
-          keeper.keeperRound = 13;
+          keeper.keeperRound = lastRound;
         }
       }
     }
@@ -170,10 +174,10 @@ export function stackKeeperRounds(entries: RosterEntry[]): StackingResult {
         // If backward doesn't work, go forward
         else {
           let forwardRound = baseRound + 1;
-          while (forwardRound <= 13 && occupiedRounds.has(forwardRound)) {
+          while (forwardRound <= lastRound && occupiedRounds.has(forwardRound)) {
             forwardRound++;
           }
-          if (forwardRound <= 13) {
+          if (forwardRound <= lastRound) {
             foundRound = forwardRound;
           }
         }
@@ -183,7 +187,7 @@ export function stackKeeperRounds(entries: RosterEntry[]): StackingResult {
           occupiedRounds.add(foundRound);
         } else {
           // Fallback - should not happen with max 8 keepers
-          keeper.keeperRound = 13;
+          keeper.keeperRound = lastRound;
         }
       }
     }
@@ -208,6 +212,8 @@ interface ComputeSummaryParams {
   penaltyRatePerM?: number;
   redshirtFee?: number;
   franchiseTagFee?: number;
+  firstApron?: number;
+  firstApronFee?: number;
   franchiseTags: number;
   draftedPlayers?: Player[];  // Players drafted in live draft
 }
@@ -225,6 +231,8 @@ export function computeSummary(params: ComputeSummaryParams): RosterSummary {
     penaltyRatePerM = 2,
     redshirtFee = 10,
     franchiseTagFee = 15,
+    firstApron = 195_000_000,
+    firstApronFee: firstApronFeeAmount = 50,
     franchiseTags,
     draftedPlayers = [],
   } = params;
@@ -269,7 +277,7 @@ export function computeSummary(params: ComputeSummaryParams): RosterSummary {
   const redshirtDues = redshirtIds.length * redshirtFee;
 
   // Calculate first apron fee ($50 if over 195M)
-  const firstApronFee = capUsed > 195_000_000 ? 50 : 0;
+  const firstApronFee = firstApron > 0 && capUsed > firstApron ? firstApronFeeAmount : 0;
 
   // Total fees
   const totalFees = penaltyDues + franchiseTagDues + redshirtDues + firstApronFee;
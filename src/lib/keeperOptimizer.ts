@@ -0,0 +1,250 @@
+import { DEFAULT_KEEPER_RULES, NBA_CAP_DEFAULTS, NBA_FEE_DEFAULTS } from '../types';
+import type {
+  LeagueCapSettings, LeagueFeeSettings, LeagueKeeperRules, Player, ProjectedStats, RosterEntry, RosterSummary,
+} from '../types';
+import { baseKeeperRound, computeSummary, stackKeeperRounds } from './keeperAlgorithms';
+
+/**
+ * Keeper optimizer — searches keeper sets for a roster and ranks them.
+ * Pure functions — no side effects, no DB calls.
+ *
+ * A keeper is worth his projected score minus what the draft round he
+ * occupies would otherwise yield: the score of the player projected to go
+ * mid-round in this league. Every set is stacked with stackKeeperRounds, so
+ * collisions and franchise tags cost what they would on the dashboard, and
+ * priced with computeSummary. Fees are converted to value at
+ * `dollarsPerRound` (dollars that cost as much as one draft round). Sets
+ * over the team's effective cap are skipped.
+ *
+ * REDSHIRT and INT_STASH decisions, and locked entries, are left as the
+ * owner set them; their fees are included in every set.
+ */
+
+// Roster players considered for a keeper spot, best net value first. Keeps
+// the search to a few tens of thousands of sets with 8 keepers.
+export const MAX_CANDIDATES = 16;
+
+export const DEFAULT_DOLLARS_PER_ROUND = 25;
+
+export interface OptimizedKeeper {
+  playerId: string;
+  name: string;
+  score: number;
+  salaryScore: number;
+  baseRound: number;
+  keeperRound: number;
+  roundValue: number;    // Projected score of a mid-round pick in keeperRound
+}
+
+export interface KeeperSet {
+  rank: number;
+  keepers: OptimizedKeeper[];
+  entries: RosterEntry[];     // Stacked and ready to load as a scenario
+  summary: RosterSummary;
+  projectedValue: number;     // Sum of keeper scores
+  roundCost: number;          // Sum of round values those keepers use up
+  feeCost: number;            // summary.totalFees in value terms
+  netValue: number;           // projectedValue - roundCost - feeCost
+  explanations: string[];
+}
+
+/**
+ * Projected score of the player expected mid-round in each round, from
+ * every player with projections. Index 1 = round 1.
+ */
+export function buildRoundValues(
+  projectedStats: Map<string, ProjectedStats>,
+  numTeams: number,
+  rounds: number = DEFAULT_KEEPER_RULES.draftRounds
+): number[] {
+  const scores = [...projectedStats.values()].map(s => s.score).sort((a, b) => b - a);
+  const teams = Math.max(1, numTeams);
+  const values = [0];
+  for (let round = 1; round <= rounds; round++) {
+    const idx = (round - 1) * teams + Math.floor(teams / 2);
+    values.push(scores[Math.min(idx, scores.length - 1)] ?? 0);
+  }
+  return values;
+}
+
+function* combinations<T>(items: T[], size: number, start = 0, prefix: T[] = []): Generator<T[]> {
+  if (prefix.length === size) {
+    yield prefix;
+    return;
+  }
+  for (let i = start; i <= items.length - (size - prefix.length); i++) {
+    yield* combinations(items, size, i + 1, [...prefix, items[i]]);
+  }
+}
+
+const fmtM = (v: number) => `$${(v / 1_000_000).toFixed(1)}M`;
+
+/**
+ * Top `topN` keeper sets for a roster, best net value first. Empty when
+ * even the fixed decisions don't fit under the cap.
+ */
+export function optimizeKeepers(params: {
+  players: Player[];
+  entries: RosterEntry[];
+  projectedStats: Map<string, ProjectedStats>;
+  numTeams: number;
+  maxKeepers?: number;
+  tradeDelta: number;
+  cap?: LeagueCapSettings;
+  fees?: LeagueFeeSettings;
+  keeperRules?: LeagueKeeperRules;
+  topN?: number;
+  dollarsPerRound?: number;
+}): KeeperSet[] {
+  const {
+    players, entries, projectedStats, numTeams, tradeDelta,
+    maxKeepers = 8,
+    topN = 5,
+    dollarsPerRound = DEFAULT_DOLLARS_PER_ROUND,
+  } = params;
+  const cap = params.cap ?? NBA_CAP_DEFAULTS;
+  const fees = params.fees ?? NBA_FEE_DEFAULTS;
+  const rules = params.keeperRules ?? DEFAULT_KEEPER_RULES;
+  const lastRound = rules.draftRounds;
+
+  const playersMap = new Map(players.map(p => [p.id, p]));
+  const entryFor = new Map(entries.map(e => [e.playerId, e]));
+  const roundValues = buildRoundValues(projectedStats, numTeams, lastRound);
+  const roundStep = Math.max(0.0001, (roundValues[1] - roundValues[lastRound]) / Math.max(1, lastRound - 1));
+  const feeToValue = (dollars: number) => (dollars / Math.max(1, dollarsPerRound)) * roundStep;
+
+  const baseRoundOf = (player: Player) => baseKeeperRound(player, rules) || lastRound;
+  const scoreOf = (player: Player) => projectedStats.get(player.fantraxId)?.score ?? 0;
+
+  // Fixed decisions: redshirts, stashes and anything the owner locked
+  const isFixed = (playerId: string) => {
+    const entry = entryFor.get(playerId);
+    return !!entry && (entry.locked || entry.decision === 'REDSHIRT' || entry.decision === 'INT_STASH');
+  };
+  const forcedKeepers = players.filter(p => isFixed(p.id) && entryFor.get(p.id)?.decision === 'KEEP');
+
+  const candidates = players
+    .filter(p => !isFixed(p.id))
+    .map(p => ({ player: p, net: scoreOf(p) - roundValues[baseRoundOf(p)] }))
+    .sort((a, b) => b.net - a.net)
+    .slice(0, MAX_CANDIDATES)
+    .map(c => c.player);
+
+  const buildEntries = (keepIds: Set<string>): RosterEntry[] =>
+    players.map(player => {
+      const existing = entryFor.get(player.id);
+      if (existing && isFixed(player.id)) return { ...existing, baseRound: existing.baseRound ?? baseRoundOf(player) };
+      return {
+        ...existing,
+        playerId: player.id,
+        decision: keepIds.has(player.id) ? 'KEEP' : 'DROP',
+        baseRound: baseRoundOf(player),
+      };
+    });
+
+  const evaluate = (keepIds: Set<string>) => {
+    const stacked = buildEntries(keepIds);
+    const { franchiseTags } = stackKeeperRounds(stacked, rules);
+    const summary = computeSummary({
+      entries: stacked,
+      allPlayers: playersMap,
+      baseCap: cap.secondApron,
+      tradeDelta,
+      penaltyStart: cap.penaltyStart,
+      penaltyRatePerM: fees.penaltyRatePerM,
+      redshirtFee: fees.redshirtFee,
+      franchiseTagFee: fees.franchiseTagFee,
+      firstApron: cap.firstApron,
+      firstApronFee: fees.firstApronFee,
+      franchiseTags,
+    });
+    if (summary.capUsed > summary.capEffective) return null;
+
+    const kept = stacked.filter(e => e.decision === 'KEEP');
+    const projectedValue = kept.reduce((sum, e) => sum + scoreOf(playersMap.get(e.playerId)!), 0);
+    const roundCost = kept.reduce((sum, e) => sum + roundValues[e.keeperRound ?? lastRound], 0);
+    const feeCost = feeToValue(summary.totalFees);
+    return { stacked, summary, projectedValue, roundCost, feeCost, netValue: projectedValue - roundCost - feeCost };
+  };
+
+  const forcedIds = forcedKeepers.map(p => p.id);
+  const openSpots = Math.max(0, maxKeepers - forcedIds.length);
+
+  // Score every set, keep only the ids until the winners are known
+  const scored: Array<{ ids: string[]; netValue: number }> = [];
+  for (let size = 0; size <= Math.min(openSpots, candidates.length); size++) {
+    for (const combo of combinations(candidates, size)) {
+      const ids = [...forcedIds, ...combo.map(p => p.id)];
+      const result = evaluate(new Set(ids));
+      if (result) scored.push({ ids, netValue: result.netValue });
+    }
+  }
+  scored.sort((a, b) => b.netValue - a.netValue);
+
+  const bestCandidates = new Set(candidates.slice(0, openSpots).map(p => p.id));
+
+  return scored.slice(0, topN).map(({ ids }, i): KeeperSet => {
+    const result = evaluate(new Set(ids))!;
+    const { stacked, summary } = result;
+
+    const keepers: OptimizedKeeper[] = stacked
+      .filter(e => e.decision === 'KEEP')
+      .map(e => {
+        const player = playersMap.get(e.playerId)!;
+        const stats = projectedStats.get(player.fantraxId);
+        return {
+          playerId: player.id,
+          name: player.name,
+          score: stats?.score ?? 0,
+          salaryScore: stats?.salaryScore ?? 0,
+          baseRound: e.baseRound ?? lastRound,
+          keeperRound: e.keeperRound ?? lastRound,
+          roundValue: roundValues[e.keeperRound ?? lastRound],
+        };
+      })
+      .sort((a, b) => a.keeperRound - b.keeperRound);
+
+    // Explanations — the biggest reasons this set scores the way it does
+    const explanations: string[] = [];
+    const bestBargain = [...keepers].sort((a, b) => (b.score - b.roundValue) - (a.score - a.roundValue))[0];
+    if (bestBargain && bestBargain.score > bestBargain.roundValue) {
+      explanations.push(
+        `${bestBargain.name} in round ${bestBargain.keeperRound} projects ${Math.round(bestBargain.score - bestBargain.roundValue)} above a typical pick there`
+      );
+    }
+    const pushed = keepers.filter(k => k.keeperRound > k.baseRound);
+    if (pushed.length > 0) {
+      explanations.push(`Stacking pushes ${pushed.map(k => `${k.name} to round ${k.keeperRound}`).join(', ')}`);
+    }
+    if (summary.franchiseTags > 0) {
+      explanations.push(`${summary.franchiseTags} franchise tag${summary.franchiseTags !== 1 ? 's' : ''} ($${summary.franchiseTagDues})`);
+    }
+    if (summary.firstApronFee > 0) {
+      explanations.push(`Over the first apron (${fmtM(cap.firstApron)}): $${summary.firstApronFee} fee`);
+    } else if (cap.firstApron > 0) {
+      explanations.push(`${fmtM(cap.firstApron - summary.capUsed)} under the first apron`);
+    }
+    if (summary.penaltyDues > 0) {
+      explanations.push(`${summary.overSecondApronByM}M over the second apron: $${summary.penaltyDues} penalty`);
+    }
+    if (summary.redshirtDues > 0) {
+      explanations.push(`Redshirt fees: $${summary.redshirtDues}`);
+    }
+    const leftOut = [...bestCandidates].filter(id => !ids.includes(id)).map(id => playersMap.get(id)!.name);
+    if (leftOut.length > 0) {
+      explanations.push(`Leaves out ${leftOut.join(', ')} to save rounds or fees`);
+    }
+
+    return {
+      rank: i + 1,
+      keepers,
+      entries: stacked,
+      summary,
+      projectedValue: result.projectedValue,
+      roundCost: result.roundCost,
+      feeCost: result.feeCost,
+      netValue: result.netValue,
+      explanations,
+    };
+  });
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createSeededRandom,
+  drawLottery,
+  getLotteryOdds,
+  getLotteryPickDistribution,
+  getLotteryTeams,
+  runLottery,
+} from './lottery';
+import type { TeamStanding } from './lottery';
+
+/** mulberry32 — small seeded PRNG so statistical runs are repeatable */
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Best record first, as getLotteryTeams expects
+const standings = (count: number): TeamStanding[] =>
+  Array.from({ length: count }, (_, i) => ({
+    teamId: `t${i + 1}`,
+    teamName: `Team ${i + 1}`,
+    wins: count - i,
+    losses: i,
+    ties: 0,
+    pct: (count - i) / count,
+  }));
+
+/** Runs the lottery `runs` times; counts[teamIndex][pick - 1] */
+const simulate = (lotteryTeams: TeamStanding[], runs: number, seed: number) => {
+  vi.spyOn(Math, 'random').mockImplementation(seededRandom(seed));
+  const index = new Map(lotteryTeams.map((t, i) => [t.teamId, i]));
+  const counts = lotteryTeams.map(() => new Array<number>(lotteryTeams.length).fill(0));
+  for (let run = 0; run < runs; run++) {
+    for (const result of runLottery(lotteryTeams)) {
+      counts[index.get(result.teamId)!][result.pick - 1]++;
+    }
+  }
+  return counts;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getLotteryTeams', () => {
+  it('keeps prize teams out of the lottery and orders the rest worst first', () => {
+    const { lotteryTeams, moneyTeams } = getLotteryTeams(standings(10), 3);
+    expect(moneyTeams.map(t => t.teamId)).toEqual(['t1', 't2', 't3']);
+    expect(lotteryTeams.map(t => t.teamId)).toEqual(['t10', 't9', 't8', 't7', 't6', 't5', 't4']);
+  });
+});
+
+describe('getLotteryOdds', () => {
+  it('uses the NBA combinations for a 14-team lottery', () => {
+    const odds = getLotteryOdds(getLotteryTeams(standings(14), 0).lotteryTeams);
+    expect(odds.map(o => o.combinations)).toEqual([140, 140, 140, 125, 105, 90, 75, 60, 45, 30, 20, 15, 10, 5]);
+    expect(odds[0].pctFirstPick).toBeCloseTo(14, 10);
+    expect(odds[13].pctFirstPick).toBeCloseTo(0.5, 10);
+  });
+
+  it.each([4, 7, 10, 14])('rescales odds to 100%% with %i lottery teams', count => {
+    const odds = getLotteryOdds(getLotteryTeams(standings(count), 0).lotteryTeams);
+    expect(odds).toHaveLength(count);
+    expect(odds.reduce((sum, o) => sum + o.pctFirstPick, 0)).toBeCloseTo(100, 10);
+    for (let i = 1; i < odds.length; i++) {
+      expect(odds[i].pctFirstPick).toBeLessThanOrEqual(odds[i - 1].pctFirstPick);
+    }
+  });
+});
+
+describe('getLotteryPickDistribution', () => {
+  it('matches the published NBA odds for the worst team', () => {
+    const [worst] = getLotteryPickDistribution(getLotteryTeams(standings(14), 0).lotteryTeams);
+    expect(worst.pickPct.slice(0, 5).map(p => Number(p.toFixed(1)))).toEqual([14, 13.4, 12.7, 12, 47.9]);
+    expect(worst.pickPct.slice(5).every(p => p === 0)).toBe(true);
+  });
+
+  it.each([4, 7, 10, 14])('gives every team and every pick 100%% with %i lottery teams', count => {
+    const lotteryTeams = getLotteryTeams(standings(count), 0).lotteryTeams;
+    const distribution = getLotteryPickDistribution(lotteryTeams);
+    expect(distribution).toHaveLength(count);
+    for (const row of distribution) {
+      expect(row.pickPct.reduce((a, b) => a + b, 0)).toBeCloseTo(100, 8);
+    }
+    for (let pick = 0; pick < count; pick++) {
+      expect(distribution.reduce((sum, row) => sum + row.pickPct[pick], 0)).toBeCloseTo(100, 8);
+    }
+    getLotteryOdds(lotteryTeams).forEach((odds, i) => {
+      expect(distribution[i].pickPct[0]).toBeCloseTo(odds.pctFirstPick, 8);
+    });
+  });
+
+  it('agrees with simulated lotteries', () => {
+    const runs = 20_000;
+    const lotteryTeams = getLotteryTeams(standings(10), 3).lotteryTeams;
+    const counts = simulate(lotteryTeams, runs, 11);
+
+    getLotteryPickDistribution(lotteryTeams).forEach((row, i) => {
+      row.pickPct.forEach((pct, pick) => {
+        expect(Math.abs((counts[i][pick] / runs) * 100 - pct)).toBeLessThan(1.5);
+      });
+    });
+  });
+
+  it('has no rows without lottery teams', () => {
+    expect(getLotteryPickDistribution([])).toEqual([]);
+  });
+});
+
+describe('runLottery', () => {
+  it('draws four picks, then orders the rest by record with prize teams last', () => {
+    vi.spyOn(Math, 'random').mockImplementation(seededRandom(7));
+    const { lotteryTeams, moneyTeams } = getLotteryTeams(standings(10), 3);
+    const results = runLottery(lotteryTeams, moneyTeams);
+
+    expect(results.map(r => r.pick)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(results.filter(r => r.isLotteryWinner).map(r => r.pick)).toEqual([1, 2, 3, 4]);
+    expect(new Set(results.map(r => r.teamId)).size).toBe(10);
+
+    // Teams not drawn keep their relative order
+    const undrawn = results.slice(4, 7).map(r => r.originalPosition);
+    expect(undrawn).toEqual([...undrawn].sort((a, b) => a - b));
+
+    // Best team picks last
+    expect(results.slice(7).map(r => r.teamId)).toEqual(['t3', 't2', 't1']);
+  });
+
+  it('matches the combination odds for the first pick over seeded runs', () => {
+    const runs = 20_000;
+    const lotteryTeams = getLotteryTeams(standings(14), 0).lotteryTeams;
+    const counts = simulate(lotteryTeams, runs, 2026);
+
+    getLotteryOdds(lotteryTeams).forEach((odds, i) => {
+      const observedPct = (counts[i][0] / runs) * 100;
+      expect(Math.abs(observedPct - odds.pctFirstPick)).toBeLessThan(1);
+    });
+  });
+
+  it('gives the worst team about a 52% chance at a top-four pick and never worse than fifth', () => {
+    const runs = 20_000;
+    const lotteryTeams = getLotteryTeams(standings(14), 0).lotteryTeams;
+    const worst = simulate(lotteryTeams, runs, 42)[0];
+
+    const topFourPct = (worst.slice(0, 4).reduce((a, b) => a + b, 0) / runs) * 100;
+    expect(Math.abs(topFourPct - 52.14)).toBeLessThan(1.5);
+    expect(worst.slice(5).every(count => count === 0)).toBe(true);
+  });
+
+  it('never drops a team more than four spots', () => {
+    vi.spyOn(Math, 'random').mockImplementation(seededRandom(99));
+    const lotteryTeams = getLotteryTeams(standings(12), 0).lotteryTeams;
+    for (let run = 0; run < 500; run++) {
+      for (const result of runLottery(lotteryTeams)) {
+        expect(result.movement).toBeGreaterThanOrEqual(-4);
+      }
+    }
+  });
+});
+
+describe('createSeededRandom', () => {
+  const seed = '0123456789abcdef'.repeat(4);
+
+  it('replays the same sequence for the same seed', () => {
+    const a = createSeededRandom(seed);
+    const b = createSeededRandom(seed);
+    const values = Array.from({ length: 100 }, () => a());
+    expect(values).toEqual(Array.from({ length: 100 }, () => b()));
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+  });
+
+  it('gives a different sequence for a different seed', () => {
+    const other = createSeededRandom('f'.repeat(64));
+    expect(createSeededRandom(seed)()).not.toBe(other());
+  });
+
+  it.each(['', 'abc', 'g'.repeat(64), '0'.repeat(63)])('rejects seed %j', bad => {
+    expect(() => createSeededRandom(bad)).toThrow();
+  });
+});
+
+describe('drawLottery', () => {
+  const seed = '9e107d9d372bb6826bd81d3542a419d6'.repeat(2);
+  const { lotteryTeams, moneyTeams } = getLotteryTeams(standings(14), 3);
+
+  it('reproduces the same draws and order from a seed', () => {
+    const first = drawLottery(lotteryTeams, moneyTeams, createSeededRandom(seed));
+    const second = drawLottery(lotteryTeams, moneyTeams, createSeededRandom(seed));
+    expect(second).toEqual(first);
+  });
+
+  it('records every draw, with the kept draws naming the lottery winners', () => {
+    for (let i = 0; i < 50; i++) {
+      const { draws, results } = drawLottery(lotteryTeams, moneyTeams, seededRandom(i));
+      const kept = draws.filter(d => !d.discarded);
+
+      expect(kept.map(d => d.pick)).toEqual([1, 2, 3, 4]);
+      expect(kept.map(d => d.teamId)).toEqual(results.slice(0, 4).map(r => r.teamId));
+
+      // A discarded draw repeats a team that already won a pick
+      draws.forEach((draw, j) => {
+        const earlierWinners = draws.slice(0, j).filter(d => !d.discarded).map(d => d.teamId);
+        expect(draw.discarded).toBe(earlierWinners.includes(draw.teamId));
+      });
+    }
+  });
+});
@@ -42,6 +42,12 @@ export interface LotteryOdds {
   pctFirstPick: number;
 }
 
+export interface LotteryPickDistribution {
+  team: TeamStanding;
+  pickPct: number[];     // pickPct[pick - 1] — chance of landing each lottery pick
+  expectedPick: number;
+}
+
 export interface LotteryResult {
   pick: number;
   teamId: string;
@@ -107,14 +113,96 @@ export function getLotteryOdds(lotteryTeams: TeamStanding[]): LotteryOdds[] {
 }
 
 /**
- * Run the NBA Draft Lottery.
- * Draws 4 picks (or fewer if < 4 teams), assigns remaining lottery teams by inverse record,
- * then appends money teams at the end (worst money team first, best team picks last).
+ * Exact chance of each lottery team landing each lottery pick. Walks every
+ * ordered set of lottery winners (at most 14·13·12·11 of them) — a redraw
+ * of an already-drawn team is the same as drawing from the remaining
+ * combinations. Money teams always pick after the lottery, so they aren't
+ * included.
  */
-export function runLottery(
+export function getLotteryPickDistribution(lotteryTeams: TeamStanding[]): LotteryPickDistribution[] {
+  const n = Math.min(lotteryTeams.length, NBA_LOTTERY_COMBINATIONS.length);
+  const combos = NBA_LOTTERY_COMBINATIONS.slice(0, n);
+  const lotteryDraws = Math.min(4, n);
+  const pickProb = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const drawn: number[] = [];
+
+  const walk = (prob: number, remainingCombos: number) => {
+    if (drawn.length === lotteryDraws) {
+      drawn.forEach((team, i) => { pickProb[team][i] += prob; });
+      // Everyone else in inverse record order
+      let pick = lotteryDraws;
+      for (let i = 0; i < n; i++) {
+        if (!drawn.includes(i)) pickProb[i][pick++] += prob;
+      }
+      return;
+    }
+    for (let i = 0; i < n; i++) {
+      if (drawn.includes(i)) continue;
+      drawn.push(i);
+      walk(prob * combos[i] / remainingCombos, remainingCombos - combos[i]);
+      drawn.pop();
+    }
+  };
+  walk(1, combos.reduce((a, b) => a + b, 0));
+
+  return lotteryTeams.slice(0, n).map((team, i) => ({
+    team,
+    pickPct: pickProb[i].map(p => p * 100),
+    expectedPick: pickProb[i].reduce((sum, p, pick) => sum + p * (pick + 1), 0),
+  }));
+}
+
+/**
+ * One ball draw. A draw whose combination belongs to a team that already
+ * won a pick is discarded and drawn again.
+ */
+export interface LotteryDraw {
+  pick: number;          // Pick being drawn for
+  combination: number;   // 0-based index into the lottery's combinations
+  teamId: string;        // Lottery team holding that combination
+  discarded: boolean;
+}
+
+/**
+ * Seeded PRNG for official lotteries: sfc32 over a 64-hex-character
+ * (256-bit) seed. The first four 32-bit words are the initial state; after
+ * 12 steps the last four are XOR-ed into the state and it advances 12 more.
+ * Anyone with the seed can reproduce the same sequence.
+ */
+export function createSeededRandom(seed: string): () => number {
+  if (!/^[0-9a-f]{64}$/i.test(seed)) throw new Error('Lottery seed must be 64 hex characters');
+  const words = Array.from({ length: 8 }, (_, i) => parseInt(seed.slice(i * 8, i * 8 + 8), 16) | 0);
+  let [a, b, c, d] = words.slice(0, 4);
+
+  const next = () => {
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+  for (let i = 0; i < 12; i++) next();
+  a ^= words[4];
+  b ^= words[5];
+  c ^= words[6];
+  d ^= words[7];
+  for (let i = 0; i < 12; i++) next();
+  return next;
+}
+
+/**
+ * Run the NBA Draft Lottery with a given random source, recording every
+ * draw. Draws 4 picks (or fewer if < 4 teams), assigns remaining lottery
+ * teams by inverse record, then appends money teams at the end (worst money
+ * team first, best team picks last).
+ */
+export function drawLottery(
   lotteryTeams: TeamStanding[],
-  moneyTeams: TeamStanding[] = []
-): LotteryResult[] {
+  moneyTeams: TeamStanding[] = [],
+  random: () => number = Math.random
+): { results: LotteryResult[]; draws: LotteryDraw[] } {
   const n = Math.min(lotteryTeams.length, NBA_LOTTERY_COMBINATIONS.length);
   const combos = NBA_LOTTERY_COMBINATIONS.slice(0, n);
   const totalCombos = combos.reduce((a, b) => a + b, 0);
@@ -122,20 +210,27 @@ export function runLottery(
   const lotteryDraws = Math.min(4, n);
   const drawnTeamIndices = new Set<number>();
   const results: LotteryResult[] = [];
+  const draws: LotteryDraw[] = [];
 
   // Draw lottery picks (1 through 4)
   for (let pick = 1; pick <= lotteryDraws; pick++) {
     let drawn = -1;
     while (drawn === -1 || drawnTeamIndices.has(drawn)) {
-      const rand = Math.floor(Math.random() * totalCombos);
+      const combination = Math.floor(random() * totalCombos);
       let cumulative = 0;
       for (let i = 0; i < n; i++) {
         cumulative += combos[i];
-        if (rand < cumulative) {
+        if (combination < cumulative) {
           drawn = i;
           break;
         }
       }
+      draws.push({
+        pick,
+        combination,
+        teamId: lotteryTeams[drawn].teamId,
+        discarded: drawnTeamIndices.has(drawn),
+      });
     }
     drawnTeamIndices.add(drawn);
     const team = lotteryTeams[drawn];
@@ -179,7 +274,17 @@ export function runLottery(
     pickNum++;
   }
 
-  return results.sort((a, b) => a.pick - b.pick);
+  return { results: results.sort((a, b) => a.pick - b.pick), draws };
+}
+
+/**
+ * Run the NBA Draft Lottery — unseeded, for simulations.
+ */
+export function runLottery(
+  lotteryTeams: TeamStanding[],
+  moneyTeams: TeamStanding[] = []
+): LotteryResult[] {
+  return drawLottery(lotteryTeams, moneyTeams).results;
 }
 
 /**
@@ -209,7 +314,8 @@ function pickSigma(slot: number, total: number): number {
  */
 export function runMockDraft(
   pickOrder: LotteryResult[],
-  prospects: Prospect[]
+  prospects: Prospect[],
+  random: () => number = Math.random
 ): MockPick[] {
   const numPicks = pickOrder.length;
   // Take only the top N prospects (ranked by their consensus rank)
@@ -240,7 +346,7 @@ export function runMockDraft(
     const normalized = weights.map(w => w / totalWeight);
 
     // Weighted random selection
-    const rand = Math.random();
+    const rand = random();
     let cumulative = 0;
     let selectedIdx = 0;
     for (let j = 0; j < normalized.length; j++) {
@@ -0,0 +1,303 @@
+import { supabase } from './supabase';
+import { logger } from './logger';
+import { createSeededRandom, drawLottery } from './lottery';
+import type { LotteryDraw, LotteryResult, TeamStanding } from './lottery';
+import type { RosterOpResult } from './rosterOps';
+import { DEFAULT_ROSTER_SETTINGS } from '../types';
+
+/**
+ * Official rookie lottery — commit, draw, verify (00040_lottery_results.sql,
+ * 00047_lottery_server_seed.sql).
+ *
+ * 1. Commit: the commissioner's browser generates a secret seed and stores
+ *    only its SHA-256 hash, with the lottery and money teams in order. The
+ *    database adds a server seed of its own and publishes only its hash.
+ * 2. Draw: reveal_lottery_seeds reveals both seeds at once — after that the
+ *    lottery can't be voided. drawLottery runs on SHA-256 of the two seeds
+ *    combined; every draw and the results are stored, and the order
+ *    becomes the league's rookie draft order.
+ * 3. Verify: anyone hashes the revealed seeds and replays the draw.
+ *
+ * A commitment can be voided before the reveal (e.g. standings were wrong),
+ * but never deleted, so owners see every discarded attempt.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+// revealed = both seeds public, draw not yet stored; void = withdrawn before the reveal
+export type LotteryStatus = 'committed' | 'revealed' | 'drawn' | 'void';
+
+export interface LotteryRecord {
+  id: string;
+  leagueId: string;
+  draftYear: number;
+  seedHash: string;
+  seed?: string;                   // Revealed with the draw
+  serverSeedHash?: string;         // Missing on lotteries committed before 00047
+  serverSeed?: string;             // Revealed with the draw
+  status: LotteryStatus;
+  lotteryTeams: TeamStanding[];    // Worst first
+  moneyTeams: TeamStanding[];      // Best first
+  draws: LotteryDraw[];
+  results: LotteryResult[];
+  committedBy: string;
+  committedAt: number;
+  drawnBy?: string;
+  drawnAt?: number;
+  voidedBy?: string;
+  voidedAt?: number;
+}
+
+export interface LotteryVerification {
+  hashMatches: boolean;
+  serverHashMatches: boolean;
+  drawsMatch: boolean;
+  resultsMatch: boolean;
+  replayedDraws: LotteryDraw[];
+  replayedResults: LotteryResult[];
+}
+
+interface LotteryResultRow {
+  id: string;
+  league_id: string;
+  draft_year: number;
+  seed_hash: string;
+  seed: string | null;
+  server_seed_hash: string | null;
+  server_seed: string | null;
+  status: LotteryStatus;
+  lottery_teams: TeamStanding[] | null;
+  money_teams: TeamStanding[] | null;
+  draws: LotteryDraw[] | null;
+  results: LotteryResult[] | null;
+  committed_by: string;
+  committed_at: string;
+  drawn_by: string | null;
+  drawn_at: string | null;
+  voided_by: string | null;
+  voided_at: string | null;
+}
+
+export function mapLotteryRecord(row: LotteryResultRow): LotteryRecord {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    draftYear: row.draft_year,
+    seedHash: row.seed_hash,
+    seed: row.seed || undefined,
+    serverSeedHash: row.server_seed_hash || undefined,
+    serverSeed: row.server_seed || undefined,
+    status: row.status,
+    lotteryTeams: row.lottery_teams || [],
+    moneyTeams: row.money_teams || [],
+    draws: row.draws || [],
+    results: row.results || [],
+    committedBy: row.committed_by,
+    committedAt: new Date(row.committed_at).getTime(),
+    drawnBy: row.drawn_by || undefined,
+    drawnAt: row.drawn_at ? new Date(row.drawn_at).getTime() : undefined,
+    voidedBy: row.voided_by || undefined,
+    voidedAt: row.voided_at ? new Date(row.voided_at).getTime() : undefined,
+  };
+}
+
+// ─── Seeds ───────────────────────────────────────────────────────────────────
+
+/** 256 random bits as 64 lowercase hex characters. */
+export function generateLotterySeed(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Hex SHA-256 of the seed's UTF-8 bytes — the published commitment. */
+export async function hashLotterySeed(seed: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(seed));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The seed the draw actually runs on: SHA-256 of the commissioner's seed
+ * followed by the server seed. Lotteries from before 00047 used the
+ * commissioner's seed alone.
+ */
+export async function combineLotterySeeds(seed: string, serverSeed?: string): Promise<string> {
+  return serverSeed ? hashLotterySeed(seed + serverSeed) : seed;
+}
+
+// jsonb reorders object keys, so compare field by field
+const sameDraws = (a: LotteryDraw[], b: LotteryDraw[]) =>
+  a.length === b.length && a.every((draw, i) =>
+    draw.pick === b[i].pick
+    && draw.combination === b[i].combination
+    && draw.teamId === b[i].teamId
+    && draw.discarded === b[i].discarded);
+
+const sameResults = (a: LotteryResult[], b: LotteryResult[]) =>
+  a.length === b.length && a.every((result, i) =>
+    result.pick === b[i].pick
+    && result.teamId === b[i].teamId
+    && result.originalPosition === b[i].originalPosition
+    && result.isLotteryWinner === b[i].isLotteryWinner);
+
+/** Hash the revealed seeds and replay the draw from the committed teams. */
+export async function verifyLottery(record: LotteryRecord): Promise<LotteryVerification> {
+  if (!record.seed || (record.serverSeedHash && !record.serverSeed)) {
+    return { hashMatches: false, serverHashMatches: false, drawsMatch: false, resultsMatch: false, replayedDraws: [], replayedResults: [] };
+  }
+  const hashMatches = (await hashLotterySeed(record.seed)) === record.seedHash;
+  const serverHashMatches = !record.serverSeedHash
+    || (await hashLotterySeed(record.serverSeed!)) === record.serverSeedHash;
+  const drawSeed = await combineLotterySeeds(record.seed, record.serverSeed);
+  const { draws, results } = drawLottery(record.lotteryTeams, record.moneyTeams, createSeededRandom(drawSeed));
+  return {
+    hashMatches,
+    serverHashMatches,
+    drawsMatch: sameDraws(draws, record.draws),
+    resultsMatch: sameResults(results, record.results),
+    replayedDraws: draws,
+    replayedResults: results,
+  };
+}
+
+// ─── Operations ──────────────────────────────────────────────────────────────
+
+/**
+ * Publish the commitment for a draft year's lottery. The seed itself is not
+ * sent; the caller keeps it until the draw. The database generates the
+ * server seed and its hash on insert.
+ */
+export async function commitLottery(params: {
+  leagueId: string;
+  draftYear: number;
+  seed: string;
+  lotteryTeams: TeamStanding[];
+  moneyTeams: TeamStanding[];
+  committedBy: string;
+}): Promise<RosterOpResult> {
+  const { leagueId, draftYear, seed, lotteryTeams, moneyTeams, committedBy } = params;
+  const ctx = { leagueId, draftYear, committedBy };
+
+  if (lotteryTeams.length === 0) return { success: false, error: 'No teams are in the lottery' };
+
+  try {
+    const { error } = await supabase
+      .from('lottery_results')
+      .insert({
+        league_id: leagueId,
+        draft_year: draftYear,
+        seed_hash: await hashLotterySeed(seed),
+        lottery_teams: lotteryTeams,
+        money_teams: moneyTeams,
+        committed_by: committedBy,
+      });
+    if (error) throw error;
+
+    logger.info('commitLottery: success', ctx);
+    return { success: true };
+  } catch (err) {
+    logger.error('commitLottery: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to commit lottery' };
+  }
+}
+
+/**
+ * Reveal both seeds, draw the lottery and make the result the league's
+ * rookie draft order. A lottery left 'revealed' by an interrupted draw is
+ * finished from its stored seeds, so `seed` is only needed before the reveal.
+ */
+export async function drawCommittedLottery(params: {
+  record: LotteryRecord;
+  seed?: string;
+  drawnBy: string;
+}): Promise<RosterOpResult> {
+  const { record, seed, drawnBy } = params;
+  const ctx = { leagueId: record.leagueId, draftYear: record.draftYear, drawnBy };
+
+  if (record.status === 'drawn' || record.status === 'void') {
+    return { success: false, error: `This lottery has already been ${record.status === 'void' ? 'voided' : 'drawn'}` };
+  }
+  if (record.status === 'committed') {
+    if (!seed) return { success: false, error: 'The commissioner seed is needed to run the lottery' };
+    if ((await hashLotterySeed(seed)) !== record.seedHash) {
+      return { success: false, error: 'Seed does not match the committed hash' };
+    }
+  }
+
+  try {
+    let revealedSeed = record.seed;
+    let serverSeed = record.serverSeed;
+    if (record.status === 'committed') {
+      const { data, error: revealErr } = await supabase.rpc('reveal_lottery_seeds', {
+        p_lottery_id: record.id,
+        p_seed: seed,
+      });
+      if (revealErr) throw revealErr;
+      revealedSeed = seed;
+      serverSeed = data as string;
+    }
+    if (!revealedSeed) throw new Error('Lottery seed has not been revealed');
+
+    const drawSeed = await combineLotterySeeds(revealedSeed, serverSeed);
+    const { draws, results } = drawLottery(record.lotteryTeams, record.moneyTeams, createSeededRandom(drawSeed));
+
+    const { error } = await supabase
+      .from('lottery_results')
+      .update({ status: 'drawn', draws, results, drawn_by: drawnBy })
+      .eq('id', record.id)
+      .eq('status', 'revealed');
+    if (error) throw error;
+
+    // Lottery order replaces the rookie draft order
+    const { data: leagueRow, error: leagueErr } = await supabase
+      .from('leagues')
+      .select('roster')
+      .eq('id', record.leagueId)
+      .single();
+    if (leagueErr) throw leagueErr;
+
+    const { error: orderErr } = await supabase
+      .from('leagues')
+      .update({
+        roster: {
+          ...DEFAULT_ROSTER_SETTINGS,
+          ...leagueRow.roster,
+          rookieDraftOrderMethod: 'manual',
+          rookieDraftOrder: results.map(r => r.teamId),
+        },
+      })
+      .eq('id', record.leagueId);
+    if (orderErr) throw orderErr;
+
+    logger.info('drawCommittedLottery: success', { ...ctx, draws: draws.length });
+    return { success: true };
+  } catch (err) {
+    logger.error('drawCommittedLottery: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to draw lottery' };
+  }
+}
+
+/**
+ * Withdraw a commitment before its seeds are revealed (e.g. standings were
+ * wrong). The row stays as 'void' so owners can see it was discarded.
+ */
+export async function voidLottery(record: LotteryRecord, voidedBy: string): Promise<RosterOpResult> {
+  const ctx = { leagueId: record.leagueId, draftYear: record.draftYear, voidedBy };
+  try {
+    const { data, error } = await supabase
+      .from('lottery_results')
+      .update({ status: 'void', voided_by: voidedBy })
+      .eq('id', record.id)
+      .eq('status', 'committed')
+      .select('id');
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Only a commitment whose seeds are still secret can be voided' };
+    }
+
+    logger.info('voidLottery: success', ctx);
+    return { success: true };
+  } catch (err) {
+    logger.error('voidLottery: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to void lottery' };
+  }
+}
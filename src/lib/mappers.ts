@@ -1,10 +1,12 @@
 import type {
   League, Team, Player, RosterDoc, Matchup, TeamFees, Draft,
   RegularSeasonRoster, WatchList, ProjectedStats, PreviousStats,
-  Wager, TradeProposal, TradeProposalResponse, DailyLineup, NBAGame,
-  PickAssignment, KeeperFees, DraftHistory, Prospect,
+  Wager, TradeProposal, TradeProposalResponse, TradeComment, TradeVetoVote, TradeDeadlineException, TradeBlockEntry, DailyLineup, NBAGame,
+  PickAssignment, KeeperFees, DraftHistory, Prospect, PlayerBoxScore, DraftQueue,
+  WaiverClaim, WaiverOrder, WaiverRun, Transaction, SeasonResult, PlayoffBracket,
+  PhaseTransition,
 } from '../types';
-import { DEFAULT_ROSTER_SETTINGS } from '../types';
+import { DEFAULT_KEEPER_RULES, DEFAULT_ROSTER_SETTINGS, DEFAULT_TRADE_REVIEW_SETTINGS, DEFAULT_WAIVER_SETTINGS } from '../types';
 
 // ─── League ───────────────────────────────────────────────────────────────────
 
@@ -28,6 +30,9 @@ export function mapLeague(row: any): League {
     roster: { ...DEFAULT_ROSTER_SETTINGS, ...row.roster },
     fees: row.fees || undefined,
     telegramChatId: row.telegram_chat_id ?? undefined,
+    waivers: { ...DEFAULT_WAIVER_SETTINGS, ...row.waivers },
+    tradeReview: { ...DEFAULT_TRADE_REVIEW_SETTINGS, ...row.trade_review },
+    keeperRules: { ...DEFAULT_KEEPER_RULES, ...row.keeper_rules },
   };
 }
 
@@ -75,6 +80,7 @@ export function mapPlayer(row: any): Player {
           derivedBaseRound: row.keeper_derived_base_round || undefined,
         }
       : undefined,
+    waiversUntil: row.waivers_until ? new Date(row.waivers_until).getTime() : undefined,
   };
 }
 
@@ -112,6 +118,19 @@ export function mapDraft(row: any): Draft {
   };
 }
 
+// ─── Draft Queue ──────────────────────────────────────────────────────────────
+
+export function mapDraftQueue(row: any): DraftQueue {
+  return {
+    id: row.id,
+    draftId: row.draft_id,
+    leagueId: row.league_id,
+    teamId: row.team_id,
+    playerIds: row.player_ids || [],
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
+
 // ─── Matchup ──────────────────────────────────────────────────────────────────
 
 export function mapMatchup(row: any): Matchup {
@@ -124,6 +143,31 @@ export function mapMatchup(row: any): Matchup {
     awayTeamId: row.away_team_id,
     homeScore: row.home_score != null ? Number(row.home_score) : null,
     awayScore: row.away_score != null ? Number(row.away_score) : null,
+    categoryResults: row.category_results || undefined,
+    scoredAt: row.scored_at ? new Date(row.scored_at).getTime() : undefined,
+    bracket: row.bracket || undefined,
+    playoffRound: row.playoff_round ?? undefined,
+    homeSeed: row.home_seed ?? undefined,
+    awaySeed: row.away_seed ?? undefined,
+  };
+}
+
+export function mapPlayoffBracket(row: any): PlayoffBracket {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    seasonYear: row.season_year,
+    seeds: row.seeds || [],
+    byeTeams: row.bye_teams || 0,
+    roundWeeks: row.round_weeks || [],
+    consolationTeamIds: row.consolation_team_ids || [],
+    consolationWeeks: row.consolation_weeks || [],
+    championTeamId: row.champion_team_id || undefined,
+    runnerUpTeamId: row.runner_up_team_id || undefined,
+    thirdPlaceTeamId: row.third_place_team_id || undefined,
+    consolationWinnerTeamId: row.consolation_winner_team_id || undefined,
+    generatedBy: row.generated_by,
+    createdAt: new Date(row.created_at).getTime(),
   };
 }
 
@@ -268,6 +312,13 @@ export function mapTradeProposal(row: any): TradeProposal {
     involvedTeamIds: row.involved_team_ids || [],
     note: row.note || undefined,
     expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : undefined,
+    reviewEndsAt: row.review_ends_at ? new Date(row.review_ends_at).getTime() : undefined,
+    vetoedAt: row.vetoed_at ? new Date(row.vetoed_at).getTime() : undefined,
+    vetoedBy: row.vetoed_by || undefined,
+    vetoReason: row.veto_reason || undefined,
+    parentProposalId: row.parent_proposal_id || undefined,
+    threadId: row.thread_id || row.id,
+    deadlineExceptionId: row.deadline_exception_id || undefined,
     executedAt: row.executed_at ? new Date(row.executed_at).getTime() : undefined,
     executedBy: row.executed_by || undefined,
     createdAt: new Date(row.created_at).getTime(),
@@ -289,6 +340,59 @@ export function mapTradeResponse(row: any): TradeProposalResponse {
   };
 }
 
+export function mapTradeComment(row: any): TradeComment {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    threadId: row.thread_id,
+    proposalId: row.proposal_id,
+    teamId: row.team_id,
+    authorEmail: row.author_email,
+    body: row.body,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+export function mapTradeVetoVote(row: any): TradeVetoVote {
+  return {
+    id: row.id,
+    proposalId: row.proposal_id,
+    leagueId: row.league_id,
+    teamId: row.team_id,
+    votedBy: row.voted_by,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+export function mapTradeDeadlineException(row: any): TradeDeadlineException {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    teamIds: row.team_ids || [],
+    reason: row.reason,
+    grantedBy: row.granted_by,
+    expiresAt: new Date(row.expires_at).getTime(),
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+export function mapTradeBlockEntry(row: any): TradeBlockEntry {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    teamId: row.team_id,
+    assetType: row.asset_type,
+    assetId: row.asset_id,
+    displayName: row.display_name,
+    askingNote: row.asking_note || undefined,
+    desiredPositions: row.desired_positions || [],
+    desiredCategories: row.desired_categories || [],
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
+
 // ─── Daily Lineup ─────────────────────────────────────────────────────────────
 
 export function mapDailyLineup(row: any): DailyLineup {
@@ -317,6 +421,31 @@ export function mapNBAGame(row: any): NBAGame {
   };
 }
 
+// ─── Player Box Score ─────────────────────────────────────────────────────────
+
+export function mapPlayerBoxScore(row: any): PlayerBoxScore {
+  return {
+    id: row.id,
+    fantraxId: row.fantrax_id,
+    seasonYear: row.season_year,
+    gameDate: row.game_date,
+    name: row.name || undefined,
+    nbaTeam: row.nba_team || undefined,
+    minutes: Number(row.minutes) || 0,
+    fgm: Number(row.fgm) || 0,
+    fga: Number(row.fga) || 0,
+    ftm: Number(row.ftm) || 0,
+    fta: Number(row.fta) || 0,
+    threePointMade: Number(row.three_pm) || 0,
+    points: Number(row.points) || 0,
+    rebounds: Number(row.rebounds) || 0,
+    assists: Number(row.assists) || 0,
+    steals: Number(row.steals) || 0,
+    blocks: Number(row.blocks) || 0,
+    turnovers: Number(row.turnovers) || 0,
+  };
+}
+
 // ─── Pick Assignment ──────────────────────────────────────────────────────────
 
 export function mapPickAssignment(row: any): PickAssignment {
@@ -405,3 +534,107 @@ export function mapProspect(row: any): Prospect {
     updatedAt: new Date(row.updated_at).getTime(),
   };
 }
+
+// ─── Waivers ──────────────────────────────────────────────────────────────────
+
+export function mapWaiverClaim(row: any): WaiverClaim {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    seasonYear: row.season_year,
+    teamId: row.team_id,
+    playerId: row.player_id,
+    playerName: row.player_name,
+    dropPlayerId: row.drop_player_id || undefined,
+    dropPlayerName: row.drop_player_name || undefined,
+    bidAmount: row.bid_amount ?? undefined,
+    status: row.status,
+    failureReason: row.failure_reason || undefined,
+    priority: row.priority ?? undefined,
+    runId: row.run_id || undefined,
+    submittedBy: row.submitted_by,
+    createdAt: new Date(row.created_at).getTime(),
+    processedAt: row.processed_at ? new Date(row.processed_at).getTime() : undefined,
+  };
+}
+
+export function mapWaiverOrder(row: any): WaiverOrder {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    seasonYear: row.season_year,
+    teamIds: row.team_ids || [],
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
+
+export function mapWaiverRun(row: any): WaiverRun {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    seasonYear: row.season_year,
+    claimMode: row.claim_mode || 'priority',
+    priorityMode: row.priority_mode,
+    priorityOrder: row.priority_order || [],
+    awarded: row.awarded,
+    failed: row.failed,
+    processedBy: row.processed_by,
+    processedAt: new Date(row.processed_at).getTime(),
+  };
+}
+
+// ─── Transactions ─────────────────────────────────────────────────────────────
+
+export function mapTransaction(row: any): Transaction {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    type: row.type,
+    teamId: row.team_id || undefined,
+    otherTeamId: row.other_team_id || undefined,
+    playerId: row.player_id || undefined,
+    playerName: row.player_name || undefined,
+    fromSlot: row.from_slot || undefined,
+    toSlot: row.to_slot || undefined,
+    amount: row.amount ?? undefined,
+    tradeProposalId: row.trade_proposal_id || undefined,
+    note: row.note || undefined,
+    performedBy: row.performed_by || undefined,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+// ─── Season Results ───────────────────────────────────────────────────────────
+
+export function mapSeasonResult(row: any): SeasonResult {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    seasonYear: row.season_year,
+    championTeamId: row.champion_team_id || undefined,
+    championName: row.champion_name,
+    runnerUpTeamId: row.runner_up_team_id || undefined,
+    runnerUpName: row.runner_up_name || undefined,
+    thirdPlaceTeamId: row.third_place_team_id || undefined,
+    thirdPlaceName: row.third_place_name || undefined,
+    recordedBy: row.recorded_by,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+// ─── Phase Transitions ────────────────────────────────────────────────────────
+
+export function mapPhaseTransition(row: any): PhaseTransition {
+  return {
+    id: row.id,
+    leagueId: row.league_id,
+    seasonYear: row.season_year,
+    fromPhase: row.from_phase,
+    toPhase: row.to_phase,
+    performedBy: row.performed_by,
+    forced: row.forced || false,
+    blockers: row.blockers || [],
+    sideEffects: row.side_effects || [],
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
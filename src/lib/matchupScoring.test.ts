@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeTeamTotals,
+  emptyTotals,
+  indexBoxScores,
+  resolveStartersByDate,
+  scoreCategories,
+} from './matchupScoring';
+import type { CategoryTotals, DailyLineup, MatchupCategory, PlayerBoxScore } from '../types';
+
+const box = (fantraxId: string, gameDate: string, stats: Partial<PlayerBoxScore> = {}): PlayerBoxScore => ({
+  id: `${fantraxId}_${gameDate}`,
+  fantraxId,
+  seasonYear: 2025,
+  gameDate,
+  minutes: 30,
+  fgm: 5, fga: 10, ftm: 2, fta: 2, threePointMade: 1,
+  points: 13, rebounds: 4, assists: 3, steals: 1, blocks: 0, turnovers: 1,
+  ...stats,
+});
+
+const lineup = (teamId: string, gameDate: string, activePlayerIds: string[]): DailyLineup => ({
+  id: `league1_${teamId}_${gameDate}`,
+  leagueId: 'league1',
+  teamId,
+  gameDate,
+  activePlayerIds,
+  updatedAt: 0,
+  updatedBy: 'owner@example.com',
+});
+
+const totals = (stats: Partial<CategoryTotals>): CategoryTotals => ({ ...emptyTotals(), ...stats });
+
+const winnerOf = (home: CategoryTotals, away: CategoryTotals, category: MatchupCategory) =>
+  scoreCategories(home, away).categories.find(c => c.category === category)!.winner;
+
+describe('resolveStartersByDate', () => {
+  const dates = ['2025-11-03', '2025-11-04', '2025-11-05'];
+
+  it.each([
+    { name: 'no saved lineups → default starters every day', lineups: [], expected: [['a', 'b'], ['a', 'b'], ['a', 'b']] },
+    {
+      name: 'saved lineup overrides only its own date',
+      lineups: [lineup('t1', '2025-11-04', ['c'])],
+      expected: [['a', 'b'], ['c'], ['a', 'b']],
+    },
+    {
+      name: 'an empty saved lineup means nobody started',
+      lineups: [lineup('t1', '2025-11-03', [])],
+      expected: [[], ['a', 'b'], ['a', 'b']],
+    },
+    {
+      name: 'lineups outside the range are ignored',
+      lineups: [lineup('t1', '2025-11-10', ['z'])],
+      expected: [['a', 'b'], ['a', 'b'], ['a', 'b']],
+    },
+  ])('$name', ({ lineups, expected }) => {
+    const result = resolveStartersByDate(dates, lineups, ['a', 'b']);
+    expect(dates.map(d => result.get(d))).toEqual(expected);
+  });
+});
+
+describe('computeTeamTotals', () => {
+  const dates = ['2025-11-03', '2025-11-04'];
+  const boxScoresByDate = indexBoxScores([
+    box('fx-a', '2025-11-03', { points: 20 }),
+    box('fx-b', '2025-11-03', { points: 7 }),
+    box('fx-a', '2025-11-04', { points: 30 }),
+    box('c', '2025-11-04', { points: 11 }),
+  ]);
+  const fantraxIdByPlayerId = new Map([['a', 'fx-a'], ['b', 'fx-b']]);
+
+  it.each([
+    { name: 'counts only started players', starters: { '2025-11-03': ['a'] }, points: 20, games: 1 },
+    { name: 'sums across dates', starters: { '2025-11-03': ['a', 'b'], '2025-11-04': ['a'] }, points: 57, games: 3 },
+    { name: 'starters without a game that day add nothing', starters: { '2025-11-04': ['a', 'b'] }, points: 30, games: 1 },
+    { name: 'falls back to the player ID without a fantrax mapping', starters: { '2025-11-04': ['c'] }, points: 11, games: 1 },
+    { name: 'dates without box scores are skipped', starters: { '2025-11-05': ['a'] }, points: 0, games: 0 },
+  ])('$name', ({ starters, points, games }) => {
+    const result = computeTeamTotals({
+      dates: [...dates, '2025-11-05'],
+      startersByDate: new Map(Object.entries(starters)),
+      fantraxIdByPlayerId,
+      boxScoresByDate,
+    });
+    expect(result.points).toBe(points);
+    expect(result.gamesPlayed).toBe(games);
+  });
+});
+
+describe('scoreCategories', () => {
+  it.each<{ name: string; category: MatchupCategory; home: Partial<CategoryTotals>; away: Partial<CategoryTotals>; winner: string }>([
+    { name: 'more points wins', category: 'PTS', home: { points: 101 }, away: { points: 100 }, winner: 'home' },
+    { name: 'equal counting stats tie', category: 'REB', home: { rebounds: 40 }, away: { rebounds: 40 }, winner: 'tie' },
+    // 40/80 = .500 vs 51/100 = .510 — summed makes/attempts, not averaged percentages
+    { name: 'FG% from summed makes/attempts', category: 'FG%', home: { fgm: 40, fga: 80 }, away: { fgm: 51, fga: 100 }, winner: 'away' },
+    // .4871 vs .4874 round to the same three decimals
+    { name: 'FG% ties at display precision', category: 'FG%', home: { fgm: 4871, fga: 10000 }, away: { fgm: 4874, fga: 10000 }, winner: 'tie' },
+    { name: 'FT% with no attempts loses to any attempts', category: 'FT%', home: { ftm: 0, fta: 0 }, away: { ftm: 1, fta: 4 }, winner: 'away' },
+    { name: 'FT% with no attempts on either side ties', category: 'FT%', home: {}, away: {}, winner: 'tie' },
+    { name: 'more turnovers lose A/TO', category: 'A/TO', home: { assists: 30, turnovers: 15 }, away: { assists: 30, turnovers: 10 }, winner: 'away' },
+    { name: 'zero turnovers counts assists straight up', category: 'A/TO', home: { assists: 3, turnovers: 0 }, away: { assists: 20, turnovers: 8 }, winner: 'home' },
+    // 2.004 vs 2.001 both round to 2.00
+    { name: 'A/TO ties at two decimals', category: 'A/TO', home: { assists: 501, turnovers: 250 }, away: { assists: 2001, turnovers: 1000 }, winner: 'tie' },
+  ])('$name', ({ category, home, away, winner }) => {
+    expect(winnerOf(totals(home), totals(away), category)).toBe(winner);
+  });
+
+  it('tallies wins, losses and ties across all nine categories', () => {
+    const home = totals({ fgm: 50, fga: 100, ftm: 20, fta: 25, points: 150, rebounds: 50, assists: 30, steals: 8, blocks: 5, threePointMade: 12, turnovers: 10 });
+    const away = totals({ fgm: 45, fga: 100, ftm: 20, fta: 25, points: 140, rebounds: 55, assists: 30, steals: 8, blocks: 6, threePointMade: 10, turnovers: 15 });
+    const result = scoreCategories(home, away);
+    // home: FG%, PTS, 3PM, A/TO · away: REB, BLK · tie: FT%, AST, STL
+    expect(result).toMatchObject({ homeWins: 4, awayWins: 2, ties: 3 });
+    expect(result.categories).toHaveLength(9);
+  });
+});
@@ -0,0 +1,233 @@
+import { MATCHUP_CATEGORIES } from '../types';
+import type {
+  PlayerBoxScore, DailyLineup, CategoryTotals, MatchupCategory, MatchupCategoryResult, CategoryOutcome,
+} from '../types';
+
+/**
+ * Category scoring engine for head-to-head matchups.
+ * Pure functions — no side effects, no DB calls.
+ *
+ * Counting stats are summed across every started player-game in the
+ * matchup period. Ratio categories (FG%, FT%, A/TO) are derived from the
+ * summed makes/attempts, never by averaging per-game percentages.
+ */
+
+export function emptyTotals(): CategoryTotals {
+  return {
+    fgm: 0, fga: 0, ftm: 0, fta: 0, threePointMade: 0,
+    points: 0, rebounds: 0, assists: 0, steals: 0, blocks: 0, turnovers: 0,
+    gamesPlayed: 0,
+  };
+}
+
+export function addBoxScore(totals: CategoryTotals, box: PlayerBoxScore): CategoryTotals {
+  return {
+    fgm: totals.fgm + box.fgm,
+    fga: totals.fga + box.fga,
+    ftm: totals.ftm + box.ftm,
+    fta: totals.fta + box.fta,
+    threePointMade: totals.threePointMade + box.threePointMade,
+    points: totals.points + box.points,
+    rebounds: totals.rebounds + box.rebounds,
+    assists: totals.assists + box.assists,
+    steals: totals.steals + box.steals,
+    blocks: totals.blocks + box.blocks,
+    turnovers: totals.turnovers + box.turnovers,
+    gamesPlayed: totals.gamesPlayed + 1,
+  };
+}
+
+/**
+ * Value of one category from team totals.
+ * Returns null for ratio categories with no attempts (no games played).
+ * A/TO with zero turnovers counts assists straight up.
+ */
+export function categoryValue(totals: CategoryTotals, category: MatchupCategory): number | null {
+  switch (category) {
+    case 'FG%': return totals.fga > 0 ? totals.fgm / totals.fga : null;
+    case 'FT%': return totals.fta > 0 ? totals.ftm / totals.fta : null;
+    case 'PTS': return totals.points;
+    case 'REB': return totals.rebounds;
+    case 'AST': return totals.assists;
+    case 'STL': return totals.steals;
+    case 'BLK': return totals.blocks;
+    case '3PM': return totals.threePointMade;
+    case 'A/TO':
+      if (totals.assists === 0 && totals.turnovers === 0) return null;
+      return totals.turnovers > 0 ? totals.assists / totals.turnovers : totals.assists;
+  }
+}
+
+// Ratios are compared at display precision so 0.4871 vs 0.4874 is a tie, like the scoreboard shows
+function roundForCompare(value: number, category: MatchupCategory): number {
+  const decimals = category === 'FG%' || category === 'FT%' ? 3 : category === 'A/TO' ? 2 : 1;
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export function compareCategory(
+  category: MatchupCategory,
+  homeValue: number | null,
+  awayValue: number | null
+): CategoryOutcome {
+  if (homeValue === null && awayValue === null) return 'tie';
+  if (awayValue === null) return 'home';
+  if (homeValue === null) return 'away';
+
+  const home = roundForCompare(homeValue, category);
+  const away = roundForCompare(awayValue, category);
+  if (home === away) return 'tie';
+  return home > away ? 'home' : 'away';
+}
+
+export interface MatchupScore {
+  homeWins: number;
+  awayWins: number;
+  ties: number;
+  categories: MatchupCategoryResult[];
+}
+
+export function scoreCategories(home: CategoryTotals, away: CategoryTotals): MatchupScore {
+  const categories = MATCHUP_CATEGORIES.map((category): MatchupCategoryResult => {
+    const homeValue = categoryValue(home, category);
+    const awayValue = categoryValue(away, category);
+    return { category, homeValue, awayValue, winner: compareCategory(category, homeValue, awayValue) };
+  });
+
+  return {
+    homeWins: categories.filter(c => c.winner === 'home').length,
+    awayWins: categories.filter(c => c.winner === 'away').length,
+    ties: categories.filter(c => c.winner === 'tie').length,
+    categories,
+  };
+}
+
+/**
+ * Sum a team's box scores over the given dates, counting only players
+ * who were started on that date.
+ *
+ * @param startersByDate  gameDate → player IDs in the starting lineup
+ * @param fantraxIdByPlayerId  player ID → fantraxId (box scores are keyed by fantraxId)
+ * @param boxScoresByDate  gameDate → fantraxId → box score
+ */
+export function computeTeamTotals(params: {
+  dates: string[];
+  startersByDate: Map<string, string[]>;
+  fantraxIdByPlayerId: Map<string, string>;
+  boxScoresByDate: Map<string, Map<string, PlayerBoxScore>>;
+}): CategoryTotals {
+  const { dates, startersByDate, fantraxIdByPlayerId, boxScoresByDate } = params;
+  let totals = emptyTotals();
+
+  for (const date of dates) {
+    const starters = startersByDate.get(date) || [];
+    const dayScores = boxScoresByDate.get(date);
+    if (!dayScores) continue;
+
+    for (const playerId of starters) {
+      const fantraxId = fantraxIdByPlayerId.get(playerId) || playerId;
+      const box = dayScores.get(fantraxId);
+      if (box) totals = addBoxScore(totals, box);
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Starting lineup per date for one team. Dates with a saved daily lineup use it;
+ * dates without one fall back to the team's default starters (active, not benched).
+ */
+export function resolveStartersByDate(
+  dates: string[],
+  lineups: DailyLineup[],
+  defaultStarters: string[]
+): Map<string, string[]> {
+  const lineupByDate = new Map(lineups.map(l => [l.gameDate, l.activePlayerIds]));
+  const result = new Map<string, string[]>();
+  for (const date of dates) {
+    result.set(date, lineupByDate.get(date) ?? defaultStarters);
+  }
+  return result;
+}
+
+/**
+ * Group box scores by date then fantraxId for fast lookup.
+ */
+export function indexBoxScores(boxScores: PlayerBoxScore[]): Map<string, Map<string, PlayerBoxScore>> {
+  const byDate = new Map<string, Map<string, PlayerBoxScore>>();
+  for (const box of boxScores) {
+    if (!byDate.has(box.gameDate)) byDate.set(box.gameDate, new Map());
+    byDate.get(box.gameDate)!.set(box.fantraxId, box);
+  }
+  return byDate;
+}
+
+/**
+ * Parse one uploaded box score row (CSV or JSON object) into DB columns.
+ * Accepts Fantrax/Basketball Reference style headers (FGM, 3PTM, TO…)
+ * as well as camelCase keys. Returns null for rows missing a player or date.
+ */
+export function parseBoxScoreRow(row: Record<string, unknown>): {
+  id: string;
+  fantrax_id: string;
+  season_year: number;
+  game_date: string;
+  name: string | null;
+  nba_team: string | null;
+  minutes: number;
+  fgm: number;
+  fga: number;
+  ftm: number;
+  fta: number;
+  three_pm: number;
+  points: number;
+  rebounds: number;
+  assists: number;
+  steals: number;
+  blocks: number;
+  turnovers: number;
+} | null {
+  const pick = (...keys: string[]): unknown => {
+    for (const key of keys) {
+      if (row[key] !== undefined && row[key] !== null && String(row[key]).trim() !== '') return row[key];
+    }
+    return undefined;
+  };
+  const num = (...keys: string[]): number => {
+    const n = parseFloat(String(pick(...keys) ?? '0').replace(/,/g, ''));
+    return isNaN(n) ? 0 : n;
+  };
+
+  const fantraxId = String(pick('fantraxId', 'fantrax_id', 'FantraxId') ?? '').trim();
+  const gameDate = String(pick('gameDate', 'game_date', 'Date', 'date') ?? '').trim();
+  if (!fantraxId || !/^\d{4}-\d{2}-\d{2}$/.test(gameDate)) return null;
+
+  // NBA season year = calendar year the season started (Oct+)
+  const [year, month] = gameDate.split('-').map(Number);
+  const seasonYear = month >= 10 ? year : year - 1;
+
+  const name = pick('name', 'Player', 'player');
+  const nbaTeam = pick('nbaTeam', 'nba_team', 'Team', 'team');
+
+  return {
+    id: `${fantraxId}_${gameDate}`,
+    fantrax_id: fantraxId,
+    season_year: seasonYear,
+    game_date: gameDate,
+    name: name !== undefined ? String(name).trim() : null,
+    nba_team: nbaTeam !== undefined ? String(nbaTeam).trim() : null,
+    minutes: num('MIN', 'minutes'),
+    fgm: num('FGM', 'fgm'),
+    fga: num('FGA', 'fga'),
+    ftm: num('FTM', 'ftm'),
+    fta: num('FTA', 'fta'),
+    three_pm: num('3PTM', '3PM', 'threePointMade', 'three_pm'),
+    points: num('PTS', 'points'),
+    rebounds: num('REB', 'rebounds'),
+    assists: num('AST', 'assists'),
+    steals: num('ST', 'STL', 'steals'),
+    blocks: num('BLK', 'blocks'),
+    turnovers: num('TO', 'TOV', 'turnovers'),
+  };
+}
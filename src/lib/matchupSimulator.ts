@@ -0,0 +1,262 @@
+import { MATCHUP_CATEGORIES } from '../types';
+import type {
+  CategoryTotals, DailyLineup, MatchupCategory, ProjectedStats, RegularSeasonRoster,
+} from '../types';
+import { scoreCategories } from './matchupScoring';
+
+/**
+ * Monte Carlo rest-of-week win probabilities for a category matchup.
+ * Pure functions — no side effects, no DB calls. All randomness comes from
+ * the injected RNG so a fixed seed reproduces the same result.
+ *
+ * Each remaining player-game is sampled from the player's per-game
+ * projection: FGA/FTA/3PM/REB/AST/STL/BLK/TO as Poisson counts, makes as
+ * Binomial(attempts, projected %), and points rebuilt from the makes so
+ * PTS, FG% and FT% stay consistent within a game.
+ */
+
+export type Rng = () => number;
+
+/**
+ * Seedable PRNG (mulberry32). Returns floats in [0, 1).
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Stable 32-bit seed from a string (e.g. a matchup ID), so the same
+ * matchup shows the same odds on every render.
+ */
+export function seedFromString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function samplePoisson(mean: number, rng: Rng): number {
+  if (mean <= 0) return 0;
+  // Normal approximation keeps large means (points-scale) cheap
+  if (mean > 30) {
+    const u1 = rng() || Number.MIN_VALUE;
+    const u2 = rng();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return Math.max(0, Math.round(mean + z * Math.sqrt(mean)));
+  }
+  const limit = Math.exp(-mean);
+  let k = 0;
+  let p = rng();
+  while (p > limit) {
+    k++;
+    p *= rng();
+  }
+  return k;
+}
+
+function sampleBinomial(trials: number, probability: number, rng: Rng): number {
+  if (trials <= 0 || probability <= 0) return 0;
+  if (probability >= 1) return trials;
+  let successes = 0;
+  for (let i = 0; i < trials; i++) {
+    if (rng() < probability) successes++;
+  }
+  return successes;
+}
+
+// Share of a player's points assumed to come from free throw attempts (league-wide FTA/PTS ≈ 0.2)
+const FTA_PER_POINT = 0.2;
+
+/**
+ * Per-game expected volumes derived from a projection. Projections carry
+ * percentages and A/TO but not attempts or turnovers, so those are backed
+ * out from points, 3PM and assists.
+ */
+export interface GameExpectation {
+  fga: number;
+  fgPct: number;
+  fta: number;
+  ftPct: number;
+  threePointMade: number;
+  rebounds: number;
+  assists: number;
+  steals: number;
+  blocks: number;
+  turnovers: number;
+}
+
+export function expectationFromProjection(stats: ProjectedStats): GameExpectation {
+  const fgPct = clampPct(stats.fgPercent);
+  const ftPct = clampPct(stats.ftPercent);
+  const fta = stats.points * FTA_PER_POINT;
+  const ftm = fta * ftPct;
+  // FG points = 2 × FGM + 3PM
+  const fgm = Math.max(0, (stats.points - ftm - stats.threePointMade) / 2);
+  const fga = fgPct > 0 ? fgm / fgPct : 0;
+
+  return {
+    fga,
+    fgPct,
+    fta,
+    ftPct,
+    threePointMade: stats.threePointMade,
+    rebounds: stats.rebounds,
+    assists: stats.assists,
+    steals: stats.steals,
+    blocks: stats.blocks,
+    turnovers: stats.assistToTurnover > 0 ? stats.assists / stats.assistToTurnover : 0,
+  };
+}
+
+// Projections store percentages either as 0.475 or 47.5
+function clampPct(value: number): number {
+  if (!value || value < 0) return 0;
+  const pct = value > 1 ? value / 100 : value;
+  return Math.min(pct, 1);
+}
+
+function sampleGame(totals: CategoryTotals, game: GameExpectation, rng: Rng): void {
+  const fga = samplePoisson(game.fga, rng);
+  const fgm = sampleBinomial(fga, game.fgPct, rng);
+  const fta = samplePoisson(game.fta, rng);
+  const ftm = sampleBinomial(fta, game.ftPct, rng);
+  const threes = Math.min(samplePoisson(game.threePointMade, rng), fgm);
+
+  totals.fga += fga;
+  totals.fgm += fgm;
+  totals.fta += fta;
+  totals.ftm += ftm;
+  totals.threePointMade += threes;
+  totals.points += 2 * fgm + threes + ftm;
+  totals.rebounds += samplePoisson(game.rebounds, rng);
+  totals.assists += samplePoisson(game.assists, rng);
+  totals.steals += samplePoisson(game.steals, rng);
+  totals.blocks += samplePoisson(game.blocks, rng);
+  totals.turnovers += samplePoisson(game.turnovers, rng);
+  totals.gamesPlayed += 1;
+}
+
+export interface SimulationTeamInput {
+  current: CategoryTotals;          // actual totals accumulated so far this week
+  remainingGames: GameExpectation[]; // one entry per remaining started player-game
+}
+
+export interface CategoryProbability {
+  category: MatchupCategory;
+  homeWinProbability: number;
+  awayWinProbability: number;
+  tieProbability: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  homeWinProbability: number;
+  awayWinProbability: number;
+  tieProbability: number;
+  categories: CategoryProbability[];
+}
+
+/**
+ * Simulate the rest of the matchup week `iterations` times and count how
+ * often each side wins every category and the matchup (more category wins).
+ */
+export function simulateMatchup(params: {
+  home: SimulationTeamInput;
+  away: SimulationTeamInput;
+  iterations?: number;
+  rng: Rng;
+}): SimulationResult {
+  const { home, away, rng } = params;
+  const iterations = Math.max(1, Math.floor(params.iterations ?? 1000));
+
+  const categoryCounts = MATCHUP_CATEGORIES.map(() => ({ home: 0, away: 0, tie: 0 }));
+  let homeMatchupWins = 0;
+  let awayMatchupWins = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    const homeTotals = { ...home.current };
+    const awayTotals = { ...away.current };
+    for (const game of home.remainingGames) sampleGame(homeTotals, game, rng);
+    for (const game of away.remainingGames) sampleGame(awayTotals, game, rng);
+
+    const score = scoreCategories(homeTotals, awayTotals);
+    score.categories.forEach((c, idx) => {
+      categoryCounts[idx][c.winner]++;
+    });
+    if (score.homeWins > score.awayWins) homeMatchupWins++;
+    else if (score.awayWins > score.homeWins) awayMatchupWins++;
+  }
+
+  return {
+    iterations,
+    homeWinProbability: homeMatchupWins / iterations,
+    awayWinProbability: awayMatchupWins / iterations,
+    tieProbability: (iterations - homeMatchupWins - awayMatchupWins) / iterations,
+    categories: MATCHUP_CATEGORIES.map((category, idx) => ({
+      category,
+      homeWinProbability: categoryCounts[idx].home / iterations,
+      awayWinProbability: categoryCounts[idx].away / iterations,
+      tieProbability: categoryCounts[idx].tie / iterations,
+    })),
+  };
+}
+
+/**
+ * Remaining player-games for one team.
+ *
+ * Starters per date come from the saved daily lineup, otherwise the active
+ * roster minus benchedPlayers. IR players never count, even if a stale
+ * lineup still lists them. A player only gets a game on dates their NBA
+ * team is on the schedule, and only if they have a projection.
+ *
+ * @param nbaTeamsPlayingByDate  gameDate → NBA team abbreviations with a game
+ */
+export function buildRemainingGames(params: {
+  remainingDates: string[];
+  roster: RegularSeasonRoster;
+  lineups: DailyLineup[];
+  playerInfo: Map<string, { fantraxId: string; nbaTeam: string }>;
+  projections: Map<string, ProjectedStats>;
+  nbaTeamsPlayingByDate: Map<string, Set<string>>;
+}): GameExpectation[] {
+  const { remainingDates, roster, lineups, playerInfo, projections, nbaTeamsPlayingByDate } = params;
+
+  const irSet = new Set(roster.irSlots);
+  const benchedSet = new Set(roster.benchedPlayers);
+  const defaultStarters = roster.activeRoster.filter(id => !benchedSet.has(id));
+  const lineupByDate = new Map(lineups.map(l => [l.gameDate, l.activePlayerIds]));
+  const expectationCache = new Map<string, GameExpectation>();
+
+  const games: GameExpectation[] = [];
+  for (const date of remainingDates) {
+    const playing = nbaTeamsPlayingByDate.get(date);
+    if (!playing || playing.size === 0) continue;
+
+    const starters = lineupByDate.get(date) ?? defaultStarters;
+    for (const playerId of starters) {
+      if (irSet.has(playerId)) continue;
+      const info = playerInfo.get(playerId);
+      if (!info || !playing.has(info.nbaTeam)) continue;
+
+      let expectation = expectationCache.get(info.fantraxId);
+      if (!expectation) {
+        const projection = projections.get(info.fantraxId);
+        if (!projection) continue;
+        expectation = expectationFromProjection(projection);
+        expectationCache.set(info.fantraxId, expectation);
+      }
+      games.push(expectation);
+    }
+  }
+
+  return games;
+}
@@ -0,0 +1,399 @@
+import { supabase, fetchAllRows } from './supabase';
+import { logger } from './logger';
+import { sendNotificationEmail } from './email';
+import { lockTeamFees } from './feeOps';
+import { generatePlayoffBracket } from './playoffOps';
+import { isPostseasonLabel, saveSeasonResults } from './recordBook';
+import { mapMatchup, mapPlayoffBracket, mapTeam } from './mappers';
+import type { RosterOpResult } from './rosterOps';
+import type { League, LeaguePhase, PhaseSideEffectOutcome } from '../types';
+import { LEAGUE_PHASE_LABELS, LEAGUE_PHASE_ORDER } from '../types';
+
+/**
+ * League phase state machine layered on phaseGating: each target phase
+ * declares the preconditions that must hold before entering it and the
+ * side effects run once it has been entered. A forward jump over several
+ * phases checks and runs the rules of every phase it crosses, so skipping
+ * ahead can't bypass e.g. the keeper lock. Blockers stop the transition
+ * unless the commissioner forces it; warnings are informational. Every
+ * change — forward, revert or forced — is written to phase_transitions.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface PhaseCheck {
+  id: string;
+  label: string;
+  passed: boolean;
+  severity: 'blocker' | 'warning';
+  detail?: string;
+}
+
+interface PhaseSideEffect {
+  id: string;
+  label: string;
+  run: (league: League, performedBy: string) => Promise<string | undefined>;  // Resolves to a detail line
+}
+
+interface PhaseRule {
+  checks: (league: League) => Promise<PhaseCheck[]>;
+  sideEffects: PhaseSideEffect[];
+}
+
+export interface PhaseTransitionPreview {
+  from: LeaguePhase;
+  to: LeaguePhase;
+  isForward: boolean;
+  checks: PhaseCheck[];
+  blockers: PhaseCheck[];
+  sideEffects: Array<{ id: string; label: string }>;
+}
+
+export interface PhaseTransitionResult extends RosterOpResult {
+  outcomes: PhaseSideEffectOutcome[];
+}
+
+// ─── Preconditions ───────────────────────────────────────────────────────────
+
+async function checkRostersSubmitted(league: League): Promise<PhaseCheck> {
+  const [teamsRes, rostersRes] = await Promise.all([
+    supabase.from('teams').select('*').eq('league_id', league.id),
+    supabase.from('rosters').select('team_id, status').eq('league_id', league.id),
+  ]);
+  if (teamsRes.error) throw teamsRes.error;
+  if (rostersRes.error) throw rostersRes.error;
+
+  const submitted = new Set(
+    (rostersRes.data || []).filter(r => r.status === 'submitted' || r.status === 'adminLocked').map(r => r.team_id)
+  );
+  const pending = (teamsRes.data || []).map(mapTeam).filter(t => !submitted.has(t.id));
+  return {
+    id: 'rosters_submitted',
+    label: 'All keeper rosters submitted',
+    passed: pending.length === 0,
+    severity: 'blocker',
+    detail: pending.length > 0 ? `Waiting on ${pending.map(t => t.name).join(', ')}` : undefined,
+  };
+}
+
+async function checkDraftCompleted(league: League): Promise<PhaseCheck> {
+  const { data, error } = await supabase
+    .from('drafts')
+    .select('status')
+    .eq('id', `${league.id}_${league.seasonYear}`)
+    .maybeSingle();
+  if (error) throw error;
+
+  return {
+    id: 'draft_completed',
+    label: 'Draft completed and archived',
+    passed: data?.status === 'completed',
+    severity: 'blocker',
+    detail: data ? `Draft is ${data.status}` : 'No draft has been set up',
+  };
+}
+
+async function checkWeeksGenerated(league: League): Promise<PhaseCheck> {
+  const { count, error } = await supabase
+    .from('league_weeks')
+    .select('*', { count: 'exact', head: true })
+    .eq('league_id', league.id)
+    .eq('season_year', league.seasonYear);
+  if (error) throw error;
+
+  return {
+    id: 'weeks_generated',
+    label: 'Season weeks generated',
+    passed: (count || 0) > 0,
+    severity: 'warning',
+    detail: count ? undefined : 'Generate weeks in the schedule settings before matchups can be created',
+  };
+}
+
+async function checkMatchupsScored(league: League): Promise<PhaseCheck> {
+  const [weeksRes, rows] = await Promise.all([
+    supabase.from('league_weeks').select('matchup_week, label').eq('league_id', league.id).eq('season_year', league.seasonYear),
+    fetchAllRows('league_matchups', '*', q => q.eq('league_id', league.id).eq('season_year', league.seasonYear)),
+  ]);
+  if (weeksRes.error) throw weeksRes.error;
+
+  const postseasonWeeks = new Set((weeksRes.data || []).filter(w => isPostseasonLabel(w.label)).map(w => w.matchup_week));
+  const regular = rows.map(mapMatchup).filter(m => !postseasonWeeks.has(m.matchupWeek));
+  const unscored = regular.filter(m => m.homeScore === null || m.awayScore === null);
+  const weeks = [...new Set(unscored.map(m => m.matchupWeek))].sort((a, b) => a - b);
+
+  return {
+    id: 'matchups_scored',
+    label: 'Every regular-season matchup scored',
+    passed: regular.length > 0 && unscored.length === 0,
+    severity: 'blocker',
+    detail: regular.length === 0
+      ? 'No regular-season matchups found'
+      : unscored.length > 0 ? `${unscored.length} of ${regular.length} unscored (week${weeks.length !== 1 ? 's' : ''} ${weeks.join(', ')})` : undefined,
+  };
+}
+
+function checkPlayoffsConfigured(league: League): PhaseCheck {
+  const playoffTeams = league.schedule?.playoffTeams || 0;
+  return {
+    id: 'playoffs_configured',
+    label: 'Playoff format configured',
+    passed: playoffTeams >= 2,
+    severity: 'warning',
+    detail: playoffTeams >= 2 ? `${playoffTeams} teams` : 'No bracket will be seeded',
+  };
+}
+
+async function checkChampionDecided(league: League): Promise<PhaseCheck> {
+  const { data, error } = await supabase
+    .from('playoff_brackets')
+    .select('champion_team_id')
+    .eq('id', `${league.id}_${league.seasonYear}`)
+    .maybeSingle();
+  if (error) throw error;
+
+  return {
+    id: 'champion_decided',
+    label: 'Playoff bracket finished',
+    passed: !!data?.champion_team_id,
+    // Leagues without a generated bracket record the podium by hand
+    severity: data ? 'blocker' : 'warning',
+    detail: !data ? 'No bracket — enter season results manually' : data.champion_team_id ? undefined : 'Finals are still being played',
+  };
+}
+
+// ─── Side Effects ────────────────────────────────────────────────────────────
+
+const lockKeeperRosters: PhaseSideEffect = {
+  id: 'lock_keepers',
+  label: 'Lock keeper rosters',
+  run: async (league) => {
+    const { data, error } = await supabase
+      .from('rosters')
+      .update({ status: 'adminLocked' })
+      .eq('league_id', league.id)
+      .select('id');
+    if (error) throw error;
+    return `${data?.length ?? 0} rosters locked`;
+  },
+};
+
+const lockFees: PhaseSideEffect = {
+  id: 'lock_fees',
+  label: 'Lock team fees',
+  run: async (league) => {
+    const { teamsProcessed, errors } = await lockTeamFees(league);
+    if (errors.length > 0) throw new Error(errors.join('; '));
+    return `${teamsProcessed} teams locked`;
+  },
+};
+
+const seedBracket: PhaseSideEffect = {
+  id: 'seed_bracket',
+  label: 'Seed playoff bracket',
+  run: async (league, performedBy) => {
+    if ((league.schedule?.playoffTeams || 0) < 2) return 'Skipped — playoffs not configured';
+    const result = await generatePlayoffBracket({ leagueId: league.id, seasonYear: league.seasonYear, generatedBy: performedBy });
+    if (!result.success) throw new Error(result.error);
+    return `${result.created} post-season matchups created`;
+  },
+};
+
+// Leagues without a bracket, and later corrections, use the season results form
+const recordPodium: PhaseSideEffect = {
+  id: 'record_podium',
+  label: 'Record season podium',
+  run: async (league, performedBy) => {
+    const id = `${league.id}_${league.seasonYear}`;
+    const [bracketRes, resultRes, teamsRes] = await Promise.all([
+      supabase.from('playoff_brackets').select('*').eq('id', id).maybeSingle(),
+      supabase.from('season_results').select('id').eq('id', id).maybeSingle(),
+      supabase.from('teams').select('*').eq('league_id', league.id),
+    ]);
+    if (bracketRes.error) throw bracketRes.error;
+    if (resultRes.error) throw resultRes.error;
+    if (teamsRes.error) throw teamsRes.error;
+
+    if (!bracketRes.data) return 'Skipped — no playoff bracket';
+    if (resultRes.data) return 'Skipped — results already recorded';
+
+    const bracket = mapPlayoffBracket(bracketRes.data);
+    if (!bracket.championTeamId) throw new Error('Finals are still being played');
+
+    const teamNames = new Map((teamsRes.data || []).map(mapTeam).map(t => [t.id, t.name]));
+    const entry = (teamId?: string) => (teamId ? { teamId, name: teamNames.get(teamId) || teamId } : undefined);
+    const champion = entry(bracket.championTeamId)!;
+
+    const result = await saveSeasonResults({
+      leagueId: league.id,
+      seasonYear: league.seasonYear,
+      champion,
+      runnerUp: entry(bracket.runnerUpTeamId),
+      thirdPlace: entry(bracket.thirdPlaceTeamId),
+      recordedBy: performedBy,
+    });
+    if (!result.success) throw new Error(result.error);
+    return `${champion.name} recorded as champion`;
+  },
+};
+
+const PHASE_RULES: Partial<Record<LeaguePhase, PhaseRule>> = {
+  draft: {
+    checks: async (league) => [await checkRostersSubmitted(league)],
+    sideEffects: [lockKeeperRosters],
+  },
+  regular_season: {
+    checks: async (league) => Promise.all([checkDraftCompleted(league), checkWeeksGenerated(league)]),
+    sideEffects: [],
+  },
+  playoffs: {
+    checks: async (league) => [await checkMatchupsScored(league), checkPlayoffsConfigured(league)],
+    sideEffects: [lockFees, seedBracket],
+  },
+  champion: {
+    checks: async (league) => [await checkChampionDecided(league)],
+    sideEffects: [recordPodium],
+  },
+};
+
+// Every forward transition tells the owners
+const notifyOwners: PhaseSideEffect = {
+  id: 'notify_owners',
+  label: 'Email all owners',
+  run: async (league) => {
+    const { data, error } = await supabase.from('teams').select('owners').eq('league_id', league.id);
+    if (error) throw error;
+    const to = [...new Set((data || []).flatMap(t => t.owners || []))];
+    if (to.length === 0) return 'No owner emails on file';
+    const sent = await sendNotificationEmail({
+      template: 'phase-changed',
+      to,
+      data: { leagueName: league.name, phaseLabel: LEAGUE_PHASE_LABELS[league.leaguePhase] },
+    });
+    if (!sent.success) throw new Error(sent.error);
+    return `${to.length} owners notified`;
+  },
+};
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+const isForwardMove = (from: LeaguePhase, to: LeaguePhase) =>
+  LEAGUE_PHASE_ORDER.indexOf(to) > LEAGUE_PHASE_ORDER.indexOf(from);
+
+// Phases entered on a forward move, in order, ending with `to`
+function phasesCrossed(from: LeaguePhase, to: LeaguePhase): LeaguePhase[] {
+  if (!isForwardMove(from, to)) return [];
+  return LEAGUE_PHASE_ORDER.slice(LEAGUE_PHASE_ORDER.indexOf(from) + 1, LEAGUE_PHASE_ORDER.indexOf(to) + 1);
+}
+
+function sideEffectsFor(from: LeaguePhase, to: LeaguePhase): PhaseSideEffect[] {
+  const crossed = phasesCrossed(from, to);
+  if (crossed.length === 0) return [];
+  return [...crossed.flatMap(phase => PHASE_RULES[phase]?.sideEffects || []), notifyOwners];
+}
+
+/**
+ * Preconditions and planned side effects for moving `league` into `to`.
+ * Forward moves collect both from every phase crossed; reverts skip side
+ * effects but still show preconditions for the target.
+ */
+export async function evaluatePhaseTransition(league: League, to: LeaguePhase): Promise<PhaseTransitionPreview> {
+  const from = league.leaguePhase;
+  const rulePhases = isForwardMove(from, to) ? phasesCrossed(from, to) : [to];
+  const checks: PhaseCheck[] = [];
+  for (const phase of rulePhases) {
+    checks.push(...((await PHASE_RULES[phase]?.checks(league)) || []));
+  }
+  return {
+    from,
+    to,
+    isForward: isForwardMove(from, to),
+    checks,
+    blockers: checks.filter(c => c.severity === 'blocker' && !c.passed),
+    sideEffects: sideEffectsFor(from, to).map(({ id, label }) => ({ id, label })),
+  };
+}
+
+/** Append a row to the phase_transitions audit log. */
+export async function recordPhaseTransition(params: {
+  leagueId: string;
+  seasonYear: number;
+  from: LeaguePhase;
+  to: LeaguePhase;
+  performedBy: string;
+  forced?: boolean;
+  blockers?: string[];
+  sideEffects?: PhaseSideEffectOutcome[];
+}): Promise<void> {
+  const { error } = await supabase.from('phase_transitions').insert({
+    league_id: params.leagueId,
+    season_year: params.seasonYear,
+    from_phase: params.from,
+    to_phase: params.to,
+    performed_by: params.performedBy,
+    forced: params.forced || false,
+    blockers: params.blockers || [],
+    side_effects: params.sideEffects || [],
+  });
+  if (error) logger.error('recordPhaseTransition: failed', error, { leagueId: params.leagueId, to: params.to });
+}
+
+/**
+ * Move the league into `to`. Preconditions are re-checked at submit time;
+ * unresolved blockers reject the move unless `force` is set. After the
+ * phase is written, forward moves run their side effects in order — a
+ * failing side effect is reported in `outcomes` but doesn't undo the phase
+ * change or stop the ones after it.
+ */
+export async function performPhaseTransition(params: {
+  league: League;
+  to: LeaguePhase;
+  performedBy: string;
+  force?: boolean;
+}): Promise<PhaseTransitionResult> {
+  const { league, to, performedBy, force = false } = params;
+  const from = league.leaguePhase;
+  const ctx = { leagueId: league.id, from, to, force };
+
+  try {
+    const preview = await evaluatePhaseTransition(league, to);
+    if (preview.blockers.length > 0 && !force) {
+      return { success: false, error: preview.blockers.map(b => b.label).join(', '), outcomes: [] };
+    }
+
+    const { error } = await supabase
+      .from('leagues')
+      .update({ league_phase: to })
+      .eq('id', league.id);
+    if (error) throw error;
+
+    const entered: League = { ...league, leaguePhase: to };
+    const outcomes: PhaseSideEffectOutcome[] = [];
+    for (const effect of sideEffectsFor(from, to)) {
+      try {
+        const detail = await effect.run(entered, performedBy);
+        outcomes.push({ id: effect.id, label: effect.label, success: true, detail });
+      } catch (err) {
+        logger.error(`performPhaseTransition: ${effect.id} failed`, err, ctx);
+        outcomes.push({ id: effect.id, label: effect.label, success: false, detail: (err as { message?: string })?.message || String(err) });
+      }
+    }
+
+    await recordPhaseTransition({
+      leagueId: league.id,
+      seasonYear: league.seasonYear,
+      from,
+      to,
+      performedBy,
+      forced: preview.blockers.length > 0,
+      blockers: preview.blockers.map(b => b.label),
+      sideEffects: outcomes,
+    });
+
+    logger.info('performPhaseTransition: success', ctx);
+    return { success: true, outcomes };
+  } catch (err) {
+    logger.error('performPhaseTransition: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to change phase', outcomes: [] };
+  }
+}
@@ -0,0 +1,105 @@
+import type { TradeProposal } from '../types';
+import { valueRookiePicks } from './tradeAnalyzer';
+import type { RookiePickInfo } from './tradeAnalyzer';
+import type { TeamStanding } from './lottery';
+
+/**
+ * Future pick ledger — who owns every rookie pick across the seasons
+ * rookie_draft_picks covers, how it got there, and where it would land.
+ * Pure functions — no side effects, no DB calls.
+ *
+ * Ownership history comes from executed trade proposals: each rookie_pick
+ * asset in one is a hand-off. A commissioner edit to current_owner leaves
+ * no proposal, so when the last trade doesn't explain the current owner
+ * the chain ends with a manual step.
+ */
+
+export interface LedgerPick extends RookiePickInfo {
+  currentOwner: string;
+}
+
+export interface PickOwnershipStep {
+  teamId: string;
+  teamName: string;
+  acquiredAt?: number;   // Trade execution time; unset for the original owner
+  proposalId?: string;   // Trade that moved it here
+  manual?: boolean;      // Reassigned outside the trade machine
+}
+
+export interface PickProjection {
+  projectedSlot: number;     // Slot within the round if every draft used today's standings
+  projectedOverall: number;
+  pctFirstPick: number;      // Lottery odds of #1 (round 1 of the upcoming draft only)
+}
+
+/** Original owner, then every team the pick was traded to, oldest first. */
+export function buildOwnershipChain(
+  pick: LedgerPick,
+  trades: TradeProposal[],
+  teamNames: Map<string, string>
+): PickOwnershipStep[] {
+  const chain: PickOwnershipStep[] = [
+    { teamId: pick.originalTeam, teamName: teamNames.get(pick.originalTeam) || pick.originalTeamName },
+  ];
+
+  const executed = trades
+    .filter(t => t.status === 'executed')
+    .sort((a, b) => (a.executedAt ?? a.updatedAt) - (b.executedAt ?? b.updatedAt));
+
+  for (const trade of executed) {
+    const asset = trade.assets.find(a => a.type === 'rookie_pick' && a.id === pick.id);
+    if (!asset) continue;
+    chain.push({
+      teamId: asset.toTeamId,
+      teamName: teamNames.get(asset.toTeamId) || asset.toTeamName,
+      acquiredAt: trade.executedAt ?? trade.updatedAt,
+      proposalId: trade.id,
+    });
+  }
+
+  if (chain[chain.length - 1].teamId !== pick.currentOwner) {
+    chain.push({ teamId: pick.currentOwner, teamName: teamNames.get(pick.currentOwner) || pick.currentOwner, manual: true });
+  }
+  return chain;
+}
+
+/**
+ * Project every pick's slot from today's standings via valueRookiePicks.
+ * Later drafts reuse the same standings — there's nothing better to go
+ * on — but only the upcoming draft gets lottery odds or the saved manual
+ * order.
+ */
+export function projectPicks(params: {
+  picks: LedgerPick[];
+  standings: TeamStanding[];
+  upcomingDraftYear: number;
+  prizeSpots: number;
+  manualOrder?: string[];
+}): Map<string, PickProjection> {
+  const { picks, standings, upcomingDraftYear, prizeSpots, manualOrder } = params;
+  const numTeams = Math.max(1, standings.length);
+  const projections = new Map<string, PickProjection>();
+
+  const years = [...new Set(picks.map(p => p.year))];
+  for (const year of years) {
+    const isUpcoming = year === upcomingDraftYear;
+    const values = valueRookiePicks({
+      picks: picks.filter(p => p.year === year),
+      standings,
+      draftYear: year,
+      prizeSpots,
+      manualOrder: isUpcoming ? manualOrder : undefined,
+    });
+
+    for (const pick of picks.filter(p => p.year === year)) {
+      const value = values.get(pick.id);
+      if (!value) continue;
+      projections.set(pick.id, {
+        projectedSlot: value.projectedSlot,
+        projectedOverall: (pick.round - 1) * numTeams + value.projectedSlot,
+        pctFirstPick: isUpcoming ? value.pctFirstPick : 0,
+      });
+    }
+  }
+  return projections;
+}
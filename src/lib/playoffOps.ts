@@ -0,0 +1,462 @@
+import { supabase, fetchAllRows } from './supabase';
+import { logger } from './logger';
+import { mapLeague, mapMatchup, mapPlayoffBracket, mapTeam } from './mappers';
+import { computeRegularSeasonRecords, isPostseasonLabel } from './recordBook';
+import type { SeasonRecord } from './recordBook';
+import type { RosterOpResult } from './rosterOps';
+import type { Matchup, MatchupBracket, PlayoffBracket } from '../types';
+import { todayET } from '../utils/date';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BracketMatchupRow {
+  id: string;
+  league_id: string;
+  season_year: number;
+  matchup_week: number;
+  home_team_id: string;
+  away_team_id: string;
+  bracket: MatchupBracket;
+  playoff_round: number | null;
+  home_seed: number | null;
+  away_seed: number | null;
+}
+
+export interface BracketPlan {
+  rows: BracketMatchupRow[];           // Matchups that can be created now
+  championTeamId?: string;             // Set once the whole playoff bracket (incl. 3rd place) is final
+  runnerUpTeamId?: string;
+  thirdPlaceTeamId?: string;
+  consolationWinnerTeamId?: string;    // Set once every consolation week is final
+}
+
+export interface ConsolationStanding {
+  teamId: string;
+  categoryWins: number;
+  categoryLosses: number;
+  matchupsPlayed: number;
+}
+
+export interface AdvanceBracketResult extends RosterOpResult {
+  created: number;
+  complete: boolean;
+}
+
+// ─── Pure Helpers ────────────────────────────────────────────────────────────
+
+/**
+ * Playoff seeding from regular-season records: best win % first, then most
+ * wins, fewest losses, and team name so the order is deterministic.
+ * Teams without a record (no scored matchups) seed last.
+ */
+export function seedTeams(teams: Array<{ id: string; name: string }>, records: SeasonRecord[]): string[] {
+  const byTeam = new Map(records.map(r => [r.teamId, r]));
+  return [...teams]
+    .sort((a, b) => {
+      const ra = byTeam.get(a.id);
+      const rb = byTeam.get(b.id);
+      if (!ra || !rb) return (ra ? -1 : rb ? 1 : 0) || a.name.localeCompare(b.name);
+      return rb.pct - ra.pct || rb.wins - ra.wins || ra.losses - rb.losses || a.name.localeCompare(b.name);
+    })
+    .map(t => t.id);
+}
+
+/**
+ * Pair the remaining teams (in seed order) for one round. The top `byes`
+ * seeds sit out; the rest are reseeded best vs worst, higher seed at home.
+ */
+export function pairByReseed(alive: string[], byes: number): Array<[string, string]> {
+  const playing = alive.slice(byes);
+  const pairs: Array<[string, string]> = [];
+  for (let i = 0; i < Math.floor(playing.length / 2); i++) {
+    pairs.push([playing[i], playing[playing.length - 1 - i]]);
+  }
+  return pairs;
+}
+
+/** Rounds a bracket needs, or null if the round-1 bye count leaves an odd field. */
+export function countPlayoffRounds(playoffTeams: number, byeTeams: number): number | null {
+  if (playoffTeams < 2 || byeTeams < 0 || byeTeams >= playoffTeams) return null;
+  if ((playoffTeams - byeTeams) % 2 !== 0) return null;
+
+  let remaining = playoffTeams;
+  let rounds = 0;
+  while (remaining > 1) {
+    const byes = rounds === 0 ? byeTeams : remaining % 2;
+    remaining = byes + (remaining - byes) / 2;
+    rounds++;
+  }
+  return rounds;
+}
+
+/**
+ * Winner and loser of a scored post-season matchup. Home is always the
+ * higher seed, so a tie sends the home team through.
+ */
+export function matchupWinner(m: Matchup): { winnerId: string; loserId: string } {
+  const awayWon = (m.awayScore ?? 0) > (m.homeScore ?? 0);
+  return awayWon
+    ? { winnerId: m.awayTeamId, loserId: m.homeTeamId }
+    : { winnerId: m.homeTeamId, loserId: m.awayTeamId };
+}
+
+/**
+ * Consolation schedule: the non-playoff teams play a round robin (circle
+ * method) across the consolation weeks. With an odd field one team sits
+ * out each week.
+ */
+export function buildConsolationPairs(teamIds: string[], weeks: number[]): Array<{ week: number; pairs: Array<[string, string]> }> {
+  const rotating: Array<string | null> = [...teamIds];
+  if (rotating.length % 2 !== 0) rotating.push(null);
+  const n = rotating.length;
+
+  return weeks.map((week, weekIdx) => {
+    const pairs: Array<[string, string]> = [];
+    for (let i = 0; i < n / 2; i++) {
+      const a = rotating[i];
+      const b = rotating[n - 1 - i];
+      if (a && b) pairs.push(weekIdx % 2 === 0 ? [a, b] : [b, a]);
+    }
+    // Keep the first team fixed, rotate the rest clockwise
+    rotating.splice(1, 0, rotating.pop()!);
+    return { week, pairs };
+  });
+}
+
+/**
+ * Cumulative category wins in the consolation bracket, most first. Ties go
+ * to the team that finished lower in the regular season.
+ */
+export function computeConsolationStandings(bracket: PlayoffBracket, matchups: Matchup[]): ConsolationStanding[] {
+  const standings = new Map<string, ConsolationStanding>(
+    bracket.consolationTeamIds.map(teamId => [teamId, { teamId, categoryWins: 0, categoryLosses: 0, matchupsPlayed: 0 }])
+  );
+
+  for (const m of matchups) {
+    if (m.bracket !== 'consolation' || m.homeScore === null || m.awayScore === null) continue;
+    const home = standings.get(m.homeTeamId);
+    const away = standings.get(m.awayTeamId);
+    if (home) {
+      home.categoryWins += m.homeScore;
+      home.categoryLosses += m.awayScore;
+      home.matchupsPlayed++;
+    }
+    if (away) {
+      away.categoryWins += m.awayScore;
+      away.categoryLosses += m.homeScore;
+      away.matchupsPlayed++;
+    }
+  }
+
+  const finish = (teamId: string) => bracket.consolationTeamIds.indexOf(teamId);
+  return [...standings.values()].sort((a, b) => b.categoryWins - a.categoryWins || finish(b.teamId) - finish(a.teamId));
+}
+
+/**
+ * Work out what the bracket needs next: the first playoff round that has
+ * no matchups yet (once every earlier round is final), the third-place game
+ * alongside the final, the full consolation schedule, and the podium once
+ * everything is decided. Never touches rounds that already exist.
+ */
+export function planBracket(
+  bracket: PlayoffBracket,
+  matchups: Matchup[],
+  isFinal: (m: Matchup) => boolean
+): BracketPlan {
+  const plan: BracketPlan = { rows: [] };
+  const seedOf = (teamId: string) => bracket.seeds.indexOf(teamId) + 1;
+  const row = (
+    key: string,
+    week: number,
+    [home, away]: [string, string],
+    type: MatchupBracket,
+    round: number | null
+  ): BracketMatchupRow => ({
+    id: `${bracket.leagueId}_${bracket.seasonYear}_${key}`,
+    league_id: bracket.leagueId,
+    season_year: bracket.seasonYear,
+    matchup_week: week,
+    home_team_id: home,
+    away_team_id: away,
+    bracket: type,
+    playoff_round: round,
+    home_seed: type === 'consolation' ? null : seedOf(home),
+    away_seed: type === 'consolation' ? null : seedOf(away),
+  });
+
+  // Championship bracket
+  const playoff = matchups.filter(m => m.bracket === 'playoff');
+  const thirdPlace = matchups.find(m => m.bracket === 'third_place');
+  let alive = [...bracket.seeds];
+  let previousLosers: string[] = [];
+
+  for (let round = 1; round <= bracket.roundWeeks.length && alive.length > 1; round++) {
+    const roundMatchups = playoff.filter(m => m.playoffRound === round);
+    const week = bracket.roundWeeks[round - 1];
+
+    if (roundMatchups.length === 0) {
+      const pairs = pairByReseed(alive, round === 1 ? bracket.byeTeams : alive.length % 2);
+      pairs.forEach((pair, idx) => plan.rows.push(row(`po${round}_${idx + 1}`, week, pair, 'playoff', round)));
+
+      // Semifinal losers meet in the final week
+      if (alive.length === 2 && previousLosers.length === 2 && !thirdPlace) {
+        const [a, b] = [...previousLosers].sort((x, y) => seedOf(x) - seedOf(y));
+        plan.rows.push(row('po_3rd', week, [a, b], 'third_place', round));
+      }
+      break;
+    }
+
+    if (!roundMatchups.every(isFinal)) break;
+
+    previousLosers = roundMatchups.map(m => matchupWinner(m).loserId);
+    alive = alive.filter(teamId => !previousLosers.includes(teamId));
+
+    if (alive.length === 1) {
+      const thirdPlaceDone = !thirdPlace || isFinal(thirdPlace);
+      if (thirdPlaceDone) {
+        plan.championTeamId = alive[0];
+        plan.runnerUpTeamId = roundMatchups.length === 1 ? previousLosers[0] : undefined;
+        plan.thirdPlaceTeamId = thirdPlace ? matchupWinner(thirdPlace).winnerId : undefined;
+      }
+    }
+  }
+
+  // Consolation bracket
+  const consolation = matchups.filter(m => m.bracket === 'consolation');
+  if (consolation.length === 0) {
+    if (bracket.consolationTeamIds.length >= 2) {
+      for (const { week, pairs } of buildConsolationPairs(bracket.consolationTeamIds, bracket.consolationWeeks)) {
+        pairs.forEach((pair, idx) => plan.rows.push(row(`con_mw${week}_${idx + 1}`, week, pair, 'consolation', null)));
+      }
+    }
+  } else if (consolation.every(isFinal)) {
+    plan.consolationWinnerTeamId = computeConsolationStandings(bracket, consolation)[0]?.teamId;
+  }
+
+  return plan;
+}
+
+// ─── Operations ──────────────────────────────────────────────────────────────
+
+async function loadSeasonWeeks(leagueId: string, seasonYear: number) {
+  const { data, error } = await supabase
+    .from('league_weeks')
+    .select('matchup_week, end_date, label')
+    .eq('league_id', leagueId)
+    .eq('season_year', seasonYear)
+    .order('week_number', { ascending: true });
+
+  if (error) throw error;
+
+  // A matchup week is over once its last calendar week has ended
+  const endDates = new Map<number, string>();
+  const postseason: Array<{ matchupWeek: number; label: string }> = [];
+  for (const row of data || []) {
+    const end = endDates.get(row.matchup_week);
+    if (!end || row.end_date > end) endDates.set(row.matchup_week, row.end_date);
+    if (isPostseasonLabel(row.label)) postseason.push({ matchupWeek: row.matchup_week, label: row.label });
+  }
+  return { endDates, postseason };
+}
+
+/**
+ * Seed the playoffs from regular-season records and create round 1 plus
+ * the consolation schedule. Existing post-season matchups for the season
+ * are replaced, so this can be re-run if records change before round 1 —
+ * but never once a post-season matchup has been scored.
+ */
+export async function generatePlayoffBracket(params: {
+  leagueId: string;
+  seasonYear: number;
+  generatedBy: string;
+}): Promise<AdvanceBracketResult> {
+  const { leagueId, seasonYear, generatedBy } = params;
+
+  try {
+    const [leagueRes, teamsRes, matchupRows, weeks] = await Promise.all([
+      supabase.from('leagues').select('*').eq('id', leagueId).single(),
+      supabase.from('teams').select('*').eq('league_id', leagueId),
+      fetchAllRows('league_matchups', '*', q => q.eq('league_id', leagueId).eq('season_year', seasonYear)),
+      loadSeasonWeeks(leagueId, seasonYear),
+    ]);
+
+    if (leagueRes.error) throw leagueRes.error;
+    if (teamsRes.error) throw teamsRes.error;
+
+    const league = mapLeague(leagueRes.data);
+    const teams = (teamsRes.data || []).map(mapTeam);
+    const playoffTeams = league.schedule?.playoffTeams || 0;
+    const byeTeams = league.schedule?.playoffByeTeams || 0;
+
+    if (playoffTeams < 2) {
+      return { success: false, error: 'Playoffs are not configured for this league', created: 0, complete: false };
+    }
+    if (playoffTeams > teams.length) {
+      return { success: false, error: `${playoffTeams} playoff teams configured but the league has ${teams.length}`, created: 0, complete: false };
+    }
+
+    const rounds = countPlayoffRounds(playoffTeams, byeTeams);
+    if (!rounds) {
+      return { success: false, error: `${playoffTeams} teams with ${byeTeams} byes leaves an odd first round`, created: 0, complete: false };
+    }
+
+    const playoffWeeks = weeks.postseason.filter(w => w.label !== 'Consolation').map(w => w.matchupWeek);
+    if (playoffWeeks.length < rounds) {
+      return { success: false, error: `Bracket needs ${rounds} playoff weeks but only ${playoffWeeks.length} are scheduled — regenerate weeks`, created: 0, complete: false };
+    }
+    const postseasonWeeks = [...new Set(weeks.postseason.map(w => w.matchupWeek))];
+    const consolationWeeks = postseasonWeeks.slice(0, league.schedule?.consolationWeeks || 0);
+
+    // Regenerating would wipe post-season results
+    const matchups = matchupRows.map(mapMatchup);
+    const scoredPostseason = matchups.filter(m =>
+      postseasonWeeks.includes(m.matchupWeek) && (m.homeScore !== null || m.awayScore !== null)
+    );
+    if (scoredPostseason.length > 0) {
+      return {
+        success: false,
+        error: `${scoredPostseason.length} post-season matchups already have scores — the bracket can't be regenerated`,
+        created: 0,
+        complete: false,
+      };
+    }
+
+    // Seed from the regular season only
+    const records = computeRegularSeasonRecords(
+      matchups,
+      new Map([[seasonYear, new Set(postseasonWeeks)]]),
+      league.scoringMode
+    );
+    const order = seedTeams(teams, records);
+
+    const bracket: PlayoffBracket = {
+      id: `${leagueId}_${seasonYear}`,
+      leagueId,
+      seasonYear,
+      seeds: order.slice(0, playoffTeams),
+      byeTeams,
+      roundWeeks: playoffWeeks.slice(0, rounds),
+      consolationTeamIds: order.slice(playoffTeams),
+      consolationWeeks,
+      generatedBy,
+      createdAt: Date.now(),
+    };
+
+    const { error: bracketError } = await supabase
+      .from('playoff_brackets')
+      .upsert({
+        id: bracket.id,
+        league_id: leagueId,
+        season_year: seasonYear,
+        seeds: bracket.seeds,
+        bye_teams: byeTeams,
+        round_weeks: bracket.roundWeeks,
+        consolation_team_ids: bracket.consolationTeamIds,
+        consolation_weeks: bracket.consolationWeeks,
+        champion_team_id: null,
+        runner_up_team_id: null,
+        third_place_team_id: null,
+        consolation_winner_team_id: null,
+        generated_by: generatedBy,
+      });
+
+    if (bracketError) throw bracketError;
+
+    if (postseasonWeeks.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('league_matchups')
+        .delete()
+        .eq('league_id', leagueId)
+        .eq('season_year', seasonYear)
+        .in('matchup_week', postseasonWeeks);
+
+      if (deleteError) throw deleteError;
+    }
+
+    const plan = planBracket(bracket, [], () => false);
+    if (plan.rows.length > 0) {
+      const { error: insertError } = await supabase.from('league_matchups').insert(plan.rows);
+      if (insertError) throw insertError;
+    }
+
+    logger.info('generatePlayoffBracket: success', { leagueId, seasonYear, seeds: bracket.seeds.length, rounds, created: plan.rows.length });
+    return { success: true, created: plan.rows.length, complete: false };
+  } catch (err) {
+    logger.error('generatePlayoffBracket: failed', err, { leagueId, seasonYear });
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to generate playoff bracket', created: 0, complete: false };
+  }
+}
+
+/**
+ * Create the next playoff round once the current one is final (scored and
+ * its week has ended), and record the podium when the bracket finishes.
+ * Safe to call repeatedly; it does nothing when there is nothing to do.
+ */
+export async function advancePlayoffBracket(params: {
+  leagueId: string;
+  seasonYear: number;
+}): Promise<AdvanceBracketResult> {
+  const { leagueId, seasonYear } = params;
+
+  try {
+    const { data: bracketRow, error: bracketError } = await supabase
+      .from('playoff_brackets')
+      .select('*')
+      .eq('id', `${leagueId}_${seasonYear}`)
+      .maybeSingle();
+
+    if (bracketError) throw bracketError;
+    if (!bracketRow) return { success: true, created: 0, complete: false };
+
+    const bracket = mapPlayoffBracket(bracketRow);
+    const [matchupRes, weeks] = await Promise.all([
+      supabase
+        .from('league_matchups')
+        .select('*')
+        .eq('league_id', leagueId)
+        .eq('season_year', seasonYear)
+        .not('bracket', 'is', null),
+      loadSeasonWeeks(leagueId, seasonYear),
+    ]);
+
+    if (matchupRes.error) throw matchupRes.error;
+
+    const today = todayET();
+    const isFinal = (m: Matchup) => {
+      const end = weeks.endDates.get(m.matchupWeek);
+      return m.homeScore !== null && m.awayScore !== null && !!end && end < today;
+    };
+
+    const plan = planBracket(bracket, (matchupRes.data || []).map(mapMatchup), isFinal);
+
+    if (plan.rows.length > 0) {
+      const { error: insertError } = await supabase.from('league_matchups').insert(plan.rows);
+      if (insertError) throw insertError;
+    }
+
+    const updates: Record<string, string> = {};
+    if (plan.championTeamId && !bracket.championTeamId) {
+      updates.champion_team_id = plan.championTeamId;
+      if (plan.runnerUpTeamId) updates.runner_up_team_id = plan.runnerUpTeamId;
+      if (plan.thirdPlaceTeamId) updates.third_place_team_id = plan.thirdPlaceTeamId;
+    }
+    if (plan.consolationWinnerTeamId && !bracket.consolationWinnerTeamId) {
+      updates.consolation_winner_team_id = plan.consolationWinnerTeamId;
+    }
+    if (Object.keys(updates).length > 0) {
+      const { error: updateError } = await supabase
+        .from('playoff_brackets')
+        .update(updates)
+        .eq('id', bracket.id);
+
+      if (updateError) throw updateError;
+    }
+
+    const complete = !!(plan.championTeamId || bracket.championTeamId);
+    logger.info('advancePlayoffBracket: success', { leagueId, seasonYear, created: plan.rows.length, complete });
+    return { success: true, created: plan.rows.length, complete };
+  } catch (err) {
+    logger.error('advancePlayoffBracket: failed', err, { leagueId, seasonYear });
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to advance playoff bracket', created: 0, complete: false };
+  }
+}
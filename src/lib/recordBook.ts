@@ -0,0 +1,357 @@
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { RosterOpResult } from './rosterOps';
+import type { DraftHistory, Matchup, ScoringMode, SeasonResult, TeamRecord } from '../types';
+
+// Labels generateWeeks() puts on post-season weeks
+const POSTSEASON_LABELS = new Set(['Round 1', 'Quarterfinals', 'Semifinals', 'Finals', 'Playoffs', 'Consolation']);
+
+export function isPostseasonLabel(label: string | null | undefined): boolean {
+  return !!label && POSTSEASON_LABELS.has(label);
+}
+
+function isScored(m: Matchup): m is Matchup & { homeScore: number; awayScore: number } {
+  return m.homeScore !== null && m.awayScore !== null;
+}
+
+function chronological(a: Matchup, b: Matchup): number {
+  return a.seasonYear - b.seasonYear || a.matchupWeek - b.matchupWeek;
+}
+
+export function winPct(record: TeamRecord): number {
+  const games = record.wins + record.losses + record.ties;
+  return games === 0 ? 0 : (record.wins + record.ties / 2) / games;
+}
+
+// ─── Podium ──────────────────────────────────────────────────────────────────
+
+export interface PodiumCount {
+  key: string;        // Team id, or the recorded name for seasons without one
+  teamId?: string;
+  name: string;       // Most recent recorded name
+  count: number;
+  years: number[];
+}
+
+export interface PodiumCounts {
+  first: PodiumCount[];
+  second: PodiumCount[];
+  third: PodiumCount[];
+}
+
+/**
+ * Tally 1st/2nd/3rd place finishes per team across all recorded seasons,
+ * most finishes first.
+ */
+export function countPodiumFinishes(results: SeasonResult[]): PodiumCounts {
+  const tally = (picks: Array<{ teamId?: string; name?: string; year: number }>): PodiumCount[] => {
+    const map = new Map<string, PodiumCount>();
+    for (const { teamId, name, year } of [...picks].sort((a, b) => a.year - b.year)) {
+      if (!name) continue;
+      const key = teamId || name;
+      const entry = map.get(key) || { key, teamId, name, count: 0, years: [] };
+      entry.name = name;
+      entry.count++;
+      entry.years.push(year);
+      map.set(key, entry);
+    }
+    return [...map.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  };
+
+  return {
+    first: tally(results.map(r => ({ teamId: r.championTeamId, name: r.championName, year: r.seasonYear }))),
+    second: tally(results.map(r => ({ teamId: r.runnerUpTeamId, name: r.runnerUpName, year: r.seasonYear }))),
+    third: tally(results.map(r => ({ teamId: r.thirdPlaceTeamId, name: r.thirdPlaceName, year: r.seasonYear }))),
+  };
+}
+
+// ─── All-time records ────────────────────────────────────────────────────────
+
+export interface SeasonRecord extends TeamRecord {
+  teamId: string;
+  seasonYear: number;
+  pct: number;
+}
+
+/**
+ * Regular-season W-L-T per team per season, best win percentage first.
+ * `postseasonWeeks` maps seasonYear → matchup weeks to exclude.
+ */
+export function computeRegularSeasonRecords(
+  matchups: Matchup[],
+  postseasonWeeks: Map<number, Set<number>>,
+  scoringMode: ScoringMode
+): SeasonRecord[] {
+  const map = new Map<string, SeasonRecord>();
+  const get = (teamId: string, seasonYear: number) => {
+    const key = `${seasonYear}_${teamId}`;
+    if (!map.has(key)) map.set(key, { teamId, seasonYear, wins: 0, losses: 0, ties: 0, pct: 0 });
+    return map.get(key)!;
+  };
+
+  for (const m of matchups) {
+    if (!isScored(m) || postseasonWeeks.get(m.seasonYear)?.has(m.matchupWeek)) continue;
+
+    const home = get(m.homeTeamId, m.seasonYear);
+    const away = get(m.awayTeamId, m.seasonYear);
+
+    if (scoringMode === 'category_record') {
+      home.wins += m.homeScore;
+      home.losses += m.awayScore;
+      away.wins += m.awayScore;
+      away.losses += m.homeScore;
+    } else if (m.homeScore > m.awayScore) {
+      home.wins++;
+      away.losses++;
+    } else if (m.awayScore > m.homeScore) {
+      away.wins++;
+      home.losses++;
+    } else {
+      home.ties++;
+      away.ties++;
+    }
+  }
+
+  const records = [...map.values()];
+  for (const r of records) r.pct = winPct(r);
+  return records.sort((a, b) => b.pct - a.pct || b.wins - a.wins);
+}
+
+export interface WeekPerformance {
+  teamId: string;
+  opponentId: string;
+  seasonYear: number;
+  matchupWeek: number;
+  categoryWins: number;
+  opponentWins: number;
+}
+
+/** Single-week category wins, highest first (margin breaks ties). */
+export function computeTopWeeks(matchups: Matchup[]): WeekPerformance[] {
+  const performances: WeekPerformance[] = [];
+  for (const m of matchups) {
+    if (!isScored(m)) continue;
+    const base = { seasonYear: m.seasonYear, matchupWeek: m.matchupWeek };
+    performances.push({ ...base, teamId: m.homeTeamId, opponentId: m.awayTeamId, categoryWins: m.homeScore, opponentWins: m.awayScore });
+    performances.push({ ...base, teamId: m.awayTeamId, opponentId: m.homeTeamId, categoryWins: m.awayScore, opponentWins: m.homeScore });
+  }
+  return performances.sort((a, b) =>
+    b.categoryWins - a.categoryWins ||
+    (b.categoryWins - b.opponentWins) - (a.categoryWins - a.opponentWins) ||
+    a.seasonYear - b.seasonYear ||
+    a.matchupWeek - b.matchupWeek
+  );
+}
+
+export interface WinStreak {
+  teamId: string;
+  length: number;
+  start: { seasonYear: number; matchupWeek: number };
+  end: { seasonYear: number; matchupWeek: number };
+}
+
+/**
+ * Each team's longest run of consecutive matchup wins, carried across
+ * seasons. A loss or tie ends the streak. Longest first.
+ */
+export function computeLongestWinStreaks(matchups: Matchup[]): WinStreak[] {
+  const byTeam = new Map<string, Matchup[]>();
+  for (const m of matchups) {
+    if (!isScored(m)) continue;
+    for (const teamId of [m.homeTeamId, m.awayTeamId]) {
+      if (!byTeam.has(teamId)) byTeam.set(teamId, []);
+      byTeam.get(teamId)!.push(m);
+    }
+  }
+
+  const streaks: WinStreak[] = [];
+  for (const [teamId, teamMatchups] of byTeam) {
+    let best: WinStreak | null = null;
+    let current: WinStreak | null = null;
+
+    for (const m of teamMatchups.sort(chronological)) {
+      const isHome = m.homeTeamId === teamId;
+      const won = isHome ? m.homeScore! > m.awayScore! : m.awayScore! > m.homeScore!;
+      const at = { seasonYear: m.seasonYear, matchupWeek: m.matchupWeek };
+
+      if (!won) {
+        current = null;
+        continue;
+      }
+      const next: WinStreak = current
+        ? { teamId, length: current.length + 1, start: current.start, end: at }
+        : { teamId, length: 1, start: at, end: at };
+      current = next;
+      if (!best || next.length > best.length) best = next;
+    }
+
+    if (best) streaks.push(best);
+  }
+
+  return streaks.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * All-time matchup W-L-T between every pair of teams:
+ * `result.get(a)?.get(b)` is team a's record against team b.
+ */
+export function computeHeadToHead(matchups: Matchup[]): Map<string, Map<string, TeamRecord>> {
+  const result = new Map<string, Map<string, TeamRecord>>();
+  const get = (teamId: string, opponentId: string) => {
+    if (!result.has(teamId)) result.set(teamId, new Map());
+    const row = result.get(teamId)!;
+    if (!row.has(opponentId)) row.set(opponentId, { wins: 0, losses: 0, ties: 0 });
+    return row.get(opponentId)!;
+  };
+
+  for (const m of matchups) {
+    if (!isScored(m)) continue;
+    const home = get(m.homeTeamId, m.awayTeamId);
+    const away = get(m.awayTeamId, m.homeTeamId);
+
+    if (m.homeScore > m.awayScore) {
+      home.wins++;
+      away.losses++;
+    } else if (m.awayScore > m.homeScore) {
+      away.wins++;
+      home.losses++;
+    } else {
+      home.ties++;
+      away.ties++;
+    }
+  }
+
+  return result;
+}
+
+// ─── Draft history ───────────────────────────────────────────────────────────
+
+/**
+ * Team names as they appeared in archived drafts, latest season winning.
+ * Used to label teams that no longer exist in the league.
+ */
+export function draftTeamNames(histories: DraftHistory[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const history of [...histories].sort((a, b) => a.seasonYear - b.seasonYear)) {
+    for (const entry of [...history.keepers, ...history.picks]) {
+      if (entry.teamId && entry.teamName) names.set(entry.teamId, entry.teamName);
+    }
+  }
+  return names;
+}
+
+export interface FirstOverallPick {
+  seasonYear: number;
+  teamId: string;
+  teamName: string;
+  playerName: string;
+}
+
+/** The first non-keeper pick of each archived draft, newest first. */
+export function firstOverallPicks(histories: DraftHistory[]): FirstOverallPick[] {
+  const picks: FirstOverallPick[] = [];
+  for (const history of histories) {
+    const first = [...history.picks].sort((a, b) => a.overallPick - b.overallPick)[0];
+    if (first) {
+      picks.push({
+        seasonYear: history.seasonYear,
+        teamId: first.teamId,
+        teamName: first.teamName,
+        playerName: first.playerName,
+      });
+    }
+  }
+  return picks.sort((a, b) => b.seasonYear - a.seasonYear);
+}
+
+// ─── Recording results ───────────────────────────────────────────────────────
+
+/** A podium place: a current team, or just a name for former owners. */
+export interface PodiumEntry {
+  teamId?: string;
+  name: string;
+}
+
+export interface SeasonPodiumInput {
+  leagueId: string;
+  seasonYear: number;
+  champion: PodiumEntry;
+  runnerUp?: PodiumEntry;
+  thirdPlace?: PodiumEntry;
+  recordedBy: string;
+}
+
+async function updateBanners(teamId: string, update: (banners: number[]) => number[]): Promise<void> {
+  const { data: teamRow, error: teamError } = await supabase
+    .from('teams')
+    .select('banners')
+    .eq('id', teamId)
+    .maybeSingle();
+
+  if (teamError) throw teamError;
+  if (!teamRow) return;  // Team has since been removed
+
+  const banners: number[] = teamRow.banners || [];
+  const next = update(banners);
+  if (next.length === banners.length && next.every((year, i) => year === banners[i])) return;
+
+  const { error: bannerError } = await supabase
+    .from('teams')
+    .update({ banners: next })
+    .eq('id', teamId);
+
+  if (bannerError) throw bannerError;
+}
+
+/**
+ * Store the final podium for a season (re-recording overwrites it) and add
+ * the season to the champion's banners. A corrected champion takes the
+ * banner from the team recorded before.
+ */
+export async function saveSeasonResults(input: SeasonPodiumInput): Promise<RosterOpResult> {
+  const { leagueId, seasonYear, champion, runnerUp, thirdPlace, recordedBy } = input;
+  const id = `${leagueId}_${seasonYear}`;
+
+  try {
+    const { data: previous, error: previousError } = await supabase
+      .from('season_results')
+      .select('champion_team_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (previousError) throw previousError;
+
+    const { error: upsertError } = await supabase
+      .from('season_results')
+      .upsert({
+        id,
+        league_id: leagueId,
+        season_year: seasonYear,
+        champion_team_id: champion.teamId || null,
+        champion_name: champion.name,
+        runner_up_team_id: runnerUp?.teamId || null,
+        runner_up_name: runnerUp?.name || null,
+        third_place_team_id: thirdPlace?.teamId || null,
+        third_place_name: thirdPlace?.name || null,
+        recorded_by: recordedBy,
+      });
+
+    if (upsertError) throw upsertError;
+
+    const previousChampionId: string | null = previous?.champion_team_id || null;
+    if (previousChampionId && previousChampionId !== champion.teamId) {
+      await updateBanners(previousChampionId, banners => banners.filter(year => year !== seasonYear));
+    }
+    if (champion.teamId) {
+      await updateBanners(champion.teamId, banners =>
+        banners.includes(seasonYear) ? banners : [...banners, seasonYear].sort((a, b) => b - a)
+      );
+    }
+
+    logger.info('saveSeasonResults: success', { leagueId, seasonYear, championTeamId: champion.teamId, previousChampionId });
+    return { success: true };
+  } catch (err) {
+    logger.error('saveSeasonResults: failed', err, { leagueId, seasonYear });
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to save season results' };
+  }
+}
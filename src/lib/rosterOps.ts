@@ -1,6 +1,8 @@
 import { supabase } from './supabase';
 import { logger } from './logger';
-import type { PlayerSlot } from '../types';
+import { logTransaction, logTransactions } from './transactionLog';
+import type { LeagueWaiverSettings, PlayerSlot, TransactionType } from '../types';
+import { DEFAULT_WAIVER_SETTINGS } from '../types';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -9,7 +11,67 @@ export interface RosterOpResult {
   error?: string;
 }
 
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function getWaiverSettings(leagueId: string): Promise<LeagueWaiverSettings> {
+  const { data } = await supabase
+    .from('leagues')
+    .select('waivers')
+    .eq('id', leagueId)
+    .maybeSingle();
+
+  return { ...DEFAULT_WAIVER_SETTINGS, ...data?.waivers };
+}
+
+/**
+ * When a player dropped right now clears waivers, or null if the league
+ * doesn't use waivers.
+ */
+async function getWaiversUntil(leagueId: string): Promise<string | null> {
+  const waivers = await getWaiverSettings(leagueId);
+  if (!waivers.enabled || waivers.periodHours <= 0) return null;
+  return new Date(Date.now() + waivers.periodHours * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Why a free agent can't be added directly: still on waivers (until a
+ * processing run clears waivers_until) or claimed by a team whose claim
+ * hasn't been processed. Null when the add can go ahead.
+ */
+async function waiverBlockReason(
+  leagueId: string,
+  player: { id: string; name: string; waivers_until: string | null }
+): Promise<string | null> {
+  const waivers = await getWaiverSettings(leagueId);
+  if (!waivers.enabled) return null;
+  if (player.waivers_until) {
+    return `${player.name} is on waivers — submit a claim instead`;
+  }
+
+  const { count } = await supabase
+    .from('waiver_claims')
+    .select('id', { count: 'exact', head: true })
+    .eq('league_id', leagueId)
+    .eq('player_id', player.id)
+    .eq('status', 'pending');
+  if (count) return `${player.name} has pending waiver claims`;
+  return null;
+}
+
+/**
+ * Which slot moves are league transactions. Start/bench swaps are lineup
+ * decisions and stay out of the log.
+ */
+function slotTransactionType(fromSlot: PlayerSlot, toSlot: PlayerSlot): TransactionType | null {
+  if (toSlot === 'ir') return 'move_to_ir';
+  if (fromSlot === 'ir') return 'activate_from_ir';
+  if (fromSlot === 'redshirt' && (toSlot === 'active' || toSlot === 'bench')) return 'redshirt_activation';
+  return null;
+}
+
 // ─── Core Operations ─────────────────────────────────────────────────────────
+// Every operation takes an optional `performedBy` (user email) and `note`
+// that are written to the league transaction log.
 // All roster operations now update `players.slot` directly.
 // players.team_id = who owns the player (NULL = free agent)
 // players.slot = roster position (active, ir, redshirt, international, bench)
@@ -17,19 +79,25 @@ export interface RosterOpResult {
 /**
  * Assign a free agent player to a team.
  * Updates: players.team_id + players.slot
+ *
+ * Players on waivers or with pending claims can only be acquired through
+ * a waiver run, which passes `waiverRun` when awarding its claims.
  */
 export async function assignPlayerToTeam(params: {
   playerId: string;
   teamId: string;
   leagueId: string;
   slot: PlayerSlot;
+  performedBy?: string;
+  note?: string;
+  waiverRun?: boolean;
 }): Promise<RosterOpResult> {
-  const { playerId, teamId, slot } = params;
+  const { playerId, teamId, leagueId, slot, performedBy, note, waiverRun } = params;
 
   // 1. Verify player exists and is not already on a team
   const { data: player, error: playerErr } = await supabase
     .from('players')
-    .select('id, name, team_id')
+    .select('id, name, team_id, waivers_until')
     .eq('id', playerId)
     .maybeSingle();
 
@@ -39,11 +107,15 @@ export async function assignPlayerToTeam(params: {
   if (player.team_id && player.team_id !== teamId) {
     return { success: false, error: `${player.name} already belongs to team ${player.team_id}` };
   }
+  if (!player.team_id && !waiverRun) {
+    const blocked = await waiverBlockReason(leagueId, player);
+    if (blocked) return { success: false, error: blocked };
+  }
 
-  // 2. Update players.team_id + slot
+  // 2. Update players.team_id + slot (a rostered player is off waivers)
   const { error: updateErr } = await supabase
     .from('players')
-    .update({ team_id: teamId, slot, on_ir: slot === 'ir' })
+    .update({ team_id: teamId, slot, on_ir: slot === 'ir', waivers_until: null })
     .eq('id', playerId);
 
   if (updateErr) {
@@ -51,25 +123,32 @@ export async function assignPlayerToTeam(params: {
     return { success: false, error: 'Failed to assign player to team' };
   }
 
+  await logTransaction({
+    leagueId, type: 'add', teamId, playerId, playerName: player.name, toSlot: slot, performedBy, note,
+  });
+
   logger.info('assignPlayerToTeam: success', { playerId, teamId, slot });
   return { success: true };
 }
 
 /**
  * Drop a player from a team to free agency.
- * Updates: players.team_id = null, players.slot = 'active'
+ * Updates: players.team_id = null, players.slot = 'active',
+ * players.waivers_until (when the league uses waivers)
  */
 export async function dropPlayerFromTeam(params: {
   playerId: string;
   teamId: string;
   leagueId: string;
+  performedBy?: string;
+  note?: string;
 }): Promise<RosterOpResult> {
-  const { playerId, teamId } = params;
+  const { playerId, teamId, leagueId, performedBy, note } = params;
 
   // 1. Verify player exists and belongs to this team
   const { data: player, error: playerErr } = await supabase
     .from('players')
-    .select('id, name, team_id')
+    .select('id, name, team_id, slot')
     .eq('id', playerId)
     .maybeSingle();
 
@@ -80,10 +159,11 @@ export async function dropPlayerFromTeam(params: {
     return { success: false, error: `${player.name} does not belong to this team` };
   }
 
-  // 2. Null out team_id, reset slot to default
+  // 2. Null out team_id, reset slot to default, start the waiver period
+  const waiversUntil = await getWaiversUntil(leagueId);
   const { error: updateErr } = await supabase
     .from('players')
-    .update({ team_id: null, slot: 'active', on_ir: false })
+    .update({ team_id: null, slot: 'active', on_ir: false, waivers_until: waiversUntil })
     .eq('id', playerId);
 
   if (updateErr) {
@@ -91,7 +171,11 @@ export async function dropPlayerFromTeam(params: {
     return { success: false, error: 'Failed to drop player' };
   }
 
-  logger.info('dropPlayerFromTeam: success', { playerId, teamId });
+  await logTransaction({
+    leagueId, type: 'drop', teamId, playerId, playerName: player.name, fromSlot: player.slot, performedBy, note,
+  });
+
+  logger.info('dropPlayerFromTeam: success', { playerId, teamId, waiversUntil });
   return { success: true };
 }
 
@@ -105,8 +189,10 @@ export async function transferPlayer(params: {
   toTeamId: string;
   leagueId: string;
   toSlot: PlayerSlot;
+  performedBy?: string;
+  note?: string;
 }): Promise<RosterOpResult> {
-  const { playerId, fromTeamId, toTeamId, toSlot } = params;
+  const { playerId, fromTeamId, toTeamId, leagueId, toSlot, performedBy, note } = params;
 
   // 1. Verify player belongs to source team
   const { data: player, error: playerErr } = await supabase
@@ -133,6 +219,11 @@ export async function transferPlayer(params: {
     return { success: false, error: 'Failed to transfer player' };
   }
 
+  await logTransaction({
+    leagueId, type: 'trade', teamId: toTeamId, otherTeamId: fromTeamId, playerId, playerName: player.name,
+    toSlot, performedBy, note,
+  });
+
   logger.info('transferPlayer: success', { playerId, fromTeamId, toTeamId, toSlot });
   return { success: true };
 }
@@ -146,8 +237,10 @@ export async function movePlayerSlot(params: {
   teamId: string;
   leagueId: string;
   toSlot: PlayerSlot;
+  performedBy?: string;
+  note?: string;
 }): Promise<RosterOpResult> {
-  const { playerId, teamId, toSlot } = params;
+  const { playerId, teamId, leagueId, toSlot, performedBy, note } = params;
 
   // 1. Verify player exists and belongs to this team
   const { data: player, error: playerErr } = await supabase
@@ -177,6 +270,13 @@ export async function movePlayerSlot(params: {
     return { success: false, error: 'Failed to move player' };
   }
 
+  const type = slotTransactionType(player.slot, toSlot);
+  if (type) {
+    await logTransaction({
+      leagueId, type, teamId, playerId, playerName: player.name, fromSlot: player.slot, toSlot, performedBy, note,
+    });
+  }
+
   logger.info('movePlayerSlot: success', { playerId, teamId, from: player.slot, to: toSlot });
   return { success: true };
 }
@@ -191,8 +291,9 @@ export async function swapPlayerSlots(params: {
   leagueId: string;
   playerASlot: PlayerSlot;
   playerBSlot: PlayerSlot;
+  performedBy?: string;
 }): Promise<RosterOpResult> {
-  const { playerAId, playerBId, teamId, playerASlot, playerBSlot } = params;
+  const { playerAId, playerBId, teamId, leagueId, playerASlot, playerBSlot, performedBy } = params;
 
   // Update both players' slots
   const [resultA, resultB] = await Promise.all([
@@ -205,6 +306,20 @@ export async function swapPlayerSlots(params: {
     return { success: false, error: 'Failed to swap players' };
   }
 
+  // A swap exchanges slots, so each player came from the other's new slot
+  const { data: names } = await supabase.from('players').select('id, name').in('id', [playerAId, playerBId]);
+  const nameById = new Map((names || []).map(row => [row.id, row.name]));
+  const moves = [
+    { playerId: playerAId, fromSlot: playerBSlot, toSlot: playerASlot },
+    { playerId: playerBId, fromSlot: playerASlot, toSlot: playerBSlot },
+  ];
+  await logTransactions(moves.flatMap(move => {
+    const type = slotTransactionType(move.fromSlot, move.toSlot);
+    return type
+      ? [{ leagueId, type, teamId, ...move, playerName: nameById.get(move.playerId), performedBy }]
+      : [];
+  }));
+
   logger.info('swapPlayerSlots: success', { playerAId, playerBId, teamId });
   return { success: true };
 }
@@ -0,0 +1,237 @@
+/**
+ * Regular-season head-to-head schedule generator.
+ *
+ * Builds on a circle-method round robin: each full cycle every team meets
+ * every other team once (home/away flips on alternate cycles). Weeks are
+ * filled greedily from the rounds left in the current cycle, picking the
+ * round that best satisfies the constraints:
+ *   - no repeat opponents within `minRepeatGap` weeks
+ *   - with an odd team count, byes spread evenly and kept out of long
+ *     (combined) weeks, where sitting out costs more games
+ * Rivalry weeks pair the configured rivals and match everyone else with
+ * the opponent they have gone longest without facing.
+ */
+
+export interface ScheduleWeek {
+  matchupWeek: number;
+  weight: number;          // Calendar weeks this matchup week spans (combined weeks > 1)
+}
+
+export interface ScheduleOptions {
+  teamIds: string[];
+  weeks: ScheduleWeek[];   // Regular-season matchup weeks, in order
+  minRepeatGap: number;    // Opponents can't meet again within this many weeks
+  rivalries?: Array<[string, string]>;
+  rivalryWeeks?: number[]; // Matchup weeks where rivals play each other
+}
+
+export interface GeneratedWeek {
+  matchupWeek: number;
+  weight: number;
+  pairs: Array<[string, string]>;  // [home, away]
+  byeTeamId?: string;
+  isRivalryWeek: boolean;
+}
+
+export interface TeamScheduleSummary {
+  teamId: string;
+  games: number;
+  home: number;
+  away: number;
+  byes: number;
+  weightedGames: number;                 // Sum of week weights played
+  opponentCounts: Map<string, number>;
+}
+
+export interface ScheduleViolation {
+  matchupWeek: number;
+  kind: 'double_booked' | 'repeat_opponent';
+  teamIds: string[];
+  weeksApart?: number;     // repeat_opponent: weeks since the pair last met
+}
+
+export interface ScheduleReport {
+  teams: TeamScheduleSummary[];
+  violations: ScheduleViolation[];
+  minOpponentCount: number;
+  maxOpponentCount: number;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/** One round-robin cycle via the circle method; `null` marks the bye slot. */
+export function buildRoundRobinRounds(teamIds: string[]): Array<Array<[string | null, string | null]>> {
+  const rotating: Array<string | null> = [...teamIds];
+  if (rotating.length % 2 !== 0) rotating.push(null);
+  const n = rotating.length;
+  const rounds: Array<Array<[string | null, string | null]>> = [];
+
+  for (let round = 0; round < n - 1; round++) {
+    const pairs: Array<[string | null, string | null]> = [];
+    for (let i = 0; i < n / 2; i++) {
+      const a = rotating[i];
+      const b = rotating[n - 1 - i];
+      pairs.push(round % 2 === 0 ? [a, b] : [b, a]);
+    }
+    rounds.push(pairs);
+    // Keep the first team fixed, rotate the rest clockwise
+    rotating.splice(1, 0, rotating.pop()!);
+  }
+
+  return rounds;
+}
+
+export function generateSchedule(options: ScheduleOptions): GeneratedWeek[] {
+  const { teamIds, weeks, minRepeatGap } = options;
+  const rivalryWeeks = new Set(options.rivalryWeeks || []);
+  const rivalries = (options.rivalries || []).filter(([a, b]) => a !== b && teamIds.includes(a) && teamIds.includes(b));
+  if (teamIds.length < 2) return [];
+
+  const rounds = buildRoundRobinRounds(teamIds);
+  const lastMet = new Map<string, number>();   // pairKey → week index
+  const byes = new Map<string, number>(teamIds.map(id => [id, 0]));
+  const longByes = new Map<string, number>(teamIds.map(id => [id, 0]));
+  let pool: number[] = [];
+  let cycle = -1;
+
+  const metRecently = (a: string, b: string, weekIdx: number) => {
+    const last = lastMet.get(pairKey(a, b));
+    return last !== undefined && weekIdx - last <= minRepeatGap;
+  };
+
+  const byeCost = (teamId: string, weight: number) =>
+    weight > 1 ? 100 * weight * (longByes.get(teamId)! + 1) : byes.get(teamId)!;
+
+  const record = (week: ScheduleWeek, weekIdx: number, pairs: Array<[string, string]>, byeTeamId: string | undefined, isRivalryWeek: boolean): GeneratedWeek => {
+    for (const [a, b] of pairs) lastMet.set(pairKey(a, b), weekIdx);
+    if (byeTeamId) {
+      byes.set(byeTeamId, byes.get(byeTeamId)! + 1);
+      if (week.weight > 1) longByes.set(byeTeamId, longByes.get(byeTeamId)! + 1);
+    }
+    return { matchupWeek: week.matchupWeek, weight: week.weight, pairs, byeTeamId, isRivalryWeek };
+  };
+
+  return weeks.map((week, weekIdx) => {
+    if (rivalryWeeks.has(week.matchupWeek) && rivalries.length > 0) {
+      const used = new Set<string>();
+      const pairs: Array<[string, string]> = [];
+      for (const [a, b] of rivalries) {
+        if (used.has(a) || used.has(b)) continue;
+        pairs.push(weekIdx % 2 === 0 ? [a, b] : [b, a]);
+        used.add(a);
+        used.add(b);
+      }
+
+      let rest = teamIds.filter(id => !used.has(id));
+      let byeTeamId: string | undefined;
+      if (rest.length % 2 !== 0) {
+        byeTeamId = [...rest].sort((x, y) => byeCost(x, week.weight) - byeCost(y, week.weight))[0];
+        rest = rest.filter(id => id !== byeTeamId);
+      }
+      while (rest.length > 0) {
+        const [team, ...others] = rest;
+        // Opponent not faced for the longest (never faced first)
+        const opponent = [...others].sort((x, y) =>
+          (lastMet.get(pairKey(team, x)) ?? -Infinity) - (lastMet.get(pairKey(team, y)) ?? -Infinity)
+        )[0];
+        pairs.push(weekIdx % 2 === 0 ? [team, opponent] : [opponent, team]);
+        rest = others.filter(id => id !== opponent);
+      }
+
+      return record(week, weekIdx, pairs, byeTeamId, true);
+    }
+
+    if (pool.length === 0) {
+      pool = rounds.map((_, idx) => idx);
+      cycle++;
+    }
+
+    // Cheapest remaining round this cycle; earliest round wins ties
+    const cost = (roundIdx: number) => {
+      let total = 0;
+      for (const [a, b] of rounds[roundIdx]) {
+        if (a && b) total += metRecently(a, b, weekIdx) ? 1000 : 0;
+        else total += byeCost((a || b)!, week.weight);
+      }
+      return total;
+    };
+    const chosen = pool.reduce((best, idx) => (cost(idx) < cost(best) ? idx : best), pool[0]);
+    pool = pool.filter(idx => idx !== chosen);
+
+    const pairs: Array<[string, string]> = [];
+    let byeTeamId: string | undefined;
+    for (const [a, b] of rounds[chosen]) {
+      if (!a || !b) {
+        byeTeamId = (a || b) ?? undefined;
+        continue;
+      }
+      pairs.push(cycle % 2 === 0 ? [a, b] : [b, a]);
+    }
+
+    return record(week, weekIdx, pairs, byeTeamId, false);
+  });
+}
+
+/**
+ * Per-team opponent counts, home/away split, byes and weighted games, plus
+ * any week where a pair meets again inside `minRepeatGap` weeks.
+ */
+export function validateSchedule(schedule: GeneratedWeek[], teamIds: string[], minRepeatGap: number): ScheduleReport {
+  const summaries = new Map<string, TeamScheduleSummary>(teamIds.map(teamId => [teamId, {
+    teamId,
+    games: 0,
+    home: 0,
+    away: 0,
+    byes: 0,
+    weightedGames: 0,
+    opponentCounts: new Map(teamIds.filter(id => id !== teamId).map(id => [id, 0])),
+  }]));
+  const violations: ScheduleViolation[] = [];
+  const lastMet = new Map<string, number>();
+
+  schedule.forEach((week, weekIdx) => {
+    const seen = new Set<string>();
+    for (const [home, away] of week.pairs) {
+      for (const teamId of [home, away]) {
+        if (seen.has(teamId)) {
+          violations.push({ matchupWeek: week.matchupWeek, kind: 'double_booked', teamIds: [teamId] });
+        }
+        seen.add(teamId);
+      }
+
+      const h = summaries.get(home);
+      const a = summaries.get(away);
+      if (h) {
+        h.games++;
+        h.home++;
+        h.weightedGames += week.weight;
+        h.opponentCounts.set(away, (h.opponentCounts.get(away) || 0) + 1);
+      }
+      if (a) {
+        a.games++;
+        a.away++;
+        a.weightedGames += week.weight;
+        a.opponentCounts.set(home, (a.opponentCounts.get(home) || 0) + 1);
+      }
+
+      const key = pairKey(home, away);
+      const last = lastMet.get(key);
+      if (last !== undefined && weekIdx - last <= minRepeatGap) {
+        violations.push({ matchupWeek: week.matchupWeek, kind: 'repeat_opponent', teamIds: [home, away], weeksApart: weekIdx - last });
+      }
+      lastMet.set(key, weekIdx);
+    }
+
+    for (const teamId of teamIds) {
+      if (!seen.has(teamId)) summaries.get(teamId)!.byes++;
+    }
+  });
+
+  const counts = [...summaries.values()].flatMap(s => [...s.opponentCounts.values()]);
+  return {
+    teams: [...summaries.values()],
+    violations,
+    minOpponentCount: counts.length ? Math.min(...counts) : 0,
+    maxOpponentCount: counts.length ? Math.max(...counts) : 0,
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSchedule, generateWeeks, getDatesInRange } from './scheduleUtils';
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(date + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+/** `perDay` games on every date in range except `skip`; dates in `cup` are cup games */
+const schedule = (
+  start: string,
+  end: string,
+  { perDay = 5, skip = [] as string[], cup = [] as string[] } = {}
+) =>
+  getDatesInRange(start, end)
+    .filter(date => !skip.includes(date))
+    .flatMap(date => Array.from({ length: perDay }, () => ({ game_date: date, is_cup_game: cup.includes(date) })));
+
+describe('generateWeeks', () => {
+  const weeks = generateWeeks(
+    'league',
+    2026,
+    20,
+    '2025-10-20',
+    12,
+    [
+      { calendarWeeks: [8, 9], label: 'Cup' },
+      { calendarWeeks: [17, 18], label: 'All-Star' },
+    ],
+    { weeks: 2, consolationWeeks: 3 }
+  );
+  const week = (n: number) => weeks.find(w => w.week_number === n)!;
+
+  it('lays out Monday–Sunday weeks back to back', () => {
+    expect(week(1)).toMatchObject({ id: 'league_week_1', start_date: '2025-10-20', end_date: '2025-10-26' });
+    for (let i = 1; i < weeks.length; i++) {
+      expect(weeks[i].start_date).toBe(addDays(weeks[i - 1].end_date, 1));
+    }
+  });
+
+  it('keeps week boundaries on Mondays across daylight saving changes', () => {
+    // DST ends 2025-11-02; week 3 spans it
+    expect(week(3)).toMatchObject({ start_date: '2025-11-03', end_date: '2025-11-09' });
+    expect(new Date(week(20).start_date + 'T00:00:00').getDay()).toBe(1);
+  });
+
+  it('shares one matchup across combined Cup and All-Star weeks', () => {
+    expect(week(8)).toMatchObject({ matchup_week: 8, label: 'Cup' });
+    expect(week(9)).toMatchObject({ matchup_week: 8, label: 'Cup' });
+    expect(week(17)).toMatchObject({ matchup_week: 17, label: 'All-Star' });
+    expect(week(18)).toMatchObject({ matchup_week: 17, label: 'All-Star' });
+    expect(week(10)).toMatchObject({ matchup_week: 10, label: null });
+  });
+
+  it('flags only the trade deadline week', () => {
+    expect(weeks.filter(w => w.is_trade_deadline_week).map(w => w.week_number)).toEqual([12]);
+  });
+
+  it('appends playoff and consolation weeks after the regular season', () => {
+    expect(weeks).toHaveLength(23);
+    expect(weeks.slice(20).map(w => [w.week_number, w.matchup_week, w.label])).toEqual([
+      [21, 21, 'Semifinals'],
+      [22, 22, 'Finals'],
+      [23, 23, 'Consolation'],
+    ]);
+  });
+
+  it('adds nothing after the regular season without a playoff config', () => {
+    expect(generateWeeks('league', 2026, 4, '2025-10-20', 2)).toHaveLength(4);
+  });
+});
+
+describe('analyzeSchedule', () => {
+  const season = schedule('2025-10-21', '2026-04-12', {
+    skip: getDatesInRange('2026-02-13', '2026-02-18'),
+    // November group stage, then December knockouts
+    cup: ['2025-11-07', '2025-11-14', '2025-12-09', '2025-12-10', '2025-12-13', '2025-12-16'],
+  });
+
+  it('starts the season on the Monday before the first game', () => {
+    const analysis = analyzeSchedule(season);
+    expect(analysis.seasonStartDate).toBe('2025-10-20');
+    expect(analysis.seasonEndDate).toBe('2026-04-12');
+    expect(analysis.totalGames).toBe(season.length);
+    expect(analysis.suggestedNumWeeks).toBe(25);
+  });
+
+  it('detects December cup knockout weeks, ignoring group-stage games', () => {
+    expect(analyzeSchedule(season).cupKnockoutWeeks).toEqual([8, 9]);
+  });
+
+  it('detects the All-Star break across the weeks it spans', () => {
+    expect(analyzeSchedule(season).allStarWeeks).toEqual([17, 18]);
+  });
+
+  it('ignores gaps shorter than four days and gaps outside January–March', () => {
+    const games = schedule('2025-10-21', '2026-04-12', {
+      skip: [...getDatesInRange('2026-02-14', '2026-02-15'), ...getDatesInRange('2025-11-24', '2025-11-30')],
+    });
+    const analysis = analyzeSchedule(games);
+    expect(analysis.allStarWeeks).toBeNull();
+    expect(analysis.cupKnockoutWeeks).toBeNull();
+  });
+
+  it.each([
+    { firstGame: '2025-10-21', short: false },
+    { firstGame: '2025-10-25', short: true },
+  ])('first week starting $firstGame is short: $short', ({ firstGame, short }) => {
+    expect(analyzeSchedule(schedule(firstGame, '2026-04-12')).firstWeekShort).toBe(short);
+  });
+
+  it('returns an empty analysis without games', () => {
+    expect(analyzeSchedule([])).toEqual({
+      seasonStartDate: '',
+      seasonEndDate: '',
+      totalGames: 0,
+      suggestedNumWeeks: 0,
+      cupKnockoutWeeks: null,
+      allStarWeeks: null,
+      firstWeekShort: false,
+    });
+  });
+});
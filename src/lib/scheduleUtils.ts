@@ -30,7 +30,8 @@ export function getCurrentWeek(
 }
 
 /**
- * Checks if the trade deadline has passed.
+ * Checks if the trade deadline has passed. UI gating only — the database
+ * enforces the same cutoff (enforce_trade_deadline, 00037_trade_deadline.sql).
  */
 export function isTradeDeadlinePassed(
   schedule: LeagueSchedule | undefined,
@@ -40,6 +41,21 @@ export function isTradeDeadlinePassed(
   return todayStr > schedule.tradeDeadlineDate;
 }
 
+/**
+ * All YYYY-MM-DD dates between start and end (inclusive).
+ */
+export function getDatesInRange(startDate: string, endDate: string): string[] {
+  const start = new Date(startDate + 'T00:00:00');
+  const end = new Date(endDate + 'T00:00:00');
+  const dates: string[] = [];
+  const current = new Date(start);
+  while (current <= end) {
+    dates.push(current.toISOString().split('T')[0]);
+    current.setDate(current.getDate() + 1);
+  }
+  return dates;
+}
+
 /**
  * Format a countdown string from today to the target date.
  * Returns "X days", "X weeks", "Today", or "Passed".
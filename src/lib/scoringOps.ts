@@ -0,0 +1,155 @@
+import { supabase, fetchAllRows } from './supabase';
+import { logger } from './logger';
+import { mapDailyLineup, mapMatchup, mapPlayer, mapPlayerBoxScore } from './mappers';
+import { getDatesInRange } from './scheduleUtils';
+import {
+  computeTeamTotals, indexBoxScores, resolveStartersByDate, scoreCategories,
+} from './matchupScoring';
+import type { MatchupCategoryResult, Player } from '../types';
+
+// Keeps `.in('id', …)` lookups well under the URL length limit
+const LOOKUP_CHUNK_SIZE = 100;
+
+export interface ScoreWeekResult {
+  success: boolean;
+  error?: string;
+  scored: Array<{ matchupId: string; homeScore: number; awayScore: number; categoryResults: MatchupCategoryResult[] }>;
+}
+
+/**
+ * Score every matchup in a matchup week from uploaded box scores.
+ *
+ * Recomputes from scratch on every run and overwrites home_score / away_score /
+ * category_results, so re-running a week (e.g. after a stat correction upload)
+ * is idempotent.
+ *
+ * Starters come from daily_lineups; dates without a saved lineup use the
+ * team's current non-benched active players. Players a lineup started who
+ * have since been dropped are still scored for those dates.
+ */
+export async function scoreMatchupWeek(params: {
+  leagueId: string;
+  seasonYear: number;
+  matchupWeek: number;
+}): Promise<ScoreWeekResult> {
+  const { leagueId, seasonYear, matchupWeek } = params;
+
+  try {
+    // 1. Date range for this matchup week (combined weeks span several calendar weeks)
+    const { data: weekRows, error: weekErr } = await supabase
+      .from('league_weeks')
+      .select('start_date, end_date')
+      .eq('league_id', leagueId)
+      .eq('season_year', seasonYear)
+      .eq('matchup_week', matchupWeek)
+      .order('week_number', { ascending: true });
+
+    if (weekErr) throw weekErr;
+    if (!weekRows || weekRows.length === 0) {
+      return { success: false, error: `No league weeks found for matchup week ${matchupWeek}`, scored: [] };
+    }
+
+    const startDate = weekRows[0].start_date;
+    const endDate = weekRows[weekRows.length - 1].end_date;
+    const dates = getDatesInRange(startDate, endDate);
+
+    // 2. Matchups, lineups, players and box scores for the range
+    const [matchupRes, lineupRes, playerRes, boxRows] = await Promise.all([
+      supabase
+        .from('league_matchups')
+        .select('*')
+        .eq('league_id', leagueId)
+        .eq('season_year', seasonYear)
+        .eq('matchup_week', matchupWeek),
+      supabase
+        .from('daily_lineups')
+        .select('*')
+        .eq('league_id', leagueId)
+        .gte('game_date', startDate)
+        .lte('game_date', endDate),
+      supabase
+        .from('players')
+        .select('*')
+        .eq('league_id', leagueId)
+        .not('team_id', 'is', null),
+      // A full week of box scores easily passes the 1000-row API limit
+      fetchAllRows('player_box_scores', '*', q => q.gte('game_date', startDate).lte('game_date', endDate)),
+    ]);
+
+    if (matchupRes.error) throw matchupRes.error;
+    if (lineupRes.error) throw lineupRes.error;
+    if (playerRes.error) throw playerRes.error;
+
+    const matchups = (matchupRes.data || []).map(mapMatchup);
+    const lineups = (lineupRes.data || []).map(mapDailyLineup);
+    const players = (playerRes.data || []).map(mapPlayer);
+
+    // Players started earlier in the week may have been dropped since — they are
+    // no longer rostered but their starts still count, so load them by ID.
+    const rosteredIds = new Set(players.map(p => p.id));
+    const droppedIds = [...new Set(lineups.flatMap(l => l.activePlayerIds))].filter(id => !rosteredIds.has(id));
+    const droppedPlayers: Player[] = [];
+    for (let i = 0; i < droppedIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('players')
+        .select('*')
+        .in('id', droppedIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+      if (error) throw error;
+      droppedPlayers.push(...(data || []).map(mapPlayer));
+    }
+    const boxScoresByDate = indexBoxScores(boxRows.map(mapPlayerBoxScore));
+
+    if (boxScoresByDate.size === 0) {
+      return { success: false, error: `No box scores uploaded between ${startDate} and ${endDate}`, scored: [] };
+    }
+
+    const fantraxIdByPlayerId = new Map([...players, ...droppedPlayers].map(p => [p.id, p.fantraxId]));
+
+    const totalsForTeam = (teamId: string) => {
+      const defaultStarters = players
+        .filter(p => p.roster.teamId === teamId && p.slot === 'active')
+        .map(p => p.id);
+      const startersByDate = resolveStartersByDate(
+        dates,
+        lineups.filter(l => l.teamId === teamId),
+        defaultStarters
+      );
+      return computeTeamTotals({ dates, startersByDate, fantraxIdByPlayerId, boxScoresByDate });
+    };
+
+    // 3. Score and write each matchup
+    const scored: ScoreWeekResult['scored'] = [];
+    const scoredAt = new Date().toISOString();
+
+    for (const matchup of matchups) {
+      const result = scoreCategories(totalsForTeam(matchup.homeTeamId), totalsForTeam(matchup.awayTeamId));
+
+      const { error: updateErr } = await supabase
+        .from('league_matchups')
+        .update({
+          home_score: result.homeWins,
+          away_score: result.awayWins,
+          category_results: result.categories,
+          scored_at: scoredAt,
+          updated_at: scoredAt,
+        })
+        .eq('id', matchup.id);
+
+      if (updateErr) throw updateErr;
+
+      scored.push({
+        matchupId: matchup.id,
+        homeScore: result.homeWins,
+        awayScore: result.awayWins,
+        categoryResults: result.categories,
+      });
+    }
+
+    logger.info('scoreMatchupWeek: success', { leagueId, seasonYear, matchupWeek, matchups: scored.length });
+    return { success: true, scored };
+  } catch (err) {
+    logger.error('scoreMatchupWeek: failed', err, { leagueId, seasonYear, matchupWeek });
+    const message = (err as { message?: string })?.message || 'Failed to score matchup week';
+    return { success: false, error: message, scored: [] };
+  }
+}
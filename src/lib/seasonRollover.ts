@@ -0,0 +1,295 @@
+import { supabase } from './supabase';
+import { logger } from './logger';
+import { mapDraftHistory, mapLeague, mapPlayer, mapRegularSeasonRoster, mapRoster, mapTeam } from './mappers';
+import type { RosterOpResult } from './rosterOps';
+import type { DraftHistory, LeaguePhase, Player, PlayerSlot, RookieDraftInfo } from '../types';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type RolloverNextPhase = Extract<LeaguePhase, 'rookie_draft' | 'keeper_season'>;
+
+export type RolloverChangeKind =
+  | 'keeper_round'       // Round used this season carried forward from draft history
+  | 'redshirt_promoted'  // Redshirt year over; keepable at original rookie round next season
+  | 'redshirt_expired'   // Post-redshirt year over; treated as a regular keeper from now on
+  | 'rookie_graduated'   // Played the rookie year; no longer redshirt eligible
+  | 'slot_reset'         // Bench/IR cleared for the new season
+  | 'needs_review';      // Rostered with no draft record — keeper round left as is
+
+/** Row written to `players` by the rollover_season RPC */
+export interface RolloverPlayerUpdate {
+  id: string;
+  slot: PlayerSlot;
+  isRookie: boolean;
+  rookieDraftInfo: RookieDraftInfo | null;
+  priorYearRound: number | null;
+  derivedBaseRound: number | null;
+}
+
+export interface RolloverPlayerChange {
+  playerId: string;
+  playerName: string;
+  kinds: RolloverChangeKind[];
+  before: RolloverPlayerUpdate;
+  after: RolloverPlayerUpdate;
+}
+
+export interface RolloverTeamPreview {
+  teamId: string;
+  teamName: string;
+  changes: RolloverPlayerChange[];
+  keeperEntriesCleared: number;
+  savedScenariosCleared: number;
+  regularSeasonRosterCleared: boolean;
+}
+
+export interface RolloverPlan {
+  leagueId: string;
+  leagueName: string;
+  fromSeason: number;
+  toSeason: number;
+  nextPhase: RolloverNextPhase;
+  teams: RolloverTeamPreview[];
+  playerUpdates: RolloverPlayerUpdate[];
+  warnings: string[];
+}
+
+export interface RolloverResult extends RosterOpResult {
+  playersUpdated?: number;
+}
+
+// ─── Planning ────────────────────────────────────────────────────────────────
+
+function currentState(player: Player): RolloverPlayerUpdate {
+  return {
+    id: player.id,
+    slot: player.slot,
+    isRookie: player.roster.isRookie,
+    rookieDraftInfo: player.roster.rookieDraftInfo ?? null,
+    priorYearRound: player.keeper?.priorYearRound ?? null,
+    derivedBaseRound: player.keeper?.derivedBaseRound ?? null,
+  };
+}
+
+/**
+ * Next-season state for one rostered player.
+ *
+ * Keeper rounds come from this season's draft history: `priorYearRound` is
+ * the round the player occupied (drafted or kept), which baseKeeperRound
+ * turns into next year's round, and `derivedBaseRound` stores the archived
+ * `nextYearKeeperRound` so the two always agree.
+ *
+ * Redshirts move through two seasons: a player in the redshirt slot is
+ * promoted (active, `redshirtedLastYear`, still a rookie so the original
+ * draft round applies); a player already flagged `redshirtedLastYear` has
+ * used that year and graduates to a regular keeper.
+ */
+export function planPlayerRollover(
+  player: Player,
+  history: DraftHistory | null
+): { after: RolloverPlayerUpdate; kinds: RolloverChangeKind[] } {
+  const after = currentState(player);
+  const kinds: RolloverChangeKind[] = [];
+  const info = player.roster.rookieDraftInfo;
+
+  if (player.slot === 'redshirt') {
+    after.slot = 'active';
+    after.rookieDraftInfo = info ? { ...info, redshirtEligible: false, redshirtedLastYear: true } : null;
+    kinds.push('redshirt_promoted');
+    return { after, kinds };
+  }
+
+  if (info?.redshirtedLastYear) {
+    after.isRookie = false;
+    after.rookieDraftInfo = { ...info, redshirtEligible: false, redshirtedLastYear: false };
+    kinds.push('redshirt_expired');
+  } else if (player.roster.isRookie) {
+    after.isRookie = false;
+    after.rookieDraftInfo = info ? { ...info, redshirtEligible: false } : null;
+    kinds.push('rookie_graduated');
+  }
+
+  if (player.slot === 'ir' || player.slot === 'bench') {
+    after.slot = 'active';
+    kinds.push('slot_reset');
+  }
+
+  // International stashes keep their original round; nothing to carry
+  if (player.slot === 'international') return { after, kinds };
+
+  const keeper = history?.keepers.find(k => k.playerId === player.id);
+  const pick = history?.picks.find(p => p.playerId === player.id);
+  if (keeper) {
+    after.priorYearRound = keeper.keeperRound;
+    after.derivedBaseRound = keeper.nextYearKeeperRound;
+    kinds.push('keeper_round');
+  } else if (pick) {
+    after.priorYearRound = pick.round;
+    after.derivedBaseRound = pick.nextYearKeeperRound;
+    kinds.push('keeper_round');
+  } else {
+    kinds.push('needs_review');
+  }
+
+  return { after, kinds };
+}
+
+const sameState = (a: RolloverPlayerUpdate, b: RolloverPlayerUpdate) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Load everything the rollover touches and build the per-team preview.
+ * Nothing is written; pass the plan to applySeasonRollover to commit it.
+ */
+export async function planSeasonRollover(leagueId: string, nextPhase: RolloverNextPhase): Promise<RolloverPlan> {
+  const { data: leagueRow, error: leagueError } = await supabase
+    .from('leagues')
+    .select('*')
+    .eq('id', leagueId)
+    .single();
+  if (leagueError) throw leagueError;
+  const league = mapLeague(leagueRow);
+
+  const [teamsRes, playersRes, historyRes, rostersRes, seasonRostersRes] = await Promise.all([
+    supabase.from('teams').select('*').eq('league_id', leagueId),
+    supabase.from('players').select('*').eq('league_id', leagueId).not('team_id', 'is', null),
+    supabase.from('draft_history').select('*').eq('league_id', leagueId).eq('season_year', league.seasonYear).maybeSingle(),
+    supabase.from('rosters').select('*').eq('league_id', leagueId),
+    supabase.from('regular_season_rosters').select('*').eq('league_id', leagueId),
+  ]);
+  for (const res of [teamsRes, playersRes, historyRes, rostersRes, seasonRostersRes]) {
+    if (res.error) throw res.error;
+  }
+
+  const teams = (teamsRes.data || []).map(mapTeam).sort((a, b) => a.name.localeCompare(b.name));
+  const players = (playersRes.data || []).map(mapPlayer);
+  const history = historyRes.data ? mapDraftHistory(historyRes.data) : null;
+  const rosters = new Map((rostersRes.data || []).map(mapRoster).map(r => [r.teamId, r]));
+  const seasonRosterTeams = new Set((seasonRostersRes.data || []).map(mapRegularSeasonRoster).map(r => r.teamId));
+
+  const warnings: string[] = [];
+  if (league.leaguePhase !== 'champion') {
+    warnings.push(`League is in ${league.leaguePhase}, not champion — the season may not be finished`);
+  }
+  if (!history) {
+    warnings.push(`No draft history for ${league.seasonYear} — keeper rounds cannot be carried forward`);
+  }
+
+  const playerUpdates: RolloverPlayerUpdate[] = [];
+  const previews = teams.map(team => {
+    const changes: RolloverPlayerChange[] = [];
+    for (const player of players.filter(p => p.roster.teamId === team.id)) {
+      const before = currentState(player);
+      const { after, kinds } = planPlayerRollover(player, history);
+      if (!sameState(before, after)) playerUpdates.push(after);
+      if (kinds.length > 0) {
+        changes.push({ playerId: player.id, playerName: player.name, kinds, before, after });
+      }
+    }
+    changes.sort((a, b) => a.playerName.localeCompare(b.playerName));
+
+    const roster = rosters.get(team.id);
+    return {
+      teamId: team.id,
+      teamName: team.name,
+      changes,
+      keeperEntriesCleared: roster?.entries.length ?? 0,
+      savedScenariosCleared: roster?.savedScenarios?.length ?? 0,
+      regularSeasonRosterCleared: seasonRosterTeams.has(team.id),
+    };
+  });
+
+  const reviewCount = previews.reduce((sum, t) => sum + t.changes.filter(c => c.kinds.includes('needs_review')).length, 0);
+  if (history && reviewCount > 0) {
+    warnings.push(`${reviewCount} rostered player${reviewCount !== 1 ? 's have' : ' has'} no ${league.seasonYear} draft record — set their keeper rounds by hand`);
+  }
+
+  return {
+    leagueId,
+    leagueName: league.name,
+    fromSeason: league.seasonYear,
+    toSeason: league.seasonYear + 1,
+    nextPhase,
+    teams: previews,
+    playerUpdates,
+    warnings,
+  };
+}
+
+// ─── Report ──────────────────────────────────────────────────────────────────
+
+const escapeCSV = (value: unknown) => {
+  const str = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+/** Dry-run report: one row per player change, plus team-level resets. */
+export function rolloverReportCsv(plan: RolloverPlan): string {
+  const header = [
+    'team', 'player', 'changes',
+    'slot_before', 'slot_after',
+    'rookie_before', 'rookie_after',
+    'prior_round_before', 'prior_round_after',
+    'base_round_before', 'base_round_after',
+  ];
+  const lines = [
+    `# ${plan.leagueName} rollover ${plan.fromSeason} -> ${plan.toSeason}, starting in ${plan.nextPhase}`,
+    ...plan.warnings.map(w => `# warning: ${w}`),
+    header.join(','),
+  ];
+
+  for (const team of plan.teams) {
+    for (const change of team.changes) {
+      lines.push([
+        team.teamName, change.playerName, change.kinds.join(' '),
+        change.before.slot, change.after.slot,
+        change.before.isRookie, change.after.isRookie,
+        change.before.priorYearRound, change.after.priorYearRound,
+        change.before.derivedBaseRound, change.after.derivedBaseRound,
+      ].map(escapeCSV).join(','));
+    }
+    const resets = [
+      `${team.keeperEntriesCleared} keeper entries and ${team.savedScenariosCleared} saved scenarios cleared`,
+      team.regularSeasonRosterCleared ? 'regular season roster cleared' : '',
+    ].filter(Boolean).join('; ');
+    lines.push([team.teamName, '', resets].map(escapeCSV).join(','));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ─── Apply ───────────────────────────────────────────────────────────────────
+
+/**
+ * Commit a previewed rollover via the rollover_season stored procedure
+ * (00031_season_rollover.sql). Player updates, the regular_season_rosters
+ * wipe, fresh rosters rows and the league's new season_year/phase are
+ * written in one transaction; the RPC refuses if the league has already
+ * moved past `plan.fromSeason`.
+ */
+export async function applySeasonRollover(plan: RolloverPlan, performedBy: string): Promise<RolloverResult> {
+  const ctx = { leagueId: plan.leagueId, fromSeason: plan.fromSeason, nextPhase: plan.nextPhase };
+
+  try {
+    const { data, error } = await supabase.rpc('rollover_season', {
+      p_league_id: plan.leagueId,
+      p_from_season: plan.fromSeason,
+      p_next_phase: plan.nextPhase,
+      p_player_updates: plan.playerUpdates,
+      p_performed_by: performedBy,
+    });
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string; players_updated?: number };
+    if (!result.success) {
+      logger.error('applySeasonRollover: rejected', result.error, ctx);
+      return { success: false, error: result.error };
+    }
+
+    logger.info('applySeasonRollover: success', { ...ctx, playersUpdated: result.players_updated });
+    return { success: true, playersUpdated: result.players_updated };
+  } catch (err) {
+    logger.error('applySeasonRollover: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to roll over season' };
+  }
+}
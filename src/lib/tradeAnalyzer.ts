@@ -0,0 +1,284 @@
+import { MATCHUP_CATEGORIES, PLAYER_ASSET_TYPES } from '../types';
+import type {
+  CategoryTotals, LeagueKeeperRules, MatchupCategory, Player, ProjectedStats, RosterEntry, TeamRecord, TradeAsset,
+} from '../types';
+import { categoryValue, emptyTotals } from './matchupScoring';
+import { expectationFromProjection } from './matchupSimulator';
+import { baseKeeperRound } from './keeperAlgorithms';
+import { getLotteryOdds, getLotteryTeams } from './lottery';
+import type { TeamStanding } from './lottery';
+
+/**
+ * Trade analyzer — roster value side of the Trade Machine (salary lives in
+ * tradeCapCalculator). Pure functions — no side effects, no DB calls.
+ *
+ * Category strength is a team's projected per-game line: every rostered
+ * player who plays (not redshirted or stashed) contributes one game of
+ * their ProjectedStats. Ranks compare that line against every other team
+ * in the league, so a trade can move teams that aren't part of it.
+ */
+
+// Money teams outside the Boiler Room (see getPrizeSpots); they pick last and skip the lottery
+export const DEFAULT_PRIZE_SPOTS = 3;
+
+// Slots that don't put up stats
+const NON_PLAYING_SLOTS = new Set(['redshirt', 'international']);
+
+export interface RookiePickInfo {
+  id: string;
+  year: number;
+  round: number;
+  originalTeam: string;
+  originalTeamName: string;
+}
+
+export interface CategoryImpact {
+  category: MatchupCategory;
+  before: number | null;
+  after: number | null;
+  rankBefore: number;  // 1 = best in the league
+  rankAfter: number;
+}
+
+export interface IncomingPlayerValue {
+  playerId: string;
+  name: string;
+  keeperRound: number | null;  // Round it costs to keep him next season
+  projectedRank?: number;      // Overall projection rank
+  impliedRound?: number;       // Draft round that rank is worth in this league
+  roundSurplus?: number;       // keeperRound - impliedRound; positive = kept cheaper than his value
+}
+
+export interface RookiePickValue {
+  pickId: string;
+  label: string;
+  projectedSlot: number;      // Slot within the round if the draft were held today
+  pctFirstPick: number;       // Lottery odds of the #1 pick (round 1, lottery teams only)
+  expectedSlot: number;
+  value: number;              // 0-100; 100 = the #1 overall pick
+  isEstimate: boolean;        // Future draft: standings don't apply yet, valued at the middle slot
+}
+
+export interface TeamTradeAnalysis {
+  teamId: string;
+  teamName: string;
+  categories: CategoryImpact[];
+  categoryWinsBefore: number;  // Categories where the team ranks in the top half
+  categoryWinsAfter: number;
+  incomingPlayers: IncomingPlayerValue[];
+  incomingPicks: RookiePickValue[];
+  outgoingPicks: RookiePickValue[];
+  pickValueNet: number;
+}
+
+// ─── Projections ─────────────────────────────────────────────────────────────
+
+/** Sum one projected game for each player into team category totals. */
+export function projectedTeamTotals(players: Player[], projectedStats: Map<string, ProjectedStats>): CategoryTotals {
+  const totals = emptyTotals();
+  for (const player of players) {
+    const stats = projectedStats.get(player.fantraxId);
+    if (!stats) continue;
+    const game = expectationFromProjection(stats);
+    totals.fga += game.fga;
+    totals.fgm += game.fga * game.fgPct;
+    totals.fta += game.fta;
+    totals.ftm += game.fta * game.ftPct;
+    totals.threePointMade += game.threePointMade;
+    totals.points += stats.points;
+    totals.rebounds += game.rebounds;
+    totals.assists += game.assists;
+    totals.steals += game.steals;
+    totals.blocks += game.blocks;
+    totals.turnovers += game.turnovers;
+    totals.gamesPlayed += 1;
+  }
+  return totals;
+}
+
+/** Rank of each team in one category (1 = best). Teams with no value rank last. */
+function rankTeams(values: Map<string, number | null>): Map<string, number> {
+  const ranks = new Map<string, number>();
+  values.forEach((value, teamId) => {
+    let better = 0;
+    values.forEach((other, otherId) => {
+      if (otherId === teamId || other === null) return;
+      if (value === null || other > value) better++;
+    });
+    ranks.set(teamId, better + 1);
+  });
+  return ranks;
+}
+
+// ─── Standings & Picks ───────────────────────────────────────────────────────
+
+/** Standings sorted best to worst, the order getLotteryTeams expects. */
+export function buildStandings(
+  teams: Array<{ id: string; name: string }>,
+  records: Map<string, TeamRecord>
+): TeamStanding[] {
+  return teams
+    .map(team => {
+      const rec = records.get(team.id);
+      const wins = rec?.wins || 0;
+      const losses = rec?.losses || 0;
+      const ties = rec?.ties || 0;
+      const total = wins + losses + ties;
+      return { teamId: team.id, teamName: team.name, wins, losses, ties, pct: total > 0 ? (wins + ties * 0.5) / total : 0 };
+    })
+    .sort((a, b) => (b.pct !== a.pct ? b.pct - a.pct : b.wins - a.wins));
+}
+
+/**
+ * Value every rookie pick for the upcoming draft from today's standings.
+ * Lottery teams pick in inverse order with getLotteryOdds' chance of
+ * jumping to #1; money teams pick last. Picks in later drafts are valued
+ * at the middle slot. With a manual draft order the saved order is used
+ * and there is no lottery.
+ */
+export function valueRookiePicks(params: {
+  picks: RookiePickInfo[];
+  standings: TeamStanding[];
+  draftYear: number;
+  prizeSpots: number;
+  manualOrder?: string[];
+}): Map<string, RookiePickValue> {
+  const { picks, standings, draftYear, prizeSpots, manualOrder } = params;
+  const numTeams = Math.max(1, standings.length);
+  const totalSlots = numTeams * Math.max(1, ...picks.map(p => p.round));
+
+  const slotByTeam = new Map<string, number>();
+  const firstPickPct = new Map<string, number>();
+  if (manualOrder && manualOrder.length > 0) {
+    manualOrder.forEach((teamId, i) => slotByTeam.set(teamId, i + 1));
+    if (manualOrder[0]) firstPickPct.set(manualOrder[0], 100);
+  } else {
+    const { lotteryTeams, moneyTeams } = getLotteryTeams(standings, prizeSpots);
+    lotteryTeams.forEach((team, i) => slotByTeam.set(team.teamId, i + 1));
+    [...moneyTeams].reverse().forEach((team, i) => slotByTeam.set(team.teamId, lotteryTeams.length + i + 1));
+    getLotteryOdds(lotteryTeams).forEach(odds => firstPickPct.set(odds.team.teamId, odds.pctFirstPick));
+  }
+
+  const slotValue = (overall: number) => Math.max(0, Math.round(((totalSlots - overall + 1) / totalSlots) * 100));
+
+  const values = new Map<string, RookiePickValue>();
+  for (const pick of picks) {
+    const label = `${pick.year} Round ${pick.round} (${pick.originalTeamName})`;
+    const isEstimate = pick.year !== draftYear || !slotByTeam.has(pick.originalTeam);
+    const projectedSlot = isEstimate ? Math.ceil(numTeams / 2) : slotByTeam.get(pick.originalTeam)!;
+    // Only round 1 has a lottery; a #1 jump replaces the projected slot
+    const pctFirstPick = !isEstimate && pick.round === 1 ? (firstPickPct.get(pick.originalTeam) ?? 0) : 0;
+    const p = pctFirstPick / 100;
+    const expectedSlot = p * 1 + (1 - p) * projectedSlot;
+    const offset = (pick.round - 1) * numTeams;
+
+    values.set(pick.id, {
+      pickId: pick.id,
+      label,
+      projectedSlot,
+      pctFirstPick,
+      expectedSlot,
+      value: Math.round(p * slotValue(offset + 1) + (1 - p) * slotValue(offset + projectedSlot)),
+      isEstimate,
+    });
+  }
+  return values;
+}
+
+// ─── Analyze ─────────────────────────────────────────────────────────────────
+
+/**
+ * Before/after roster value for every team in a proposed trade: projected
+ * per-game category line and league rank per category, keeper-round value
+ * of incoming players, and expected value of rookie picks changing hands.
+ */
+export function analyzeTrade(params: {
+  assets: TradeAsset[];
+  teams: Array<{ id: string; name: string }>;
+  players: Map<string, Player>;
+  projectedStats: Map<string, ProjectedStats>;
+  rosters: Map<string, RosterEntry[]>;
+  pickValues: Map<string, RookiePickValue>;
+  keeperRules?: LeagueKeeperRules;
+}): TeamTradeAnalysis[] {
+  const { assets, teams, players, projectedStats, rosters, pickValues, keeperRules } = params;
+  const valid = assets.filter(a => a.fromTeamId && a.toTeamId);
+  const involved = Array.from(new Set(valid.flatMap(a => [a.fromTeamId, a.toTeamId])));
+  if (involved.length === 0) return [];
+
+  // Who plays for whom, before and after the trade
+  const playing = Array.from(players.values()).filter(p => p.roster.teamId && !NON_PLAYING_SLOTS.has(p.slot));
+  const movedTo = new Map(valid.filter(a => PLAYER_ASSET_TYPES.includes(a.type)).map(a => [a.id, a]));
+  const rosterFor = (teamId: string, after: boolean): Player[] => {
+    const current = playing.filter(p => p.roster.teamId === teamId && !(after && movedTo.has(p.id)));
+    if (!after) return current;
+    const incoming = valid
+      .filter(a => a.toTeamId === teamId && a.type === 'keeper')
+      .map(a => players.get(a.id))
+      .filter((p): p is Player => !!p);
+    return [...current, ...incoming];
+  };
+
+  const totalsBefore = new Map(teams.map(t => [t.id, projectedTeamTotals(rosterFor(t.id, false), projectedStats)]));
+  const totalsAfter = new Map(teams.map(t => [
+    t.id,
+    involved.includes(t.id) ? projectedTeamTotals(rosterFor(t.id, true), projectedStats) : totalsBefore.get(t.id)!,
+  ]));
+
+  const ranksBefore = new Map<MatchupCategory, Map<string, number>>();
+  const ranksAfter = new Map<MatchupCategory, Map<string, number>>();
+  for (const category of MATCHUP_CATEGORIES) {
+    ranksBefore.set(category, rankTeams(new Map(teams.map(t => [t.id, categoryValue(totalsBefore.get(t.id)!, category)]))));
+    ranksAfter.set(category, rankTeams(new Map(teams.map(t => [t.id, categoryValue(totalsAfter.get(t.id)!, category)]))));
+  }
+
+  const halfLeague = teams.length / 2;
+  const numTeams = Math.max(1, teams.length);
+
+  return involved.map(teamId => {
+    const categories = MATCHUP_CATEGORIES.map((category): CategoryImpact => ({
+      category,
+      before: categoryValue(totalsBefore.get(teamId) || emptyTotals(), category),
+      after: categoryValue(totalsAfter.get(teamId) || emptyTotals(), category),
+      rankBefore: ranksBefore.get(category)!.get(teamId) ?? teams.length,
+      rankAfter: ranksAfter.get(category)!.get(teamId) ?? teams.length,
+    }));
+
+    const incomingPlayers = valid
+      .filter(a => a.toTeamId === teamId && PLAYER_ASSET_TYPES.includes(a.type))
+      .map((asset): IncomingPlayerValue => {
+        const player = players.get(asset.id);
+        const entry = (rosters.get(asset.fromTeamId) || []).find(e => e.playerId === asset.id);
+        const keeperRound = entry?.baseRound ?? (player ? baseKeeperRound(player, keeperRules) : null);
+        const stats = player ? projectedStats.get(player.fantraxId) : undefined;
+        const impliedRound = stats?.rkOv ? Math.ceil(stats.rkOv / numTeams) : undefined;
+        return {
+          playerId: asset.id,
+          name: player?.name || asset.displayName,
+          keeperRound,
+          projectedRank: stats?.rkOv,
+          impliedRound,
+          roundSurplus: keeperRound != null && impliedRound != null ? keeperRound - impliedRound : undefined,
+        };
+      });
+
+    const picksFor = (direction: 'in' | 'out') => valid
+      .filter(a => a.type === 'rookie_pick' && (direction === 'in' ? a.toTeamId : a.fromTeamId) === teamId)
+      .map(a => pickValues.get(a.id))
+      .filter((v): v is RookiePickValue => !!v);
+    const incomingPicks = picksFor('in');
+    const outgoingPicks = picksFor('out');
+
+    return {
+      teamId,
+      teamName: teams.find(t => t.id === teamId)?.name || teamId,
+      categories,
+      categoryWinsBefore: categories.filter(c => c.rankBefore <= halfLeague).length,
+      categoryWinsAfter: categories.filter(c => c.rankAfter <= halfLeague).length,
+      incomingPlayers,
+      incomingPicks,
+      outgoingPicks,
+      pickValueNet: incomingPicks.reduce((sum, v) => sum + v.value, 0) - outgoingPicks.reduce((sum, v) => sum + v.value, 0),
+    };
+  });
+}
@@ -0,0 +1,177 @@
+import { supabase } from './supabase';
+import { logger } from './logger';
+import { sendNotificationEmail } from './email';
+import type { RosterOpResult } from './rosterOps';
+import { PLAYER_ASSET_TYPES } from '../types';
+import type { MatchupCategory, TradeAsset, TradeBlockAssetType } from '../types';
+
+/**
+ * Trade block. A team lists players and rookie picks it's willing to move,
+ * with an asking note and the positions / categories it wants back
+ * (00036_trade_block.sql). Listing a player emails every other owner who
+ * has him on their watchlist; entries are cleared once the asset is traded.
+ */
+
+export interface TradeBlockListing {
+  askingNote?: string;
+  desiredPositions: string[];
+  desiredCategories: MatchupCategory[];
+}
+
+const listingColumns = (listing: TradeBlockListing) => ({
+  asking_note: listing.askingNote?.trim() || null,
+  desired_positions: listing.desiredPositions,
+  desired_categories: listing.desiredCategories,
+});
+
+export async function addToTradeBlock(params: {
+  leagueId: string;
+  leagueName: string;
+  teamId: string;
+  teamName: string;
+  assetType: TradeBlockAssetType;
+  assetId: string;
+  displayName: string;
+  fantraxId?: string;  // Players only — watchlists are keyed by fantraxId
+  listing: TradeBlockListing;
+  createdBy: string;
+}): Promise<RosterOpResult> {
+  const { leagueId, teamId, assetType, assetId, displayName, listing, createdBy } = params;
+  const ctx = { leagueId, teamId, assetType, assetId };
+
+  try {
+    const { error } = await supabase
+      .from('trade_block_entries')
+      .insert({
+        league_id: leagueId,
+        team_id: teamId,
+        asset_type: assetType,
+        asset_id: assetId,
+        display_name: displayName,
+        created_by: createdBy,
+        ...listingColumns(listing),
+      });
+    if (error) {
+      if (error.code === '23505') return { success: false, error: `${displayName} is already on the trade block` };
+      throw error;
+    }
+
+    logger.info('addToTradeBlock: success', ctx);
+  } catch (err) {
+    logger.error('addToTradeBlock: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to add to trade block' };
+  }
+
+  if (assetType === 'player' && params.fantraxId) {
+    await notifyWatchers({ ...params, fantraxId: params.fantraxId });
+  }
+  return { success: true };
+}
+
+export async function updateTradeBlockEntry(entryId: string, listing: TradeBlockListing): Promise<RosterOpResult> {
+  try {
+    const { error } = await supabase
+      .from('trade_block_entries')
+      .update({ ...listingColumns(listing), updated_at: new Date().toISOString() })
+      .eq('id', entryId);
+    if (error) throw error;
+
+    logger.info('updateTradeBlockEntry: success', { entryId });
+    return { success: true };
+  } catch (err) {
+    logger.error('updateTradeBlockEntry: failed', err, { entryId });
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to update listing' };
+  }
+}
+
+export async function removeFromTradeBlock(entryId: string): Promise<RosterOpResult> {
+  try {
+    const { error } = await supabase
+      .from('trade_block_entries')
+      .delete()
+      .eq('id', entryId);
+    if (error) throw error;
+
+    logger.info('removeFromTradeBlock: success', { entryId });
+    return { success: true };
+  } catch (err) {
+    logger.error('removeFromTradeBlock: failed', err, { entryId });
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to remove from trade block' };
+  }
+}
+
+/**
+ * Drop block entries for assets that just changed hands. Best-effort — a
+ * stale entry is only cosmetic, so failures are logged and never fail the trade.
+ */
+export async function clearTradedBlockEntries(
+  leagueId: string,
+  assets: Array<Pick<TradeAsset, 'type' | 'id'>>
+): Promise<void> {
+  const playerIds = assets.filter(a => PLAYER_ASSET_TYPES.includes(a.type)).map(a => a.id);
+  const pickIds = assets.filter(a => a.type === 'rookie_pick').map(a => a.id);
+
+  try {
+    for (const [assetType, ids] of [['player', playerIds], ['rookie_pick', pickIds]] as const) {
+      if (ids.length === 0) continue;
+      const { error } = await supabase
+        .from('trade_block_entries')
+        .delete()
+        .eq('league_id', leagueId)
+        .eq('asset_type', assetType)
+        .in('asset_id', ids);
+      if (error) throw error;
+    }
+  } catch (err) {
+    logger.error('clearTradedBlockEntries: failed', err, { leagueId });
+  }
+}
+
+/** Email the owners of every other team watching this player. */
+async function notifyWatchers(params: {
+  leagueId: string;
+  leagueName: string;
+  teamId: string;
+  teamName: string;
+  displayName: string;
+  fantraxId: string;
+  listing: TradeBlockListing;
+}): Promise<void> {
+  const { leagueId, leagueName, teamId, teamName, displayName, fantraxId, listing } = params;
+
+  try {
+    const { data: watchRows, error: watchErr } = await supabase
+      .from('watchlists')
+      .select('team_id')
+      .eq('league_id', leagueId)
+      .contains('player_ids', [fantraxId]);
+    if (watchErr) throw watchErr;
+
+    const watcherTeamIds = (watchRows || []).map(r => r.team_id).filter(id => id !== teamId);
+    if (watcherTeamIds.length === 0) return;
+
+    const { data: teamRows, error: teamErr } = await supabase
+      .from('teams')
+      .select('owners')
+      .in('id', watcherTeamIds);
+    if (teamErr) throw teamErr;
+
+    const to = [...new Set((teamRows || []).flatMap(t => t.owners || []))];
+    if (to.length === 0) return;
+
+    await sendNotificationEmail({
+      template: 'trade-block-watched',
+      to,
+      data: {
+        leagueName,
+        teamName,
+        playerName: displayName,
+        askingNote: listing.askingNote?.trim() || '',
+        lookingFor: [...listing.desiredPositions, ...listing.desiredCategories].join(', '),
+      },
+    });
+    logger.info('notifyWatchers: sent', { leagueId, fantraxId, recipients: to.length });
+  } catch (err) {
+    logger.error('notifyWatchers: failed', err, { leagueId, fantraxId });
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { computeTradeCapImpact } from './tradeCapCalculator';
+import type { Player, RosterEntry } from '../types';
+
+const player = (id: string, salary: number): Player => ({
+  id,
+  fantraxId: id,
+  name: id,
+  position: 'F',
+  salary,
+  nbaTeam: 'NYK',
+  sport: 'nba',
+  slot: 'active',
+  roster: {
+    leagueId: 'league',
+    teamId: null,
+    onIR: false,
+    isRookie: false,
+    isInternationalStash: false,
+    intEligible: false,
+  },
+});
+
+const keepers = (...ids: string[]): RosterEntry[] => ids.map(playerId => ({ playerId, decision: 'KEEP', baseRound: 5 }));
+
+describe('computeTradeCapImpact', () => {
+  const players = new Map([
+    player('a1', 150_000_000),
+    player('a2', 40_000_000),
+    player('b1', 180_000_000),
+    player('b2', 44_000_000),
+    player('star', 30_000_000),
+  ].map(p => [p.id, p]));
+
+  const impact = (assets: Parameters<typeof computeTradeCapImpact>[0]['assets']) => {
+    const results = computeTradeCapImpact({
+      assets,
+      rosters: new Map([['A', keepers('a1', 'a2')], ['B', keepers('b1', 'b2', 'star')]]),
+      players,
+      tradeDelta: new Map([['A', 0], ['B', 0]]),
+      teamNames: new Map([['A', 'Team A'], ['B', 'Team B']]),
+    });
+    return new Map(results.map(r => [r.teamId, r]));
+  };
+
+  it('moves salary between teams', () => {
+    const results = impact([{ type: 'keeper', id: 'star', salary: 30_000_000, fromTeamId: 'B', toTeamId: 'A' }]);
+    const a = results.get('A')!;
+    const b = results.get('B')!;
+
+    expect(a.before.capUsed).toBe(190_000_000);
+    expect(a.after.capUsed).toBe(220_000_000);
+    expect(a.salaryIn).toBe(30_000_000);
+    expect(b.before.capUsed).toBe(254_000_000);
+    expect(b.after.capUsed).toBe(224_000_000);
+    expect(b.salaryOut).toBe(30_000_000);
+  });
+
+  it('warns when a trade crosses the first apron', () => {
+    const results = impact([{ type: 'keeper', id: 'star', salary: 30_000_000, fromTeamId: 'B', toTeamId: 'A' }]);
+    expect(results.get('A')!.warnings).toEqual(['Crosses first apron ($195M) — $50 one-time fee']);
+    expect(results.get('B')!.warnings).toEqual([]);
+  });
+
+  it('warns when a trade deepens the second apron penalty and breaks the hard cap', () => {
+    const results = impact([
+      { type: 'keeper', id: 'a1', salary: 150_000_000, fromTeamId: 'A', toTeamId: 'B' },
+      { type: 'keeper', id: 'star', salary: 30_000_000, fromTeamId: 'B', toTeamId: 'A' },
+    ]);
+    // B: 254M − 30M + 150M
+    expect(results.get('B')!.after.capUsed).toBe(374_000_000);
+    expect(results.get('B')!.warnings).toEqual([
+      'Increases second apron penalty from $58 to $298',
+      'Exceeds hard cap ceiling ($255M)',
+    ]);
+  });
+});
@@ -1,9 +1,9 @@
 import { stackKeeperRounds, computeSummary } from './keeperAlgorithms';
-import type { RosterEntry, Player, RosterSummary, Decision, LeagueCapSettings, LeagueFeeSettings } from '../types';
-import { NBA_CAP_DEFAULTS, NBA_FEE_DEFAULTS } from '../types';
+import type { RosterEntry, Player, RosterSummary, Decision, LeagueCapSettings, LeagueFeeSettings, LeagueKeeperRules, TradeAssetType } from '../types';
+import { DEFAULT_KEEPER_RULES, NBA_CAP_DEFAULTS, NBA_FEE_DEFAULTS, PLAYER_ASSET_TYPES } from '../types';
 
 export interface TradeAssetForCap {
-  type: 'keeper' | 'redshirt' | 'int_stash' | 'rookie_pick';
+  type: TradeAssetType;
   id: string;
   salary: number;
   fromTeamId: string;
@@ -32,8 +32,10 @@ export function computeTradeCapImpact(params: {
   teamNames: Map<string, string>;
   cap?: LeagueCapSettings;
   fees?: LeagueFeeSettings;
+  keeperRules?: LeagueKeeperRules;
 }): TeamCapImpact[] {
   const { assets, rosters, players, tradeDelta, teamNames, cap, fees } = params;
+  const keeperRules = params.keeperRules ?? DEFAULT_KEEPER_RULES;
 
   // Find all involved teams
   const involvedTeamIds = new Set<string>();
@@ -52,7 +54,8 @@ export function computeTradeCapImpact(params: {
     // Compute BEFORE summary
     const beforeEntries = [...currentEntries];
     const beforeStacked = stackKeeperRounds(
-      beforeEntries.filter(e => e.decision === 'KEEP')
+      beforeEntries.filter(e => e.decision === 'KEEP'),
+      keeperRules
     );
     const beforeSummary = computeSummary({
       entries: beforeEntries,
@@ -63,10 +66,10 @@ export function computeTradeCapImpact(params: {
 
     // Build AFTER entries: remove outgoing, add incoming
     const outgoingIds = new Set(
-      assets.filter(a => a.fromTeamId === teamId && a.type !== 'rookie_pick')
+      assets.filter(a => a.fromTeamId === teamId && PLAYER_ASSET_TYPES.includes(a.type))
         .map(a => a.id)
     );
-    const incoming = assets.filter(a => a.toTeamId === teamId && a.type !== 'rookie_pick');
+    const incoming = assets.filter(a => a.toTeamId === teamId && PLAYER_ASSET_TYPES.includes(a.type));
 
     const afterEntries = currentEntries.filter(e => !outgoingIds.has(e.playerId));
 
@@ -80,12 +83,13 @@ export function computeTradeCapImpact(params: {
       afterEntries.push({
         playerId: asset.id,
         decision,
-        baseRound: 13,
+        baseRound: keeperRules.draftRounds,
       });
     }
 
     const afterStacked = stackKeeperRounds(
-      afterEntries.filter(e => e.decision === 'KEEP')
+      afterEntries.filter(e => e.decision === 'KEEP'),
+      keeperRules
     );
     const afterSummary = computeSummary({
       entries: afterEntries,
@@ -96,10 +100,10 @@ export function computeTradeCapImpact(params: {
 
     // Compute salary movement
     const salaryOut = assets
-      .filter(a => a.fromTeamId === teamId && a.type !== 'rookie_pick')
+      .filter(a => a.fromTeamId === teamId && PLAYER_ASSET_TYPES.includes(a.type))
       .reduce((sum, a) => sum + a.salary, 0);
     const salaryIn = assets
-      .filter(a => a.toTeamId === teamId && a.type !== 'rookie_pick')
+      .filter(a => a.toTeamId === teamId && PLAYER_ASSET_TYPES.includes(a.type))
       .reduce((sum, a) => sum + a.salary, 0);
 
     // Generate warnings using league-specific cap/fee settings
@@ -0,0 +1,89 @@
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { RosterOpResult } from './rosterOps';
+import type { TradeDeadlineException } from '../types';
+
+/**
+ * Trade deadline enforcement. The database is the authority
+ * (00037_trade_deadline.sql): a trigger on trade_proposals rejects new
+ * proposals, and pending ones reaching review or execution, once the
+ * deadline day has ended in ET unless a commissioner exception covers
+ * every team involved. Pending proposals are expired by a pg_cron job
+ * (00050); isTradeDeadlinePassed (scheduleUtils) only drives UI.
+ */
+
+/** Newest unexpired exception covering all of `teamIds`, if any. */
+export function findActiveException(
+  exceptions: TradeDeadlineException[],
+  teamIds: string[],
+  now = Date.now()
+): TradeDeadlineException | undefined {
+  return exceptions
+    .filter(e => e.expiresAt > now && teamIds.every(id => e.teamIds.includes(id)))
+    .sort((a, b) => b.createdAt - a.createdAt)[0];
+}
+
+/**
+ * Expire the league's pending proposals if the deadline has passed.
+ * Idempotent; the server decides whether the deadline is past. The cron
+ * job does this every minute — calling it on load just avoids the gap.
+ */
+export async function expireTradesAtDeadline(leagueId: string): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('expire_trades_at_deadline', { p_league_id: leagueId });
+    if (error) throw error;
+
+    const result = data as { success: boolean; expired?: number; error?: string };
+    if (!result.success) {
+      logger.error('expireTradesAtDeadline: rejected', result.error, { leagueId });
+      return 0;
+    }
+    if (result.expired) logger.info('expireTradesAtDeadline: expired proposals', { leagueId, expired: result.expired });
+    return result.expired || 0;
+  } catch (err) {
+    logger.error('expireTradesAtDeadline: failed', err, { leagueId });
+    return 0;
+  }
+}
+
+/**
+ * Let `teamIds` trade with each other past the deadline until `expiresAt`.
+ * Commissioner or admin only — grant_trade_deadline_exception (00050)
+ * checks the caller and records them as granted_by.
+ */
+export async function grantTradeDeadlineException(params: {
+  leagueId: string;
+  teamIds: string[];
+  reason: string;
+  expiresAt: number;
+}): Promise<RosterOpResult> {
+  const { leagueId, teamIds, expiresAt } = params;
+  const reason = params.reason.trim();
+  const ctx = { leagueId, teamIds };
+
+  if (teamIds.length < 2) return { success: false, error: 'Pick at least two teams' };
+  if (!reason) return { success: false, error: 'A reason is required' };
+  if (expiresAt <= Date.now()) return { success: false, error: 'Exception must end in the future' };
+
+  try {
+    const { data, error } = await supabase.rpc('grant_trade_deadline_exception', {
+      p_league_id: leagueId,
+      p_team_ids: teamIds,
+      p_reason: reason,
+      p_expires_at: new Date(expiresAt).toISOString(),
+    });
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string };
+    if (!result.success) {
+      logger.error('grantTradeDeadlineException: rejected', result.error, ctx);
+      return { success: false, error: result.error || 'Failed to grant exception' };
+    }
+
+    logger.info('grantTradeDeadlineException: success', ctx);
+    return { success: true };
+  } catch (err) {
+    logger.error('grantTradeDeadlineException: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to grant exception' };
+  }
+}
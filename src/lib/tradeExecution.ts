@@ -1,11 +1,18 @@
 import { supabase } from './supabase';
 import { logger } from './logger';
+import { logTransactions } from './transactionLog';
+import { clearTradedBlockEntries } from './tradeBlock';
+import { sendTelegramMessage } from '../utils/telegram';
+import { PLAYER_ASSET_TYPES } from '../types';
+import type { TradeAssetType } from '../types';
 
 interface TradeAssetPayload {
-  type: 'keeper' | 'redshirt' | 'int_stash' | 'rookie_pick';
+  type: TradeAssetType;
   id: string;
   fromTeamId: string;
   toTeamId: string;
+  displayName?: string;  // For the transaction log only; ignored by the RPC
+  toTeamName?: string;   // For the Telegram announcement only
 }
 
 /**
@@ -13,16 +20,25 @@ interface TradeAssetPayload {
  * All verification, asset transfers, roster updates, and conflict
  * cancellation happen in a single PostgreSQL transaction.
  *
- * The stored procedure (execute_trade in 00023_execute_trade.sql):
- * 1. Locks and verifies the proposal is still pending
+ * The stored procedure (execute_trade, redefined in 00034_trade_review.sql):
+ * 1. Locks and verifies the proposal is still pending, or in review with its window closed
  * 2. Locks and verifies ownership of all players and picks (SELECT FOR UPDATE)
- * 3. Updates keeper roster entries (rosters.entries JSONB)
+ * 3. Updates keeper roster entries (rosters.entries JSONB); incoming players
+ *    start in the league's last draft round (keeper_rules, 00046)
  * 4. Transfers players (players.team_id + slot)
- * 5. Transfers rookie picks (rookie_draft_picks.current_owner)
- * 6. Cancels any conflicting pending proposals
+ * 5. Transfers rookie picks (rookie_draft_picks.current_owner) and main
+ *    draft slots (pick_assignments.current_team_id, redefined in 00038)
+ * 6. Cancels any conflicting pending or in-review proposals
  * 7. Marks the proposal as executed
  *
+ * After the trade deadline a pending proposal is refused by the
+ * enforce_trade_deadline trigger (00037) unless a commissioner exception
+ * covers every team; trades already in review still go through.
+ *
  * If any step fails, the entire transaction rolls back — no partial trades.
+ * On success each asset is appended to the league transaction log and
+ * taken off the trade block. Trades that move main draft picks are posted
+ * to the league's draft Telegram group, since they change who's on the clock.
  */
 export async function executeTrade(params: {
   proposalId: string;
@@ -56,9 +72,42 @@ export async function executeTrade(params: {
       logger.info(`Trade executed. Cancelled ${result.cancelled_proposals} conflicting proposal(s).`);
     }
 
+    await logTransactions(assets.map(asset => ({
+      leagueId,
+      type: 'trade' as const,
+      teamId: asset.toTeamId,
+      otherTeamId: asset.fromTeamId,
+      playerId: PLAYER_ASSET_TYPES.includes(asset.type) ? asset.id : undefined,
+      playerName: asset.displayName,
+      tradeProposalId: proposalId,
+      note: asset.type === 'rookie_pick' ? 'Draft pick' : asset.type === 'draft_pick' ? 'Main draft pick' : undefined,
+      performedBy: executedBy,
+    })));
+    await clearTradedBlockEntries(leagueId, assets);
+    if (assets.some(a => a.type === 'draft_pick')) await announceDraftPickTrade(leagueId, assets);
+
     return { success: true };
   } catch (err) {
     logger.error('Trade execution error:', err);
     return { success: false, error: 'Unexpected error during trade execution' };
   }
 }
+
+/** Post a trade that moved main draft picks to the league's draft Telegram group (fire-and-forget). */
+async function announceDraftPickTrade(leagueId: string, assets: TradeAssetPayload[]): Promise<void> {
+  const { data: league } = await supabase
+    .from('leagues')
+    .select('telegram_chat_id')
+    .eq('id', leagueId)
+    .maybeSingle();
+  if (!league?.telegram_chat_id) return;
+
+  const byTeam = new Map<string, string[]>();
+  for (const asset of assets) {
+    const team = asset.toTeamName || asset.toTeamId;
+    byTeam.set(team, [...(byTeam.get(team) || []), asset.displayName || asset.id]);
+  }
+  const lines = Array.from(byTeam, ([team, received]) => `${team} receives: ${received.join(', ')}`);
+  const msg = `🔄 *Trade*\n${lines.join('\n')}`;
+  sendTelegramMessage(msg, 'draft', league.telegram_chat_id).catch(() => {});
+}
@@ -0,0 +1,98 @@
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { RosterOpResult } from './rosterOps';
+import type { TradeAsset, TradeProposal } from '../types';
+
+/**
+ * Trade negotiation. A counter-offer is a new proposal cloned from a
+ * pending one with edited assets; counter_trade_proposal
+ * (00035_trade_negotiations.sql) links it to its parent, puts it in the
+ * parent's thread and marks the parent 'superseded' in one transaction.
+ * Comments belong to the thread, so they carry over across counters.
+ */
+
+export interface CounterOfferResult extends RosterOpResult {
+  proposalId?: string;
+}
+
+/** Proposals grouped by negotiation thread, oldest version first. */
+export function groupTradeThreads(proposals: TradeProposal[]): Map<string, TradeProposal[]> {
+  const threads = new Map<string, TradeProposal[]>();
+  for (const proposal of proposals) {
+    const existing = threads.get(proposal.threadId) || [];
+    existing.push(proposal);
+    threads.set(proposal.threadId, existing);
+  }
+  threads.forEach(chain => chain.sort((a, b) => a.createdAt - b.createdAt));
+  return threads;
+}
+
+export async function counterTradeProposal(params: {
+  parent: TradeProposal;
+  assets: TradeAsset[];
+  proposedByTeamId: string;
+  proposedByEmail: string;
+  note?: string;
+  expiresAt: number;
+}): Promise<CounterOfferResult> {
+  const { parent, assets, proposedByTeamId, proposedByEmail, note, expiresAt } = params;
+  const proposalId = `trade_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const ctx = { parentId: parent.id, proposalId, proposedByTeamId };
+
+  try {
+    const { data, error } = await supabase.rpc('counter_trade_proposal', {
+      p_parent_id: parent.id,
+      p_proposal_id: proposalId,
+      p_proposed_by_team_id: proposedByTeamId,
+      p_proposed_by_email: proposedByEmail,
+      p_assets: assets,
+      p_note: note || null,
+      p_expires_at: new Date(expiresAt).toISOString(),
+    });
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string };
+    if (!result.success) {
+      logger.error('counterTradeProposal: rejected', result.error, ctx);
+      return { success: false, error: result.error };
+    }
+
+    logger.info('counterTradeProposal: success', ctx);
+    return { success: true, proposalId };
+  } catch (err) {
+    logger.error('counterTradeProposal: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to send counter-offer' };
+  }
+}
+
+export async function postTradeComment(params: {
+  proposal: TradeProposal;
+  teamId: string;
+  authorEmail: string;
+  body: string;
+}): Promise<RosterOpResult> {
+  const { proposal, teamId, authorEmail } = params;
+  const body = params.body.trim();
+  const ctx = { proposalId: proposal.id, threadId: proposal.threadId, teamId };
+  if (!body) return { success: false, error: 'Comment is empty' };
+
+  try {
+    const { error } = await supabase
+      .from('trade_comments')
+      .insert({
+        league_id: proposal.leagueId,
+        thread_id: proposal.threadId,
+        proposal_id: proposal.id,
+        team_id: teamId,
+        author_email: authorEmail,
+        body,
+      });
+    if (error) throw error;
+
+    logger.info('postTradeComment: success', ctx);
+    return { success: true };
+  } catch (err) {
+    logger.error('postTradeComment: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to post comment' };
+  }
+}
@@ -0,0 +1,173 @@
+import { supabase } from './supabase';
+import { logger } from './logger';
+import { executeTrade } from './tradeExecution';
+import type { RosterOpResult } from './rosterOps';
+import type { LeagueTradeReviewSettings, TradeProposal } from '../types';
+import { DEFAULT_TRADE_REVIEW_SETTINGS } from '../types';
+
+/**
+ * League trade review. When a league has `tradeReview.enabled`, a proposal
+ * every team accepted waits in 'in_review' until `reviewEndsAt` instead of
+ * executing straight away. Uninvolved owners can vote to veto (the
+ * cast_trade_veto_vote RPC vetoes at the league's threshold) and the
+ * commissioner can veto with a reason (commissioner_veto_trade). Both RPCs
+ * identify the caller from their session (00048_trade_veto_auth.sql). Like the draft pick clock, the
+ * window is enforced server-side: the finalize-trade-reviews edge function
+ * executes closed reviews every minute (00045_trade_review_schedule.sql),
+ * and any client whose countdown hits zero can get there first — the
+ * execute_trade RPC re-checks review_ends_at and only runs a trade once.
+ */
+
+export interface AcceptedTradeResult extends RosterOpResult {
+  inReview: boolean;
+  reviewEndsAt?: number;
+}
+
+export interface VetoVoteResult extends RosterOpResult {
+  votes?: number;
+  required?: number;
+  vetoed?: boolean;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function getTradeReviewSettings(leagueId: string): Promise<LeagueTradeReviewSettings> {
+  const { data } = await supabase
+    .from('leagues')
+    .select('trade_review')
+    .eq('id', leagueId)
+    .maybeSingle();
+
+  return { ...DEFAULT_TRADE_REVIEW_SETTINGS, ...data?.trade_review };
+}
+
+/** True while a trade is under review and its window hasn't closed. */
+export function isReviewOpen(proposal: TradeProposal, now = Date.now()): boolean {
+  return proposal.status === 'in_review' && !!proposal.reviewEndsAt && now < proposal.reviewEndsAt;
+}
+
+const runExecuteTrade = (proposal: TradeProposal, executedBy: string) => executeTrade({
+  proposalId: proposal.id,
+  assets: proposal.assets.map(a => ({
+    type: a.type,
+    id: a.id,
+    fromTeamId: a.fromTeamId,
+    toTeamId: a.toTeamId,
+    displayName: a.displayName,
+    toTeamName: a.toTeamName,
+  })),
+  leagueId: proposal.leagueId,
+  executedBy,
+});
+
+// ─── Operations ──────────────────────────────────────────────────────────────
+
+/**
+ * Called once every team has accepted. Starts the league review window if
+ * the league uses one, otherwise executes the trade immediately.
+ */
+export async function completeAcceptedTrade(proposal: TradeProposal, executedBy: string): Promise<AcceptedTradeResult> {
+  const ctx = { proposalId: proposal.id, leagueId: proposal.leagueId };
+
+  try {
+    const settings = await getTradeReviewSettings(proposal.leagueId);
+    if (!settings.enabled || settings.reviewHours <= 0) {
+      const result = await runExecuteTrade(proposal, executedBy);
+      return { ...result, inReview: false };
+    }
+
+    const reviewEndsAt = Date.now() + settings.reviewHours * 60 * 60 * 1000;
+    const { data, error } = await supabase
+      .from('trade_proposals')
+      .update({ status: 'in_review', review_ends_at: new Date(reviewEndsAt).toISOString() })
+      .eq('id', proposal.id)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      return { success: false, inReview: false, error: 'Trade is no longer pending' };
+    }
+
+    logger.info('completeAcceptedTrade: review started', { ...ctx, reviewEndsAt });
+    return { success: true, inReview: true, reviewEndsAt };
+  } catch (err) {
+    logger.error('completeAcceptedTrade: failed', err, ctx);
+    return { success: false, inReview: false, error: (err as { message?: string })?.message || 'Failed to complete trade' };
+  }
+}
+
+/**
+ * Record an uninvolved team's veto vote; the RPC checks the caller owns the
+ * team and vetoes once enough votes are in.
+ */
+export async function castVetoVote(params: {
+  proposalId: string;
+  teamId: string;
+}): Promise<VetoVoteResult> {
+  const { proposalId, teamId } = params;
+  const ctx = { proposalId, teamId };
+
+  try {
+    const { data, error } = await supabase.rpc('cast_trade_veto_vote', {
+      p_proposal_id: proposalId,
+      p_team_id: teamId,
+    });
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string; votes?: number; required?: number; vetoed?: boolean };
+    if (!result.success) {
+      logger.error('castVetoVote: rejected', result.error, ctx);
+      return { success: false, error: result.error };
+    }
+
+    logger.info('castVetoVote: success', { ...ctx, votes: result.votes, vetoed: result.vetoed });
+    return { success: true, votes: result.votes, required: result.required, vetoed: result.vetoed };
+  } catch (err) {
+    logger.error('castVetoVote: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to cast veto vote' };
+  }
+}
+
+/**
+ * Commissioner veto. The RPC checks the caller is the commissioner or an
+ * admin, and only applies while the trade is still under review.
+ */
+export async function commissionerVetoTrade(params: {
+  proposalId: string;
+  reason: string;
+}): Promise<RosterOpResult> {
+  const { proposalId, reason } = params;
+  const ctx = { proposalId };
+
+  try {
+    const { data, error } = await supabase.rpc('commissioner_veto_trade', {
+      p_proposal_id: proposalId,
+      p_reason: reason,
+    });
+    if (error) throw error;
+
+    const result = data as { success: boolean; error?: string };
+    if (!result.success) {
+      logger.error('commissionerVetoTrade: rejected', result.error, ctx);
+      return { success: false, error: result.error };
+    }
+
+    logger.info('commissionerVetoTrade: success', ctx);
+    return { success: true };
+  } catch (err) {
+    logger.error('commissionerVetoTrade: failed', err, ctx);
+    return { success: false, error: (err as { message?: string })?.message || 'Failed to veto trade' };
+  }
+}
+
+/**
+ * Execute a trade whose review window has closed. Safe to call from every
+ * open client — execute_trade locks the proposal, re-checks the window
+ * against server time and only the first caller executes it.
+ */
+export async function finalizeTradeReview(proposal: TradeProposal, executedBy: string): Promise<RosterOpResult> {
+  if (proposal.status !== 'in_review' || isReviewOpen(proposal)) {
+    return { success: false, error: 'Trade is not ready to execute' };
+  }
+  return runExecuteTrade(proposal, executedBy);
+}
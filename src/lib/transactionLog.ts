@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { Transaction } from '../types';
+
+export type TransactionEntry = Omit<Transaction, 'id' | 'createdAt'>;
+
+/**
+ * Append entries to the league transaction log.
+ *
+ * The log is a record of what already happened, so a failed write is
+ * logged and swallowed — it never fails the roster operation itself.
+ */
+export async function logTransactions(entries: TransactionEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const { error } = await supabase
+    .from('transactions')
+    .insert(entries.map(entry => ({
+      league_id: entry.leagueId,
+      type: entry.type,
+      team_id: entry.teamId || null,
+      other_team_id: entry.otherTeamId || null,
+      player_id: entry.playerId || null,
+      player_name: entry.playerName || null,
+      from_slot: entry.fromSlot || null,
+      to_slot: entry.toSlot || null,
+      amount: entry.amount ?? null,
+      trade_proposal_id: entry.tradeProposalId || null,
+      note: entry.note || null,
+      performed_by: entry.performedBy || null,
+    })));
+
+  if (error) {
+    logger.error('logTransactions: failed', error, { count: entries.length, types: entries.map(e => e.type) });
+  }
+}
+
+export async function logTransaction(entry: TransactionEntry): Promise<void> {
+  return logTransactions([entry]);
+}
+
+/** One-line summary for feeds, e.g. "Lakers acquired X from Celtics". */
+export function describeTransaction(tx: Transaction, teamName: (id?: string) => string): string {
+  const player = tx.playerName || 'Unknown player';
+  switch (tx.type) {
+    case 'add': return `${teamName(tx.teamId)} added ${player}`;
+    case 'drop': return `${teamName(tx.teamId)} dropped ${player}`;
+    case 'trade': return `${teamName(tx.teamId)} acquired ${player} from ${teamName(tx.otherTeamId)}`;
+    case 'move_to_ir': return `${teamName(tx.teamId)} moved ${player} to IR`;
+    case 'activate_from_ir': return `${teamName(tx.teamId)} activated ${player} from IR`;
+    case 'redshirt_activation': return `${teamName(tx.teamId)} activated ${player} from redshirt`;
+    case 'fee': return `${teamName(tx.teamId)} charged $${tx.amount ?? 0}${tx.playerName ? ` (${tx.playerName})` : ''}`;
+  }
+}
+
@@ -0,0 +1,490 @@
+import { supabase, fetchAllRows } from './supabase';
+import { logger } from './logger';
+import { mapLeague, mapTeam, mapWaiverClaim, mapWaiverOrder } from './mappers';
+import type { RosterOpResult } from './rosterOps';
+import type { Player, TeamRecord, WaiverClaim, WaiverPriorityMode } from '../types';
+import { DEFAULT_WAIVER_SETTINGS } from '../types';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface WaiverOutcome {
+  claim: WaiverClaim;
+  priority: number;        // 1-based position of the team when the claim was resolved
+  reason?: string;         // Set for failed claims
+}
+
+export interface WaiverResolution {
+  awarded: WaiverOutcome[];
+  failed: WaiverOutcome[];
+  finalOrder: string[];    // Priority order after the run (rolling moves winners to the back)
+}
+
+export interface ProcessWaiversResult extends RosterOpResult {
+  runId?: string;
+  awarded: number;
+  failed: number;
+  deferred: number;        // Claims left pending because the player is still inside the waiver period
+}
+
+// ─── Pure Helpers ────────────────────────────────────────────────────────────
+
+/**
+ * Claim-only until a processing run clears waiversUntil — including after
+ * the period has ended, so claims resolve before anyone can add the player.
+ */
+export function isOnWaivers(player: Pick<Player, 'waiversUntil' | 'roster'>): boolean {
+  return !player.roster.teamId && !!player.waiversUntil;
+}
+
+function winPct(record: TeamRecord | undefined): number {
+  if (!record) return 0;
+  const games = record.wins + record.losses + record.ties;
+  return games > 0 ? (record.wins + record.ties * 0.5) / games : 0;
+}
+
+/**
+ * Waiver priority for a run (first team = first claim).
+ *
+ * reverse_standings: worst win % first, every run. Ties keep the stored
+ * rolling order so the result is deterministic.
+ * rolling: the stored order; teams missing from it (new league, new team)
+ * are appended in reverse-standings order.
+ */
+export function computeWaiverPriority(params: {
+  teamIds: string[];
+  mode: WaiverPriorityMode;
+  records: Map<string, TeamRecord>;
+  rollingOrder: string[];
+}): string[] {
+  const { teamIds, mode, records, rollingOrder } = params;
+  const rollingIndex = (teamId: string) => {
+    const idx = rollingOrder.indexOf(teamId);
+    return idx === -1 ? Number.MAX_SAFE_INTEGER : idx;
+  };
+  const byReverseStandings = (a: string, b: string) =>
+    winPct(records.get(a)) - winPct(records.get(b)) || rollingIndex(a) - rollingIndex(b) || a.localeCompare(b);
+
+  if (mode === 'reverse_standings') {
+    return [...teamIds].sort(byReverseStandings);
+  }
+
+  const known = rollingOrder.filter(id => teamIds.includes(id));
+  const missing = teamIds.filter(id => !known.includes(id)).sort(byReverseStandings);
+  return [...known, ...missing];
+}
+
+/** Paired-drop and roster-size checks shared by both claim modes. */
+function rosterInvalidReason(
+  claim: WaiverClaim,
+  owners: Map<string, string | null>,
+  counts: Map<string, number>,
+  maxActive: number
+): string | null {
+  if (claim.dropPlayerId && owners.get(claim.dropPlayerId) !== claim.teamId) {
+    return `${claim.dropPlayerName || 'Drop player'} is no longer on your roster`;
+  }
+  const count = counts.get(claim.teamId) || 0;
+  if (count - (claim.dropPlayerId ? 1 : 0) + 1 > maxActive) {
+    return `Roster full (${count}/${maxActive}) — add a player to drop`;
+  }
+  return null;
+}
+
+function applyAward(claim: WaiverClaim, owners: Map<string, string | null>, counts: Map<string, number>) {
+  owners.set(claim.playerId, claim.teamId);
+  if (claim.dropPlayerId) owners.set(claim.dropPlayerId, null);
+  counts.set(claim.teamId, (counts.get(claim.teamId) || 0) - (claim.dropPlayerId ? 1 : 0) + 1);
+}
+
+/** FAAB left per team: season budget minus every awarded bid. */
+export function computeFaabRemaining(budget: number, teamIds: string[], claims: WaiverClaim[]): Map<string, number> {
+  const remaining = new Map(teamIds.map(id => [id, budget]));
+  for (const claim of claims) {
+    if (claim.status !== 'awarded' || !claim.bidAmount) continue;
+    remaining.set(claim.teamId, (remaining.get(claim.teamId) ?? budget) - claim.bidAmount);
+  }
+  return remaining;
+}
+
+/**
+ * Award claims by priority. Each pass gives the highest-priority team its
+ * first still-valid claim (claims are preferred in submission order), then
+ * starts over from the top. In rolling mode the winner drops to the back.
+ *
+ * @param ownerByPlayerId  playerId → teamId (null = free agent); updated as claims are awarded
+ * @param activeCounts     teamId → active + bench players
+ */
+export function resolveWaiverClaims(params: {
+  claims: WaiverClaim[];
+  priorityOrder: string[];
+  mode: WaiverPriorityMode;
+  ownerByPlayerId: Map<string, string | null>;
+  activeCounts: Map<string, number>;
+  maxActive: number;
+}): WaiverResolution {
+  const { claims, mode, maxActive } = params;
+  const owners = new Map(params.ownerByPlayerId);
+  const counts = new Map(params.activeCounts);
+  let order = [...params.priorityOrder];
+
+  const queueByTeam = new Map<string, WaiverClaim[]>();
+  for (const claim of [...claims].sort((a, b) => a.createdAt - b.createdAt)) {
+    if (!queueByTeam.has(claim.teamId)) queueByTeam.set(claim.teamId, []);
+    queueByTeam.get(claim.teamId)!.push(claim);
+  }
+
+  const awarded: WaiverOutcome[] = [];
+  const failed: WaiverOutcome[] = [];
+  const awardedPlayers = new Set<string>();
+
+  const invalidReason = (claim: WaiverClaim): string | null => {
+    if (owners.get(claim.playerId)) {
+      return awardedPlayers.has(claim.playerId)
+        ? 'Claimed by a team with higher waiver priority'
+        : 'Player is no longer available';
+    }
+    return rosterInvalidReason(claim, owners, counts, maxActive);
+  };
+
+  let awardedThisPass = true;
+  while (awardedThisPass) {
+    awardedThisPass = false;
+
+    for (let idx = 0; idx < order.length && !awardedThisPass; idx++) {
+      const teamId = order[idx];
+      const queue = queueByTeam.get(teamId) || [];
+
+      while (queue.length > 0) {
+        const claim = queue.shift()!;
+        const reason = invalidReason(claim);
+        if (reason) {
+          failed.push({ claim, priority: idx + 1, reason });
+          continue;
+        }
+
+        applyAward(claim, owners, counts);
+        awardedPlayers.add(claim.playerId);
+        awarded.push({ claim, priority: idx + 1 });
+
+        if (mode === 'rolling') {
+          order = [...order.filter(id => id !== teamId), teamId];
+        }
+        awardedThisPass = true;
+        break;
+      }
+    }
+  }
+
+  // Claims from teams outside the priority order (shouldn't happen) fail loudly
+  for (const [teamId, queue] of queueByTeam) {
+    if (order.includes(teamId)) continue;
+    for (const claim of queue) failed.push({ claim, priority: 0, reason: 'Team has no waiver priority' });
+  }
+
+  return { awarded, failed, finalOrder: order };
+}
+
+/**
+ * Award FAAB claims. Each pass awards the single highest valid bid in the
+ * league; ties go to the team higher in waiver priority, then the earlier
+ * bid. Bids above a team's remaining budget fail. In rolling mode the
+ * winner drops to the back, so priority keeps deciding later ties fairly.
+ *
+ * @param faabRemaining  teamId → FAAB dollars left before this run
+ */
+export function resolveFaabClaims(params: {
+  claims: WaiverClaim[];
+  priorityOrder: string[];
+  mode: WaiverPriorityMode;
+  ownerByPlayerId: Map<string, string | null>;
+  activeCounts: Map<string, number>;
+  maxActive: number;
+  faabRemaining: Map<string, number>;
+}): WaiverResolution {
+  const { mode, maxActive } = params;
+  const owners = new Map(params.ownerByPlayerId);
+  const counts = new Map(params.activeCounts);
+  const budgets = new Map(params.faabRemaining);
+  let order = [...params.priorityOrder];
+  let pending = [...params.claims];
+
+  const awarded: WaiverOutcome[] = [];
+  const failed: WaiverOutcome[] = [];
+  const winningBid = new Map<string, number>();  // playerId → awarded bid
+
+  const priorityOf = (teamId: string) => order.indexOf(teamId) + 1;
+
+  const invalidReason = (claim: WaiverClaim): string | null => {
+    if (!order.includes(claim.teamId)) return 'Team has no waiver priority';
+    if (owners.get(claim.playerId)) {
+      const winning = winningBid.get(claim.playerId);
+      if (winning === undefined) return 'Player is no longer available';
+      return (claim.bidAmount || 0) === winning
+        ? `Tied at $${winning} — lost on waiver priority`
+        : `Outbid (winning bid $${winning})`;
+    }
+    const remaining = budgets.get(claim.teamId) || 0;
+    if ((claim.bidAmount || 0) > remaining) {
+      return `Bid $${claim.bidAmount} exceeds remaining FAAB ($${remaining})`;
+    }
+    return rosterInvalidReason(claim, owners, counts, maxActive);
+  };
+
+  while (pending.length > 0) {
+    const valid: WaiverClaim[] = [];
+    for (const claim of pending) {
+      const reason = invalidReason(claim);
+      if (reason) failed.push({ claim, priority: priorityOf(claim.teamId), reason });
+      else valid.push(claim);
+    }
+    if (valid.length === 0) break;
+
+    valid.sort((a, b) =>
+      (b.bidAmount || 0) - (a.bidAmount || 0) ||
+      priorityOf(a.teamId) - priorityOf(b.teamId) ||
+      a.createdAt - b.createdAt
+    );
+    const winner = valid[0];
+
+    awarded.push({ claim: winner, priority: priorityOf(winner.teamId) });
+    applyAward(winner, owners, counts);
+    winningBid.set(winner.playerId, winner.bidAmount || 0);
+    budgets.set(winner.teamId, (budgets.get(winner.teamId) || 0) - (winner.bidAmount || 0));
+    if (mode === 'rolling') {
+      order = [...order.filter(id => id !== winner.teamId), winner.teamId];
+    }
+
+    pending = valid.slice(1);
+  }
+
+  return { awarded, failed, finalOrder: order };
+}
+
+// ─── Claims ──────────────────────────────────────────────────────────────────
+
+/**
+ * Submit a waiver claim for a player on waivers (or, in FAAB leagues, any
+ * free agent). The paired drop (if any) only happens when the claim is
+ * awarded. In FAAB leagues `bidAmount` is the blind bid, stored where only
+ * the bidding team can read it; budget is checked at processing.
+ */
+export async function submitWaiverClaim(params: {
+  leagueId: string;
+  seasonYear: number;
+  teamId: string;
+  playerId: string;
+  playerName: string;
+  dropPlayerId?: string;
+  dropPlayerName?: string;
+  bidAmount?: number;
+  submittedBy: string;
+}): Promise<RosterOpResult> {
+  const { leagueId, seasonYear, teamId, playerId, playerName, dropPlayerId, dropPlayerName, bidAmount, submittedBy } = params;
+
+  if (bidAmount !== undefined && (!Number.isInteger(bidAmount) || bidAmount < 0)) {
+    return { success: false, error: 'Bid must be a whole dollar amount of $0 or more' };
+  }
+
+  const { data: existing, error: existingErr } = await supabase
+    .from('waiver_claims')
+    .select('id')
+    .eq('team_id', teamId)
+    .eq('player_id', playerId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (existingErr) {
+    logger.error('submitWaiverClaim: failed', existingErr, { teamId, playerId });
+    return { success: false, error: 'Failed to check existing claims' };
+  }
+  if (existing) {
+    return { success: false, error: `You already have a pending claim on ${playerName}` };
+  }
+
+  const { data: claimRow, error } = await supabase
+    .from('waiver_claims')
+    .insert({
+      league_id: leagueId,
+      season_year: seasonYear,
+      team_id: teamId,
+      player_id: playerId,
+      player_name: playerName,
+      drop_player_id: dropPlayerId || null,
+      drop_player_name: dropPlayerName || null,
+      submitted_by: submittedBy,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    logger.error('submitWaiverClaim: failed', error, { teamId, playerId });
+    return { success: false, error: 'Failed to submit waiver claim' };
+  }
+
+  // The bid is kept off the claim (waiver_bids) until processing
+  if (bidAmount !== undefined) {
+    const { error: bidErr } = await supabase.rpc('place_waiver_bid', {
+      p_claim_id: claimRow.id,
+      p_bid_amount: bidAmount,
+    });
+    if (bidErr) {
+      logger.error('submitWaiverClaim: bid failed', bidErr, { teamId, playerId });
+      await cancelWaiverClaim(claimRow.id);
+      return { success: false, error: bidErr.message || 'Failed to place bid' };
+    }
+  }
+
+  logger.info('submitWaiverClaim: success', { teamId, playerId, dropPlayerId, bidAmount });
+  return { success: true };
+}
+
+export async function cancelWaiverClaim(claimId: string): Promise<RosterOpResult> {
+  const { error } = await supabase
+    .from('waiver_claims')
+    .update({ status: 'cancelled' })
+    .eq('id', claimId)
+    .eq('status', 'pending');
+
+  if (error) {
+    logger.error('cancelWaiverClaim: failed', error, { claimId });
+    return { success: false, error: 'Failed to cancel claim' };
+  }
+
+  logger.info('cancelWaiverClaim: success', { claimId });
+  return { success: true };
+}
+
+// ─── Processing Run ──────────────────────────────────────────────────────────
+
+/**
+ * Resolve every pending claim whose player has cleared the waiver period.
+ * Claims on players still inside the period stay pending for a later run.
+ * Afterwards every unclaimed player whose period is over clears waivers —
+ * until then they stay claim-only.
+ *
+ * The run is resolved here and written by apply_waiver_run in one
+ * transaction, so a failure leaves every claim pending and every bid
+ * blind — processing again picks up where it stood.
+ *
+ * Records come from useMatchups so reverse-standings priority matches the
+ * standings owners see.
+ */
+export async function processWaivers(params: {
+  leagueId: string;
+  seasonYear: number;
+  records: Map<string, TeamRecord>;
+}): Promise<ProcessWaiversResult> {
+  const { leagueId, seasonYear, records } = params;
+  const empty = { awarded: 0, failed: 0, deferred: 0 };
+
+  try {
+    const [leagueRes, teamRes, claimRes, orderRes, playerRows] = await Promise.all([
+      supabase.from('leagues').select('*').eq('id', leagueId).single(),
+      supabase.from('teams').select('*').eq('league_id', leagueId),
+      supabase
+        .from('waiver_claims')
+        .select('*')
+        .eq('league_id', leagueId)
+        .eq('season_year', seasonYear)
+        .in('status', ['pending', 'awarded']),
+      supabase.from('waiver_orders').select('*').eq('id', `${leagueId}_${seasonYear}`).maybeSingle(),
+      fetchAllRows('players', 'id, team_id, slot, waivers_until', q => q.eq('league_id', leagueId)),
+    ]);
+
+    if (leagueRes.error) throw leagueRes.error;
+    if (teamRes.error) throw teamRes.error;
+    if (claimRes.error) throw claimRes.error;
+    if (orderRes.error) throw orderRes.error;
+
+    const league = mapLeague(leagueRes.data);
+    const waivers = league.waivers ?? DEFAULT_WAIVER_SETTINGS;
+    const teams = (teamRes.data || []).map(mapTeam);
+    const seasonClaims = (claimRes.data || []).map(mapWaiverClaim);
+    const allClaims = seasonClaims.filter(c => c.status === 'pending');
+    const rollingOrder = orderRes.data ? mapWaiverOrder(orderRes.data).teamIds : [];
+
+    // Only claims whose waiver period is over are resolved this run
+    const now = Date.now();
+    const waiversUntil = new Map<string, number>();
+    const ownerByPlayerId = new Map<string, string | null>();
+    const activeCounts = new Map<string, number>();
+    for (const row of playerRows) {
+      ownerByPlayerId.set(row.id, row.team_id || null);
+      if (row.waivers_until) waiversUntil.set(row.id, new Date(row.waivers_until).getTime());
+      if (row.team_id && (row.slot === 'active' || row.slot === 'bench')) {
+        activeCounts.set(row.team_id, (activeCounts.get(row.team_id) || 0) + 1);
+      }
+    }
+
+    const readyClaims = allClaims.filter(c => (waiversUntil.get(c.playerId) || 0) <= now);
+    const deferred = allClaims.length - readyClaims.length;
+
+    // Blind bids are read for the claims being resolved; they only become
+    // public once apply_waiver_run has applied the whole run
+    let ready = readyClaims;
+    if (waivers.claimMode === 'faab' && readyClaims.length > 0) {
+      const { data: bidRows, error: bidErr } = await supabase.rpc('get_pending_waiver_bids', {
+        p_league_id: leagueId,
+        p_claim_ids: readyClaims.map(c => c.id),
+      });
+      if (bidErr) throw bidErr;
+      const bids = new Map<string, number>(
+        ((bidRows || []) as Array<{ claim_id: string; bid_amount: number }>).map(b => [b.claim_id, b.bid_amount])
+      );
+      ready = readyClaims.map(c => ({ ...c, bidAmount: bids.get(c.id) ?? c.bidAmount }));
+    }
+
+    const priorityOrder = computeWaiverPriority({
+      teamIds: teams.map(t => t.id),
+      mode: waivers.priorityMode,
+      records,
+      rollingOrder,
+    });
+
+    const resolveParams = {
+      claims: ready,
+      priorityOrder,
+      mode: waivers.priorityMode,
+      ownerByPlayerId,
+      activeCounts,
+      maxActive: league.roster.maxActive,
+    };
+    const resolution = waivers.claimMode === 'faab'
+      ? resolveFaabClaims({
+          ...resolveParams,
+          faabRemaining: computeFaabRemaining(waivers.faabBudget, teams.map(t => t.id), seasonClaims),
+        })
+      : resolveWaiverClaims(resolveParams);
+
+    // Awards, failures, the bid reveal, the rolling order and clearing
+    // waivers are written in one transaction (00051) — all or nothing
+    const { data, error: applyErr } = await supabase.rpc('apply_waiver_run', {
+      p_league_id: leagueId,
+      p_season_year: seasonYear,
+      p_claim_mode: waivers.claimMode,
+      p_priority_mode: waivers.priorityMode,
+      p_priority_order: priorityOrder,
+      p_awards: resolution.awarded.map(o => ({ claim_id: o.claim.id, priority: o.priority })),
+      p_failures: resolution.failed.map(o => ({ claim_id: o.claim.id, priority: o.priority, reason: o.reason })),
+      p_final_order: waivers.priorityMode === 'rolling' ? resolution.finalOrder : null,
+      p_as_of: new Date(now).toISOString(),
+    });
+    if (applyErr) throw applyErr;
+
+    const applied = data as { success: boolean; error?: string; run_id?: string; awarded?: number; failed?: number };
+    if (!applied.success) {
+      logger.error('processWaivers: rejected', applied.error, { leagueId, seasonYear });
+      return { success: false, error: applied.error || 'Failed to process waivers', ...empty };
+    }
+
+    const runId = applied.run_id;
+    const awardedCount = applied.awarded || 0;
+    const failedCount = applied.failed || 0;
+    logger.info('processWaivers: success', { leagueId, seasonYear, runId, awarded: awardedCount, failed: failedCount, deferred });
+    return { success: true, runId, awarded: awardedCount, failed: failedCount, deferred };
+  } catch (err) {
+    logger.error('processWaivers: failed', err, { leagueId, seasonYear });
+    const message = (err as { message?: string })?.message || 'Failed to process waivers';
+    return { success: false, error: message, ...empty };
+  }
+}
@@ -5,12 +5,13 @@ import { supabase } from '../lib/supabase';
 import { logger } from '../lib/logger';
 import { useCanManageLeague } from '../hooks/useCanManageLeague';
 import { useLeague } from '../contexts/LeagueContext';
+import { DEFAULT_KEEPER_RULES } from '../types';
 import type { Team } from '../types';
 
 interface DraftPick {
   id: string;                    // e.g., "mns_1" for pick #1
   pickNumber: number;             // 1-156
-  round: number;                  // 1-13
+  round: number;                  // 1-draftRounds
   pickInRound: number;            // 1-12
   originalTeam: string;           // Team ID that originally owned it
   originalTeamName: string;       // "Lakers" (for display)
@@ -21,7 +22,8 @@ interface DraftPick {
 
 export function AdminDraftPicks() {
   const canManage = useCanManageLeague();
-  const { currentLeagueId } = useLeague();
+  const { currentLeagueId, currentLeague } = useLeague();
+  const draftRounds = (currentLeague?.keeperRules ?? DEFAULT_KEEPER_RULES).draftRounds;
   const navigate = useNavigate();
 
   const [teams, setTeams] = useState<Team[]>([]);
@@ -114,7 +116,7 @@ export function AdminDraftPicks() {
 
     const confirmed = window.confirm(
       `Initialize draft picks?\n\n` +
-      `This will create 156 picks (12 teams × 13 rounds) in snake order.\n\n` +
+      `This will create ${12 * draftRounds} picks (12 teams × ${draftRounds} rounds) in snake order.\n\n` +
       `Draft order:\n${selectedTeams.map((t, i) => `${i + 1}. ${t.name}`).join('\n')}\n\n` +
       `Continue?`
     );
@@ -127,7 +129,7 @@ export function AdminDraftPicks() {
       const newPicks: DraftPick[] = [];
       let pickNumber = 1;
 
-      for (let round = 1; round <= 13; round++) {
+      for (let round = 1; round <= draftRounds; round++) {
         // Snake draft: odd rounds go forward, even rounds go backward
         const roundOrder = round % 2 === 1
           ? selectedTeams
@@ -261,7 +263,7 @@ export function AdminDraftPicks() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-white">Draft Picks Manager</h1>
-          <p className="text-gray-400 mt-2">Manage draft pick ownership and trades (13 rounds, snake format)</p>
+          <p className="text-gray-400 mt-2">Manage draft pick ownership and trades ({draftRounds} rounds, snake format)</p>
         </div>
 
         {/* Actions */}
@@ -6,6 +6,8 @@ import { logger } from '../lib/logger';
 import { useAuth } from '../contexts/AuthContext';
 import { useLeague } from '../contexts/LeagueContext';
 import { useCanManageLeague } from '../hooks/useCanManageLeague';
+import { PICK_CLOCK_OPTIONS } from '../lib/draftClock';
+import { DEFAULT_KEEPER_RULES } from '../types';
 import type { Team, Player, Draft, DraftPick, RosterDoc } from '../types';
 
 export function AdminDraftSetup() {
@@ -22,6 +24,7 @@ export function AdminDraftSetup() {
   const [existingDraft, setExistingDraft] = useState<Draft | null>(null);
   const [step, setStep] = useState<'order' | 'confirm' | 'complete'>('order');
   const [isTestDraft, setIsTestDraft] = useState(true);
+  const [pickClockSeconds, setPickClockSeconds] = useState(0);
 
   useEffect(() => {
     if (!canManage || !currentLeagueId) {
@@ -140,6 +143,7 @@ export function AdminDraftSetup() {
         } as Draft;
         setExistingDraft(draft);
         setDraftOrder(draft.draftOrder);
+        setPickClockSeconds(draft.settings?.pickClockSeconds || 0);
 
         if (draft.status === 'in_progress' || draft.status === 'completed') {
           setStep('complete');
@@ -319,7 +323,8 @@ export function AdminDraftSetup() {
       const picks: DraftPick[] = [];
       let overallPick = 1;
 
-      for (let round = 1; round <= 13; round++) {
+      const draftRounds = (currentLeague.keeperRules ?? DEFAULT_KEEPER_RULES).draftRounds;
+      for (let round = 1; round <= draftRounds; round++) {
         const roundOrder = round % 2 === 1 ? draftOrder : [...draftOrder].reverse();
 
         roundOrder.forEach((teamId, index) => {
@@ -375,6 +380,7 @@ export function AdminDraftSetup() {
         settings: {
           allowAdminOverride: true,
           isTestDraft: isTestDraft,
+          pickClockSeconds,
         },
         created_at: Date.now(),
         created_by: user?.email || 'unknown',
@@ -440,6 +446,10 @@ export function AdminDraftSetup() {
         .update({
           status: 'in_progress',
           started_at: Date.now(),
+          // Restart the clock for the first pick now that the draft is live
+          ...(existingDraft.currentPick && {
+            current_pick: { ...existingDraft.currentPick, startedAt: Date.now() },
+          }),
         })
         .eq('id', existingDraft.id);
       if (error) throw error;
@@ -686,6 +696,27 @@ export function AdminDraftSetup() {
             </label>
           </div>
 
+          {/* Pick Clock */}
+          <div className="mb-6 p-4 bg-mns-dark border border-gray-700 rounded-lg">
+            <label className="flex items-center justify-between">
+              <div>
+                <div className="font-semibold text-white">Pick Clock</div>
+                <div className="text-sm text-gray-400 mt-1">
+                  When time runs out, the team's queue (then best available) is picked automatically
+                </div>
+              </div>
+              <select
+                value={pickClockSeconds}
+                onChange={(e) => setPickClockSeconds(Number(e.target.value))}
+                className="bg-mns-card border border-gray-700 text-white rounded-lg px-3 py-2 focus:outline-none focus:border-green-400"
+              >
+                {PICK_CLOCK_OPTIONS.map(option => (
+                  <option key={option.seconds} value={option.seconds}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
           <div className="flex gap-3 mb-6">
             {currentLeague?.roster?.rookieDraftOrderMethod === 'season_record' && (
               <button
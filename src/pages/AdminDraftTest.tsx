@@ -5,6 +5,7 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLeague } from '../contexts/LeagueContext';
 import { useCanManageLeague } from '../hooks/useCanManageLeague';
+import { DEFAULT_KEEPER_RULES } from '../types';
 import type { Team } from '../types';
 
 // Mock player names for randomization
@@ -32,7 +33,8 @@ interface DraftPick {
 export function AdminDraftTest() {
   const { user } = useAuth();
   const canManage = useCanManageLeague();
-  const { currentLeagueId } = useLeague();
+  const { currentLeagueId, currentLeague } = useLeague();
+  const draftRounds = (currentLeague?.keeperRules ?? DEFAULT_KEEPER_RULES).draftRounds;
   const navigate = useNavigate();
   const [teams, setTeams] = useState<Team[]>([]);
   const [loading, setLoading] = useState(true);
@@ -81,7 +83,7 @@ export function AdminDraftTest() {
           for (let i = 0; i < keeperCount; i++) {
             let round;
             do {
-              round = Math.floor(Math.random() * 13) + 1;
+              round = Math.floor(Math.random() * draftRounds) + 1;
             } while (usedRounds.has(round));
             usedRounds.add(round);
 
@@ -106,7 +108,7 @@ export function AdminDraftTest() {
     };
 
     fetchTeams();
-  }, [canManage, currentLeagueId, navigate]);
+  }, [canManage, currentLeagueId, draftRounds, navigate]);
 
   if (!canManage) {
     navigate('/');
@@ -137,7 +139,7 @@ export function AdminDraftTest() {
     const picks: DraftPick[] = [];
     let overallPick = 1;
 
-    for (let round = 1; round <= 13; round++) {
+    for (let round = 1; round <= draftRounds; round++) {
       const roundOrder = round % 2 === 1 ? draftOrder : [...draftOrder].reverse();
 
       roundOrder.forEach((teamId, index) => {
@@ -237,7 +239,7 @@ export function AdminDraftTest() {
                 onClick={handleGenerateDraftBoard}
                 className="w-full px-6 py-3 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors"
               >
-                Generate Draft Board (13 Rounds, Snake Format)
+                Generate Draft Board ({draftRounds} Rounds, Snake Format)
               </button>
             )}
           </div>
@@ -247,7 +249,7 @@ export function AdminDraftTest() {
             {/* Round Tabs */}
             <div className="bg-mns-card rounded-lg border border-gray-800 p-4">
               <div className="flex flex-wrap gap-2">
-                {Array.from({ length: 13 }, (_, i) => i + 1).map((round) => (
+                {Array.from({ length: draftRounds }, (_, i) => i + 1).map((round) => (
                   <button
                     key={round}
                     onClick={() => setSelectedRound(round)}
@@ -373,7 +375,7 @@ export function AdminDraftTest() {
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div className="bg-mns-card rounded-lg border border-gray-800 p-4">
                 <div className="text-sm text-gray-400">Total Picks</div>
-                <div className="text-2xl font-bold text-white">{teams.length * 13}</div>
+                <div className="text-2xl font-bold text-white">{teams.length * draftRounds}</div>
               </div>
               <div className="bg-mns-card rounded-lg border border-gray-800 p-4">
                 <div className="text-sm text-gray-400">Keeper Slots</div>
@@ -3,19 +3,29 @@ import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { supabase, fetchAllRows } from '../lib/supabase';
 import { logger } from '../lib/logger';
+import { useAuth } from '../contexts/AuthContext';
 import { useCanManageLeague } from '../hooks/useCanManageLeague';
 import { AdminRosterManagement } from '../components/AdminRosterManagement';
 import { AdminMatchupManager } from '../components/AdminMatchupManager';
+import { AdminWaiverManager } from '../components/AdminWaiverManager';
+import { AdminSeasonResults } from '../components/AdminSeasonResults';
+import { SeasonRolloverWizard } from '../components/SeasonRolloverWizard';
 import { ScheduleWeekPreview } from '../components/ScheduleWeekPreview';
 import { PlayoffConfig } from '../components/PlayoffConfig';
-import type { League, TeamFees } from '../types';
-import { LEAGUE_PHASE_ORDER, LEAGUE_PHASE_LABELS } from '../types';
+import { PhaseTransitionChecklist } from '../components/PhaseTransitionChecklist';
+import { KeeperRulesEditor } from '../components/KeeperRulesEditor';
+import type { League, LeagueKeeperRules, LeaguePhase, WaiverClaimMode, WaiverPriorityMode } from '../types';
+import { LEAGUE_PHASE_ORDER, LEAGUE_PHASE_LABELS, DEFAULT_KEEPER_RULES, DEFAULT_TRADE_REVIEW_SETTINGS, DEFAULT_WAIVER_SETTINGS } from '../types';
 import { getNextPhase } from '../lib/phaseGating';
+import { evaluatePhaseTransition, performPhaseTransition, recordPhaseTransition } from '../lib/phaseTransitions';
+import type { PhaseTransitionPreview } from '../lib/phaseTransitions';
+import { lockTeamFees } from '../lib/feeOps';
 import { generateWeeks, analyzeSchedule } from '../lib/scheduleUtils';
 import type { CombinedWeekConfig, ScheduleAnalysis } from '../lib/scheduleUtils';
 import { mapLeague, mapPlayer } from '../lib/mappers';
 
 export function AdminLeague() {
+  const { user } = useAuth();
   const canManage = useCanManageLeague();
   const navigate = useNavigate();
   const [leagues, setLeagues] = useState<League[]>([]);
@@ -24,6 +34,9 @@ export function AdminLeague() {
   const [selectedLeague, setSelectedLeague] = useState<League | null>(null);
   const [showRosterManagement, setShowRosterManagement] = useState(false);
   const [showMatchupManager, setShowMatchupManager] = useState(false);
+  const [showWaiverManager, setShowWaiverManager] = useState(false);
+  const [showSeasonResults, setShowSeasonResults] = useState(false);
+  const [showRollover, setShowRollover] = useState(false);
   const [startingSeasonProcessing, setStartingSeasonProcessing] = useState(false);
   const [editForm, setEditForm] = useState({
     name: '',
@@ -59,10 +72,19 @@ export function AdminLeague() {
     'fees.redshirtFee': 10,
     'fees.franchiseTagFee': 15,
     'fees.activationFee': 25,
+    'waivers.enabled': DEFAULT_WAIVER_SETTINGS.enabled,
+    'waivers.periodHours': DEFAULT_WAIVER_SETTINGS.periodHours,
+    'waivers.priorityMode': DEFAULT_WAIVER_SETTINGS.priorityMode as WaiverPriorityMode,
+    'waivers.claimMode': DEFAULT_WAIVER_SETTINGS.claimMode as WaiverClaimMode,
+    'waivers.faabBudget': DEFAULT_WAIVER_SETTINGS.faabBudget,
+    'tradeReview.enabled': DEFAULT_TRADE_REVIEW_SETTINGS.enabled,
+    'tradeReview.reviewHours': DEFAULT_TRADE_REVIEW_SETTINGS.reviewHours,
+    'tradeReview.vetoVotesRequired': DEFAULT_TRADE_REVIEW_SETTINGS.vetoVotesRequired,
     telegramChatId: '',
   });
   const [leagueTeams, setLeagueTeams] = useState<{ id: string; name: string; abbrev: string }[]>([]);
   const [rookieDraftOrder, setRookieDraftOrder] = useState<string[]>([]);
+  const [keeperRules, setKeeperRules] = useState<LeagueKeeperRules>(DEFAULT_KEEPER_RULES);
   const [generatingWeeks, setGeneratingWeeks] = useState(false);
   const [weeksGenerated, setWeeksGenerated] = useState(false);
   const [scheduleAnalysis, setScheduleAnalysis] = useState<ScheduleAnalysis | null>(null);
@@ -191,8 +213,17 @@ export function AdminLeague() {
       'fees.redshirtFee': league.fees?.redshirtFee ?? 10,
       'fees.franchiseTagFee': league.fees?.franchiseTagFee ?? 15,
       'fees.activationFee': league.fees?.activationFee ?? 25,
+      'waivers.enabled': league.waivers?.enabled ?? DEFAULT_WAIVER_SETTINGS.enabled,
+      'waivers.periodHours': league.waivers?.periodHours ?? DEFAULT_WAIVER_SETTINGS.periodHours,
+      'waivers.priorityMode': league.waivers?.priorityMode ?? DEFAULT_WAIVER_SETTINGS.priorityMode,
+      'waivers.claimMode': league.waivers?.claimMode ?? DEFAULT_WAIVER_SETTINGS.claimMode,
+      'waivers.faabBudget': league.waivers?.faabBudget ?? DEFAULT_WAIVER_SETTINGS.faabBudget,
+      'tradeReview.enabled': league.tradeReview?.enabled ?? DEFAULT_TRADE_REVIEW_SETTINGS.enabled,
+      'tradeReview.reviewHours': league.tradeReview?.reviewHours ?? DEFAULT_TRADE_REVIEW_SETTINGS.reviewHours,
+      'tradeReview.vetoVotesRequired': league.tradeReview?.vetoVotesRequired ?? DEFAULT_TRADE_REVIEW_SETTINGS.vetoVotesRequired,
       telegramChatId: league.telegramChatId || '',
     });
+    setKeeperRules(league.keeperRules ?? DEFAULT_KEEPER_RULES);
     setWeeksGenerated(false);
     fetchScheduleAnalysis(league.seasonYear);
 
@@ -266,6 +297,19 @@ export function AdminLeague() {
             franchiseTagFee: editForm['fees.franchiseTagFee'],
             activationFee: editForm['fees.activationFee'],
           },
+          waivers: {
+            enabled: editForm['waivers.enabled'],
+            periodHours: editForm['waivers.periodHours'],
+            priorityMode: editForm['waivers.priorityMode'],
+            claimMode: editForm['waivers.claimMode'],
+            faabBudget: editForm['waivers.faabBudget'],
+          },
+          trade_review: {
+            enabled: editForm['tradeReview.enabled'],
+            reviewHours: editForm['tradeReview.reviewHours'],
+            vetoVotesRequired: editForm['tradeReview.vetoVotesRequired'],
+          },
+          keeper_rules: keeperRules,
         })
         .eq('id', selectedLeague.id);
       if (error) throw error;
@@ -320,6 +364,19 @@ export function AdminLeague() {
                   franchiseTagFee: editForm['fees.franchiseTagFee'],
                   activationFee: editForm['fees.activationFee'],
                 },
+                waivers: {
+                  enabled: editForm['waivers.enabled'],
+                  periodHours: editForm['waivers.periodHours'],
+                  priorityMode: editForm['waivers.priorityMode'],
+                  claimMode: editForm['waivers.claimMode'],
+                  faabBudget: editForm['waivers.faabBudget'],
+                },
+                tradeReview: {
+                  enabled: editForm['tradeReview.enabled'],
+                  reviewHours: editForm['tradeReview.reviewHours'],
+                  vetoVotesRequired: editForm['tradeReview.vetoVotesRequired'],
+                },
+                keeperRules,
               }
             : league
         )
@@ -330,6 +387,19 @@ export function AdminLeague() {
         name: editForm.name,
         seasonYear: editForm.seasonYear,
         scoringMode: editForm.scoringMode,
+        waivers: {
+          enabled: editForm['waivers.enabled'],
+          periodHours: editForm['waivers.periodHours'],
+          priorityMode: editForm['waivers.priorityMode'],
+          claimMode: editForm['waivers.claimMode'],
+          faabBudget: editForm['waivers.faabBudget'],
+        },
+        tradeReview: {
+          enabled: editForm['tradeReview.enabled'],
+          reviewHours: editForm['tradeReview.reviewHours'],
+          vetoVotesRequired: editForm['tradeReview.vetoVotesRequired'],
+        },
+        keeperRules,
       } : null);
 
       toast.success('League updated successfully!');
@@ -401,63 +471,73 @@ export function AdminLeague() {
     }
   };
 
-  const handleAdvancePhase = async () => {
+  // Every phase change goes through the transition state machine: preconditions
+  // are checked (blockers need an explicit override), side effects run on
+  // forward moves, and the change is written to the audit log
+  const changePhase = async (to: LeaguePhase) => {
     if (!selectedLeague) return;
 
-    const nextPhase = getNextPhase(selectedLeague.leaguePhase);
-    if (!nextPhase) return;
-
-    const confirmed = confirm(
-      `Advance to ${LEAGUE_PHASE_LABELS[nextPhase]}?\n\n` +
-      `Current: ${LEAGUE_PHASE_LABELS[selectedLeague.leaguePhase]}\n` +
-      `This affects all users in the league.`
-    );
-    if (!confirmed) return;
+    let preview: PhaseTransitionPreview;
+    try {
+      preview = await evaluatePhaseTransition(selectedLeague, to);
+    } catch (error) {
+      logger.error('Error checking phase preconditions:', error);
+      toast.error(`Couldn't check preconditions: ${(error as { message?: string })?.message || error}`);
+      return;
+    }
 
-    const { error } = await supabase
-      .from('leagues')
-      .update({ league_phase: nextPhase })
-      .eq('id', selectedLeague.id);
+    const lines = [
+      `${preview.isForward ? 'Advance' : 'Revert'} to ${LEAGUE_PHASE_LABELS[to]}?`,
+      '',
+      `Current: ${LEAGUE_PHASE_LABELS[selectedLeague.leaguePhase]}`,
+      ...(preview.isForward ? [] : ['', 'Only do this if the phase was changed by mistake.']),
+      ...(preview.sideEffects.length > 0 ? ['', 'This will:', ...preview.sideEffects.map(e => `- ${e.label}`)] : []),
+      ...(preview.blockers.length > 0
+        ? ['', 'UNRESOLVED BLOCKERS:', ...preview.blockers.map(b => `- ${b.label}${b.detail ? ` (${b.detail})` : ''}`), '', 'Continue anyway? The override is recorded.']
+        : ['', 'This affects all users in the league.']),
+    ];
+    if (!confirm(lines.join('\n'))) return;
+
+    const result = await performPhaseTransition({
+      league: selectedLeague,
+      to,
+      performedBy: user?.email || 'unknown',
+      force: preview.blockers.length > 0,
+    });
 
-    if (error) {
-      toast.error(`Failed to advance phase: ${error.message}`);
+    if (!result.success) {
+      toast.error(`Failed to change phase: ${result.error}`);
       return;
     }
 
     setLeagues(prev => prev.map(l =>
-      l.id === selectedLeague.id ? { ...l, leaguePhase: nextPhase } : l
+      l.id === selectedLeague.id ? { ...l, leaguePhase: to } : l
     ));
-    setSelectedLeague(prev => prev ? { ...prev, leaguePhase: nextPhase } : null);
+    setSelectedLeague(prev => prev ? { ...prev, leaguePhase: to } : null);
+
+    const failed = result.outcomes.filter(o => !o.success);
+    if (failed.length > 0) {
+      toast.error(`Phase set to ${LEAGUE_PHASE_LABELS[to]}, but ${failed.map(o => `${o.label.toLowerCase()} failed: ${o.detail}`).join('; ')}`);
+    } else {
+      toast.success(`Phase set to ${LEAGUE_PHASE_LABELS[to]}`);
+    }
+    result.outcomes.filter(o => o.success && o.detail).forEach(o => toast.info(`${o.label}: ${o.detail}`));
+
+    // Open the results form when the podium couldn't be taken from the bracket
+    const podium = result.outcomes.find(o => o.id === 'record_podium');
+    if (to === 'champion' && !(podium?.success && !podium.detail?.startsWith('Skipped'))) setShowSeasonResults(true);
   };
 
-  const handleRevertPhase = async () => {
+  const handleAdvancePhase = async () => {
     if (!selectedLeague) return;
+    const nextPhase = getNextPhase(selectedLeague.leaguePhase);
+    if (nextPhase) await changePhase(nextPhase);
+  };
 
+  const handleRevertPhase = async () => {
+    if (!selectedLeague) return;
     const idx = LEAGUE_PHASE_ORDER.indexOf(selectedLeague.leaguePhase);
-    if (idx <= 0) return;
-    const prevPhase = LEAGUE_PHASE_ORDER[idx - 1];
-
-    const confirmed = confirm(
-      `Revert to ${LEAGUE_PHASE_LABELS[prevPhase]}?\n\n` +
-      `Current: ${LEAGUE_PHASE_LABELS[selectedLeague.leaguePhase]}\n\n` +
-      `Only do this if the phase was advanced by mistake.`
-    );
-    if (!confirmed) return;
-
-    const { error } = await supabase
-      .from('leagues')
-      .update({ league_phase: prevPhase })
-      .eq('id', selectedLeague.id);
-
-    if (error) {
-      toast.error(`Failed to revert phase: ${error.message}`);
-      return;
-    }
-
-    setLeagues(prev => prev.map(l =>
-      l.id === selectedLeague.id ? { ...l, leaguePhase: prevPhase } : l
-    ));
-    setSelectedLeague(prev => prev ? { ...prev, leaguePhase: prevPhase } : null);
+    if (idx > 0) await changePhase(LEAGUE_PHASE_ORDER[idx - 1]);
   };
 
   // Load team fee overview for the fee management section
@@ -623,89 +703,7 @@ export function AdminLeague() {
 
     try {
       setStartingSeasonProcessing(true);
-
-      // Load teams and players for this league
-      const { data: teamsRows, error: teamsErr } = await supabase
-        .from('teams')
-        .select('id, name')
-        .eq('league_id', selectedLeague.id);
-      if (teamsErr) throw teamsErr;
-
-      const playersRows = await fetchAllRows('players', '*', (q: any) => q.eq('league_id', selectedLeague.id));
-      const allPlayers = playersRows.map(mapPlayer);
-
-      let teamsProcessed = 0;
-      const errors: string[] = [];
-
-      for (const team of (teamsRows || [])) {
-        try {
-          // Sum salary from active + bench + ir players on this team
-          let totalSalary = 0;
-          allPlayers
-            .filter(p => p.roster.teamId === team.id && ['active', 'bench', 'ir'].includes(p.slot))
-            .forEach(p => { totalSalary += p.salary || 0; });
-
-          const leagueSecondApron2 = selectedLeague.cap?.secondApron || 225_000_000;
-          const leaguePenaltyRate2 = selectedLeague.fees?.penaltyRatePerM ?? 2;
-          const overBy = (leagueSecondApron2 > 0) ? Math.max(0, totalSalary - leagueSecondApron2) : 0;
-          const overByM = Math.ceil(overBy / 1_000_000);
-          const currentPenalty = overByM * leaguePenaltyRate2;
-
-          const feesId = `${selectedLeague.id}_${team.id}_${selectedLeague.seasonYear}`;
-
-          const { data: existingFeesRows } = await supabase
-            .from('team_fees')
-            .select('*')
-            .eq('id', feesId);
-
-          let existingFees: TeamFees | null = null;
-          if (existingFeesRows && existingFeesRows.length > 0) {
-            const r = existingFeesRows[0];
-            existingFees = {
-              id: r.id,
-              franchiseTagFees: r.franchise_tag_fees,
-              redshirtFees: r.redshirt_fees,
-              firstApronFee: r.first_apron_fee,
-              secondApronPenalty: r.second_apron_penalty,
-              totalFees: r.total_fees,
-              feesLocked: r.fees_locked,
-            } as TeamFees;
-          }
-
-          // Sticky: preserve existing first apron charge; only add for newly over teams
-          const leagueFirstApron2 = selectedLeague.cap?.firstApron || 195_000_000;
-          const leagueFirstApronFee2 = selectedLeague.fees?.firstApronFee ?? 50;
-          const firstApronFee = (existingFees?.firstApronFee && existingFees.firstApronFee > 0)
-            ? existingFees.firstApronFee
-            : ((leagueFirstApron2 > 0 && totalSalary > leagueFirstApron2) ? leagueFirstApronFee2 : 0);
-
-          // Highest watermark: never drop below previously stored penalty
-          const secondApronPenalty = Math.max(existingFees?.secondApronPenalty || 0, currentPenalty);
-
-          const franchiseTagFees = existingFees?.franchiseTagFees || 0;
-          const redshirtFees = existingFees?.redshirtFees || 0;
-          const unredshirtFees = existingFees ? (existingFeesRows![0].unredshirt_fees || 0) : 0;
-          const totalFees = franchiseTagFees + redshirtFees + unredshirtFees + firstApronFee + secondApronPenalty;
-
-          const { error: updateErr } = await supabase
-            .from('team_fees')
-            .update({
-              first_apron_fee: firstApronFee,
-              second_apron_penalty: secondApronPenalty,
-              total_fees: totalFees,
-              fees_locked: true,
-              locked_at: new Date().toISOString(),
-            })
-            .eq('id', feesId);
-          if (updateErr) throw updateErr;
-
-          teamsProcessed++;
-        } catch (error) {
-          logger.error(`Error processing team ${team.id}:`, error);
-          errors.push(`Team ${team.name}: ${error}`);
-        }
-      }
-
+      const { teamsProcessed, errors } = await lockTeamFees(selectedLeague);
       setStartingSeasonProcessing(false);
 
       if (errors.length > 0) {
@@ -768,6 +766,20 @@ export function AdminLeague() {
               >
                 Manage Rosters
               </button>
+              {selectedLeague.waivers?.enabled && (
+                <button
+                  onClick={() => setShowWaiverManager(true)}
+                  className="px-5 py-2.5 bg-yellow-500 text-black font-semibold rounded-lg hover:bg-yellow-600 transition-colors text-sm"
+                >
+                  Manage Waivers
+                </button>
+              )}
+              <button
+                onClick={() => setShowSeasonResults(true)}
+                className="px-5 py-2.5 border border-yellow-400/30 text-yellow-400 font-semibold rounded-lg hover:bg-yellow-400/10 transition-colors text-sm"
+              >
+                Season Results
+              </button>
             </div>
           )}
         </div>
@@ -843,26 +855,9 @@ export function AdminLeague() {
                 )}
                 <select
                   value={selectedLeague.leaguePhase}
-                  onChange={async (e) => {
-                    const newPhase = e.target.value as typeof selectedLeague.leaguePhase;
-                    if (newPhase === selectedLeague.leaguePhase) return;
-                    const confirmed = confirm(
-                      `Set phase directly to ${LEAGUE_PHASE_LABELS[newPhase]}?\n\nCurrent: ${LEAGUE_PHASE_LABELS[selectedLeague.leaguePhase]}`
-                    );
-                    if (!confirmed) return;
-                    const { error } = await supabase
-                      .from('leagues')
-                      .update({ league_phase: newPhase })
-                      .eq('id', selectedLeague.id);
-                    if (error) {
-                      toast.error(`Failed to set phase: ${error.message}`);
-                      return;
-                    }
-                    setLeagues(prev => prev.map(l =>
-                      l.id === selectedLeague.id ? { ...l, leaguePhase: newPhase } : l
-                    ));
-                    setSelectedLeague(prev => prev ? { ...prev, leaguePhase: newPhase } : null);
-                    toast.success(`Phase set to ${LEAGUE_PHASE_LABELS[newPhase]}`);
+                  onChange={(e) => {
+                    const newPhase = e.target.value as LeaguePhase;
+                    if (newPhase !== selectedLeague.leaguePhase) changePhase(newPhase);
                   }}
                   className="px-3 py-2.5 text-sm bg-mns-dark border border-gray-700 rounded-lg text-gray-400 hover:text-white focus:outline-none focus:border-green-400"
                 >
@@ -870,6 +865,14 @@ export function AdminLeague() {
                     <option key={phase} value={phase}>{LEAGUE_PHASE_LABELS[phase]}</option>
                   ))}
                 </select>
+                {selectedLeague.leaguePhase === 'champion' && (
+                  <button
+                    onClick={() => setShowRollover(true)}
+                    className="px-5 py-2.5 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 transition-colors"
+                  >
+                    Roll Over to {selectedLeague.seasonYear + 1}
+                  </button>
+                )}
                 {selectedLeague.leaguePhase === 'regular_season' && (
                   <button
                     onClick={handleLockFees}
@@ -880,6 +883,11 @@ export function AdminLeague() {
                   </button>
                 )}
               </div>
+
+              <PhaseTransitionChecklist
+                league={selectedLeague}
+                nextPhase={getNextPhase(selectedLeague.leaguePhase)}
+              />
             </div>
 
             {/* Basic Info */}
@@ -1086,6 +1094,109 @@ export function AdminLeague() {
               )}
             </div>
 
+            {/* Keeper Rules */}
+            <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
+              <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4">Keeper Rules</h2>
+              <KeeperRulesEditor rules={keeperRules} onChange={setKeeperRules} inputClass={inputClass} />
+            </div>
+
+            {/* Waiver Settings */}
+            <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
+              <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4">Waiver Settings</h2>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Waivers</label>
+                  <select
+                    value={editForm['waivers.enabled'] ? 'on' : 'off'}
+                    onChange={(e) => setEditForm({ ...editForm, 'waivers.enabled': e.target.value === 'on' })}
+                    className={inputClass}
+                  >
+                    <option value="off">Off (instant adds)</option>
+                    <option value="on">On</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Waiver Period (hours)</label>
+                  <input type="number" min={1} max={168} value={editForm['waivers.periodHours']}
+                    disabled={!editForm['waivers.enabled']}
+                    onChange={(e) => setEditForm({ ...editForm, 'waivers.periodHours': parseInt(e.target.value) || DEFAULT_WAIVER_SETTINGS.periodHours })}
+                    className={`${inputClass} disabled:opacity-50`} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Claim Priority</label>
+                  <select
+                    value={editForm['waivers.priorityMode']}
+                    disabled={!editForm['waivers.enabled']}
+                    onChange={(e) => setEditForm({ ...editForm, 'waivers.priorityMode': e.target.value as WaiverPriorityMode })}
+                    className={`${inputClass} disabled:opacity-50`}
+                  >
+                    <option value="rolling">Rolling (winner moves to back)</option>
+                    <option value="reverse_standings">Reverse Standings</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Claim Type</label>
+                  <select
+                    value={editForm['waivers.claimMode']}
+                    disabled={!editForm['waivers.enabled']}
+                    onChange={(e) => setEditForm({ ...editForm, 'waivers.claimMode': e.target.value as WaiverClaimMode })}
+                    className={`${inputClass} disabled:opacity-50`}
+                  >
+                    <option value="priority">Waiver Priority</option>
+                    <option value="faab">FAAB Blind Bids</option>
+                  </select>
+                </div>
+                {editForm['waivers.claimMode'] === 'faab' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1">FAAB Budget ($)</label>
+                    <input type="number" min={0} value={editForm['waivers.faabBudget']}
+                      disabled={!editForm['waivers.enabled']}
+                      onChange={(e) => setEditForm({ ...editForm, 'waivers.faabBudget': parseInt(e.target.value) || 0 })}
+                      className={`${inputClass} disabled:opacity-50`} />
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Dropped players sit on waivers for the waiver period. Owners submit claims; a commissioner processing run awards them by priority.
+                {editForm['waivers.claimMode'] === 'faab' && ' With FAAB, the highest blind bid wins and claim priority only breaks ties.'}
+              </p>
+            </div>
+
+            {/* Trade Review Settings */}
+            <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
+              <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4">Trade Review</h2>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Review Period</label>
+                  <select
+                    value={editForm['tradeReview.enabled'] ? 'on' : 'off'}
+                    onChange={(e) => setEditForm({ ...editForm, 'tradeReview.enabled': e.target.value === 'on' })}
+                    className={inputClass}
+                  >
+                    <option value="off">Off (execute on acceptance)</option>
+                    <option value="on">On</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Review Window (hours)</label>
+                  <input type="number" min={1} max={168} value={editForm['tradeReview.reviewHours']}
+                    disabled={!editForm['tradeReview.enabled']}
+                    onChange={(e) => setEditForm({ ...editForm, 'tradeReview.reviewHours': parseInt(e.target.value) || DEFAULT_TRADE_REVIEW_SETTINGS.reviewHours })}
+                    className={`${inputClass} disabled:opacity-50`} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-1">Veto Votes Required</label>
+                  <input type="number" min={1} max={30} value={editForm['tradeReview.vetoVotesRequired']}
+                    disabled={!editForm['tradeReview.enabled']}
+                    onChange={(e) => setEditForm({ ...editForm, 'tradeReview.vetoVotesRequired': parseInt(e.target.value) || DEFAULT_TRADE_REVIEW_SETTINGS.vetoVotesRequired })}
+                    className={`${inputClass} disabled:opacity-50`} />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Accepted trades wait out the review window before executing. Owners of uninvolved teams can vote to veto, and the commissioner can veto with a reason from the Trade Manager.
+              </p>
+            </div>
+
             {/* Fee Settings */}
             <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
               <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4">Fee Settings</h2>
@@ -1456,6 +1567,49 @@ export function AdminLeague() {
           onClose={() => setShowMatchupManager(false)}
         />
       )}
+
+      {/* Waiver Manager Modal */}
+      {showWaiverManager && selectedLeague && (
+        <AdminWaiverManager
+          leagueId={selectedLeague.id}
+          seasonYear={selectedLeague.seasonYear}
+          scoringMode={selectedLeague.scoringMode}
+          waiverSettings={selectedLeague.waivers ?? DEFAULT_WAIVER_SETTINGS}
+          onClose={() => setShowWaiverManager(false)}
+        />
+      )}
+
+      {/* Season Results Modal */}
+      {showSeasonResults && selectedLeague && (
+        <AdminSeasonResults
+          leagueId={selectedLeague.id}
+          seasonYear={selectedLeague.seasonYear}
+          onClose={() => setShowSeasonResults(false)}
+        />
+      )}
+
+      {/* Season Rollover Wizard */}
+      {showRollover && selectedLeague && (
+        <SeasonRolloverWizard
+          leagueId={selectedLeague.id}
+          seasonYear={selectedLeague.seasonYear}
+          onClose={() => setShowRollover(false)}
+          onComplete={(seasonYear, leaguePhase) => {
+            // Re-select so the edit form picks up the new season year
+            const rolled: League = { ...selectedLeague, seasonYear, leaguePhase, keepersLocked: false, draftStatus: undefined, seasonStatus: 'pre_season' };
+            setLeagues(prev => prev.map(l => (l.id === rolled.id ? rolled : l)));
+            handleSelectLeague(rolled);
+            setShowRollover(false);
+            recordPhaseTransition({
+              leagueId: rolled.id,
+              seasonYear,
+              from: selectedLeague.leaguePhase,
+              to: leaguePhase,
+              performedBy: user?.email || 'unknown',
+            });
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -5,7 +5,10 @@ import { supabase } from '../lib/supabase';
 import { logger } from '../lib/logger';
 import { useCanManageLeague } from '../hooks/useCanManageLeague';
 import { useLeague } from '../contexts/LeagueContext';
+import { AdminTradeReviewPanel } from '../components/AdminTradeReviewPanel';
+import { AdminTradeDeadlinePanel } from '../components/AdminTradeDeadlinePanel';
 import type { Team, Player, RosterDoc } from '../types';
+import { DEFAULT_TRADE_REVIEW_SETTINGS } from '../types';
 
 interface RookieDraftPick {
   id: string;
@@ -384,6 +387,22 @@ export function AdminTradeManager() {
           <p className="text-gray-400 mt-2">Manage multi-team trades</p>
         </div>
 
+        {currentLeagueId && (
+          <AdminTradeReviewPanel
+            leagueId={currentLeagueId}
+            settings={currentLeague?.tradeReview ?? DEFAULT_TRADE_REVIEW_SETTINGS}
+            onTradeExecuted={loadData}
+          />
+        )}
+
+        {currentLeagueId && (
+          <AdminTradeDeadlinePanel
+            leagueId={currentLeagueId}
+            schedule={currentLeague?.schedule}
+            teams={teams}
+          />
+        )}
+
         {/* Step 1: Select Teams */}
         <div className="bg-mns-card rounded-lg border border-gray-800 p-6 mb-6">
           <h2 className="text-xl font-bold text-white mb-4">Step 1: Select Teams Involved</h2>
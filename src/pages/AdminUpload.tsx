@@ -6,13 +6,15 @@ import { useNavigate } from 'react-router-dom';
 import { useIsSiteAdmin } from '../hooks/useCanManageLeague';
 import { baseKeeperRound } from '../lib/keeperAlgorithms';
 import { toAbbrev } from '../lib/nbaTeams';
+import { parseBoxScoreRow } from '../lib/matchupScoring';
 import Papa from 'papaparse';
 import type { Player } from '../types';
+import { DEFAULT_KEEPER_RULES } from '../types';
 
 export function AdminUpload() {
   const isSiteAdmin = useIsSiteAdmin();
   const navigate = useNavigate();
-  const [uploadType, setUploadType] = useState<'players' | 'projectedStats' | 'previousStats' | 'prospects' | 'schedule'>('players');
+  const [uploadType, setUploadType] = useState<'players' | 'projectedStats' | 'previousStats' | 'prospects' | 'schedule' | 'boxScores'>('players');
   const [file, setFile] = useState<File | null>(null);
   const [leagueId, setLeagueId] = useState('');
   const [uploading, setUploading] = useState(false);
@@ -433,6 +435,58 @@ export function AdminUpload() {
     }
   };
 
+  const handleUploadBoxScores = async () => {
+    if (!file) {
+      toast.error('Please select a file');
+      return;
+    }
+
+    setUploading(true);
+    const errors: string[] = [];
+    let successCount = 0;
+
+    try {
+      const text = await file.text();
+      // Accept either a CSV export or a JSON array of box score objects
+      const rows: Record<string, unknown>[] = file.name.toLowerCase().endsWith('.json')
+        ? JSON.parse(text)
+        : await parseCSV(text);
+
+      if (!Array.isArray(rows)) {
+        throw new Error('JSON file must contain an array of box scores');
+      }
+
+      setProgress({ current: 0, total: rows.length });
+
+      const batch: NonNullable<ReturnType<typeof parseBoxScoreRow>>[] = [];
+      for (let i = 0; i < rows.length; i++) {
+        const parsed = parseBoxScoreRow(rows[i]);
+        if (!parsed) {
+          errors.push(`Row ${i + 2}: missing fantraxId or date (YYYY-MM-DD)`);
+          continue;
+        }
+        batch.push(parsed);
+      }
+
+      // Upsert in chunks of 500 — re-uploading a day replaces its stat lines
+      for (let i = 0; i < batch.length; i += 500) {
+        const chunk = batch.slice(i, i + 500);
+        const { error } = await supabase
+          .from('player_box_scores')
+          .upsert(chunk, { onConflict: 'id' });
+        if (error) throw error;
+        successCount += chunk.length;
+        setProgress({ current: Math.min(i + 500, batch.length), total: rows.length });
+      }
+
+      setResults({ success: successCount, errors });
+    } catch (error: any) {
+      toast.error(`Upload failed: ${error.message}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
   const handleUpload = async () => {
     if (uploadType === 'projectedStats') {
       return handleUploadProjectedStats();
@@ -450,6 +504,10 @@ export function AdminUpload() {
       return handleUploadSchedule();
     }
 
+    if (uploadType === 'boxScores') {
+      return handleUploadBoxScores();
+    }
+
     if (!file || !leagueId) {
       toast.error('Please select a file and enter league ID');
       return;
@@ -463,6 +521,14 @@ export function AdminUpload() {
       const text = await file.text();
       const rows = await parseCSV(text);
 
+      // Derived base rounds follow the league's keeper rules
+      const { data: leagueRow } = await supabase
+        .from('leagues')
+        .select('keeper_rules')
+        .eq('id', leagueId)
+        .maybeSingle();
+      const keeperRules = { ...DEFAULT_KEEPER_RULES, ...leagueRow?.keeper_rules };
+
       setProgress({ current: 0, total: rows.length });
 
       for (let i = 0; i < rows.length; i++) {
@@ -508,7 +574,7 @@ export function AdminUpload() {
 
           // Calculate derived base round
           if (player.keeper || player.roster?.rookieDraftInfo) {
-            const derivedBaseRound = baseKeeperRound(player as Player);
+            const derivedBaseRound = baseKeeperRound(player as Player, keeperRules);
             if (derivedBaseRound) {
               player.keeper = player.keeper || {};
               player.keeper.derivedBaseRound = derivedBaseRound;
@@ -557,7 +623,7 @@ export function AdminUpload() {
 
   const progressPercent = progress.total > 0 ? (progress.current / progress.total) * 100 : 0;
 
-  const handleDeleteCollection = async (collectionName: 'players' | 'projectedStats' | 'previousStats' | 'prospects' | 'schedule') => {
+  const handleDeleteCollection = async (collectionName: 'players' | 'projectedStats' | 'previousStats' | 'prospects' | 'schedule' | 'boxScores') => {
     // Map collection names to Supabase table names
     const tableMap: Record<string, string> = {
       players: 'players',
@@ -565,6 +631,7 @@ export function AdminUpload() {
       previousStats: 'previous_stats',
       prospects: 'prospects',
       schedule: 'games',
+      boxScores: 'player_box_scores',
     };
     const tableName = tableMap[collectionName];
 
@@ -643,7 +710,7 @@ export function AdminUpload() {
             <select
               value={uploadType}
               onChange={(e) => {
-                setUploadType(e.target.value as 'players' | 'projectedStats' | 'previousStats' | 'prospects' | 'schedule');
+                setUploadType(e.target.value as 'players' | 'projectedStats' | 'previousStats' | 'prospects' | 'schedule' | 'boxScores');
                 setFile(null);
                 setResults(null);
               }}
@@ -654,6 +721,7 @@ export function AdminUpload() {
               <option value="previousStats">Previous Season Stats (2024-25)</option>
               <option value="prospects">Prospects (Draft Rankings)</option>
               <option value="schedule">NBA Schedule (Basketball Reference)</option>
+              <option value="boxScores">Daily Box Scores (Matchup Scoring)</option>
             </select>
           </div>
 
@@ -677,11 +745,11 @@ export function AdminUpload() {
           {/* File upload */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              CSV File
+              {uploadType === 'boxScores' ? 'CSV or JSON File' : 'CSV File'}
             </label>
             <input
               type="file"
-              accept=".csv"
+              accept={uploadType === 'boxScores' ? '.csv,.json' : '.csv'}
               onChange={handleFileChange}
               className="block w-full text-sm text-gray-500
                 file:mr-4 file:py-2 file:px-4
@@ -701,7 +769,7 @@ export function AdminUpload() {
           {uploading && (
             <div className="mb-6">
               <div className="flex justify-between text-sm text-gray-600 mb-2">
-                <span>Uploading {uploadType === 'players' ? 'players' : uploadType === 'projectedStats' ? 'projected stats' : uploadType === 'previousStats' ? 'previous stats' : uploadType === 'prospects' ? 'prospects' : 'games'}...</span>
+                <span>Uploading {uploadType === 'players' ? 'players' : uploadType === 'projectedStats' ? 'projected stats' : uploadType === 'previousStats' ? 'previous stats' : uploadType === 'prospects' ? 'prospects' : uploadType === 'boxScores' ? 'box scores' : 'games'}...</span>
                 <span>{progress.current} / {progress.total}</span>
               </div>
               <div className="w-full bg-gray-200 rounded-full h-4">
@@ -725,6 +793,7 @@ export function AdminUpload() {
                uploadType === 'projectedStats' ? 'Upload Projected Stats' :
                uploadType === 'previousStats' ? 'Upload Previous Stats' :
                uploadType === 'prospects' ? 'Upload Prospects' :
+               uploadType === 'boxScores' ? 'Upload Box Scores' :
                'Upload Schedule'}
             </button>
 
@@ -742,7 +811,7 @@ export function AdminUpload() {
             <div className="mt-6">
               <div className="bg-green-50 border border-green-200 rounded p-4 mb-4">
                 <p className="text-green-800 font-semibold">
-                  ✓ Successfully uploaded {results.success} {uploadType === 'players' ? 'players' : uploadType === 'projectedStats' ? 'projected stats' : uploadType === 'previousStats' ? 'previous stats' : uploadType === 'prospects' ? 'prospects' : 'games'}
+                  ✓ Successfully uploaded {results.success} {uploadType === 'players' ? 'players' : uploadType === 'projectedStats' ? 'projected stats' : uploadType === 'previousStats' ? 'previous stats' : uploadType === 'prospects' ? 'prospects' : uploadType === 'boxScores' ? 'box scores' : 'games'}
                 </p>
               </div>
 
@@ -765,7 +834,29 @@ export function AdminUpload() {
           <div className="mt-8 border-t pt-6">
             <h3 className="font-semibold text-gray-900 mb-3">CSV Format</h3>
 
-            {uploadType === 'schedule' ? (
+            {uploadType === 'boxScores' ? (
+              <>
+                <p className="text-sm text-gray-600 mb-2">
+                  One row per player per game date. Used by Manage Matchups → Score from Box Scores.
+                </p>
+                <div className="bg-gray-50 p-4 rounded text-xs font-mono overflow-x-auto">
+                  date,fantraxId,name,nbaTeam,MIN,FGM,FGA,FTM,FTA,3PTM,PTS,REB,AST,ST,BLK,TO
+                </div>
+                <div className="mt-4 text-sm text-gray-600 space-y-2">
+                  <p><strong>Required:</strong> date (YYYY-MM-DD), fantraxId</p>
+                  <p><strong>Makes and attempts:</strong> FG% and FT% are computed from weekly totals, so upload FGM/FGA and FTM/FTA rather than percentages</p>
+                  <p><strong>JSON:</strong> An array of objects with the same keys (camelCase like fgm, turnovers also accepted)</p>
+                  <p><strong>Safe to re-upload:</strong> Uses upsert on fantraxId + date, so stat corrections replace the old line</p>
+                </div>
+                <div className="mt-4">
+                  <h4 className="font-semibold text-sm mb-2">Example CSV:</h4>
+                  <div className="bg-gray-50 p-4 rounded text-xs font-mono overflow-x-auto">
+                    date,fantraxId,name,FGM,FGA,FTM,FTA,3PTM,PTS,REB,AST,ST,BLK,TO<br/>
+                    2025-10-22,lbj001,LeBron James,10,19,6,8,2,28,8,9,1,1,4
+                  </div>
+                </div>
+              </>
+            ) : uploadType === 'schedule' ? (
               <>
                 <p className="text-sm text-gray-600 mb-2">
                   Download monthly schedule CSVs from Basketball Reference (Share &amp; Export &gt; CSV).
@@ -4,8 +4,9 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLeague } from '../contexts/LeagueContext';
 import { toast } from 'sonner';
-import type { Sport, LeagueCapSettings, LeaguePhase, LeagueFeeSettings } from '../types';
-import { NBA_CAP_DEFAULTS, WNBA_CAP_DEFAULTS, DEFAULT_ROSTER_SETTINGS, NBA_FEE_DEFAULTS, WNBA_FEE_DEFAULTS, LEAGUE_PHASE_LABELS } from '../types';
+import { KeeperRulesEditor } from '../components/KeeperRulesEditor';
+import type { Sport, LeagueCapSettings, LeaguePhase, LeagueFeeSettings, LeagueKeeperRules } from '../types';
+import { NBA_CAP_DEFAULTS, WNBA_CAP_DEFAULTS, DEFAULT_ROSTER_SETTINGS, NBA_FEE_DEFAULTS, WNBA_FEE_DEFAULTS, DEFAULT_KEEPER_RULES, LEAGUE_PHASE_LABELS } from '../types';
 
 // TODO: Wizard should eventually include these LM config steps:
 // - Schedule length (number of weeks, season start date)
@@ -35,6 +36,7 @@ interface WizardState {
   numTeams: number;
   leaguePhase: LeaguePhase;
   fees: LeagueFeeSettings;
+  keeperRules: LeagueKeeperRules;
   isCarryOver: boolean;
   teams: WizardTeam[];
 }
@@ -99,6 +101,7 @@ export function CreateLeague() {
     numTeams: 10,
     leaguePhase: 'keeper_season',
     fees: NBA_FEE_DEFAULTS,
+    keeperRules: DEFAULT_KEEPER_RULES,
     isCarryOver: false,
     teams: makeEmptyTeams(10, user?.email ?? undefined),
   });
@@ -162,6 +165,7 @@ export function CreateLeague() {
           fees: state.fees,
           scoring_mode: 'category_record',
           roster: DEFAULT_ROSTER_SETTINGS,
+          keeper_rules: state.keeperRules,
           deadlines: {},
         });
 
@@ -519,6 +523,12 @@ function StepBasics({
           sport={state.sport}
           onUpdate={(fees) => onUpdate({ fees })}
         />
+
+        {/* Keeper Rules */}
+        <KeeperRulesConfig
+          rules={state.keeperRules}
+          onUpdate={(keeperRules) => onUpdate({ keeperRules })}
+        />
       </div>
 
       {/* Navigation */}
@@ -809,6 +819,46 @@ function FeeConfig({
   );
 }
 
+function KeeperRulesConfig({
+  rules,
+  onUpdate,
+}: {
+  rules: LeagueKeeperRules;
+  onUpdate: (rules: LeagueKeeperRules) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="bg-mns-dark rounded-lg border border-gray-800">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div>
+          <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Keeper Rules</span>
+          <p className="text-sm text-gray-400 mt-0.5">
+            Draft rounds: <span className="text-white font-semibold">{rules.draftRounds}</span>
+            <span className="ml-2">Free R1 keepers: <span className="text-white font-semibold">{rules.freeFirstRoundKeepers}</span></span>
+          </p>
+        </div>
+        <svg className={`w-4 h-4 text-gray-500 transition-transform ${expanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4">
+          <KeeperRulesEditor
+            rules={rules}
+            onChange={onUpdate}
+            inputClass="w-full px-3 py-2 bg-mns-card border border-gray-700 rounded-lg text-white text-sm focus:border-green-400 focus:outline-none transition-colors"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── Step 5: Review & Create ─────────────────────────────────────────────────
 
 function StepReview({
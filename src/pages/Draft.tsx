@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { supabase } from '../lib/supabase';
@@ -8,7 +8,11 @@ import { useLeague } from '../contexts/LeagueContext';
 import { useCanManageLeague } from '../hooks/useCanManageLeague';
 import { useProjectedStats } from '../hooks/useProjectedStats';
 import { useWatchList, togglePlayerInWatchList } from '../hooks/useWatchList';
+import { useDraftQueue, saveDraftQueue } from '../hooks/useDraftQueue';
 import { CompleteDraftModal } from '../components/CompleteDraftModal';
+import { DraftQueuePanel } from '../components/DraftQueuePanel';
+import { getPickDeadline, formatPickClock, requestAutopick, AUTOPICK_RETRY_MS } from '../lib/draftClock';
+import { DEFAULT_KEEPER_RULES } from '../types';
 import type { Draft, Team, Player } from '../types';
 import { mapDraft, mapTeam, mapPlayer } from '../lib/mappers';
 import { sendTelegramMessage } from '../utils/telegram';
@@ -17,6 +21,7 @@ export function Draft() {
   const { leagueId } = useParams<{ leagueId: string }>();
   const { user } = useAuth();
   const { currentLeague } = useLeague();
+  const draftRounds = (currentLeague?.keeperRules ?? DEFAULT_KEEPER_RULES).draftRounds;
   const canManageLeague = useCanManageLeague();
   const navigate = useNavigate();
 
@@ -45,6 +50,10 @@ export function Draft() {
     userTeamId || undefined
   );
 
+  const { queue: draftQueue, setQueue: setDraftQueue } = useDraftQueue(draft?.id, userTeamId || undefined);
+  const [now, setNow] = useState(Date.now());
+  const autopickRequestedFor = useRef<number | null>(null);
+
   const isAdmin = canManageLeague;
 
   // Find user's team
@@ -81,6 +90,26 @@ export function Draft() {
 
     loadInitialData();
     loadDraftPickOwnership();
+
+    // Main draft picks can be traded mid-draft — keep the on-the-clock owner current
+    const channel = supabase.channel(`pick-assignments-draft-${leagueId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'pick_assignments',
+          filter: `league_id=eq.${leagueId}`,
+        },
+        () => {
+          loadDraftPickOwnership();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [leagueId, currentLeague]);
 
   // Real-time listener for draft updates via Supabase Realtime
@@ -180,6 +209,32 @@ export function Draft() {
     };
   }, [leagueId]);
 
+  // Pick clock: tick once a second while a clock is running, and ask the
+  // server to autopick once the current pick's time is up
+  const pickDeadline = draft ? getPickDeadline(draft) : null;
+  const pickRemainingMs = pickDeadline !== null ? pickDeadline - now : null;
+
+  useEffect(() => {
+    if (pickDeadline === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [pickDeadline]);
+
+  useEffect(() => {
+    if (!draft?.currentPick || pickRemainingMs === null || pickRemainingMs > 0) return;
+    if (autopickRequestedFor.current === draft.currentPick.overallPick) return;
+    const overallPick = draft.currentPick.overallPick;
+    autopickRequestedFor.current = overallPick;
+    requestAutopick(draft.id).then(result => {
+      // This device's clock ran ahead of the server's, or the request
+      // failed: ask again once the server deadline has passed
+      if (result && result.status !== 'not_expired') return;
+      setTimeout(() => {
+        if (autopickRequestedFor.current === overallPick) autopickRequestedFor.current = null;
+      }, result?.remainingMs ?? AUTOPICK_RETRY_MS);
+    });
+  }, [draft, pickRemainingMs]);
+
   const loadInitialData = async () => {
     if (!leagueId || !currentLeague) return;
 
@@ -213,7 +268,7 @@ export function Draft() {
   };
 
   const loadDraftPickOwnership = async () => {
-    if (!leagueId) return;
+    if (!leagueId || !currentLeague) return;
 
     try {
       const { data: draftPicksData, error } = await supabase
@@ -228,6 +283,19 @@ export function Draft() {
         ownershipMap.set(pick.pick_number, pick.current_owner);
       });
 
+      // pick_assignments is where trades land (execute_trade) — it wins over the legacy table
+      const { data: assignmentRows, error: assignmentError } = await supabase
+        .from('pick_assignments')
+        .select('overall_pick, current_team_id')
+        .eq('league_id', leagueId)
+        .eq('season_year', currentLeague.seasonYear);
+
+      if (assignmentError) throw assignmentError;
+
+      (assignmentRows || []).forEach(row => {
+        if (row.current_team_id) ownershipMap.set(row.overall_pick, row.current_team_id);
+      });
+
       console.log('[Draft] Loaded draft pick ownership:', ownershipMap.size, 'picks');
       setDraftPickOwnership(ownershipMap);
     } catch (error) {
@@ -267,6 +335,9 @@ export function Draft() {
       }
 
       const currentDraft = mapDraft(currentDraftRow);
+      if (currentDraft.status !== 'in_progress' || !currentDraft.currentPick) {
+        throw new Error('Draft is not in progress');
+      }
 
       // Verify player hasn't been drafted
       const alreadyDrafted = currentDraft.picks.some(
@@ -318,13 +389,20 @@ export function Draft() {
         updatedDraft.completed_at = new Date().toISOString();
       }
 
-      // Step 2: Update draft with new pick
-      const { error: draftUpdateError } = await supabase
+      // Step 2: Update draft with new pick — only if the pick we read is still
+      // on the clock (same guard as draft-autopick, so neither write clobbers the other)
+      const { data: updatedRows, error: draftUpdateError } = await supabase
         .from('drafts')
         .update(updatedDraft)
-        .eq('id', draft.id);
+        .eq('id', draft.id)
+        .eq('status', 'in_progress')
+        .eq('current_pick->>overallPick', String(currentDraft.currentPick?.overallPick))
+        .select('id');
 
       if (draftUpdateError) throw draftUpdateError;
+      if (!updatedRows || updatedRows.length === 0) {
+        throw new Error('This pick was already made (the clock may have expired). Refresh the board and try again.');
+      }
 
       // Step 3: Update the player to assign them to the drafting team
       const actualPickOwner = draftPickOwnership.get(currentDraft.currentPick?.overallPick || 0)
@@ -682,6 +760,23 @@ export function Draft() {
     }
   };
 
+  const handleToggleQueue = async (e: React.MouseEvent, playerFantraxId: string) => {
+    e.stopPropagation();
+    if (!userTeamId) return;
+
+    const playerIds = draftQueue?.playerIds || [];
+    const updatedPlayerIds = playerIds.includes(playerFantraxId)
+      ? playerIds.filter(id => id !== playerFantraxId)
+      : [...playerIds, playerFantraxId];
+
+    try {
+      setDraftQueue(await saveDraftQueue(draft.id, draft.leagueId, userTeamId, updatedPlayerIds));
+    } catch (error) {
+      logger.error('Error updating draft queue:', error);
+      toast.error('Failed to update draft queue');
+    }
+  };
+
   const getRoundPicks = (round: number) => {
     return draft.picks.filter((pick) => pick.round === round);
   };
@@ -725,7 +820,7 @@ export function Draft() {
     });
   }, [players, draftedPlayerIds, searchTerm, positionFilter, showWatchlistOnly, watchList, sortColumn, sortDirection, projectedStats]);
 
-  const currentPickTeam = teams.find(t => t.id === draft.currentPick?.teamId);
+  const currentPickTeam = teams.find(t => t.id === currentPickOwner);
 
   if (view === 'players') {
     return (
@@ -766,6 +861,13 @@ export function Draft() {
                     Select a player to draft
                   </div>
                 </div>
+                {pickRemainingMs !== null && (
+                  <div className={`ml-auto text-2xl font-bold tabular-nums ${
+                    pickRemainingMs <= 30_000 ? 'text-red-400' : 'text-white'
+                  }`}>
+                    {pickRemainingMs > 0 ? formatPickClock(pickRemainingMs) : 'Autopicking…'}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -1002,6 +1104,19 @@ export function Draft() {
                                 />
                               </svg>
                             </button>
+                            {userTeamId && (
+                              <button
+                                onClick={(e) => handleToggleQueue(e, player.fantraxId)}
+                                className={`flex-shrink-0 text-[10px] font-bold w-4 h-4 rounded border transition-colors ${
+                                  draftQueue?.playerIds.includes(player.fantraxId)
+                                    ? 'bg-purple-400 border-purple-400 text-mns-dark'
+                                    : 'border-gray-600 text-gray-500 hover:border-purple-400 hover:text-purple-400'
+                                }`}
+                                title="Toggle in draft queue"
+                              >
+                                Q
+                              </button>
+                            )}
                             <div className="flex-1 min-w-0">
                               <div className="text-sm font-medium text-white">
                                 {player.name}
@@ -1191,6 +1306,8 @@ export function Draft() {
             draft={draft}
             leagueId={leagueId}
             seasonYear={currentLeague.seasonYear}
+            maxActive={currentLeague.roster.maxActive}
+            keeperRules={currentLeague.keeperRules}
             onClose={() => setShowCompleteDraftModal(false)}
             onComplete={() => {
               setShowCompleteDraftModal(false);
@@ -1237,6 +1354,13 @@ export function Draft() {
                     Pick #{draft.currentPick.overallPick} - Round {draft.currentPick.round}, Pick {draft.currentPick.pickInRound}
                   </div>
                 </div>
+                {pickRemainingMs !== null && (
+                  <div className={`ml-4 text-2xl font-bold tabular-nums ${
+                    pickRemainingMs <= 30_000 ? 'text-red-400' : 'text-white'
+                  }`}>
+                    {pickRemainingMs > 0 ? formatPickClock(pickRemainingMs) : 'Autopicking…'}
+                  </div>
+                )}
               </div>
               {(isUserOnClock || isAdmin) && (
                 <button
@@ -1250,10 +1374,25 @@ export function Draft() {
           </div>
         )}
 
+        {/* Draft Queue (used by autopick when the clock expires) */}
+        {userTeamId && (
+          <DraftQueuePanel
+            draftId={draft.id}
+            leagueId={draft.leagueId}
+            teamId={userTeamId}
+            queue={draftQueue}
+            setQueue={setDraftQueue}
+            watchList={watchList}
+            players={players}
+            draftedPlayerIds={draftedPlayerIds}
+            projectedStats={projectedStats}
+          />
+        )}
+
         {/* Round Tabs */}
         <div className="bg-mns-card rounded-lg border border-gray-800 p-4 mb-6">
           <div className="flex flex-wrap gap-2">
-            {Array.from({ length: 13 }, (_, i) => i + 1).map((round) => (
+            {Array.from({ length: draftRounds }, (_, i) => i + 1).map((round) => (
               <button
                 key={round}
                 onClick={() => setSelectedRound(round)}
@@ -0,0 +1,408 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { useAuth } from '../contexts/AuthContext';
+import { useLeague } from '../contexts/LeagueContext';
+import { useCanManageLeague } from '../hooks/useCanManageLeague';
+import { useMatchups } from '../hooks/useMatchups';
+import { usePrizeSpots } from '../hooks/usePrizeSpots';
+import { mapTeam } from '../lib/mappers';
+import { buildStandings } from '../lib/tradeAnalyzer';
+import { getLotteryOdds, getLotteryTeams } from '../lib/lottery';
+import {
+  commitLottery,
+  drawCommittedLottery,
+  generateLotterySeed,
+  mapLotteryRecord,
+  verifyLottery,
+  voidLottery,
+} from '../lib/lotteryOps';
+import type { LotteryRecord, LotteryStatus, LotteryVerification } from '../lib/lotteryOps';
+import type { Team } from '../types';
+
+// The seed stays in the commissioner's browser between commit and draw
+const seedStorageKey = (leagueId: string, draftYear: number) => `mns-lottery-seed-${leagueId}-${draftYear}`;
+
+const formatDateTime = (ms: number) => new Date(ms).toLocaleString();
+
+const STATUS_BADGES: Record<LotteryStatus, { label: string; className: string }> = {
+  committed: { label: 'Committed', className: 'bg-yellow-400/10 text-yellow-400 border-yellow-400/30' },
+  revealed: { label: 'Seeds Revealed', className: 'bg-yellow-400/10 text-yellow-400 border-yellow-400/30' },
+  drawn: { label: 'Drawn', className: 'bg-green-400/10 text-green-400 border-green-400/30' },
+  void: { label: 'Void', className: 'bg-red-400/10 text-red-400 border-red-400/30' },
+};
+
+function Check({ ok, label }: { ok: boolean; label: string }) {
+  return (
+    <span className={ok ? 'text-green-400' : 'text-red-400'}>
+      {ok ? '✓' : '✗'} {label}
+    </span>
+  );
+}
+
+export function DraftLottery() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { user } = useAuth();
+  const { currentLeague } = useLeague();
+  const canManage = useCanManageLeague();
+  const { records: teamRecords } = useMatchups({
+    leagueId,
+    seasonYear: currentLeague?.seasonYear,
+    scoringMode: currentLeague?.scoringMode,
+  });
+
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [lotteries, setLotteries] = useState<LotteryRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [verifications, setVerifications] = useState<Map<string, LotteryVerification>>(new Map());
+
+  const draftYear = (currentLeague?.seasonYear || new Date().getFullYear()) + 1;
+
+  useEffect(() => {
+    if (!leagueId) return;
+    const loadData = async () => {
+      try {
+        const [teamsRes, lotteriesRes] = await Promise.all([
+          supabase.from('teams').select('*').eq('league_id', leagueId),
+          supabase.from('lottery_results').select('*').eq('league_id', leagueId).order('draft_year', { ascending: false }),
+        ]);
+        if (teamsRes.error) throw teamsRes.error;
+        if (lotteriesRes.error) throw lotteriesRes.error;
+
+        setTeams((teamsRes.data || []).map(mapTeam));
+        setLotteries((lotteriesRes.data || []).map(mapLotteryRecord));
+      } catch (err) {
+        logger.error('Error loading lottery data:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+
+    // Owners watch the commitment and the draw land live
+    const channel = supabase.channel(`draft-lottery-${leagueId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lottery_results', filter: `league_id=eq.${leagueId}` },
+        () => {
+          loadData();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueId]);
+
+  const prizeSpots = usePrizeSpots(currentLeague, teams.length);
+  const { lotteryTeams, moneyTeams } = useMemo(
+    () => getLotteryTeams(buildStandings(teams, teamRecords), prizeSpots),
+    [teams, teamRecords, prizeSpots]
+  );
+  const odds = useMemo(() => getLotteryOdds(lotteryTeams), [lotteryTeams]);
+
+  const upcoming = lotteries.find(l => l.draftYear === draftYear && l.status !== 'void');
+  const storedSeed = leagueId ? localStorage.getItem(seedStorageKey(leagueId, draftYear)) : null;
+
+  const handleCommit = async () => {
+    if (!leagueId || !user?.email) return;
+    if (!confirm(`Commit the ${draftYear} lottery with the current standings? The teams and their order can't be changed afterwards.`)) return;
+
+    setBusy(true);
+    const seed = generateLotterySeed();
+    localStorage.setItem(seedStorageKey(leagueId, draftYear), seed);
+    const result = await commitLottery({
+      leagueId,
+      draftYear,
+      seed,
+      lotteryTeams,
+      moneyTeams,
+      committedBy: user.email,
+    });
+    if (result.success) {
+      toast.success('Lottery committed — share the hash before drawing');
+    } else {
+      localStorage.removeItem(seedStorageKey(leagueId, draftYear));
+      toast.error(result.error || 'Failed to commit lottery');
+    }
+    setBusy(false);
+  };
+
+  const handleDraw = async (record: LotteryRecord) => {
+    if (!leagueId || !user?.email) return;
+    if (record.status === 'committed' && !storedSeed) return;
+    if (!confirm(`Draw the ${record.draftYear} lottery now? Both seeds are revealed and the result becomes the rookie draft order.`)) return;
+
+    setBusy(true);
+    const result = await drawCommittedLottery({ record, seed: storedSeed || undefined, drawnBy: user.email });
+    if (result.success) {
+      localStorage.removeItem(seedStorageKey(leagueId, record.draftYear));
+      toast.success('Lottery drawn');
+    } else {
+      toast.error(result.error || 'Failed to draw lottery');
+    }
+    setBusy(false);
+  };
+
+  const handleVoid = async (record: LotteryRecord) => {
+    if (!leagueId || !user?.email) return;
+    if (!confirm(`Void the ${record.draftYear} commitment? It stays on this page as void, and owners will see a new hash when you commit again.`)) return;
+
+    setBusy(true);
+    const result = await voidLottery(record, user.email);
+    if (result.success) {
+      localStorage.removeItem(seedStorageKey(leagueId, record.draftYear));
+      toast.success('Commitment voided');
+    } else {
+      toast.error(result.error || 'Failed to void lottery');
+    }
+    setBusy(false);
+  };
+
+  const handleVerify = async (record: LotteryRecord) => {
+    const verification = await verifyLottery(record);
+    setVerifications(prev => new Map(prev).set(record.id, verification));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-mns-dark flex items-center justify-center">
+        <div className="text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-mns-dark">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-white">Draft Lottery</h1>
+          <p className="text-gray-400 mt-1">
+            Before the draw the commissioner publishes a hash of a secret seed and the server publishes a hash of its own.
+            Both seeds are revealed together at the draw, so neither side can steer the result. Anyone can replay them here
+            to check the results, and voided commitments stay listed.
+          </p>
+        </div>
+
+        {/* Commissioner controls for the upcoming lottery */}
+        {canManage && (!upcoming || upcoming.status === 'committed' || upcoming.status === 'revealed') && (
+          <div className="bg-mns-card rounded-lg border border-gray-800 p-5 mb-6">
+            <h2 className="text-lg font-semibold text-white mb-3">{draftYear} Lottery — Commissioner</h2>
+            {!upcoming ? (
+              <>
+                <p className="text-sm text-gray-400 mb-3">
+                  Committing locks in these teams and odds from today's standings. Prize teams ({moneyTeams.map(t => t.teamName).join(', ') || 'none'}) pick last.
+                </p>
+                <ul className="text-sm space-y-1 mb-4">
+                  {odds.map((o, i) => (
+                    <li key={o.team.teamId} className="flex justify-between text-gray-300">
+                      <span>{i + 1}. {o.team.teamName} ({o.team.wins}-{o.team.losses}{o.team.ties > 0 ? `-${o.team.ties}` : ''})</span>
+                      <span className="text-gray-500">{o.pctFirstPick.toFixed(1)}% at #1</span>
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  onClick={handleCommit}
+                  disabled={busy || lotteryTeams.length === 0}
+                  className="px-4 py-2 border-2 border-green-400 text-green-400 rounded hover:bg-green-400/10 disabled:opacity-50 font-medium transition-all cursor-pointer"
+                >
+                  Commit Seed
+                </button>
+              </>
+            ) : upcoming.status === 'revealed' ? (
+              <>
+                <p className="text-sm text-yellow-400 mb-3">
+                  Both seeds are public but the draw wasn't saved. Finish it — the result is already fixed by the seeds.
+                </p>
+                <button
+                  onClick={() => handleDraw(upcoming)}
+                  disabled={busy}
+                  className="px-4 py-2 border-2 border-green-400 text-green-400 rounded hover:bg-green-400/10 disabled:opacity-50 font-medium transition-all cursor-pointer"
+                >
+                  Finish Lottery
+                </button>
+              </>
+            ) : (
+              <>
+                {storedSeed ? (
+                  <p className="text-sm text-gray-400 mb-3">
+                    Share the commitment hash with the league, then run the lottery from this device.
+                  </p>
+                ) : (
+                  <p className="text-sm text-yellow-400 mb-3">
+                    The seed for this commitment isn't on this device. Draw from the browser that committed it, or void it and commit again.
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => handleDraw(upcoming)}
+                    disabled={busy || !storedSeed}
+                    className="px-4 py-2 border-2 border-green-400 text-green-400 rounded hover:bg-green-400/10 disabled:opacity-50 font-medium transition-all cursor-pointer"
+                  >
+                    Run Lottery
+                  </button>
+                  <button
+                    onClick={() => handleVoid(upcoming)}
+                    disabled={busy}
+                    className="px-4 py-2 border border-red-400/50 text-red-400 rounded hover:bg-red-400/10 disabled:opacity-50 text-sm transition-all cursor-pointer"
+                  >
+                    Void Commitment
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {lotteries.length === 0 ? (
+          <div className="bg-mns-card rounded-lg border border-gray-800 p-8 text-center text-gray-500">
+            No lottery has been committed for this league yet
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {lotteries.map(record => {
+              const verification = verifications.get(record.id);
+              const teamName = (teamId: string) =>
+                [...record.lotteryTeams, ...record.moneyTeams].find(t => t.teamId === teamId)?.teamName || teamId;
+              return (
+                <div key={record.id} className="bg-mns-card rounded-lg border border-gray-800 p-5">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                    <h2 className="text-lg font-semibold text-white">{record.draftYear} Lottery</h2>
+                    <span className={`text-xs px-2 py-0.5 rounded border ${STATUS_BADGES[record.status].className}`}>
+                      {STATUS_BADGES[record.status].label}
+                    </span>
+                  </div>
+
+                  {record.status === 'void' && (
+                    <p className="text-sm text-red-400 mb-3">
+                      Voided {record.voidedAt ? formatDateTime(record.voidedAt) : ''} by {record.voidedBy} before the draw — its seeds were never revealed.
+                    </p>
+                  )}
+
+                  <dl className="text-sm space-y-2 mb-4">
+                    <div>
+                      <dt className="text-xs text-gray-500 uppercase tracking-wider">Commitment (SHA-256 of seed)</dt>
+                      <dd className="font-mono text-gray-300 break-all">{record.seedHash}</dd>
+                      <dd className="text-xs text-gray-600">{formatDateTime(record.committedAt)} by {record.committedBy}</dd>
+                    </div>
+                    {record.serverSeedHash && (
+                      <div>
+                        <dt className="text-xs text-gray-500 uppercase tracking-wider">Server commitment (SHA-256 of server seed)</dt>
+                        <dd className="font-mono text-gray-300 break-all">{record.serverSeedHash}</dd>
+                      </div>
+                    )}
+                    {record.seed && (
+                      <div>
+                        <dt className="text-xs text-gray-500 uppercase tracking-wider">Revealed seed</dt>
+                        <dd className="font-mono text-gray-300 break-all">{record.seed}</dd>
+                        {record.drawnAt && (
+                          <dd className="text-xs text-gray-600">{formatDateTime(record.drawnAt)} by {record.drawnBy}</dd>
+                        )}
+                      </div>
+                    )}
+                    {record.serverSeed && (
+                      <div>
+                        <dt className="text-xs text-gray-500 uppercase tracking-wider">Revealed server seed</dt>
+                        <dd className="font-mono text-gray-300 break-all">{record.serverSeed}</dd>
+                      </div>
+                    )}
+                  </dl>
+
+                  {record.status === 'drawn' && (
+                    <>
+                      {/* Results */}
+                      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-2">Draft Order</h3>
+                      <ol className="space-y-1 mb-4">
+                        {record.results.map(result => (
+                          <li
+                            key={result.pick}
+                            className={`flex items-center justify-between text-sm px-3 py-1.5 rounded ${
+                              result.isLotteryWinner ? 'bg-green-400/5 border border-green-400/20' : 'bg-mns-dark border border-gray-800'
+                            }`}
+                          >
+                            <span className="text-white">
+                              <span className="text-gray-500 w-6 inline-block">{result.pick}.</span>
+                              {result.teamName}
+                            </span>
+                            <span className={`text-xs ${result.movement > 0 ? 'text-green-400' : result.movement < 0 ? 'text-red-400' : 'text-gray-500'}`}>
+                              {result.movement > 0 ? `▲ ${result.movement}` : result.movement < 0 ? `▼ ${-result.movement}` : '—'}
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+
+                      {/* Every ball draw, including redraws */}
+                      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-2">Draw Sequence</h3>
+                      <div className="overflow-x-auto mb-4">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b border-gray-800 text-xs text-gray-500 uppercase tracking-wider">
+                              <th className="text-left px-3 py-2">#</th>
+                              <th className="text-left px-3 py-2">For Pick</th>
+                              <th className="text-left px-3 py-2">Combination</th>
+                              <th className="text-left px-3 py-2">Team</th>
+                              <th className="text-left px-3 py-2">Outcome</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {record.draws.map((draw, i) => (
+                              <tr key={i} className={`border-b border-gray-800/50 ${draw.discarded ? 'text-gray-600' : 'text-gray-300'}`}>
+                                <td className="px-3 py-1.5">{i + 1}</td>
+                                <td className="px-3 py-1.5">{draw.pick}</td>
+                                <td className="px-3 py-1.5 font-mono">{draw.combination}</td>
+                                <td className="px-3 py-1.5">{teamName(draw.teamId)}</td>
+                                <td className="px-3 py-1.5">{draw.discarded ? 'Discarded — team already drawn' : `Wins pick ${draw.pick}`}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      {/* Verification */}
+                      <div className="flex flex-wrap items-center gap-4">
+                        <button
+                          onClick={() => handleVerify(record)}
+                          className="px-3 py-1.5 text-sm border border-green-400/50 text-green-400 rounded hover:bg-green-400/10"
+                        >
+                          Verify
+                        </button>
+                        {verification && (
+                          <div className="flex flex-wrap gap-4 text-sm">
+                            <Check ok={verification.hashMatches} label="Seed matches commitment" />
+                            {record.serverSeedHash && (
+                              <Check ok={verification.serverHashMatches} label="Server seed matches commitment" />
+                            )}
+                            <Check ok={verification.drawsMatch} label="Draws reproduced" />
+                            <Check ok={verification.resultsMatch} label="Order reproduced" />
+                          </div>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* How to verify independently */}
+        <div className="mt-8 text-xs text-gray-500 space-y-1">
+          <p>
+            To check outside the app: SHA-256 of each seed (as text) must equal its commitment. The draw seed is SHA-256 of
+            the commissioner's seed followed by the server seed (lotteries without a server seed use the commissioner's seed
+            alone). The draw uses sfc32 started from the draw seed's first four 32-bit words; after 12 outputs the last four words are XOR-ed into the state and 12 more
+            are skipped. Each draw takes floor(random × total
+            combinations) against the NBA combination table for the committed lottery teams, worst record first; a combination
+            belonging to a team that already won a pick is discarded and redrawn.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,11 +7,14 @@ import { useAuth } from '../contexts/AuthContext';
 import { useProjectedStats } from '../hooks/useProjectedStats';
 import { usePreviousStats } from '../hooks/usePreviousStats';
 import { useWatchList, togglePlayerInWatchList } from '../hooks/useWatchList';
+import { useWaiverClaims } from '../hooks/useWaiverClaims';
 import { PlayerModal } from '../components/PlayerModal';
-import type { Player } from '../types';
-import { DEFAULT_ROSTER_SETTINGS } from '../types';
+import { WaiverBidHistory } from '../components/WaiverBidHistory';
+import type { LeagueWaiverSettings, Player } from '../types';
+import { DEFAULT_ROSTER_SETTINGS, DEFAULT_WAIVER_SETTINGS } from '../types';
 import { mapPlayer } from '../lib/mappers';
 import { assignPlayerToTeam, dropPlayerFromTeam } from '../lib/rosterOps';
+import { computeFaabRemaining, isOnWaivers, submitWaiverClaim } from '../lib/waiverOps';
 
 type SortColumn = 'score' | 'salary' | 'points' | 'rebounds' | 'assists' | 'steals' | 'blocks' | 'fgPercent' | 'ftPercent' | 'threePointMade';
 
@@ -20,7 +23,10 @@ export function FreeAgents() {
   const { user } = useAuth();
   const [allPlayers, setAllPlayers] = useState<Player[]>([]);
   const [maxActive, setMaxActive] = useState<number>(DEFAULT_ROSTER_SETTINGS.maxActive);
+  const [seasonYear, setSeasonYear] = useState<number | null>(null);
+  const [waiverSettings, setWaiverSettings] = useState<LeagueWaiverSettings>(DEFAULT_WAIVER_SETTINGS);
   const [userTeamId, setUserTeamId] = useState<string | null>(null);
+  const [teamNames, setTeamNames] = useState<Map<string, string>>(new Map());
   const [loading, setLoading] = useState(true);
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
   const [selectedPlayerIndex, setSelectedPlayerIndex] = useState<number>(-1);
@@ -29,6 +35,7 @@ export function FreeAgents() {
   const [searchTerm, setSearchTerm] = useState('');
   const [addingPlayer, setAddingPlayer] = useState<Player | null>(null);
   const [playerToDrop, setPlayerToDrop] = useState<string | null>(null);
+  const [bidAmount, setBidAmount] = useState('0');
   const [processing, setProcessing] = useState(false);
   const { projectedStats } = useProjectedStats();
   const { previousStats } = usePreviousStats();
@@ -37,6 +44,10 @@ export function FreeAgents() {
     leagueId,
     userTeamId || undefined
   );
+  const { claims: waiverClaims, runs: waiverRuns } = useWaiverClaims({
+    leagueId,
+    seasonYear: waiverSettings.enabled ? seasonYear ?? undefined : undefined,
+  });
 
   const handleSort = (column: SortColumn) => {
     if (sortColumn === column) {
@@ -78,13 +89,15 @@ export function FreeAgents() {
       try {
         const { data, error } = await supabase
           .from('leagues')
-          .select('season_year, roster')
+          .select('season_year, roster, waivers')
           .eq('id', leagueId)
           .single();
 
         if (error) throw error;
         if (data) {
           setMaxActive(data.roster?.maxActive ?? DEFAULT_ROSTER_SETTINGS.maxActive);
+          setSeasonYear(data.season_year);
+          setWaiverSettings({ ...DEFAULT_WAIVER_SETTINGS, ...data.waivers });
         }
       } catch (error) {
         logger.error('Error fetching league:', error);
@@ -107,6 +120,7 @@ export function FreeAgents() {
 
         if (error) throw error;
 
+        setTeamNames(new Map((data || []).map((row: { id: string; name: string }) => [row.id, row.name])));
         const userTeam = (data || []).find((row: any) => {
           return row.owners && row.owners.includes(user.email);
         });
@@ -248,6 +262,17 @@ export function FreeAgents() {
 
   const userTeamActiveCount = userTeamActivePlayers.length;
 
+  // Recently dropped players can only be claimed, not added; in FAAB
+  // leagues every free agent goes to the highest blind bid
+  const playerOnWaivers = (player: Player) => waiverSettings.enabled && isOnWaivers(player);
+  const isFaab = waiverSettings.enabled && waiverSettings.claimMode === 'faab';
+  const addingOnWaivers = !!addingPlayer && playerOnWaivers(addingPlayer);
+  const addingByClaim = addingOnWaivers || (!!addingPlayer && isFaab);
+  const faabRemaining = useMemo(() => {
+    if (!userTeamId) return 0;
+    return computeFaabRemaining(waiverSettings.faabBudget, [userTeamId], waiverClaims).get(userTeamId) ?? 0;
+  }, [waiverSettings.faabBudget, userTeamId, waiverClaims]);
+
   const formatSalary = (salary: number) => {
     return `$${(salary / 1_000_000).toFixed(2)}M`;
   };
@@ -301,6 +326,47 @@ export function FreeAgents() {
     try {
       setProcessing(true);
 
+      if (addingByClaim) {
+        if (userTeamActiveCount >= maxActive && !playerToDrop) {
+          toast.error('You must select a player to drop');
+          setProcessing(false);
+          return;
+        }
+
+        const bid = isFaab ? parseInt(bidAmount, 10) : undefined;
+        if (bid !== undefined && (isNaN(bid) || bid < 0 || bid > faabRemaining)) {
+          toast.error(`Bid must be between $0 and $${faabRemaining}`);
+          setProcessing(false);
+          return;
+        }
+
+        const dropPlayer = userTeamActivePlayers.find(p => p.id === playerToDrop);
+        const claimResult = await submitWaiverClaim({
+          leagueId,
+          seasonYear: seasonYear!,
+          teamId: userTeamId,
+          playerId: addingPlayer.id,
+          playerName: addingPlayer.name,
+          dropPlayerId: dropPlayer?.id,
+          dropPlayerName: dropPlayer?.name,
+          bidAmount: bid,
+          submittedBy: user?.email || '',
+        });
+
+        if (!claimResult.success) {
+          toast.error(claimResult.error || 'Failed to submit claim');
+          setProcessing(false);
+          return;
+        }
+
+        toast.success(`${isFaab ? 'Bid' : 'Waiver claim'} submitted for ${addingPlayer.name}`);
+        setAddingPlayer(null);
+        setPlayerToDrop(null);
+        setBidAmount('0');
+        setProcessing(false);
+        return;
+      }
+
       // If roster is at max, must drop a player first
       if (userTeamActiveCount >= maxActive) {
         if (!playerToDrop) {
@@ -313,6 +379,7 @@ export function FreeAgents() {
           playerId: playerToDrop,
           teamId: userTeamId,
           leagueId,
+          performedBy: user?.email || undefined,
         });
 
         if (!dropResult.success) {
@@ -328,6 +395,7 @@ export function FreeAgents() {
         teamId: userTeamId,
         leagueId,
         slot: 'active',
+        performedBy: user?.email || undefined,
       });
 
       if (!addResult.success) {
@@ -363,9 +431,12 @@ export function FreeAgents() {
           <h1 className="text-3xl font-bold text-white">Free Agent Pool</h1>
           <p className="text-gray-400 mt-1">
             {freeAgents.length} available players {searchTerm && `matching "${searchTerm}"`}
+            {isFaab && userTeamId && ` · $${faabRemaining} FAAB remaining`}
           </p>
         </div>
 
+        {isFaab && <WaiverBidHistory claims={waiverClaims} runs={waiverRuns} teamNames={teamNames} />}
+
         {/* Search Bar */}
         <div className="mb-6 bg-mns-card p-4 rounded-lg border border-gray-800">
           <label className="block text-sm font-medium text-white mb-2">
@@ -453,6 +524,13 @@ export function FreeAgents() {
                             </div>
                             <div className="text-xs text-gray-400">
                               {player.nbaTeam} | {player.position}
+                              {playerOnWaivers(player) && (
+                                <span className="ml-2 text-yellow-400">
+                                  {player.waiversUntil! > Date.now()
+                                    ? `Waivers until ${new Date(player.waiversUntil!).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' })}`
+                                    : 'Waivers — clears next run'}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -494,9 +572,13 @@ export function FreeAgents() {
                               e.stopPropagation();
                               handleAddPlayer(player);
                             }}
-                            className="px-3 py-1 text-xs border border-green-500 text-green-400 rounded hover:bg-green-500/10 transition-colors"
+                            className={`px-3 py-1 text-xs border rounded transition-colors ${
+                              playerOnWaivers(player)
+                                ? 'border-yellow-500 text-yellow-400 hover:bg-yellow-500/10'
+                                : 'border-green-500 text-green-400 hover:bg-green-500/10'
+                            }`}
                           >
-                            Add
+                            {playerOnWaivers(player) ? 'Claim' : isFaab ? 'Bid' : 'Add'}
                           </button>
                         </td>
                       )}
@@ -543,15 +625,18 @@ export function FreeAgents() {
             <div className="p-6">
               <div className="flex justify-between items-start mb-6">
                 <div>
-                  <h2 className="text-2xl font-bold text-white">Add Player</h2>
+                  <h2 className="text-2xl font-bold text-white">{addingByClaim ? (isFaab ? 'Bid on Player' : 'Claim Player') : 'Add Player'}</h2>
                   <p className="text-gray-400 mt-1">
-                    Adding {addingPlayer.name} to your roster
+                    {addingByClaim
+                      ? `${addingPlayer.name} ${addingOnWaivers ? 'is on waivers' : 'is a free agent'}${(addingPlayer.waiversUntil ?? 0) > Date.now() ? ` until ${new Date(addingPlayer.waiversUntil!).toLocaleString()}` : ''}. ${isFaab ? 'The highest blind bid wins' : 'Claims are awarded by waiver priority'} when waivers are processed.`
+                      : `Adding ${addingPlayer.name} to your roster`}
                   </p>
                 </div>
                 <button
                   onClick={() => {
                     setAddingPlayer(null);
                     setPlayerToDrop(null);
+                    setBidAmount('0');
                   }}
                   className="text-gray-400 hover:text-white"
                 >
@@ -571,14 +656,47 @@ export function FreeAgents() {
                 </div>
               </div>
 
-              {/* Drop Player Selection */}
-              {userTeamActiveCount >= maxActive && (
+              {/* Blind FAAB Bid */}
+              {addingByClaim && isFaab && (
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-white mb-2">Blind Bid</label>
+                  <div className="flex items-center gap-3">
+                    <span className="text-gray-400">$</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={faabRemaining}
+                      step={1}
+                      value={bidAmount}
+                      onChange={(e) => setBidAmount(e.target.value)}
+                      className="w-32 rounded-md bg-mns-dark border-gray-700 text-white px-3 py-2"
+                    />
+                    <span className="text-sm text-gray-500">${faabRemaining} of ${waiverSettings.faabBudget} remaining</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Highest bid wins. Ties go to waiver priority. Bids are hidden until waivers are processed.
+                  </p>
+                </div>
+              )}
+
+              {/* Drop Player Selection (optional for claims with room) */}
+              {(userTeamActiveCount >= maxActive || addingByClaim) && (
                 <div className="mb-6">
                   <h3 className="text-lg font-semibold text-white mb-3">
-                    Select a Player to Drop
+                    {userTeamActiveCount >= maxActive ? 'Select a Player to Drop' : 'Drop a Player (optional)'}
                   </h3>
                   <p className="text-sm text-gray-400 mb-4">
-                    Your active roster is full. You must drop a player to add {addingPlayer.name}.
+                    {userTeamActiveCount >= maxActive
+                      ? `Your active roster is full. You must drop a player to add ${addingPlayer.name}.`
+                      : 'The drop only happens if your claim is awarded.'}
+                    {userTeamActiveCount < maxActive && playerToDrop && (
+                      <button
+                        onClick={() => setPlayerToDrop(null)}
+                        className="ml-2 text-xs text-gray-500 hover:text-white underline"
+                      >
+                        No drop
+                      </button>
+                    )}
                   </p>
                   <div className="space-y-2 max-h-64 overflow-y-auto">
                     {userTeamActivePlayers.map((player) => (
@@ -616,6 +734,7 @@ export function FreeAgents() {
                   onClick={() => {
                     setAddingPlayer(null);
                     setPlayerToDrop(null);
+                    setBidAmount('0');
                   }}
                   className="flex-1 px-4 py-2 border border-gray-600 text-gray-300 rounded-lg hover:bg-gray-800 transition-colors"
                 >
@@ -626,7 +745,9 @@ export function FreeAgents() {
                   disabled={processing || (userTeamActiveCount >= maxActive && playerToDrop === null)}
                   className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
-                  {processing ? 'Adding...' : 'Confirm Add'}
+                  {addingByClaim
+                    ? (processing ? 'Submitting...' : isFaab ? 'Submit Bid' : 'Submit Claim')
+                    : (processing ? 'Adding...' : 'Confirm Add')}
                 </button>
               </div>
             </div>
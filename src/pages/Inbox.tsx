@@ -5,9 +5,11 @@ import { getDailyQuote } from '../data/hinkieQuotes';
 import { useAuth } from '../contexts/AuthContext';
 import { useWagers } from '../hooks/useWagers';
 import { useTradeProposals } from '../hooks/useTradeProposals';
+import { useWaiverClaims } from '../hooks/useWaiverClaims';
 import { WagerProposal } from '../components/WagerProposal';
 import { TradeProposalCard } from '../components/TradeProposalCard';
-import type { Team } from '../types';
+import { WaiverClaimCard } from '../components/WaiverClaimCard';
+import type { Team, TradeProposal } from '../types';
 import { mapTeam } from '../lib/mappers';
 
 export function Inbox() {
@@ -18,6 +20,7 @@ export function Inbox() {
   const [isRead, setIsRead] = useState(false);
   const [isArchiveOpen, setIsArchiveOpen] = useState(false);
   const [myTeam, setMyTeam] = useState<Team | null>(null);
+  const [seasonYear, setSeasonYear] = useState<number | undefined>(undefined);
 
   // Fetch wagers involving the user's team
   const { wagers } = useWagers({
@@ -26,15 +29,36 @@ export function Inbox() {
   });
 
   // Fetch trade proposals involving the user's team
-  const { proposals: tradeProposals, responses: tradeResponses } = useTradeProposals(
+  const {
+    proposals: tradeProposals,
+    threads: tradeThreads,
+    responses: tradeResponses,
+    vetoVotes: tradeVetoVotes,
+    comments: tradeComments,
+  } = useTradeProposals(
     leagueId,
     myTeam?.id
   );
-  const pendingTrades = tradeProposals.filter(p => p.status === 'pending');
-  const archivedTrades = tradeProposals.filter(p => p.status !== 'pending');
+  // One card per negotiation: countered versions render inside the latest card's history
+  const pendingTrades = tradeProposals.filter(p => p.status === 'pending' || p.status === 'in_review');
+  const archivedTrades = tradeProposals.filter(p => !['pending', 'in_review', 'superseded'].includes(p.status));
+  const earlierVersions = (proposal: TradeProposal) =>
+    (tradeThreads.get(proposal.threadId) || []).filter(p => p.createdAt < proposal.createdAt);
   const activeWagers = wagers.filter(w => w.status === 'pending' || w.status === 'accepted' || w.status === 'live');
   const archivedWagers = wagers.filter(w => w.status === 'declined' || w.status === 'settled');
-  const archiveCount = archivedTrades.length + archivedWagers.length;
+
+  // Waiver claims: pending + outcomes from the last 3 days stay up top
+  const { claims: waiverClaims } = useWaiverClaims({
+    leagueId,
+    seasonYear,
+    teamId: myTeam?.id,
+  });
+  const recentCutoff = Date.now() - 3 * 24 * 60 * 60 * 1000;
+  const activeClaims = waiverClaims.filter(c =>
+    c.status === 'pending' || (c.status !== 'cancelled' && (c.processedAt || 0) >= recentCutoff)
+  );
+  const archivedClaims = waiverClaims.filter(c => !activeClaims.includes(c));
+  const archiveCount = archivedTrades.length + archivedWagers.length + archivedClaims.length;
 
   // Debug logging
   useEffect(() => {
@@ -69,12 +93,13 @@ export function Inbox() {
       }
 
       try {
-        const { data, error } = await supabase
-          .from('teams')
-          .select('*')
-          .eq('league_id', leagueId);
+        const [{ data, error }, { data: leagueRow }] = await Promise.all([
+          supabase.from('teams').select('*').eq('league_id', leagueId),
+          supabase.from('leagues').select('season_year').eq('id', leagueId).maybeSingle(),
+        ]);
 
         if (error) throw error;
+        setSeasonYear(leagueRow?.season_year);
 
         const teamData = (data || []).map(mapTeam);
         const userTeam = teamData.find((team) => team.owners.includes(user.email || ''));
@@ -221,6 +246,9 @@ export function Inbox() {
                 key={proposal.id}
                 proposal={proposal}
                 responses={tradeResponses.get(proposal.id) || []}
+                vetoVotes={tradeVetoVotes.get(proposal.id) || []}
+                history={earlierVersions(proposal)}
+                comments={tradeComments.get(proposal.threadId) || []}
                 userTeamId={myTeam?.id || null}
                 userEmail={user?.email || ''}
               />
@@ -228,8 +256,18 @@ export function Inbox() {
           </div>
         )}
 
+        {/* Waiver Claims */}
+        {activeClaims.length > 0 && (
+          <div className="mt-6 space-y-4">
+            <h2 className="text-xl font-bold text-white">Waiver Claims</h2>
+            {activeClaims.map((claim) => (
+              <WaiverClaimCard key={claim.id} claim={claim} canCancel={!!myTeam} />
+            ))}
+          </div>
+        )}
+
         {/* Empty State */}
-        {activeWagers.length === 0 && pendingTrades.length === 0 && (
+        {activeWagers.length === 0 && pendingTrades.length === 0 && activeClaims.length === 0 && (
           <div className="mt-6 text-center py-12">
             <svg
               className="w-16 h-16 text-gray-600 mx-auto mb-4"
@@ -248,7 +286,7 @@ export function Inbox() {
               No new proposals
             </p>
             <p className="text-gray-500 text-xs mt-2">
-              Wager and trade proposals will appear here
+              Wager proposals, trade proposals and waiver results will appear here
             </p>
           </div>
         )}
@@ -302,6 +340,9 @@ export function Inbox() {
                         key={proposal.id}
                         proposal={proposal}
                         responses={tradeResponses.get(proposal.id) || []}
+                        vetoVotes={tradeVetoVotes.get(proposal.id) || []}
+                        history={earlierVersions(proposal)}
+                        comments={tradeComments.get(proposal.threadId) || []}
                         userTeamId={myTeam?.id || null}
                         userEmail={user?.email || ''}
                       />
@@ -325,6 +366,18 @@ export function Inbox() {
                     ))}
                   </div>
                 )}
+
+                {/* Archived Waiver Claims */}
+                {archivedClaims.length > 0 && (
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider">
+                      Past Waiver Claims
+                    </h3>
+                    {archivedClaims.map((claim) => (
+                      <WaiverClaimCard key={claim.id} claim={claim} canCancel={false} />
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </div>
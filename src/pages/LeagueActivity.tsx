@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { useTransactions } from '../hooks/useTransactions';
+import { TransactionRow } from '../components/TransactionRow';
+import type { TransactionType } from '../types';
+import { TRANSACTION_TYPE_LABELS } from '../types';
+
+export function LeagueActivity() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
+  const [teamFilter, setTeamFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState<TransactionType | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const { transactions, loading } = useTransactions({
+    leagueId,
+    teamId: teamFilter || undefined,
+    type: typeFilter || undefined,
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+  });
+
+  useEffect(() => {
+    if (!leagueId) return;
+
+    const fetchTeams = async () => {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('id, name')
+        .eq('league_id', leagueId)
+        .order('name');
+
+      if (error) {
+        logger.error('Error fetching teams:', error);
+        return;
+      }
+      setTeams(data || []);
+    };
+
+    fetchTeams();
+  }, [leagueId]);
+
+  const teamNames = new Map(teams.map(t => [t.id, t.name]));
+  const hasFilters = !!(teamFilter || typeFilter || startDate || endDate);
+  const inputClass = 'w-full rounded-md bg-mns-dark border border-gray-700 text-white px-3 py-2 text-sm focus:border-green-400 focus:ring-green-400';
+
+  // Group by day (ET) for the feed
+  const byDay = new Map<string, typeof transactions>();
+  for (const tx of transactions) {
+    const day = new Date(tx.createdAt).toLocaleDateString('en-US', {
+      timeZone: 'America/New_York',
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+    if (!byDay.has(day)) byDay.set(day, []);
+    byDay.get(day)!.push(tx);
+  }
+
+  return (
+    <div className="min-h-screen bg-mns-dark">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-white">League Activity</h1>
+          <p className="text-gray-400 mt-1">Adds, drops, IR moves, trades and fees</p>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 bg-mns-card p-4 rounded-lg border border-gray-800 grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Team</label>
+            <select value={teamFilter} onChange={(e) => setTeamFilter(e.target.value)} className={inputClass}>
+              <option value="">All teams</option>
+              {teams.map(team => (
+                <option key={team.id} value={team.id}>{team.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Type</label>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as TransactionType | '')}
+              className={inputClass}
+            >
+              <option value="">All types</option>
+              {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map(type => (
+                <option key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">From</label>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">To</label>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+          </div>
+          {hasFilters && (
+            <button
+              onClick={() => {
+                setTeamFilter('');
+                setTypeFilter('');
+                setStartDate('');
+                setEndDate('');
+              }}
+              className="col-span-2 md:col-span-4 text-left text-sm text-gray-400 hover:text-white"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {/* Feed */}
+        {loading ? (
+          <div className="text-center text-gray-400 py-12">Loading...</div>
+        ) : transactions.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-400 text-sm">No transactions{hasFilters ? ' match these filters' : ' yet'}</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {[...byDay.entries()].map(([day, dayTransactions]) => (
+              <div key={day}>
+                <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-2">{day}</h2>
+                <div className="bg-mns-card rounded-lg border border-gray-800 px-4 divide-y divide-gray-800">
+                  {dayTransactions.map(tx => (
+                    <TransactionRow key={tx.id} transaction={tx} teamNames={teamNames} />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
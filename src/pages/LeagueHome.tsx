@@ -5,6 +5,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { fetchWalletData } from '../lib/blockchain';
 import { useWagers } from '../hooks/useWagers';
 import { useMatchups } from '../hooks/useMatchups';
+import { useWinProbabilities } from '../hooks/useWinProbabilities';
 import { ProposeWagerModal } from '../components/ProposeWagerModal';
 import { MatchupCard } from '../components/MatchupCard';
 import { getCurrentWeek } from '../lib/scheduleUtils';
@@ -126,6 +127,21 @@ export function LeagueHome() {
 
   const [leagueWeeks, setLeagueWeeks] = useState<LeagueWeek[]>([]);
 
+  // Rest-of-week win odds for the current matchup week (regular season only)
+  const currentMatchupWeek = useMemo(() => {
+    if (league?.leaguePhase !== 'regular_season') return null;
+    const weekNum = getCurrentWeek(leagueWeeks);
+    return weekNum
+      ? leagueWeeks.find(w => w.weekNumber === weekNum)?.matchupWeek ?? weekNum
+      : null;
+  }, [league?.leaguePhase, leagueWeeks]);
+
+  const { probabilities: winProbabilities } = useWinProbabilities({
+    leagueId,
+    seasonYear: league?.seasonYear,
+    matchupWeek: currentMatchupWeek,
+  });
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -446,6 +462,7 @@ export function LeagueHome() {
                   myTeamId={myTeam?.id}
                   currentWeek={matchupWeek}
                   leagueId={leagueId!}
+                  winProbabilities={winProbabilities}
                 />
               ) : null;
             })()}
@@ -3,10 +3,19 @@ import { useParams, Link, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useProjectedStats } from '../hooks/useProjectedStats';
+import { useMatchupStats } from '../hooks/useMatchupStats';
+import { useWinProbabilities } from '../hooks/useWinProbabilities';
 import { MATCHUP_CATEGORIES } from '../types';
-import type { Matchup, Player, RegularSeasonRoster, ProjectedStats } from '../types';
+import type {
+  Matchup, Player, RegularSeasonRoster, ProjectedStats, PlayerBoxScore, CategoryOutcome,
+} from '../types';
 import { mapMatchup, mapPlayer } from '../lib/mappers';
 import { todayET } from '../utils/date';
+import { getDatesInRange } from '../lib/scheduleUtils';
+import {
+  addBoxScore, categoryValue, compareCategory, computeTeamTotals, emptyTotals,
+  resolveStartersByDate, scoreCategories,
+} from '../lib/matchupScoring';
 
 type MatchupView = 'totals' | 'away' | 'home';
 type DayView = 'week' | string; // 'week' for week totals, or 'YYYY-MM-DD' for a specific day
@@ -34,6 +43,30 @@ function getStatValue(stats: ProjectedStats | undefined, category: string): numb
   }
 }
 
+// Projected per-game team values for the given starters (counting stats summed, ratios averaged)
+function projectedTeamValues(starters: Player[], projectedStats: Map<string, ProjectedStats>): Array<number | null> {
+  return MATCHUP_CATEGORIES.map(cat => {
+    const isPercentage = cat === 'FG%' || cat === 'FT%';
+    const isRatio = cat === 'A/TO';
+    const values = starters
+      .map(p => getStatValue(projectedStats.get(p.fantraxId), cat))
+      .filter((v): v is number => v !== null);
+
+    if (values.length === 0) return null;
+    if (isPercentage || isRatio) {
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    }
+    return values.reduce((a, b) => a + b, 0);
+  });
+}
+
+// Default starters when no daily lineup is saved: active roster minus benched
+function defaultStarterIds(roster: RegularSeasonRoster | null): string[] {
+  if (!roster) return [];
+  const benchedSet = new Set(roster.benchedPlayers);
+  return roster.activeRoster.filter(id => !benchedSet.has(id));
+}
+
 function formatStat(value: number | null, category: string): string {
   if (value === null) return '—';
   const isPercentage = category === 'FG%' || category === 'FT%';
@@ -43,19 +76,6 @@ function formatStat(value: number | null, category: string): string {
   return value.toFixed(1);
 }
 
-// Helper: get all dates between start and end (inclusive), using actual DB dates
-function getDatesInRange(startDate: string, endDate: string): string[] {
-  const start = new Date(startDate + 'T00:00:00');
-  const end = new Date(endDate + 'T00:00:00');
-  const dates: string[] = [];
-  const current = new Date(start);
-  while (current <= end) {
-    dates.push(current.toISOString().split('T')[0]);
-    current.setDate(current.getDate() + 1);
-  }
-  return dates;
-}
-
 function formatDayLabel(dateStr: string): string {
   const d = new Date(dateStr + 'T00:00:00');
   const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -77,6 +97,9 @@ function TeamRosterStats({
   teamName,
   isMyTeam,
   weekDates,
+  startersByDate,
+  boxScoresByDate,
+  hasActualStats,
 }: {
   roster: RegularSeasonRoster | null;
   players: Map<string, Player>;
@@ -84,6 +107,9 @@ function TeamRosterStats({
   teamName: string;
   isMyTeam: boolean;
   weekDates: string[]; // dates in this matchup week
+  startersByDate: Map<string, string[]>;  // from daily_lineups, defaulting to current starters
+  boxScoresByDate: Map<string, Map<string, PlayerBoxScore>>;
+  hasActualStats: boolean;
 }) {
   const [dayView, setDayView] = useState<DayView>('week');
 
@@ -95,44 +121,61 @@ function TeamRosterStats({
     );
   }
 
-  const benchedSet = new Set(roster.benchedPlayers);
+  const isDayView = dayView !== 'week';
+
+  // Week view groups by current bench; day view groups by that day's saved lineup
+  const starterSet = new Set(isDayView ? startersByDate.get(dayView) || [] : defaultStarterIds(roster));
 
   const starters = roster.activeRoster
-    .filter(id => !benchedSet.has(id))
+    .filter(id => starterSet.has(id))
     .map(id => players.get(id))
     .filter((p): p is Player => p !== undefined);
 
   const benched = roster.activeRoster
-    .filter(id => benchedSet.has(id))
+    .filter(id => !starterSet.has(id))
     .map(id => players.get(id))
     .filter((p): p is Player => p !== undefined);
 
-  // Calculate team totals for starters
-  const starterTotals = MATCHUP_CATEGORIES.map(cat => {
-    const isPercentage = cat === 'FG%' || cat === 'FT%';
-    const isRatio = cat === 'A/TO';
-    const values = starters
-      .map(p => getStatValue(projectedStats.get(p.fantraxId), cat))
-      .filter((v): v is number => v !== null);
+  const fantraxIdByPlayerId = new Map(roster.activeRoster.map(id => [id, players.get(id)?.fantraxId || id]));
+  const statDates = isDayView ? [dayView] : weekDates;
 
-    if (values.length === 0) return null;
-    if (isPercentage || isRatio) {
-      return values.reduce((a, b) => a + b, 0) / values.length;
+  // Actual totals for one player over the dates they were started
+  const playerActualValues = (player: Player): Array<number | null> => {
+    let totals = emptyTotals();
+    for (const date of statDates) {
+      const box = boxScoresByDate.get(date)?.get(player.fantraxId);
+      const started = isDayView || (startersByDate.get(date) || []).includes(player.id);
+      if (box && started) totals = addBoxScore(totals, box);
     }
-    return values.reduce((a, b) => a + b, 0);
+    if (totals.gamesPlayed === 0) return MATCHUP_CATEGORIES.map(() => null);
+    return MATCHUP_CATEGORIES.map(cat => categoryValue(totals, cat));
+  };
+
+  const actualTeamTotals = computeTeamTotals({
+    dates: statDates,
+    startersByDate,
+    fantraxIdByPlayerId,
+    boxScoresByDate,
   });
 
+  // Team totals row: actual when stats exist, projected per-game otherwise (week view only)
+  const starterTotals = hasActualStats
+    ? MATCHUP_CATEGORIES.map(cat => actualTeamTotals.gamesPlayed > 0 ? categoryValue(actualTeamTotals, cat) : null)
+    : isDayView
+      ? MATCHUP_CATEGORIES.map(() => null)
+      : projectedTeamValues(starters, projectedStats);
+
   // Day navigation
   const currentDayIdx = dayView === 'week' ? -1 : weekDates.indexOf(dayView);
   const todayStr = todayET();
   const isToday = dayView === todayStr;
+  const dayGamesPlayed = isDayView ? actualTeamTotals.gamesPlayed : 0;
 
   const gridCols = 'grid-cols-[120px_36px_repeat(9,minmax(42px,1fr))]';
 
   const renderPlayerRow = (player: Player, isBenched: boolean) => {
     const stats = projectedStats.get(player.fantraxId);
-    // For day view, show placeholder "—" since we don't have daily data yet
-    const isDayView = dayView !== 'week';
+    const actualValues = hasActualStats ? playerActualValues(player) : null;
     return (
       <div
         key={player.id}
@@ -145,9 +188,11 @@ function TeamRosterStats({
           <span className="hidden sm:inline truncate">{player.name}</span>
         </div>
         <div className="text-gray-500 text-center">{player.position}</div>
-        {MATCHUP_CATEGORIES.map(cat => (
+        {MATCHUP_CATEGORIES.map((cat, i) => (
           <div key={cat} className="text-gray-400 text-center tabular-nums">
-            {isDayView ? '—' : formatStat(getStatValue(stats, cat), cat)}
+            {actualValues
+              ? formatStat(actualValues[i], cat)
+              : isDayView ? '—' : formatStat(getStatValue(stats, cat), cat)}
           </div>
         ))}
       </div>
@@ -224,7 +269,11 @@ function TeamRosterStats({
             ←
           </button>
           <span className="text-xs text-gray-400">
-            {formatDayLabel(dayView)}{isToday ? ' (Today)' : ''} — Stats coming soon
+            {formatDayLabel(dayView)}{isToday ? ' (Today)' : ''} — {
+              dayGamesPlayed > 0
+                ? `${dayGamesPlayed} game${dayGamesPlayed !== 1 ? 's' : ''} played`
+                : 'No stats yet'
+            }
           </span>
           <button
             onClick={() => {
@@ -262,7 +311,7 @@ function TeamRosterStats({
           <div />
           {starterTotals.map((val, i) => (
             <div key={MATCHUP_CATEGORIES[i]} className="text-xs text-white font-bold text-center tabular-nums">
-              {dayView !== 'week' ? '—' : formatStat(val, MATCHUP_CATEGORIES[i])}
+              {formatStat(val, MATCHUP_CATEGORIES[i])}
             </div>
           ))}
         </div>
@@ -459,6 +508,104 @@ export function MatchupDetail() {
     };
   }, [allMatchups, matchup]);
 
+  // Actual box scores + saved daily lineups for both teams this week
+  const matchupTeamIds = useMemo(
+    () => (matchup ? [matchup.homeTeamId, matchup.awayTeamId] : []),
+    [matchup]
+  );
+  const matchupFantraxIds = useMemo(() => {
+    const ids = [...(homeRoster?.activeRoster || []), ...(awayRoster?.activeRoster || [])];
+    return ids.map(id => players.get(id)?.fantraxId).filter((id): id is string => !!id);
+  }, [homeRoster, awayRoster, players]);
+
+  const { boxScoresByDate, lineupsByTeam, hasActualStats } = useMatchupStats({
+    leagueId,
+    teamIds: matchupTeamIds,
+    fantraxIds: matchupFantraxIds,
+    startDate: weekDates[0],
+    endDate: weekDates[weekDates.length - 1],
+  });
+
+  const homeStartersByDate = useMemo(
+    () => resolveStartersByDate(
+      weekDates,
+      matchup ? lineupsByTeam.get(matchup.homeTeamId) || [] : [],
+      defaultStarterIds(homeRoster)
+    ),
+    [weekDates, lineupsByTeam, matchup, homeRoster]
+  );
+  const awayStartersByDate = useMemo(
+    () => resolveStartersByDate(
+      weekDates,
+      matchup ? lineupsByTeam.get(matchup.awayTeamId) || [] : [],
+      defaultStarterIds(awayRoster)
+    ),
+    [weekDates, lineupsByTeam, matchup, awayRoster]
+  );
+
+  // Monte Carlo odds for the rest of the week
+  const { probabilities: winProbabilities } = useWinProbabilities({
+    leagueId,
+    seasonYear: matchup?.seasonYear,
+    matchupWeek: matchup?.matchupWeek,
+    iterations: 2000,
+  });
+
+  // Category scoreboard: actual accumulated totals when box scores exist, projections otherwise
+  const scoreboard = useMemo(() => {
+    const fantraxIdByPlayerId = new Map(Array.from(players.values()).map(p => [p.id, p.fantraxId]));
+
+    if (hasActualStats) {
+      const totalsFor = (dates: string[], startersByDate: Map<string, string[]>) =>
+        computeTeamTotals({ dates, startersByDate, fantraxIdByPlayerId, boxScoresByDate });
+
+      const score = scoreCategories(
+        totalsFor(weekDates, homeStartersByDate),
+        totalsFor(weekDates, awayStartersByDate)
+      );
+
+      // Per-day category score, only for days that have stats
+      const daily = weekDates
+        .filter(date => boxScoresByDate.has(date))
+        .map(date => {
+          const homeDay = totalsFor([date], homeStartersByDate);
+          const awayDay = totalsFor([date], awayStartersByDate);
+          return {
+            date,
+            homeGames: homeDay.gamesPlayed,
+            awayGames: awayDay.gamesPlayed,
+            score: scoreCategories(homeDay, awayDay),
+          };
+        });
+
+      return { isActual: true, ...score, daily };
+    }
+
+    const toStarters = (ids: string[]) =>
+      ids.map(id => players.get(id)).filter((p): p is Player => p !== undefined);
+    const homeValues = projectedTeamValues(toStarters(defaultStarterIds(homeRoster)), projectedStats);
+    const awayValues = projectedTeamValues(toStarters(defaultStarterIds(awayRoster)), projectedStats);
+
+    const categories = MATCHUP_CATEGORIES.map((category, i) => ({
+      category,
+      homeValue: homeValues[i],
+      awayValue: awayValues[i],
+      winner: compareCategory(category, homeValues[i], awayValues[i]),
+    }));
+
+    return {
+      isActual: false,
+      homeWins: categories.filter(c => c.winner === 'home').length,
+      awayWins: categories.filter(c => c.winner === 'away').length,
+      ties: categories.filter(c => c.winner === 'tie').length,
+      categories,
+      daily: [],
+    };
+  }, [
+    hasActualStats, boxScoresByDate, weekDates, homeStartersByDate, awayStartersByDate,
+    players, homeRoster, awayRoster, projectedStats,
+  ]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-mns-dark flex items-center justify-center">
@@ -486,23 +633,30 @@ export function MatchupDetail() {
   const awayTeam = teams.get(matchup.awayTeamId);
   const isMyMatchup = matchup.homeTeamId === myTeamId || matchup.awayTeamId === myTeamId;
 
-  // Placeholder category data — all zeros for now
-  const categoryData = MATCHUP_CATEGORIES.map(cat => {
-    const isPercentage = cat === 'FG%' || cat === 'FT%';
-    const isRatio = cat === 'A/TO';
-    return {
-      name: cat,
-      homeValue: isPercentage || isRatio ? '—' : '0',
-      awayValue: isPercentage || isRatio ? '—' : '0',
-      homeWins: false,
-      awayWins: false,
-      tie: false,
-    };
-  });
-
-  const homeWins = categoryData.filter(c => c.homeWins).length;
-  const awayWins = categoryData.filter(c => c.awayWins).length;
-  const ties = categoryData.filter(c => c.tie).length;
+  const { homeWins, awayWins, ties } = scoreboard;
+  const weekOver = weekDates.length > 0 && todayET() > weekDates[weekDates.length - 1];
+  const scoreLabel = !scoreboard.isActual ? 'Projected' : weekOver ? 'Final' : 'Live';
+
+  // Winning / losing / tied from the viewer's side (away side when not in this matchup)
+  const viewerSide: CategoryOutcome = matchup.homeTeamId === myTeamId ? 'home' : 'away';
+  const viewerWins = viewerSide === 'home' ? homeWins : awayWins;
+  const viewerLosses = viewerSide === 'home' ? awayWins : homeWins;
+  const leaderName = homeWins > awayWins ? homeTeam?.name : awayTeam?.name;
+  const statusText = homeWins === awayWins
+    ? 'Tied'
+    : isMyMatchup
+      ? viewerWins > viewerLosses ? 'Winning' : 'Losing'
+      : `${leaderName || '???'} leads`;
+
+  const odds = !weekOver ? winProbabilities.get(matchup.id) : undefined;
+  const formatOdds = (p: number) => `${Math.round(p * 100)}%`;
+
+  const winnerClass = (winner: CategoryOutcome, side: CategoryOutcome) =>
+    winner === side
+      ? 'text-green-400 font-bold'
+      : winner === 'tie'
+        ? 'text-yellow-400/80'
+        : 'text-gray-500';
 
   return (
     <div className="min-h-screen bg-mns-dark">
@@ -592,10 +746,54 @@ export function MatchupDetail() {
           {/* Category score */}
           <div className="text-center mt-4">
             <span className="text-xs text-gray-500 uppercase tracking-wider">Category Score</span>
+            <span className={`ml-2 text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded ${
+              scoreLabel === 'Live'
+                ? 'bg-green-400/10 text-green-400'
+                : scoreLabel === 'Final'
+                  ? 'bg-gray-700 text-gray-300'
+                  : 'bg-purple-400/10 text-purple-400'
+            }`}>
+              {scoreLabel}
+            </span>
             <div className="text-2xl font-bold text-white mt-1 tabular-nums">
               {awayWins}-{homeWins}{ties > 0 ? `-${ties}` : ''}
             </div>
+            <div className={`text-xs mt-1 ${
+              statusText === 'Tied'
+                ? 'text-yellow-400/80'
+                : statusText === 'Losing'
+                  ? 'text-red-400'
+                  : statusText === 'Winning' ? 'text-green-400' : 'text-gray-400'
+            }`}>
+              {statusText}
+              {!scoreboard.isActual && ' · based on per-game projections'}
+            </div>
           </div>
+
+          {/* Rest-of-week win probability */}
+          {odds && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between text-xs tabular-nums mb-1">
+                <span className={odds.awayWinProbability >= odds.homeWinProbability ? 'text-green-400 font-bold' : 'text-gray-400'}>
+                  {formatOdds(odds.awayWinProbability)}
+                </span>
+                <span className="text-gray-500 uppercase tracking-wider">Win Probability</span>
+                <span className={odds.homeWinProbability >= odds.awayWinProbability ? 'text-green-400 font-bold' : 'text-gray-400'}>
+                  {formatOdds(odds.homeWinProbability)}
+                </span>
+              </div>
+              <div className="flex h-1.5 rounded overflow-hidden bg-gray-800">
+                <div className="bg-green-400" style={{ width: `${odds.awayWinProbability * 100}%` }} />
+                <div className="bg-gray-600" style={{ width: `${odds.tieProbability * 100}%` }} />
+                <div className="bg-purple-400" style={{ width: `${odds.homeWinProbability * 100}%` }} />
+              </div>
+              {odds.tieProbability > 0 && (
+                <div className="text-center text-[10px] text-gray-600 mt-1">
+                  Tie {formatOdds(odds.tieProbability)} · {odds.iterations.toLocaleString()} simulations
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* View-dependent content */}
@@ -619,25 +817,55 @@ export function MatchupDetail() {
             </div>
 
             {/* Category rows */}
-            {categoryData.map((cat, i) => (
+            {scoreboard.categories.map((cat, i) => (
               <div
-                key={cat.name}
+                key={cat.category}
                 className={`grid grid-cols-[1fr_auto_1fr] px-4 py-3 ${
-                  i < categoryData.length - 1 ? 'border-b border-gray-800/50' : ''
+                  i < scoreboard.categories.length - 1 ? 'border-b border-gray-800/50' : ''
                 }`}
               >
-                <div className={`text-sm text-center tabular-nums ${
-                  cat.awayWins ? 'text-green-400 font-bold' : 'text-gray-500'
-                }`}>
-                  {cat.awayValue}
+                <div className={`text-sm text-center tabular-nums ${winnerClass(cat.winner, 'away')}`}>
+                  {formatStat(cat.awayValue, cat.category)}
                 </div>
                 <div className="text-sm font-medium text-gray-300 text-center px-4 min-w-[60px]">
-                  {cat.name}
+                  {cat.category}
+                  {odds && (
+                    <div className="text-[10px] text-gray-600 tabular-nums font-normal">
+                      {formatOdds(odds.categories[i].awayWinProbability)} / {formatOdds(odds.categories[i].homeWinProbability)}
+                    </div>
+                  )}
+                </div>
+                <div className={`text-sm text-center tabular-nums ${winnerClass(cat.winner, 'home')}`}>
+                  {formatStat(cat.homeValue, cat.category)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Daily breakdown — category score for each day with stats */}
+        {view === 'totals' && scoreboard.daily.length > 0 && (
+          <div className="bg-mns-card rounded-lg border border-gray-800 overflow-hidden mb-6">
+            <div className="px-4 py-3 bg-mns-dark border-b border-gray-800">
+              <h2 className="text-xs font-medium text-gray-400 uppercase tracking-wider">Daily Breakdown</h2>
+            </div>
+            {scoreboard.daily.map(day => (
+              <div
+                key={day.date}
+                className="grid grid-cols-[1fr_auto_1fr] px-4 py-2 border-b border-gray-800/50 last:border-0"
+              >
+                <div className="text-xs text-center text-gray-500 tabular-nums">
+                  {day.awayGames} GP
+                </div>
+                <div className="text-center px-4 min-w-[140px]">
+                  <div className="text-xs text-gray-400">{formatDayLabel(day.date)}</div>
+                  <div className="text-sm font-bold text-white tabular-nums">
+                    {day.score.awayWins}-{day.score.homeWins}
+                    {day.score.ties > 0 ? `-${day.score.ties}` : ''}
+                  </div>
                 </div>
-                <div className={`text-sm text-center tabular-nums ${
-                  cat.homeWins ? 'text-green-400 font-bold' : 'text-gray-500'
-                }`}>
-                  {cat.homeValue}
+                <div className="text-xs text-center text-gray-500 tabular-nums">
+                  {day.homeGames} GP
                 </div>
               </div>
             ))}
@@ -652,6 +880,9 @@ export function MatchupDetail() {
             teamName={awayTeam?.name || 'Away Team'}
             isMyTeam={matchup.awayTeamId === myTeamId}
             weekDates={weekDates}
+            startersByDate={awayStartersByDate}
+            boxScoresByDate={boxScoresByDate}
+            hasActualStats={hasActualStats}
           />
         )}
 
@@ -663,6 +894,9 @@ export function MatchupDetail() {
             teamName={homeTeam?.name || 'Home Team'}
             isMyTeam={matchup.homeTeamId === myTeamId}
             weekDates={weekDates}
+            startersByDate={homeStartersByDate}
+            boxScoresByDate={boxScoresByDate}
+            hasActualStats={hasActualStats}
           />
         )}
 
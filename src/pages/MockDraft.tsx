@@ -11,6 +11,7 @@ import {
 } from '../lib/lottery';
 import type { TeamStanding, LotteryOdds, LotteryResult, MockPick } from '../lib/lottery';
 import { toPng } from 'html-to-image';
+import { LotteryOddsMatrix } from '../components/LotteryOddsMatrix';
 import type { Team, League, Prospect } from '../types';
 import { DEFAULT_ROSTER_SETTINGS } from '../types';
 
@@ -471,6 +472,8 @@ export function MockDraft() {
                   </div>
                 </div>
 
+                <LotteryOddsMatrix lotteryTeams={lotteryTeams} moneyTeams={moneyTeams} />
+
                 {/* How It Works */}
                 <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
                   <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-3">How It Works</h3>
@@ -15,10 +15,13 @@ import { SummaryCard } from '../components/SummaryCard';
 import { DraftBoardView } from '../components/DraftBoardView';
 import { WatchListView } from '../components/WatchListView';
 import { RegularSeasonRosterView } from '../components/RegularSeasonRosterView';
+import { KeeperOptimizerPanel } from '../components/KeeperOptimizerPanel';
+import type { KeeperSet } from '../lib/keeperOptimizer';
 
 import { baseKeeperRound, stackKeeperRounds, computeSummary, validateRoster } from '../lib/keeperAlgorithms';
 import type { RosterEntry, Decision, Player, SavedScenario } from '../types';
-import { mapPlayer } from '../lib/mappers';
+import { DEFAULT_KEEPER_RULES } from '../types';
+import { mapPickAssignment, mapPlayer } from '../lib/mappers';
 
 interface RookieDraftPick {
   id: string;
@@ -47,6 +50,7 @@ export function OwnerDashboard() {
   const [draftedPlayers, setDraftedPlayers] = useState<Player[]>([]);
   const [teamDraftPicks, setTeamDraftPicks] = useState<any[]>([]);
   const [draftStatus, setDraftStatus] = useState<string>('setup');
+  const [onClockPick, setOnClockPick] = useState<number | null>(null);  // Overall pick on the clock, live draft only
 
   // Check if current user is the owner of this team
   const isOwner = team?.owners.includes(user?.email || '') || false;
@@ -54,6 +58,8 @@ export function OwnerDashboard() {
   // Check if user can see keeper decisions (own team or keepers are locked)
   const canViewDecisions = isOwner || league?.keepersLocked;
 
+  const keeperRules = league?.keeperRules ?? DEFAULT_KEEPER_RULES;
+
   const [entries, setEntries] = useState<RosterEntry[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [scenarioName, setScenarioName] = useState('');
@@ -109,10 +115,10 @@ export function OwnerDashboard() {
         // Recalculate baseRound for all entries to ensure they're up to date
         const updatedEntries = mostRecent.entries.map((entry) => {
           const player = playersMap.get(entry.playerId);
-          // Default to round 13 if no baseRound can be calculated
+          // Default to the last draft round if no baseRound can be calculated
           return {
             ...entry,
-            baseRound: player ? (baseKeeperRound(player) || 13) : (entry.baseRound || 13),
+            baseRound: player ? (baseKeeperRound(player, keeperRules) || keeperRules.draftRounds) : (entry.baseRound || keeperRules.draftRounds),
           };
         });
         setEntries(updatedEntries);
@@ -123,7 +129,7 @@ export function OwnerDashboard() {
           const cleanSlate: RosterEntry[] = players.map((player) => ({
             playerId: player.id,
             decision: 'DROP',
-            baseRound: baseKeeperRound(player) || 13,
+            baseRound: baseKeeperRound(player, keeperRules) || keeperRules.draftRounds,
           }));
           setEntries(cleanSlate);
           setActiveScenarioId(null);
@@ -134,12 +140,12 @@ export function OwnerDashboard() {
       const initialEntries: RosterEntry[] = players.map((player) => ({
         playerId: player.id,
         decision: 'DROP',
-        baseRound: baseKeeperRound(player) || 13,
+        baseRound: baseKeeperRound(player, keeperRules) || keeperRules.draftRounds,
       }));
       setEntries(initialEntries);
       setActiveScenarioId(null);
     }
-  }, [roster, players, playersMap]);
+  }, [roster, players, playersMap, keeperRules]);
 
   // Fetch all league players, rookie picks, and draft data in parallel
   useEffect(() => {
@@ -159,7 +165,7 @@ export function OwnerDashboard() {
         if (league) {
           [picksResult, draftResult] = await Promise.all([
             supabase.from('pick_assignments').select('*').eq('league_id', leagueId).eq('current_team_id', teamId).eq('season_year', league.seasonYear),
-            supabase.from('drafts').select('status').eq('id', `${leagueId}_${league.seasonYear}`).maybeSingle(),
+            supabase.from('drafts').select('status, current_pick').eq('id', `${leagueId}_${league.seasonYear}`).maybeSingle(),
           ]);
         }
 
@@ -204,6 +210,7 @@ export function OwnerDashboard() {
           if (results[3]?.data) {
             setDraftStatus(results[3].data.status || 'setup');
           }
+          setOnClockPick(draftResult?.data?.current_pick?.overallPick ?? null);
         }
       } catch (error) {
         logger.error('Error fetching dashboard data:', error);
@@ -211,6 +218,57 @@ export function OwnerDashboard() {
     };
 
     fetchAllData();
+
+    if (!league) return;
+
+    // Live draft: picks get made and traded (execute_trade) while the
+    // dashboard is open, so keep this team's draft board current
+    const refreshDraftPicks = async () => {
+      const { data: pickRows, error } = await supabase
+        .from('pick_assignments')
+        .select('*')
+        .eq('league_id', leagueId)
+        .eq('current_team_id', teamId)
+        .eq('season_year', league.seasonYear);
+      if (error) {
+        logger.error('Error refreshing pick assignments:', error);
+        return;
+      }
+
+      const teamPickAssignments = (pickRows || []).map(mapPickAssignment);
+      setTeamDraftPicks(teamPickAssignments);
+
+      const playerIds = teamPickAssignments.filter(pick => pick.playerId).map(pick => pick.playerId!);
+      if (playerIds.length > 0) {
+        const { data: playerRows } = await supabase.from('players').select('*').in('fantrax_id', playerIds);
+        setDraftedPlayers((playerRows || []).map(mapPlayer));
+      } else {
+        setDraftedPlayers([]);
+      }
+    };
+
+    const draftId = `${leagueId}_${league.seasonYear}`;
+    const channel = supabase.channel(`dashboard-draft-${draftId}-${teamId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'pick_assignments', filter: `league_id=eq.${leagueId}` },
+        () => {
+          refreshDraftPicks();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'drafts', filter: `id=eq.${draftId}` },
+        (payload) => {
+          const row = payload.new as { current_pick?: { overallPick?: number } | null };
+          setOnClockPick(row.current_pick?.overallPick ?? null);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [leagueId, teamId, league]);
 
   // Preload related pages that users are likely to navigate to from dashboard
@@ -234,8 +292,8 @@ export function OwnerDashboard() {
       prev.map((entry) => {
         if (entry.playerId === playerId) {
           const player = playersMap.get(playerId);
-          // Default to round 13 if no baseRound can be calculated
-          const calculatedBaseRound = player ? (baseKeeperRound(player) || 13) : (entry.baseRound || 13);
+          // Default to the last draft round if no baseRound can be calculated
+          const calculatedBaseRound = player ? (baseKeeperRound(player, keeperRules) || keeperRules.draftRounds) : (entry.baseRound || keeperRules.draftRounds);
           return {
             ...entry,
             decision,
@@ -314,9 +372,10 @@ export function OwnerDashboard() {
         entries,
         allPlayers: playersMap,
         tradeDelta: team?.capAdjustments.tradeDelta || 0,
+        keeperRules,
       });
 
-      const { franchiseTags } = stackKeeperRounds([...entries]);
+      const { franchiseTags } = stackKeeperRounds([...entries], keeperRules);
       const summary = computeSummary({
         entries,
         allPlayers: playersMap,
@@ -350,13 +409,46 @@ export function OwnerDashboard() {
       const player = playersMap.get(entry.playerId);
       return {
         ...entry,
-        baseRound: player ? (baseKeeperRound(player) || 13) : (entry.baseRound || 13),
+        baseRound: player ? (baseKeeperRound(player, keeperRules) || keeperRules.draftRounds) : (entry.baseRound || keeperRules.draftRounds),
       };
     });
     setEntries(updatedEntries);
     setActiveScenarioId(scenario.scenarioId);
   };
 
+  // Optimizer picks become a saved scenario, then load like any other
+  const handleLoadOptimizedSet = async (set: KeeperSet) => {
+    try {
+      setIsSaving(true);
+
+      await updateRoster({
+        leagueId: leagueId!,
+        teamId: teamId!,
+        entries: set.entries,
+        allPlayers: playersMap,
+        tradeDelta: team?.capAdjustments.tradeDelta || 0,
+        keeperRules,
+      });
+
+      const scenario: SavedScenario = await saveScenario({
+        leagueId: leagueId!,
+        teamId: teamId!,
+        scenarioName: `Optimizer #${set.rank} (${new Date().toLocaleDateString()})`,
+        entries: set.entries,
+        summary: set.summary,
+        savedBy: user?.email || '',
+      });
+
+      handleLoadScenario(scenario);
+      toast.success(`Loaded optimizer set #${set.rank} as a scenario`);
+    } catch (error) {
+      logger.error('Error loading optimizer set:', error);
+      toast.error(`Failed to load keeper set: ${(error as { message?: string })?.message || 'Please try again.'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleSubmit = async () => {
     const errors = validateRoster(entries, playersMap, team?.settings.maxKeepers);
     const hasErrors = errors.some((e) => e.type === 'error');
@@ -387,6 +479,7 @@ export function OwnerDashboard() {
         entries,
         allPlayers: playersMap,
         tradeDelta: team?.capAdjustments.tradeDelta || 0,
+        keeperRules,
       });
 
       await submitRoster(leagueId!, teamId!);
@@ -445,7 +538,7 @@ export function OwnerDashboard() {
 
     // Franchise tags from stacking
     const entriesCopy = entries.map(e => ({ ...e }));
-    const { franchiseTags } = stackKeeperRounds(entriesCopy);
+    const { franchiseTags } = stackKeeperRounds(entriesCopy, keeperRules);
     const franchiseTagFee = league?.fees?.franchiseTagFee ?? 15;
     const franchiseTagDues = franchiseTags * franchiseTagFee;
 
@@ -471,7 +564,7 @@ export function OwnerDashboard() {
     };
 
     return { stackedEntries: entriesCopy, currentSummary: summary };
-  }, [entries, playersMap, team, teamDraftPicks]);
+  }, [entries, playersMap, team, teamDraftPicks, keeperRules]);
 
 
   const sortedPlayers = useMemo(() => {
@@ -634,7 +727,7 @@ export function OwnerDashboard() {
                   const cleanSlate: RosterEntry[] = players.map((player) => ({
                     playerId: player.id,
                     decision: 'DROP',
-                    baseRound: baseKeeperRound(player) || 13,
+                    baseRound: baseKeeperRound(player, keeperRules) || keeperRules.draftRounds,
                   }));
                   setEntries(cleanSlate);
                   setActiveScenarioId(null);
@@ -663,12 +756,12 @@ export function OwnerDashboard() {
             {/* Desktop: 2-column layout for owners, single column for others */}
             {isOwner ? (
               <div className="hidden lg:grid lg:grid-cols-2 gap-6 mb-6">
-                <DraftBoardView players={allLeaguePlayers} entries={stackedEntries} pickAssignments={teamDraftPicks} />
+                <DraftBoardView players={allLeaguePlayers} entries={stackedEntries} pickAssignments={teamDraftPicks} onClockPick={onClockPick} />
                 <WatchListView watchList={watchList} allPlayers={allLeaguePlayers} projectedStats={projectedStats} />
               </div>
             ) : (
               <div className="hidden lg:block mb-6">
-                <DraftBoardView players={allLeaguePlayers} entries={stackedEntries} pickAssignments={teamDraftPicks} />
+                <DraftBoardView players={allLeaguePlayers} entries={stackedEntries} pickAssignments={teamDraftPicks} onClockPick={onClockPick} />
               </div>
             )}
 
@@ -713,7 +806,7 @@ export function OwnerDashboard() {
                     >
                       {/* Slide 1: Draft Board */}
                       <div className="w-full flex-shrink-0 px-2">
-                        <DraftBoardView players={allLeaguePlayers} entries={stackedEntries} pickAssignments={teamDraftPicks} />
+                        <DraftBoardView players={allLeaguePlayers} entries={stackedEntries} pickAssignments={teamDraftPicks} onClockPick={onClockPick} />
                       </div>
                       {/* Slide 2: Watch List */}
                       <div className="w-full flex-shrink-0 px-2">
@@ -741,7 +834,7 @@ export function OwnerDashboard() {
                   </div>
                 </>
               ) : (
-                <DraftBoardView players={allLeaguePlayers} entries={stackedEntries} pickAssignments={teamDraftPicks} />
+                <DraftBoardView players={allLeaguePlayers} entries={stackedEntries} pickAssignments={teamDraftPicks} onClockPick={onClockPick} />
               )}
             </div>
           </>
@@ -761,6 +854,23 @@ export function OwnerDashboard() {
           </div>
         )}
 
+        {/* Keeper Optimizer - Only visible to team owner */}
+        {!isLocked && isOwner && !isRegularSeason && (
+          <KeeperOptimizerPanel
+            leagueId={leagueId!}
+            players={players}
+            entries={entries}
+            projectedStats={projectedStats}
+            maxKeepers={team?.settings.maxKeepers}
+            tradeDelta={team?.capAdjustments.tradeDelta || 0}
+            cap={league?.cap}
+            fees={league?.fees}
+            keeperRules={keeperRules}
+            isSaving={isSaving}
+            onLoad={handleLoadOptimizedSet}
+          />
+        )}
+
         {/* Actions - Only visible to team owner */}
         {!isLocked && isOwner && (
           <div className="bg-mns-card p-6 rounded-lg border border-gray-800">
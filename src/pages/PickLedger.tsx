@@ -0,0 +1,296 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { useAuth } from '../contexts/AuthContext';
+import { useLeague } from '../contexts/LeagueContext';
+import { useMatchups } from '../hooks/useMatchups';
+import { useTradeProposals } from '../hooks/useTradeProposals';
+import { usePrizeSpots } from '../hooks/usePrizeSpots';
+import { mapTeam } from '../lib/mappers';
+import { buildStandings } from '../lib/tradeAnalyzer';
+import { buildOwnershipChain, projectPicks } from '../lib/pickLedger';
+import type { LedgerPick, PickProjection } from '../lib/pickLedger';
+import type { Team } from '../types';
+
+const ordinal = (n: number) => {
+  const s = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return `${n}${s[(v - 20) % 10] || s[v] || s[0]}`;
+};
+
+// Draft order: season, then projected overall pick
+const byProjectedPosition = (projections: Map<string, PickProjection>) => (a: LedgerPick, b: LedgerPick) =>
+  a.year - b.year
+  || (projections.get(a.id)?.projectedOverall ?? 0) - (projections.get(b.id)?.projectedOverall ?? 0)
+  || a.round - b.round;
+
+export function PickLedger() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { user } = useAuth();
+  const { currentLeague } = useLeague();
+  const { proposals, loading: proposalsLoading } = useTradeProposals(leagueId);
+  const { records } = useMatchups({
+    leagueId,
+    seasonYear: currentLeague?.seasonYear,
+    scoringMode: currentLeague?.scoringMode,
+  });
+
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [picks, setPicks] = useState<LedgerPick[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Filters
+  const [teamFilter, setTeamFilter] = useState('');
+  const [tradedOnly, setTradedOnly] = useState(false);
+
+  useEffect(() => {
+    if (!leagueId) return;
+    const loadData = async () => {
+      try {
+        const [teamsRes, picksRes] = await Promise.all([
+          supabase.from('teams').select('*').eq('league_id', leagueId),
+          supabase.from('rookie_draft_picks').select('*').eq('league_id', leagueId),
+        ]);
+        if (teamsRes.error) throw teamsRes.error;
+        if (picksRes.error) throw picksRes.error;
+
+        setTeams((teamsRes.data || []).map(mapTeam).sort((a, b) => a.name.localeCompare(b.name)));
+        setPicks((picksRes.data || []).map((p): LedgerPick => ({
+          id: p.id,
+          year: p.year,
+          round: p.round,
+          originalTeam: p.original_team,
+          originalTeamName: p.original_team_name,
+          currentOwner: p.current_owner,
+        })));
+      } catch (err) {
+        logger.error('Error loading pick ledger data:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+
+    // Picks change hands through trades and commissioner edits
+    const channel = supabase.channel(`pick-ledger-${leagueId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'rookie_draft_picks', filter: `league_id=eq.${leagueId}` },
+        () => {
+          loadData();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueId]);
+
+  const myTeam = useMemo(
+    () => teams.find(t => t.owners.includes(user?.email || '')),
+    [teams, user?.email]
+  );
+  const teamNames = useMemo(() => new Map(teams.map(t => [t.id, t.name])), [teams]);
+  const teamAbbrevs = useMemo(() => new Map(teams.map(t => [t.id, t.abbrev])), [teams]);
+
+  const years = useMemo(() => [...new Set(picks.map(p => p.year))].sort((a, b) => a - b), [picks]);
+
+  // Upcoming rookie draft — same year the trade analyzer values picks for
+  const upcomingDraftYear = (currentLeague?.seasonYear || new Date().getFullYear()) + 1;
+  const prizeSpots = usePrizeSpots(currentLeague, teams.length);
+
+  const projections = useMemo(() => projectPicks({
+    picks,
+    standings: buildStandings(teams, records),
+    upcomingDraftYear,
+    prizeSpots,
+    manualOrder: currentLeague?.roster?.rookieDraftOrderMethod === 'manual' ? currentLeague.roster.rookieDraftOrder : undefined,
+  }), [picks, teams, records, upcomingDraftYear, prizeSpots, currentLeague]);
+
+  const chains = useMemo(
+    () => new Map(picks.map(p => [p.id, buildOwnershipChain(p, proposals, teamNames)])),
+    [picks, proposals, teamNames]
+  );
+
+  const byPosition = useMemo(() => byProjectedPosition(projections), [projections]);
+
+  // Any pick the filtered team has ever owned
+  const historyPicks = useMemo(() => picks
+    .filter(p => !teamFilter || chains.get(p.id)?.some(step => step.teamId === teamFilter))
+    .filter(p => !tradedOnly || (chains.get(p.id)?.length ?? 1) > 1)
+    .sort(byPosition),
+  [picks, teamFilter, tradedOnly, chains, byPosition]);
+
+  if (loading || proposalsLoading) {
+    return (
+      <div className="min-h-screen bg-mns-dark flex items-center justify-center">
+        <div className="text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  const ledgerTeams = teamFilter ? teams.filter(t => t.id === teamFilter) : teams;
+
+  return (
+    <div className="min-h-screen bg-mns-dark">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-white">Pick Ledger</h1>
+          <p className="text-gray-400 mt-1">
+            Every team's rookie picks through {years[years.length - 1] ?? upcomingDraftYear}, projected from today's standings
+          </p>
+        </div>
+
+        {picks.length === 0 ? (
+          <div className="bg-mns-card rounded-lg border border-gray-800 p-8 text-center text-gray-500">
+            Rookie picks haven't been generated for this league yet
+          </div>
+        ) : (
+          <>
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-3 mb-6">
+              <select
+                value={teamFilter}
+                onChange={(e) => setTeamFilter(e.target.value)}
+                className="px-3 py-2 bg-mns-dark border border-gray-700 rounded text-white text-sm"
+              >
+                <option value="">All teams</option>
+                {teams.map(team => (
+                  <option key={team.id} value={team.id}>{team.name}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={tradedOnly}
+                  onChange={(e) => setTradedOnly(e.target.checked)}
+                  className="rounded border-gray-600"
+                />
+                Traded picks only
+              </label>
+            </div>
+
+            {/* Ownership grid — team × season */}
+            <div className="bg-mns-card rounded-lg border border-gray-800 mb-6 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-800 text-xs text-gray-500 uppercase tracking-wider">
+                    <th className="text-left px-4 py-3">Team</th>
+                    {years.map(year => (
+                      <th key={year} className="text-left px-4 py-3">
+                        {year}
+                        {year === upcomingDraftYear && <span className="ml-1 text-green-400 normal-case">(next)</span>}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledgerTeams.map(team => (
+                    <tr
+                      key={team.id}
+                      className={`border-b border-gray-800/50 align-top ${team.id === myTeam?.id ? 'bg-green-400/5' : ''}`}
+                    >
+                      <td className="px-4 py-3 text-white font-medium whitespace-nowrap">{team.name}</td>
+                      {years.map(year => {
+                        const owned = picks
+                          .filter(p => p.year === year && p.currentOwner === team.id)
+                          .filter(p => !tradedOnly || p.originalTeam !== p.currentOwner)
+                          .sort(byPosition);
+                        return (
+                          <td key={year} className="px-4 py-3">
+                            {owned.length === 0 ? (
+                              <span className="text-gray-600">—</span>
+                            ) : (
+                              <div className="flex flex-wrap gap-1">
+                                {owned.map(pick => {
+                                  const projection = projections.get(pick.id);
+                                  const acquired = pick.originalTeam !== team.id;
+                                  return (
+                                    <span
+                                      key={pick.id}
+                                      title={`${pick.originalTeamName} ${ordinal(pick.round)}-round pick`}
+                                      className={`text-xs px-2 py-0.5 rounded border ${
+                                        acquired
+                                          ? 'bg-purple-400/10 text-purple-400 border-purple-400/30'
+                                          : 'bg-gray-700/40 text-gray-300 border-gray-700'
+                                      }`}
+                                    >
+                                      R{pick.round}
+                                      {projection && ` #${projection.projectedOverall}`}
+                                      {acquired && ` via ${teamAbbrevs.get(pick.originalTeam) || pick.originalTeamName}`}
+                                    </span>
+                                  );
+                                })}
+                              </div>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pick history — ownership chain of each pick */}
+            <div className="bg-mns-card rounded-lg border border-gray-800 p-5">
+              <h2 className="text-lg font-semibold text-white mb-4">Pick History</h2>
+              {historyPicks.length === 0 ? (
+                <p className="text-sm text-gray-500">No picks match these filters</p>
+              ) : (
+                <ul className="space-y-2">
+                  {historyPicks.map(pick => {
+                    const projection = projections.get(pick.id);
+                    const chain = chains.get(pick.id) || [];
+                    return (
+                      <li key={pick.id} className="bg-mns-dark rounded p-3 border border-gray-800">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <span className="text-white font-medium">
+                            {pick.year} Round {pick.round}
+                            <span className="text-gray-400 font-normal"> · {pick.originalTeamName}</span>
+                          </span>
+                          {projection && (
+                            <span className="text-xs text-gray-400">
+                              Projects to pick {projection.projectedOverall} ({pick.round}.{projection.projectedSlot})
+                              {projection.pctFirstPick > 0 && (
+                                <span className="text-yellow-400"> · {projection.pctFirstPick.toFixed(1)}% at #1</span>
+                              )}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1 mt-2 text-xs">
+                          {chain.map((step, i) => (
+                            <span key={`${step.teamId}-${i}`} className="flex items-center gap-1">
+                              {i > 0 && <span className="text-gray-600">→</span>}
+                              <span
+                                className={
+                                  i === chain.length - 1
+                                    ? 'text-green-400 font-semibold'
+                                    : 'text-gray-300'
+                                }
+                              >
+                                {step.teamName}
+                              </span>
+                              {step.acquiredAt && (
+                                <span className="text-gray-600">({new Date(step.acquiredAt).toLocaleDateString()})</span>
+                              )}
+                              {step.manual && <span className="text-gray-600">(commissioner)</span>}
+                            </span>
+                          ))}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { useCanManageLeague } from '../hooks/useCanManageLeague';
+import { usePlayoffBracket } from '../hooks/usePlayoffBracket';
+import { advancePlayoffBracket, computeConsolationStandings } from '../lib/playoffOps';
+import { describePlayoffBracket } from '../lib/scheduleUtils';
+import type { League, Matchup, Team } from '../types';
+import { mapLeague, mapTeam } from '../lib/mappers';
+
+export function Playoffs() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const canManage = useCanManageLeague();
+  const [league, setLeague] = useState<League | null>(null);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [advancing, setAdvancing] = useState(false);
+  const { bracket, matchups, loading } = usePlayoffBracket({ leagueId, seasonYear: league?.seasonYear });
+
+  useEffect(() => {
+    if (!leagueId) return;
+
+    const fetchData = async () => {
+      const [leagueRes, teamsRes] = await Promise.all([
+        supabase.from('leagues').select('*').eq('id', leagueId).single(),
+        supabase.from('teams').select('*').eq('league_id', leagueId),
+      ]);
+
+      if (leagueRes.error) {
+        logger.error('Error fetching league:', leagueRes.error);
+        return;
+      }
+      setLeague(mapLeague(leagueRes.data));
+      setTeams((teamsRes.data || []).map(mapTeam));
+    };
+
+    fetchData();
+  }, [leagueId]);
+
+  const handleAdvance = async () => {
+    if (!leagueId || !league) return;
+    setAdvancing(true);
+    const result = await advancePlayoffBracket({ leagueId, seasonYear: league.seasonYear });
+    setAdvancing(false);
+
+    if (!result.success) {
+      toast.error(`Failed to advance bracket: ${result.error}`);
+    } else if (result.created > 0) {
+      toast.success(`${result.created} new post-season matchup${result.created !== 1 ? 's' : ''} created`);
+    } else {
+      toast.info(result.complete ? 'Bracket is complete' : 'Waiting on final scores for the current round');
+    }
+  };
+
+  if (!league || loading) {
+    return (
+      <div className="min-h-screen bg-mns-dark flex items-center justify-center">
+        <div className="text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  const teamById = new Map(teams.map(t => [t.id, t]));
+  const teamName = (id?: string) => (id ? teamById.get(id)?.name || 'Unknown team' : 'TBD');
+  const seedOf = (id: string) => (bracket ? bracket.seeds.indexOf(id) + 1 : 0);
+
+  return (
+    <div className="min-h-screen bg-mns-dark">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Playoffs</h1>
+            <p className="text-gray-400 mt-1">{league.seasonYear}-{league.seasonYear + 1} post-season bracket</p>
+          </div>
+          {canManage && bracket && (
+            <button
+              onClick={handleAdvance}
+              disabled={advancing}
+              className="px-4 py-2 text-sm border border-green-400 text-green-400 rounded-lg hover:bg-green-400/10 transition-colors disabled:opacity-50"
+            >
+              {advancing ? 'Checking...' : 'Advance Bracket'}
+            </button>
+          )}
+        </div>
+
+        {!bracket ? (
+          <div className="bg-mns-card rounded-lg border border-gray-800 p-12 text-center">
+            <p className="text-gray-400">The bracket is seeded when the league moves to the playoffs.</p>
+          </div>
+        ) : (
+          <>
+            {/* Champion */}
+            {bracket.championTeamId && (
+              <div className="bg-gradient-to-br from-yellow-400 via-yellow-500 to-yellow-600 rounded-lg shadow-lg p-6 mb-8 text-center">
+                <div className="text-lg font-semibold text-gray-900 mb-2">🏆 Champion</div>
+                <div className="text-4xl font-bold text-gray-900">{teamName(bracket.championTeamId)}</div>
+              </div>
+            )}
+
+            {/* Championship Bracket */}
+            <ChampionshipBracket
+              seeds={bracket.seeds}
+              byeTeams={bracket.byeTeams}
+              roundWeeks={bracket.roundWeeks}
+              matchups={matchups}
+              leagueId={leagueId!}
+              teamName={teamName}
+              seedOf={seedOf}
+            />
+
+            {/* Consolation */}
+            {bracket.consolationTeamIds.length >= 2 && bracket.consolationWeeks.length > 0 && (
+              <div className="mt-8 bg-mns-card rounded-lg border border-gray-800 p-6">
+                <h2 className="text-xl font-bold text-white mb-1">Consolation Bracket</h2>
+                <p className="text-xs text-gray-500 mb-4">
+                  Most cumulative category wins over {bracket.consolationWeeks.length} week{bracket.consolationWeeks.length !== 1 ? 's' : ''} earns the best rookie draft odds
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="text-left py-1 w-8">#</th>
+                      <th className="text-left py-1">Team</th>
+                      <th className="text-center py-1">Cat W-L</th>
+                      <th className="text-center py-1">Played</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {computeConsolationStandings(bracket, matchups).map((standing, idx) => (
+                      <tr key={standing.teamId} className="border-t border-gray-800">
+                        <td className="py-1.5 text-gray-500">{idx + 1}</td>
+                        <td className={`py-1.5 ${standing.teamId === bracket.consolationWinnerTeamId ? 'text-amber-400 font-semibold' : 'text-white'}`}>
+                          {teamName(standing.teamId)}
+                          {standing.teamId === bracket.consolationWinnerTeamId && ' 🏅'}
+                        </td>
+                        <td className="py-1.5 text-center text-gray-300">{standing.categoryWins}-{standing.categoryLosses}</td>
+                        <td className="py-1.5 text-center text-gray-400">{standing.matchupsPlayed}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ChampionshipBracketProps {
+  seeds: string[];
+  byeTeams: number;
+  roundWeeks: number[];
+  matchups: Matchup[];
+  leagueId: string;
+  teamName: (id?: string) => string;
+  seedOf: (id: string) => number;
+}
+
+function ChampionshipBracket({ seeds, byeTeams, roundWeeks, matchups, leagueId, teamName, seedOf }: ChampionshipBracketProps) {
+  const rounds = describePlayoffBracket(seeds.length, roundWeeks.length, byeTeams);
+  const thirdPlace = matchups.find(m => m.bracket === 'third_place');
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex gap-6 min-w-max">
+        {rounds.map(round => {
+          const roundMatchups = matchups
+            .filter(m => m.bracket === 'playoff' && m.playoffRound === round.round)
+            .sort((a, b) => (a.homeSeed ?? 0) - (b.homeSeed ?? 0));
+          const placeholders = Math.max(0, round.matchupCount - roundMatchups.length);
+          const isFinals = round.round === rounds.length;
+
+          return (
+            <div key={round.round} className="w-64 flex flex-col">
+              <h3 className="text-xs font-semibold text-purple-400 uppercase tracking-wider mb-1">{round.label}</h3>
+              <p className="text-xs text-gray-500 mb-3">Week {roundWeeks[round.round - 1]}</p>
+              <div className="flex-1 flex flex-col justify-around gap-3">
+                {round.round === 1 && seeds.slice(0, byeTeams).map(teamId => (
+                  <div key={teamId} className="bg-mns-card rounded-lg border border-dashed border-gray-700 px-3 py-2 text-sm">
+                    <span className="text-gray-500 mr-2">#{seedOf(teamId)}</span>
+                    <span className="text-white">{teamName(teamId)}</span>
+                    <span className="text-xs text-gray-500 ml-2">bye</span>
+                  </div>
+                ))}
+                {roundMatchups.map(m => (
+                  <BracketMatchupCard key={m.id} matchup={m} leagueId={leagueId} teamName={teamName} />
+                ))}
+                {Array.from({ length: placeholders }, (_, i) => (
+                  <div key={`tbd-${i}`} className="bg-mns-card rounded-lg border border-gray-800 px-3 py-2 text-sm text-gray-600">
+                    <div>TBD</div>
+                    <div>TBD</div>
+                  </div>
+                ))}
+                {isFinals && thirdPlace && (
+                  <div>
+                    <div className="text-xs text-orange-400 uppercase tracking-wider mb-1">3rd Place</div>
+                    <BracketMatchupCard matchup={thirdPlace} leagueId={leagueId} teamName={teamName} />
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function BracketMatchupCard({ matchup, leagueId, teamName }: { matchup: Matchup; leagueId: string; teamName: (id?: string) => string }) {
+  const scored = matchup.homeScore !== null && matchup.awayScore !== null;
+  const sides = [
+    { teamId: matchup.homeTeamId, seed: matchup.homeSeed, score: matchup.homeScore, other: matchup.awayScore },
+    { teamId: matchup.awayTeamId, seed: matchup.awaySeed, score: matchup.awayScore, other: matchup.homeScore },
+  ];
+
+  return (
+    <Link
+      to={`/league/${leagueId}/matchup/${matchup.id}`}
+      className="block bg-mns-card rounded-lg border border-gray-800 hover:border-gray-600 transition-colors text-sm divide-y divide-gray-800"
+    >
+      {sides.map(side => {
+        const leading = scored && side.score! > side.other!;
+        return (
+          <div key={side.teamId} className="flex items-center justify-between px-3 py-2">
+            <span className={leading ? 'text-green-400 font-semibold' : 'text-white'}>
+              {side.seed && <span className="text-gray-500 font-normal mr-2">#{side.seed}</span>}
+              {teamName(side.teamId)}
+            </span>
+            <span className={leading ? 'text-green-400 font-semibold' : 'text-gray-400'}>
+              {side.score ?? '–'}
+            </span>
+          </div>
+        );
+      })}
+    </Link>
+  );
+}
@@ -1,38 +1,68 @@
+import { useMemo } from 'react';
 import { useParams } from 'react-router-dom';
+import { useRecordBook } from '../hooks/useRecordBook';
+import {
+  countPodiumFinishes,
+  computeRegularSeasonRecords,
+  computeTopWeeks,
+  computeLongestWinStreaks,
+  computeHeadToHead,
+  draftTeamNames,
+  firstOverallPicks,
+} from '../lib/recordBook';
+import type { PodiumCount } from '../lib/recordBook';
 
-// Record Book Data
-const recordBookData = {
-  firstPlaces: [
-    { name: 'Kirbiak', count: 3 },
-    { name: 'Sean', count: 2 },
-    { name: 'Rick', count: 2 },
-    { name: 'Tea Mike', count: 1 },
-    { name: 'Ian', count: 1 },
-    { name: 'Woods', count: 1 },
-    { name: 'Bad', count: 1 },
-    { name: 'Stine', count: 1 },
-  ],
-  secondPlaces: [
-    { name: 'Sean', count: 3 },
-    { name: 'Bad', count: 3 },
-    { name: 'Woods', count: 2 },
-    { name: 'Kirbiak', count: 1 },
-    { name: 'Tea Mike', count: 1 },
-    { name: 'Pudd', count: 1 },
-    { name: 'Rick', count: 1 },
-  ],
-  thirdPlaces: [
-    { name: 'Sean', count: 3 },
-    { name: 'Stine', count: 3 },
-    { name: 'Rick', count: 2 },
-    { name: 'Kirbiak', count: 2 },
-    { name: 'Ian', count: 1 },
-    { name: 'PJ', count: 1 },
-  ],
-};
+const TOP_N = 5;
+
+const formatSeason = (year: number) => `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+
+const formatPct = (pct: number) => pct.toFixed(3).replace(/^0/, '');
+
+const PODIUM_STYLES = [
+  { key: 'first', emoji: '🥇', label: '1st Place', heading: 'text-yellow-400', badge: 'bg-yellow-400/10 text-yellow-400 border border-yellow-400/30' },
+  { key: 'second', emoji: '🥈', label: '2nd Place', heading: 'text-gray-400', badge: 'bg-gray-700 text-gray-300' },
+  { key: 'third', emoji: '🥉', label: '3rd Place', heading: 'text-orange-400', badge: 'bg-orange-400/10 text-orange-400 border border-orange-400/30' },
+] as const;
 
 export function RecordBook() {
   const { leagueId } = useParams<{ leagueId: string }>();
+  const { data, loading } = useRecordBook(leagueId);
+
+  const book = useMemo(() => {
+    if (!data) return null;
+
+    const currentNames = new Map(data.teams.map(t => [t.id, t.name]));
+    const pastNames = draftTeamNames(data.draftHistories);
+    const knownName = (id: string) => currentNames.get(id) || pastNames.get(id);
+    const teamName = (id: string) => knownName(id) || 'Former team';
+
+    // Head-to-head grid covers current teams, alphabetically
+    const gridTeams = [...data.teams].sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      knownName,
+      teamName,
+      podium: countPodiumFinishes(data.results),
+      bestSeasons: computeRegularSeasonRecords(data.matchups, data.postseasonWeeks, data.league.scoringMode).slice(0, TOP_N),
+      topWeeks: computeTopWeeks(data.matchups).slice(0, TOP_N),
+      streaks: computeLongestWinStreaks(data.matchups).slice(0, TOP_N),
+      headToHead: computeHeadToHead(data.matchups),
+      gridTeams,
+      firstPicks: firstOverallPicks(data.draftHistories),
+    };
+  }, [data]);
+
+  if (loading || !data || !book) {
+    return (
+      <div className="min-h-screen bg-mns-dark flex items-center justify-center">
+        <div className="text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  const reigning = data.results[0];
+  // Podium entries recorded with a team id follow the team's current name
+  const podiumName = (entry: PodiumCount) => (entry.teamId && book.knownName(entry.teamId)) || entry.name;
 
   return (
     <div className="min-h-screen bg-mns-dark">
@@ -47,71 +77,203 @@ export function RecordBook() {
         </div>
 
         {/* Reigning Champion Banner */}
-        <div className="bg-gradient-to-br from-yellow-400 via-yellow-500 to-yellow-600 rounded-lg shadow-lg p-6 mb-8">
-          <div className="text-center">
-            <div className="text-lg font-semibold text-gray-900 mb-2">🏆 Reigning Champion</div>
-            <div className="text-4xl font-bold text-gray-900">Kirbiak</div>
-            <div className="text-sm text-gray-800 mt-2">2024-25 Season</div>
+        {reigning ? (
+          <div className="bg-gradient-to-br from-yellow-400 via-yellow-500 to-yellow-600 rounded-lg shadow-lg p-6 mb-8">
+            <div className="text-center">
+              <div className="text-lg font-semibold text-gray-900 mb-2">🏆 Reigning Champion</div>
+              <div className="text-4xl font-bold text-gray-900">{reigning.championName}</div>
+              <div className="text-sm text-gray-800 mt-2">{formatSeason(reigning.seasonYear)} Season</div>
+            </div>
           </div>
-        </div>
+        ) : (
+          <div className="bg-mns-card rounded-lg border border-gray-800 p-6 mb-8 text-center text-gray-400">
+            No champion has been crowned yet
+          </div>
+        )}
 
-        {/* Records Grid */}
+        {/* Podium Finishes */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          {/* 1st Place Finishes */}
-          <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
-            <div className="flex items-center gap-2 mb-4">
-              <span className="text-3xl">🥇</span>
-              <h2 className="text-xl font-bold text-yellow-400">1st Place</h2>
+          {PODIUM_STYLES.map(style => (
+            <div key={style.key} className="bg-mns-card rounded-lg border border-gray-800 p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <span className="text-3xl">{style.emoji}</span>
+                <h2 className={`text-xl font-bold ${style.heading}`}>{style.label}</h2>
+              </div>
+              <div className="space-y-3">
+                {book.podium[style.key].length === 0 ? (
+                  <p className="text-sm text-gray-500">No finishes recorded</p>
+                ) : book.podium[style.key].map(entry => (
+                  <div key={entry.key} className="flex justify-between items-center" title={entry.years.map(formatSeason).join(', ')}>
+                    <span className="text-white font-medium">{podiumName(entry)}</span>
+                    <span className={`px-3 py-1 rounded-full text-sm font-semibold ${style.badge}`}>
+                      {entry.count}
+                    </span>
+                  </div>
+                ))}
+              </div>
             </div>
-            <div className="space-y-3">
-              {recordBookData.firstPlaces.map((record) => (
-                <div key={record.name} className="flex justify-between items-center">
-                  <span className="text-white font-medium">{record.name}</span>
-                  <span className="bg-yellow-400/10 text-yellow-400 border border-yellow-400/30 px-3 py-1 rounded-full text-sm font-semibold">
-                    {record.count}
-                  </span>
-                </div>
-              ))}
+          ))}
+        </div>
+
+        {/* Season by Season */}
+        {data.results.length > 0 && (
+          <div className="mt-8 bg-mns-card rounded-lg border border-gray-800 p-6">
+            <h2 className="text-xl font-bold text-white mb-4">Season by Season</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase">
+                    <th className="text-left py-1">Season</th>
+                    <th className="text-left py-1">Champion</th>
+                    <th className="text-left py-1">Runner-up</th>
+                    <th className="text-left py-1">Third</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.results.map(result => (
+                    <tr key={result.id} className="border-t border-gray-800">
+                      <td className="py-1.5 text-gray-400">{formatSeason(result.seasonYear)}</td>
+                      <td className="py-1.5 text-yellow-400 font-medium">{result.championName}</td>
+                      <td className="py-1.5 text-gray-300">{result.runnerUpName || '—'}</td>
+                      <td className="py-1.5 text-gray-300">{result.thirdPlaceName || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
           </div>
+        )}
 
-          {/* 2nd Place Finishes */}
+        {/* All-Time Records */}
+        <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
-            <div className="flex items-center gap-2 mb-4">
-              <span className="text-3xl">🥈</span>
-              <h2 className="text-xl font-bold text-gray-400">2nd Place</h2>
-            </div>
-            <div className="space-y-3">
-              {recordBookData.secondPlaces.map((record) => (
-                <div key={record.name} className="flex justify-between items-center">
-                  <span className="text-white font-medium">{record.name}</span>
-                  <span className="bg-gray-700 text-gray-300 px-3 py-1 rounded-full text-sm font-semibold">
-                    {record.count}
-                  </span>
-                </div>
-              ))}
-            </div>
+            <h2 className="text-xl font-bold text-white mb-4">Best Regular Season</h2>
+            {book.bestSeasons.length === 0 ? (
+              <p className="text-sm text-gray-500">No completed matchups yet</p>
+            ) : (
+              <ol className="space-y-2">
+                {book.bestSeasons.map(record => (
+                  <li key={`${record.seasonYear}_${record.teamId}`} className="flex justify-between items-center text-sm">
+                    <span className="text-white">
+                      {book.teamName(record.teamId)}
+                      <span className="text-gray-500 ml-2">{formatSeason(record.seasonYear)}</span>
+                    </span>
+                    <span className="text-green-400 font-semibold">
+                      {record.wins}-{record.losses}{record.ties > 0 && `-${record.ties}`}
+                      <span className="text-gray-500 font-normal ml-2">{formatPct(record.pct)}</span>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
 
-          {/* 3rd Place Finishes */}
           <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
-            <div className="flex items-center gap-2 mb-4">
-              <span className="text-3xl">🥉</span>
-              <h2 className="text-xl font-bold text-orange-400">3rd Place</h2>
-            </div>
-            <div className="space-y-3">
-              {recordBookData.thirdPlaces.map((record) => (
-                <div key={record.name} className="flex justify-between items-center">
-                  <span className="text-white font-medium">{record.name}</span>
-                  <span className="bg-orange-400/10 text-orange-400 border border-orange-400/30 px-3 py-1 rounded-full text-sm font-semibold">
-                    {record.count}
-                  </span>
-                </div>
-              ))}
-            </div>
+            <h2 className="text-xl font-bold text-white mb-4">Most Category Wins in a Week</h2>
+            {book.topWeeks.length === 0 ? (
+              <p className="text-sm text-gray-500">No completed matchups yet</p>
+            ) : (
+              <ol className="space-y-2">
+                {book.topWeeks.map(week => (
+                  <li key={`${week.seasonYear}_${week.matchupWeek}_${week.teamId}`} className="flex justify-between items-center text-sm">
+                    <span className="text-white">
+                      {book.teamName(week.teamId)}
+                      <span className="text-gray-500 ml-2">
+                        vs {book.teamName(week.opponentId)}, {formatSeason(week.seasonYear)} Wk {week.matchupWeek}
+                      </span>
+                    </span>
+                    <span className="text-green-400 font-semibold">{week.categoryWins}-{week.opponentWins}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
+            <h2 className="text-xl font-bold text-white mb-4">Longest Win Streak</h2>
+            {book.streaks.length === 0 ? (
+              <p className="text-sm text-gray-500">No matchup wins yet</p>
+            ) : (
+              <ol className="space-y-2">
+                {book.streaks.map(streak => (
+                  <li key={streak.teamId} className="flex justify-between items-center text-sm">
+                    <span className="text-white">
+                      {book.teamName(streak.teamId)}
+                      <span className="text-gray-500 ml-2">
+                        {formatSeason(streak.start.seasonYear)} Wk {streak.start.matchupWeek} – {formatSeason(streak.end.seasonYear)} Wk {streak.end.matchupWeek}
+                      </span>
+                    </span>
+                    <span className="text-green-400 font-semibold">{streak.length}W</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          <div className="bg-mns-card rounded-lg border border-gray-800 p-6">
+            <h2 className="text-xl font-bold text-white mb-4">#1 Overall Picks</h2>
+            {book.firstPicks.length === 0 ? (
+              <p className="text-sm text-gray-500">No archived drafts yet</p>
+            ) : (
+              <ol className="space-y-2">
+                {book.firstPicks.map(pick => (
+                  <li key={pick.seasonYear} className="flex justify-between items-center text-sm">
+                    <span className="text-white">
+                      {pick.playerName}
+                      <span className="text-gray-500 ml-2">{pick.teamName}</span>
+                    </span>
+                    <span className="text-gray-400">{formatSeason(pick.seasonYear)}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
         </div>
 
+        {/* Head-to-Head */}
+        {book.gridTeams.length > 1 && (
+          <div className="mt-8 bg-mns-card rounded-lg border border-gray-800 p-6">
+            <h2 className="text-xl font-bold text-white mb-1">Head-to-Head</h2>
+            <p className="text-xs text-gray-500 mb-4">All-time matchup record of the row team against the column team</p>
+            <div className="overflow-x-auto">
+              <table className="text-xs">
+                <thead>
+                  <tr>
+                    <th />
+                    {book.gridTeams.map(team => (
+                      <th key={team.id} className="px-2 py-1 text-gray-400 font-medium whitespace-nowrap" title={team.name}>
+                        {team.abbrev || team.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {book.gridTeams.map(row => (
+                    <tr key={row.id} className="border-t border-gray-800">
+                      <th className="pr-3 py-1.5 text-left text-white font-medium whitespace-nowrap">{row.name}</th>
+                      {book.gridTeams.map(col => {
+                        if (row.id === col.id) {
+                          return <td key={col.id} className="px-2 py-1.5 text-center text-gray-700">—</td>;
+                        }
+                        const rec = book.headToHead.get(row.id)?.get(col.id);
+                        const color = !rec ? 'text-gray-600'
+                          : rec.wins > rec.losses ? 'text-green-400'
+                          : rec.wins < rec.losses ? 'text-red-400'
+                          : 'text-gray-300';
+                        return (
+                          <td key={col.id} className={`px-2 py-1.5 text-center whitespace-nowrap ${color}`}>
+                            {rec ? `${rec.wins}-${rec.losses}${rec.ties > 0 ? `-${rec.ties}` : ''}` : '0-0'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Back Button */}
         <div className="mt-8">
           <a
@@ -1,8 +1,14 @@
 import { useParams } from 'react-router-dom';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { useLeague } from '../contexts/LeagueContext';
+import { useMatchups } from '../hooks/useMatchups';
+import { usePrizeSpots } from '../hooks/usePrizeSpots';
 import type { Player, Team } from '../types';
 import { mapPlayer, mapTeam } from '../lib/mappers';
+import { getLotteryTeams } from '../lib/lottery';
+import { buildStandings } from '../lib/tradeAnalyzer';
+import { LotteryOddsMatrix } from '../components/LotteryOddsMatrix';
 
 interface RookiePick {
   player: Player;
@@ -14,9 +20,24 @@ interface RookiePick {
 
 export function RookieDraft() {
   const { leagueId } = useParams<{ leagueId: string }>();
+  const { currentLeague } = useLeague();
   const [picks, setPicks] = useState<RookiePick[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
   const [loading, setLoading] = useState(true);
 
+  // Live standings for next year's lottery odds
+  const { records: teamRecords } = useMatchups({
+    leagueId,
+    seasonYear: currentLeague?.seasonYear,
+    scoringMode: currentLeague?.scoringMode,
+  });
+  const usesLottery = currentLeague?.roster?.rookieDraftOrderMethod === 'season_record';
+  const prizeSpots = usePrizeSpots(currentLeague, teams.length);
+  const { lotteryTeams, moneyTeams } = useMemo(
+    () => getLotteryTeams(buildStandings(teams, teamRecords), prizeSpots),
+    [teams, teamRecords, prizeSpots]
+  );
+
   useEffect(() => {
     const fetchData = async () => {
       if (!leagueId) return;
@@ -30,6 +51,7 @@ export function RookieDraft() {
 
         if (teamsError) throw teamsError;
         const teams = (teamsData || []).map(mapTeam);
+        setTeams(teams);
 
         // Fetch rookie players in this league
         const { data: playersData, error: playersError } = await supabase
@@ -103,6 +125,8 @@ export function RookieDraft() {
 
         {/* Draft Picks */}
         <div className="space-y-6">
+          {usesLottery && <LotteryOddsMatrix lotteryTeams={lotteryTeams} moneyTeams={moneyTeams} />}
+
           {/* Round 1 */}
           <div className="bg-mns-card rounded-lg border border-gray-800">
             <div className="p-6 border-b border-gray-800">
@@ -0,0 +1,411 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { logger } from '../lib/logger';
+import { useAuth } from '../contexts/AuthContext';
+import { useLeague } from '../contexts/LeagueContext';
+import { useTradeBlock } from '../hooks/useTradeBlock';
+import { mapPlayer, mapTeam } from '../lib/mappers';
+import { addToTradeBlock, removeFromTradeBlock, updateTradeBlockEntry } from '../lib/tradeBlock';
+import type { TradeBlockListing } from '../lib/tradeBlock';
+import { MATCHUP_CATEGORIES } from '../types';
+import type { MatchupCategory, Player, Team, TradeBlockEntry } from '../types';
+
+interface RookieDraftPick {
+  id: string;
+  year: number;
+  round: number;
+  originalTeamName: string;
+  currentOwner: string;
+}
+
+const POSITIONS = ['PG', 'SG', 'SF', 'PF', 'C'];
+
+const formatSalary = (salary: number) => `$${(salary / 1_000_000).toFixed(2)}M`;
+
+const pickLabel = (pick: RookieDraftPick) => `${pick.year} Rd ${pick.round} (${pick.originalTeamName})`;
+
+const emptyListing = (): TradeBlockListing => ({ askingNote: '', desiredPositions: [], desiredCategories: [] });
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+export function TradeBlock() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { currentLeague } = useLeague();
+  const { entries, loading: entriesLoading } = useTradeBlock(leagueId);
+
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [players, setPlayers] = useState<Map<string, Player>>(new Map());
+  const [rookiePicks, setRookiePicks] = useState<Map<string, RookieDraftPick>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  // Filters
+  const [positionFilter, setPositionFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState<'all' | 'player' | 'rookie_pick'>('all');
+
+  // Listing form — new entry, or editing one of ours
+  const [assetKey, setAssetKey] = useState('');  // "player:<id>" or "rookie_pick:<id>"
+  const [listing, setListing] = useState<TradeBlockListing>(emptyListing);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const myTeam = useMemo(
+    () => teams.find(t => t.owners.includes(user?.email || '')),
+    [teams, user?.email]
+  );
+  const teamNames = useMemo(() => new Map(teams.map(t => [t.id, t.name])), [teams]);
+
+  useEffect(() => {
+    if (!leagueId) return;
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        const [teamsRes, playersRes, picksRes] = await Promise.all([
+          supabase.from('teams').select('*').eq('league_id', leagueId),
+          supabase.from('players').select('*').eq('league_id', leagueId).not('team_id', 'is', null),
+          supabase.from('rookie_draft_picks').select('*').eq('league_id', leagueId),
+        ]);
+        if (teamsRes.error) throw teamsRes.error;
+        if (playersRes.error) throw playersRes.error;
+        if (picksRes.error) throw picksRes.error;
+
+        setTeams((teamsRes.data || []).map(mapTeam).sort((a, b) => a.name.localeCompare(b.name)));
+        setPlayers(new Map((playersRes.data || []).map(row => [row.id, mapPlayer(row)])));
+        setRookiePicks(new Map((picksRes.data || []).map((p): [string, RookieDraftPick] => [p.id, {
+          id: p.id,
+          year: p.year,
+          round: p.round,
+          originalTeamName: p.original_team_name,
+          currentOwner: p.current_owner,
+        }])));
+      } catch (err) {
+        logger.error('Error loading trade block data:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadData();
+  }, [leagueId]);
+
+  // Entries whose asset has since moved to another team are hidden
+  const liveEntries = useMemo(
+    () => entries.filter(e => (e.assetType === 'player'
+      ? players.get(e.assetId)?.roster.teamId
+      : rookiePicks.get(e.assetId)?.currentOwner) === e.teamId),
+    [entries, players, rookiePicks]
+  );
+
+  const visibleEntries = liveEntries.filter(entry => {
+    if (typeFilter !== 'all' && entry.assetType !== typeFilter) return false;
+    if (positionFilter) {
+      const player = entry.assetType === 'player' ? players.get(entry.assetId) : undefined;
+      if (!player?.position.includes(positionFilter)) return false;
+    }
+    return true;
+  });
+
+  // My assets that aren't listed yet
+  const listedKeys = new Set(liveEntries.map(e => `${e.assetType}:${e.assetId}`));
+  const myPlayers = myTeam
+    ? Array.from(players.values())
+        .filter(p => p.roster.teamId === myTeam.id && !listedKeys.has(`player:${p.id}`))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+  const myPicks = myTeam
+    ? Array.from(rookiePicks.values())
+        .filter(p => p.currentOwner === myTeam.id && !listedKeys.has(`rookie_pick:${p.id}`))
+        .sort((a, b) => a.year - b.year || a.round - b.round)
+    : [];
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['tradeBlock', leagueId] });
+
+  const resetForm = () => {
+    setAssetKey('');
+    setListing(emptyListing());
+    setEditingId(null);
+  };
+
+  const startEdit = (entry: TradeBlockEntry) => {
+    setEditingId(entry.id);
+    setAssetKey(`${entry.assetType}:${entry.assetId}`);
+    setListing({
+      askingNote: entry.askingNote || '',
+      desiredPositions: entry.desiredPositions,
+      desiredCategories: entry.desiredCategories,
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSave = async () => {
+    if (!leagueId || !myTeam || !assetKey) return;
+    setIsSaving(true);
+
+    let result;
+    if (editingId) {
+      result = await updateTradeBlockEntry(editingId, listing);
+    } else {
+      const [assetType, assetId] = assetKey.split(':') as ['player' | 'rookie_pick', string];
+      const player = assetType === 'player' ? players.get(assetId) : undefined;
+      const pick = assetType === 'rookie_pick' ? rookiePicks.get(assetId) : undefined;
+      result = await addToTradeBlock({
+        leagueId,
+        leagueName: currentLeague?.name || '',
+        teamId: myTeam.id,
+        teamName: myTeam.name,
+        assetType,
+        assetId,
+        displayName: player?.name || (pick ? pickLabel(pick) : assetId),
+        fantraxId: player?.fantraxId,
+        listing,
+        createdBy: user?.email || '',
+      });
+    }
+
+    setIsSaving(false);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to save listing');
+      return;
+    }
+    toast.success(editingId ? 'Listing updated' : 'Added to the trade block');
+    resetForm();
+    refresh();
+  };
+
+  const handleRemove = async (entry: TradeBlockEntry) => {
+    if (!confirm(`Take ${entry.displayName} off the trade block?`)) return;
+    const result = await removeFromTradeBlock(entry.id);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to remove listing');
+      return;
+    }
+    if (editingId === entry.id) resetForm();
+    refresh();
+  };
+
+  const buildTrade = (entry: TradeBlockEntry) => {
+    navigate(`/league/${leagueId}/trade-machine?block=${entry.id}`);
+  };
+
+  if (loading || entriesLoading) {
+    return (
+      <div className="min-h-screen bg-mns-dark flex items-center justify-center">
+        <div className="text-gray-400">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-mns-dark">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-white">Trade Block</h1>
+          <p className="text-gray-400 mt-1">Players and picks teams are shopping, and what they want back</p>
+        </div>
+
+        {/* List an asset */}
+        {myTeam && (
+          <div className="bg-mns-card rounded-lg border border-gray-800 p-5 mb-6">
+            <h2 className="text-lg font-semibold text-white mb-4">
+              {editingId ? 'Edit Listing' : 'Put an Asset on the Block'}
+            </h2>
+
+            <div className="space-y-4">
+              <select
+                value={assetKey}
+                onChange={(e) => setAssetKey(e.target.value)}
+                disabled={!!editingId}
+                className="w-full px-3 py-2 bg-mns-dark border border-gray-700 rounded text-white text-sm disabled:opacity-60"
+              >
+                {editingId ? (
+                  <option value={assetKey}>{entries.find(e => e.id === editingId)?.displayName}</option>
+                ) : (
+                  <>
+                    <option value="">Choose a player or pick...</option>
+                    {myPlayers.length > 0 && (
+                      <optgroup label="Players">
+                        {myPlayers.map(p => (
+                          <option key={p.id} value={`player:${p.id}`}>{p.name} · {p.position} · {formatSalary(p.salary)}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                    {myPicks.length > 0 && (
+                      <optgroup label="Rookie Picks">
+                        {myPicks.map(p => (
+                          <option key={p.id} value={`rookie_pick:${p.id}`}>{pickLabel(p)}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </>
+                )}
+              </select>
+
+              <input
+                type="text"
+                value={listing.askingNote}
+                maxLength={500}
+                onChange={(e) => setListing(prev => ({ ...prev, askingNote: e.target.value }))}
+                placeholder="Asking price (e.g. a 2nd round pick and a backup big)"
+                className="w-full px-3 py-2 bg-mns-dark border border-gray-700 rounded text-white text-sm"
+              />
+
+              <div>
+                <div className="text-xs text-gray-500 mb-1.5">Looking for positions</div>
+                <div className="flex flex-wrap gap-2">
+                  {POSITIONS.map(pos => (
+                    <button
+                      key={pos}
+                      onClick={() => setListing(prev => ({ ...prev, desiredPositions: toggle(prev.desiredPositions, pos) }))}
+                      className={`px-3 py-1 rounded text-xs font-medium border ${
+                        listing.desiredPositions.includes(pos)
+                          ? 'bg-green-400/10 text-green-400 border-green-400/40'
+                          : 'text-gray-400 border-gray-700 hover:text-white'
+                      }`}
+                    >
+                      {pos}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className="text-xs text-gray-500 mb-1.5">Looking for categories</div>
+                <div className="flex flex-wrap gap-2">
+                  {MATCHUP_CATEGORIES.map(cat => (
+                    <button
+                      key={cat}
+                      onClick={() => setListing(prev => ({ ...prev, desiredCategories: toggle<MatchupCategory>(prev.desiredCategories, cat) }))}
+                      className={`px-3 py-1 rounded text-xs font-medium border ${
+                        listing.desiredCategories.includes(cat)
+                          ? 'bg-cyan-400/10 text-cyan-400 border-cyan-400/40'
+                          : 'text-gray-400 border-gray-700 hover:text-white'
+                      }`}
+                    >
+                      {cat}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving || !assetKey}
+                  className="px-4 py-2 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : editingId ? 'Save Listing' : 'Add to Block'}
+                </button>
+                {editingId && (
+                  <button onClick={resetForm} className="px-4 py-2 text-gray-400 hover:text-white text-sm">
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as typeof typeFilter)}
+            className="px-3 py-2 bg-mns-card border border-gray-700 rounded text-white text-sm"
+          >
+            <option value="all">All assets</option>
+            <option value="player">Players</option>
+            <option value="rookie_pick">Rookie picks</option>
+          </select>
+          <select
+            value={positionFilter}
+            onChange={(e) => setPositionFilter(e.target.value)}
+            className="px-3 py-2 bg-mns-card border border-gray-700 rounded text-white text-sm"
+          >
+            <option value="">Any position</option>
+            {POSITIONS.map(pos => <option key={pos} value={pos}>{pos}</option>)}
+          </select>
+          <span className="text-xs text-gray-500">{visibleEntries.length} listed</span>
+        </div>
+
+        {/* Listings */}
+        {visibleEntries.length === 0 ? (
+          <div className="bg-mns-card rounded-lg border border-gray-800 p-8 text-center text-gray-500 text-sm">
+            Nothing on the trade block
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visibleEntries.map(entry => {
+              const isMine = entry.teamId === myTeam?.id;
+              const player = entry.assetType === 'player' ? players.get(entry.assetId) : undefined;
+              return (
+                <div
+                  key={entry.id}
+                  className={`bg-mns-card rounded-lg border p-4 ${isMine ? 'border-green-400/30' : 'border-gray-800'}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-white font-medium truncate">{entry.displayName}</span>
+                        {player ? (
+                          <span className="text-xs text-gray-500 shrink-0">{player.position} · {player.nbaTeam} · {formatSalary(player.salary)}</span>
+                        ) : (
+                          <span className="text-xs px-1.5 py-0.5 rounded bg-purple-400/10 text-purple-400 shrink-0">PICK</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-400 mt-0.5">
+                        {teamNames.get(entry.teamId) || 'Unknown team'}
+                        <span className="text-gray-600"> · listed {new Date(entry.createdAt).toLocaleDateString()}</span>
+                      </div>
+                      {entry.askingNote && (
+                        <p className="text-sm text-gray-300 mt-2">{entry.askingNote}</p>
+                      )}
+                      {(entry.desiredPositions.length > 0 || entry.desiredCategories.length > 0) && (
+                        <div className="flex flex-wrap gap-1.5 mt-2">
+                          <span className="text-xs text-gray-500">Wants:</span>
+                          {entry.desiredPositions.map(pos => (
+                            <span key={pos} className="text-xs px-1.5 py-0.5 rounded bg-green-400/10 text-green-400">{pos}</span>
+                          ))}
+                          {entry.desiredCategories.map(cat => (
+                            <span key={cat} className="text-xs px-1.5 py-0.5 rounded bg-cyan-400/10 text-cyan-400">{cat}</span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex items-center gap-2 shrink-0">
+                      {isMine ? (
+                        <>
+                          <button onClick={() => startEdit(entry)} className="px-3 py-1.5 text-xs text-gray-400 hover:text-white">
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleRemove(entry)}
+                            className="px-3 py-1.5 text-xs text-red-400 border border-red-400/30 rounded hover:bg-red-400/10"
+                          >
+                            Remove
+                          </button>
+                        </>
+                      ) : myTeam && (
+                        <button
+                          onClick={() => buildTrade(entry)}
+                          className="px-4 py-2 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700"
+                        >
+                          Build Trade
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
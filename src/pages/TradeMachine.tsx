@@ -1,15 +1,24 @@
 import { useState, useEffect, useMemo } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { toast } from 'sonner';
 import { supabase } from '../lib/supabase';
 import { logger } from '../lib/logger';
 import { useAuth } from '../contexts/AuthContext';
 import { useLeague } from '../contexts/LeagueContext';
 import { useTradeProposals } from '../hooks/useTradeProposals';
+import { useMatchups } from '../hooks/useMatchups';
+import { useProjectedStats } from '../hooks/useProjectedStats';
+import { usePrizeSpots } from '../hooks/usePrizeSpots';
 import { computeTradeCapImpact } from '../lib/tradeCapCalculator';
+import { analyzeTrade, buildStandings, valueRookiePicks } from '../lib/tradeAnalyzer';
+import { counterTradeProposal } from '../lib/tradeNegotiation';
+import { findActiveException } from '../lib/tradeDeadline';
+import { isTradeDeadlinePassed } from '../lib/scheduleUtils';
+import { mapPickAssignment, mapTradeBlockEntry, mapTradeProposal } from '../lib/mappers';
 import { TradeProposalCard } from '../components/TradeProposalCard';
+import { TradeAnalyzerPanel } from '../components/TradeAnalyzerPanel';
 import { stackKeeperRounds, computeSummary } from '../lib/keeperAlgorithms';
-import type { Team, Player, RosterDoc, TradeAsset, TradeAssetType } from '../types';
+import type { Team, Player, RosterDoc, PickAssignment, TradeAsset, TradeAssetType, TradeBlockEntry, TradeProposal } from '../types';
 
 interface RookieDraftPick {
   id: string;
@@ -23,8 +32,35 @@ interface RookieDraftPick {
 
 const formatSalary = (salary: number) => `$${(salary / 1_000_000).toFixed(2)}M`;
 
+// Roster decisions that can be traded, and the asset type each travels as
+const DECISION_ASSET_TYPES: Record<string, TradeAssetType> = {
+  KEEP: 'keeper',
+  REDSHIRT: 'redshirt',
+  INT_STASH: 'int_stash',
+};
+
+/** Trade asset for a trade block listing, if the listing team still owns it. */
+function blockAsset(
+  entry: TradeBlockEntry,
+  owner: Team,
+  receiver: Team,
+  players: Map<string, Player>,
+  rosters: Map<string, RosterDoc>
+): TradeAsset | null {
+  const destination = { fromTeamId: owner.id, fromTeamName: owner.name, toTeamId: receiver.id, toTeamName: receiver.name };
+  if (entry.assetType === 'rookie_pick') {
+    return { type: 'rookie_pick', id: entry.assetId, displayName: entry.displayName, salary: 0, ...destination };
+  }
+  const player = players.get(entry.assetId);
+  const rosterEntry = rosters.get(owner.id)?.entries.find(e => e.playerId === entry.assetId);
+  const type = rosterEntry && DECISION_ASSET_TYPES[rosterEntry.decision];
+  if (!player || player.roster.teamId !== owner.id || !type) return null;
+  return { type, id: player.id, displayName: player.name, salary: player.salary, ...destination };
+}
+
 export function TradeMachine() {
   const { leagueId } = useParams<{ leagueId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
   const { currentLeague } = useLeague();
 
@@ -33,6 +69,7 @@ export function TradeMachine() {
   const [players, setPlayers] = useState<Map<string, Player>>(new Map());
   const [rosters, setRosters] = useState<Map<string, RosterDoc>>(new Map());
   const [rookiePicks, setRookiePicks] = useState<RookieDraftPick[]>([]);
+  const [draftSlots, setDraftSlots] = useState<PickAssignment[]>([]);  // Unused main draft picks
   const [loading, setLoading] = useState(true);
 
   // Trade builder state
@@ -42,6 +79,7 @@ export function TradeMachine() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [expirationUnit, setExpirationUnit] = useState<'minutes' | 'hours' | 'days'>('hours');
   const [expirationValue, setExpirationValue] = useState(24);
+  const [counterOf, setCounterOf] = useState<TradeProposal | null>(null);  // Proposal being countered
 
   // Find user's team
   const myTeam = useMemo(
@@ -50,16 +88,31 @@ export function TradeMachine() {
   );
 
   // Trade proposals
-  const { proposals, responses, loading: proposalsLoading } = useTradeProposals(
+  const { proposals, reviewProposals, threads, responses, vetoVotes, comments, deadlineExceptions, loading: proposalsLoading } = useTradeProposals(
     leagueId,
     myTeam?.id
   );
 
-  // Trade deadline check
-  const isPostDeadline = useMemo(() => {
-    if (!currentLeague?.schedule?.tradeDeadlineDate) return false;
-    return new Date() > new Date(currentLeague.schedule.tradeDeadlineDate);
-  }, [currentLeague]);
+  // Analyzer inputs: projections and current standings
+  const { projectedStats } = useProjectedStats();
+  const { records } = useMatchups({
+    leagueId,
+    seasonYear: currentLeague?.seasonYear,
+    scoringMode: currentLeague?.scoringMode,
+  });
+
+  // Trade deadline check — the server enforces it; this just gates the UI
+  const isPostDeadline = useMemo(() => isTradeDeadlinePassed(currentLeague?.schedule), [currentLeague]);
+
+  // After the deadline only teams covered by a commissioner exception can trade
+  const myExceptions = useMemo(
+    () => (isPostDeadline && myTeam ? deadlineExceptions.filter(e => e.expiresAt > Date.now() && e.teamIds.includes(myTeam.id)) : []),
+    [isPostDeadline, myTeam, deadlineExceptions]
+  );
+  const tradeException = useMemo(
+    () => (isPostDeadline ? findActiveException(deadlineExceptions, selectedTeamIds) : undefined),
+    [isPostDeadline, deadlineExceptions, selectedTeamIds]
+  );
 
   // Load all data
   useEffect(() => {
@@ -160,11 +213,51 @@ export function TradeMachine() {
         leagueId: p.league_id,
       })));
 
+      // Main draft picks that haven't been used yet — tradeable mid-draft
+      const { data: slotRows } = await supabase
+        .from('pick_assignments')
+        .select('*')
+        .eq('league_id', leagueId)
+        .eq('is_keeper_slot', false)
+        .is('player_id', null);
+
+      setDraftSlots((slotRows || []).map(mapPickAssignment));
+
       // Pre-select user's team
       const myT = mappedTeams.find(t => t.owners.includes(user?.email || ''));
       if (myT) {
         setSelectedTeamIds([myT.id]);
       }
+
+      // Arriving from an inbox "Counter" button: load that proposal into the builder
+      const counterId = searchParams.get('counter');
+      if (counterId) {
+        const { data: counterRow } = await supabase
+          .from('trade_proposals')
+          .select('*')
+          .eq('id', counterId)
+          .maybeSingle();
+        if (counterRow && counterRow.status === 'pending') {
+          startCounter(mapTradeProposal(counterRow));
+        }
+      }
+
+      // Arriving from a trade block "Build Trade" button: pair with the listing team and add its asset
+      const blockId = searchParams.get('block');
+      if (blockId && myT && !counterId) {
+        const { data: blockRow } = await supabase
+          .from('trade_block_entries')
+          .select('*')
+          .eq('id', blockId)
+          .maybeSingle();
+        const blockEntry = blockRow ? mapTradeBlockEntry(blockRow) : null;
+        const owner = blockEntry && mappedTeams.find(t => t.id === blockEntry.teamId);
+        if (blockEntry && owner && owner.id !== myT.id) {
+          setSelectedTeamIds([myT.id, owner.id]);
+          const asset = blockAsset(blockEntry, owner, myT, playersMap, rostersMap);
+          if (asset) setTradeAssets([asset]);
+        }
+      }
     } catch (err) {
       logger.error('Error loading trade machine data:', err);
     } finally {
@@ -172,6 +265,20 @@ export function TradeMachine() {
     }
   };
 
+  // Clone a proposal into the builder so its assets can be edited and sent back
+  const startCounter = (proposal: TradeProposal) => {
+    setCounterOf(proposal);
+    setSelectedTeamIds(proposal.involvedTeamIds.slice(0, 5));
+    setTradeAssets(proposal.assets.map(a => ({ ...a })));
+    setTradeNote('');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const cancelCounter = () => {
+    setCounterOf(null);
+    if (searchParams.has('counter')) setSearchParams({}, { replace: true });
+  };
+
   // Toggle team selection
   const toggleTeam = (teamId: string) => {
     setSelectedTeamIds(prev => {
@@ -250,23 +357,74 @@ export function TradeMachine() {
       teamNames: tNames,
       cap: currentLeague?.cap,
       fees: currentLeague?.fees,
+      keeperRules: currentLeague?.keeperRules,
     });
   }, [tradeAssets, teams, rosters, players, currentLeague]);
 
+  // Category, keeper and pick value analysis
+  const prizeSpots = usePrizeSpots(currentLeague, teams.length);
+  const tradeAnalysis = useMemo(() => {
+    if (!tradeAssets.some(a => a.toTeamId)) return [];
+
+    const rosterEntries = new Map(teams.map(t => [t.id, rosters.get(t.id)?.entries || []]));
+    const pickValues = valueRookiePicks({
+      picks: rookiePicks,
+      standings: buildStandings(teams, records),
+      draftYear: (currentLeague?.seasonYear || new Date().getFullYear()) + 1,
+      prizeSpots,
+      manualOrder: currentLeague?.roster?.rookieDraftOrderMethod === 'manual' ? currentLeague.roster.rookieDraftOrder : undefined,
+    });
+
+    return analyzeTrade({
+      assets: tradeAssets,
+      teams,
+      players,
+      projectedStats,
+      rosters: rosterEntries,
+      pickValues,
+      keeperRules: currentLeague?.keeperRules,
+    });
+  }, [tradeAssets, teams, rosters, players, projectedStats, records, rookiePicks, prizeSpots, currentLeague]);
+
   // Validate trade
   const canSubmit = useMemo(() => {
-    if (isPostDeadline) return false;
+    if (isPostDeadline && !tradeException) return false;
     if (tradeAssets.length === 0) return false;
     if (tradeAssets.some(a => !a.toTeamId)) return false;
     if (selectedTeamIds.length < 2) return false;
     if (myTeam && !selectedTeamIds.includes(myTeam.id)) return false;
     return true;
-  }, [tradeAssets, selectedTeamIds, isPostDeadline, myTeam]);
+  }, [tradeAssets, selectedTeamIds, isPostDeadline, tradeException, myTeam]);
 
   // Submit trade
   const handleSubmit = async () => {
     if (!canSubmit || !leagueId || !myTeam || !user?.email || !currentLeague) return;
     setIsSubmitting(true);
+    const expiresAt = Date.now() + expirationValue * (
+      expirationUnit === 'minutes' ? 60 * 1000 :
+      expirationUnit === 'hours' ? 60 * 60 * 1000 :
+      24 * 60 * 60 * 1000
+    );
+
+    if (counterOf) {
+      const result = await counterTradeProposal({
+        parent: counterOf,
+        assets: tradeAssets,
+        proposedByTeamId: myTeam.id,
+        proposedByEmail: user.email,
+        note: tradeNote,
+        expiresAt,
+      });
+      setIsSubmitting(false);
+      if (!result.success) {
+        toast.error(`Failed to send counter-offer: ${result.error}`);
+        return;
+      }
+      handleReset();
+      toast.success('Counter-offer sent! The original proposal has been marked as countered.');
+      return;
+    }
+
     try {
       const proposalId = `trade_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
@@ -290,11 +448,7 @@ export function TradeMachine() {
           assets: tradeAssets,
           involved_team_ids: teamIdsArr,
           note: tradeNote || null,
-          expires_at: new Date(Date.now() + expirationValue * (
-            expirationUnit === 'minutes' ? 60 * 1000 :
-            expirationUnit === 'hours' ? 60 * 60 * 1000 :
-            24 * 60 * 60 * 1000
-          )).toISOString(),
+          expires_at: new Date(expiresAt).toISOString(),
         });
 
       if (propErr) throw propErr;
@@ -326,7 +480,7 @@ export function TradeMachine() {
       toast.success('Trade proposal submitted! Waiting for other teams to respond.');
     } catch (err) {
       logger.error('Error submitting trade:', err);
-      toast.error('Failed to submit trade proposal.');
+      toast.error(`Failed to submit trade proposal: ${(err as { message?: string })?.message || 'unknown error'}`);
     } finally {
       setIsSubmitting(false);
     }
@@ -340,7 +494,7 @@ export function TradeMachine() {
 
     const entries = roster.entries || [];
     const keepers = entries.filter((e: any) => e.decision === 'KEEP');
-    const stacked = stackKeeperRounds(keepers);
+    const stacked = stackKeeperRounds(keepers, currentLeague?.keeperRules);
 
     return computeSummary({
       entries,
@@ -355,6 +509,7 @@ export function TradeMachine() {
     setTradeAssets([]);
     setTradeNote('');
     setSelectedTeamIds(myTeam ? [myTeam.id] : []);
+    cancelCounter();
   };
 
   if (loading) {
@@ -369,8 +524,12 @@ export function TradeMachine() {
     .map(id => teams.find(t => t.id === id))
     .filter(Boolean) as Team[];
 
-  const pendingProposals = proposals.filter(p => p.status === 'pending');
-  const completedProposals = proposals.filter(p => p.status !== 'pending');
+  // Countered versions show up inside the latest card's negotiation history
+  const pendingProposals = proposals.filter(p => p.status === 'pending' || p.status === 'in_review');
+  const completedProposals = proposals.filter(p => !['pending', 'in_review', 'superseded'].includes(p.status));
+  const earlierVersions = (proposal: TradeProposal) => (threads.get(proposal.threadId) || []).filter(p => p.createdAt < proposal.createdAt);
+  // Other teams' trades under league review — this owner can vote to veto them
+  const leagueReviewProposals = reviewProposals.filter(p => !myTeam || !p.involvedTeamIds.includes(myTeam.id));
 
   // Helper: render asset button
   const renderAssetButton = (
@@ -428,10 +587,32 @@ export function TradeMachine() {
         </div>
 
         {/* Trade Deadline Banner */}
-        {isPostDeadline && (
+        {isPostDeadline && (myExceptions.length === 0 ? (
           <div className="mb-6 p-4 bg-red-400/10 border border-red-400/30 rounded-lg text-red-400 text-sm">
             The trade deadline has passed. Trades can no longer be submitted.
           </div>
+        ) : (
+          <div className="mb-6 p-4 bg-yellow-400/10 border border-yellow-400/30 rounded-lg text-yellow-400 text-sm space-y-1">
+            <div>The trade deadline has passed. The commissioner has granted an exception:</div>
+            {myExceptions.map(e => (
+              <div key={e.id} className="text-xs text-gray-300">
+                {e.teamIds.map(id => teams.find(t => t.id === id)?.name || id).join(', ')}
+                <span className="text-gray-500"> until {new Date(e.expiresAt).toLocaleString()} · {e.reason}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        {/* Counter-offer Banner */}
+        {counterOf && (
+          <div className="mb-6 p-4 bg-cyan-400/10 border border-cyan-400/30 rounded-lg text-sm flex items-center justify-between gap-4">
+            <span className="text-cyan-400">
+              Countering {teams.find(t => t.id === counterOf.proposedByTeamId)?.name || 'a'}'s proposal. Edit the assets below and submit to send it back; the original will be marked as countered.
+            </span>
+            <button onClick={handleReset} className="text-gray-400 hover:text-white shrink-0">
+              Cancel
+            </button>
+          </div>
         )}
 
         {/* ============ STEP 1: Select Teams ============ */}
@@ -487,6 +668,7 @@ export function TradeMachine() {
                 const isMyTeam = team.id === myTeam?.id;
                 const roster = rosters.get(team.id);
                 const teamPicks = rookiePicks.filter(p => p.currentOwner === team.id);
+                const teamSlots = draftSlots.filter(p => p.currentTeamId === team.id);
                 const summary = getTeamSummary(team.id);
 
                 const entries = roster?.entries || [];
@@ -607,7 +789,24 @@ export function TradeMachine() {
                         </div>
                       )}
 
-                      {keepers.length === 0 && redshirts.length === 0 && intStash.length === 0 && teamPicks.length === 0 && (
+                      {/* Main Draft Picks */}
+                      {teamSlots.length > 0 && (
+                        <div>
+                          <h4 className="text-xs font-semibold text-pink-400 mb-1.5 uppercase tracking-wider">Draft Picks</h4>
+                          <div className="space-y-1">
+                            {teamSlots.sort((a, b) => a.seasonYear - b.seasonYear || a.overallPick - b.overallPick).map(slot => {
+                              const displayName = `${slot.seasonYear} Pick ${slot.overallPick} (Rd ${slot.round}.${slot.pickInRound})`;
+                              return renderAssetButton(
+                                'draft_pick', slot.id, displayName, 0,
+                                team.id, team.name,
+                                slot.originalTeamId !== slot.currentTeamId ? `via ${slot.originalTeamAbbrev}` : undefined
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
+
+                      {keepers.length === 0 && redshirts.length === 0 && intStash.length === 0 && teamPicks.length === 0 && teamSlots.length === 0 && (
                         <p className="text-gray-600 text-xs text-center py-4">No assets</p>
                       )}
                     </div>
@@ -637,9 +836,10 @@ export function TradeMachine() {
                           asset.type === 'keeper' ? 'bg-green-400/20 text-green-400' :
                           asset.type === 'redshirt' ? 'bg-yellow-400/20 text-yellow-400' :
                           asset.type === 'int_stash' ? 'bg-blue-400/20 text-blue-400' :
+                          asset.type === 'draft_pick' ? 'bg-pink-400/20 text-pink-400' :
                           'bg-purple-400/20 text-purple-400'
                         }`}>
-                          {asset.type === 'int_stash' ? 'STASH' : asset.type === 'rookie_pick' ? 'PICK' : asset.type.toUpperCase()}
+                          {asset.type === 'int_stash' ? 'STASH' : asset.type === 'rookie_pick' ? 'PICK' : asset.type === 'draft_pick' ? 'DRAFT PICK' : asset.type.toUpperCase()}
                         </span>
                         <span className="text-white text-sm truncate">{asset.displayName}</span>
                         {asset.salary > 0 && (
@@ -716,6 +916,9 @@ export function TradeMachine() {
               </div>
             )}
 
+            {/* ============ Trade Analyzer ============ */}
+            <TradeAnalyzerPanel analysis={tradeAnalysis} hasProjections={projectedStats.size > 0} />
+
             {/* ============ Submit ============ */}
             {tradeAssets.length > 0 && (
               <div className="bg-mns-card rounded-lg border border-cyan-400/30 p-5 mb-8">
@@ -781,7 +984,7 @@ export function TradeMachine() {
                     disabled={!canSubmit || isSubmitting}
                     className="px-6 py-3 bg-cyan-400 text-black rounded-lg font-semibold hover:bg-cyan-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {isSubmitting ? 'Submitting...' : 'Submit Trade Proposal'}
+                    {isSubmitting ? 'Submitting...' : counterOf ? 'Send Counter-Offer' : 'Submit Trade Proposal'}
                   </button>
                 </div>
               </div>
@@ -809,6 +1012,34 @@ export function TradeMachine() {
                   key={proposal.id}
                   proposal={proposal}
                   responses={responses.get(proposal.id) || []}
+                  vetoVotes={vetoVotes.get(proposal.id) || []}
+                  history={earlierVersions(proposal)}
+                  comments={comments.get(proposal.threadId) || []}
+                  userTeamId={myTeam?.id || null}
+                  userEmail={user?.email || ''}
+                  onTradeExecuted={loadData}
+                  onCounter={startCounter}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* ============ League Trades Under Review ============ */}
+        {leagueReviewProposals.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-xl font-bold text-white mb-4">
+              League Trades Under Review ({leagueReviewProposals.length})
+            </h2>
+            <div className="space-y-3">
+              {leagueReviewProposals.map(proposal => (
+                <TradeProposalCard
+                  key={proposal.id}
+                  proposal={proposal}
+                  responses={responses.get(proposal.id) || []}
+                  vetoVotes={vetoVotes.get(proposal.id) || []}
+                  history={earlierVersions(proposal)}
+                  comments={comments.get(proposal.threadId) || []}
                   userTeamId={myTeam?.id || null}
                   userEmail={user?.email || ''}
                   onTradeExecuted={loadData}
@@ -828,6 +1059,9 @@ export function TradeMachine() {
                   key={proposal.id}
                   proposal={proposal}
                   responses={responses.get(proposal.id) || []}
+                  vetoVotes={vetoVotes.get(proposal.id) || []}
+                  history={earlierVersions(proposal)}
+                  comments={comments.get(proposal.threadId) || []}
                   userTeamId={myTeam?.id || null}
                   userEmail={user?.email || ''}
                 />
@@ -41,6 +41,68 @@ export const WNBA_FEE_DEFAULTS: LeagueFeeSettings = {
   activationFee: 25,
 };
 
+export type WaiverPriorityMode = 'rolling' | 'reverse_standings';
+
+// priority = claims awarded by waiver priority; faab = blind bids, priority only breaks ties
+export type WaiverClaimMode = 'priority' | 'faab';
+
+export interface LeagueWaiverSettings {
+  enabled: boolean;
+  periodHours: number;              // How long dropped players stay on waivers
+  priorityMode: WaiverPriorityMode; // rolling = winner moves to the back; reverse_standings = worst record first every run
+  claimMode: WaiverClaimMode;
+  faabBudget: number;               // Season FAAB dollars per team (faab mode only)
+}
+
+export const DEFAULT_WAIVER_SETTINGS: LeagueWaiverSettings = {
+  enabled: false,
+  periodHours: 48,
+  priorityMode: 'rolling',
+  claimMode: 'priority',
+  faabBudget: 100,
+};
+
+export interface LeagueTradeReviewSettings {
+  enabled: boolean;
+  reviewHours: number;        // How long an accepted trade waits before executing
+  vetoVotesRequired: number;  // Owner veto votes that kill a trade under review
+}
+
+export const DEFAULT_TRADE_REVIEW_SETTINGS: LeagueTradeReviewSettings = {
+  enabled: false,
+  reviewHours: 24,
+  vetoVotesRequired: 4,
+};
+
+// Rookie draft picks that map to a base keeper round
+export interface RookieKeeperRoundRule {
+  round: number;        // Rookie draft round
+  pickFrom: number;     // First pick in the range (inclusive)
+  pickTo: number;       // Last pick in the range (inclusive)
+  keeperRound: number;  // Base keeper round for those picks
+}
+
+export interface LeagueKeeperRules {
+  rookieRounds: RookieKeeperRoundRule[];  // Picks no rule covers need an admin-set round
+  roundEscalation: number;        // Rounds earlier each season a player is kept again
+  draftRounds: number;            // Last round of the main draft
+  freeFirstRoundKeepers: number;  // Round-1 keepers allowed before franchise tags apply
+}
+
+export const DEFAULT_KEEPER_RULES: LeagueKeeperRules = {
+  rookieRounds: [
+    { round: 1, pickFrom: 1, pickTo: 3, keeperRound: 5 },
+    { round: 1, pickFrom: 4, pickTo: 6, keeperRound: 6 },
+    { round: 1, pickFrom: 7, pickTo: 9, keeperRound: 7 },
+    { round: 1, pickFrom: 10, pickTo: 12, keeperRound: 8 },
+    { round: 2, pickFrom: 1, pickTo: 16, keeperRound: 13 },
+    { round: 3, pickFrom: 1, pickTo: 16, keeperRound: 13 },
+  ],
+  roundEscalation: 1,
+  draftRounds: 13,
+  freeFirstRoundKeepers: 1,
+};
+
 export interface LeagueDeadlines {
   keepersLockAt: string;   // ISO timestamp
   redshirtLockAt: string;  // ISO timestamp
@@ -82,6 +144,32 @@ export interface Matchup {
   awayTeamId: string;
   homeScore: number | null;
   awayScore: number | null;
+  categoryResults?: MatchupCategoryResult[];  // Set by the scoring engine
+  scoredAt?: number;                          // Timestamp of last automatic scoring run
+  bracket?: MatchupBracket;                   // Unset for regular-season matchups
+  playoffRound?: number;                      // 1-based round within the bracket
+  homeSeed?: number;
+  awaySeed?: number;
+}
+
+export type MatchupBracket = 'playoff' | 'third_place' | 'consolation';
+
+// Post-season bracket state, one per league season (generated when entering 'playoffs')
+export interface PlayoffBracket {
+  id: string;  // {leagueId}_{seasonYear}
+  leagueId: string;
+  seasonYear: number;
+  seeds: string[];                 // Playoff team IDs, seed order (index 0 = #1 seed)
+  byeTeams: number;                // Seeds that skip round 1
+  roundWeeks: number[];            // Matchup week for each playoff round
+  consolationTeamIds: string[];    // Non-playoff teams, by regular-season finish
+  consolationWeeks: number[];      // Matchup weeks of the consolation bracket
+  championTeamId?: string;
+  runnerUpTeamId?: string;
+  thirdPlaceTeamId?: string;
+  consolationWinnerTeamId?: string;
+  generatedBy: string;
+  createdAt: number;
 }
 
 export interface TeamRecord {
@@ -98,6 +186,53 @@ export const MATCHUP_CATEGORIES = [
 
 export type MatchupCategory = typeof MATCHUP_CATEGORIES[number];
 
+// Raw counting stats for one player on one game date (from player_box_scores)
+export interface PlayerBoxScore {
+  id: string;  // {fantraxId}_{YYYY-MM-DD}
+  fantraxId: string;
+  seasonYear: number;
+  gameDate: string;  // "YYYY-MM-DD"
+  name?: string;
+  nbaTeam?: string;
+  minutes: number;
+  fgm: number;
+  fga: number;
+  ftm: number;
+  fta: number;
+  threePointMade: number;
+  points: number;
+  rebounds: number;
+  assists: number;
+  steals: number;
+  blocks: number;
+  turnovers: number;
+}
+
+// Summed counting stats for a team over a date range (ratios derived from these)
+export interface CategoryTotals {
+  fgm: number;
+  fga: number;
+  ftm: number;
+  fta: number;
+  threePointMade: number;
+  points: number;
+  rebounds: number;
+  assists: number;
+  steals: number;
+  blocks: number;
+  turnovers: number;
+  gamesPlayed: number;
+}
+
+export type CategoryOutcome = 'home' | 'away' | 'tie';
+
+export interface MatchupCategoryResult {
+  category: MatchupCategory;
+  homeValue: number | null;
+  awayValue: number | null;
+  winner: CategoryOutcome;
+}
+
 export interface LeagueRosterSettings {
   maxActive: number;       // default 13 — max players on active roster
   maxStarters: number;     // default 10 — max that can start (rest must bench)
@@ -160,6 +295,9 @@ export interface League {
   roster: LeagueRosterSettings;  // Roster slot limits
   fees?: LeagueFeeSettings;  // Fee structure (buy-in, penalties, etc.)
   telegramChatId?: string;  // Per-league Telegram group for @mns_draft_bot notifications
+  waivers?: LeagueWaiverSettings;  // Waiver wire rules for dropped players
+  tradeReview?: LeagueTradeReviewSettings;  // Review window and veto rules for accepted trades
+  keeperRules?: LeagueKeeperRules;  // Rookie keeper scale, round escalation and franchise tag rules
 }
 
 // Team
@@ -219,6 +357,7 @@ export interface Player {
   slot: PlayerSlot;
   roster: PlayerRoster;
   keeper?: PlayerKeeper;
+  waiversUntil?: number;  // Timestamp; dropped players can only be claimed until then
 }
 
 export interface WNBAScrapedPlayer {
@@ -389,7 +528,8 @@ export interface DraftPick {
   playerName?: string;        // Set when pick is made
   isKeeperSlot: boolean;
   pickedAt?: number;          // Timestamp when pick was made
-  pickedBy?: string;          // Email of user who made the pick
+  pickedBy?: string;          // Email of user who made the pick ('autopick' when the clock expired)
+  isAutopick?: boolean;       // Made by draft-autopick after the clock expired
 }
 
 export interface DraftCurrentPick {
@@ -403,6 +543,17 @@ export interface DraftCurrentPick {
 export interface DraftSettings {
   allowAdminOverride: boolean;
   isTestDraft: boolean;  // If true, only admins can see the draft
+  pickClockSeconds?: number;  // Time per pick; 0/undefined = no clock
+}
+
+// Per-team draft queue (seeded from the WatchList, used by autopick)
+export interface DraftQueue {
+  id: string;                 // {draftId}_{teamId}
+  draftId: string;
+  leagueId: string;
+  teamId: string;
+  playerIds: string[];        // fantraxIds in preferred pick order
+  updatedAt: number;
 }
 
 export interface Draft {
@@ -515,7 +666,7 @@ export interface DraftHistoryPick {
   playerId: string;
   playerName: string;
   salary: number;
-  nextYearKeeperRound: number;  // round - 1, minimum 1
+  nextYearKeeperRound: number;  // nextYearKeeperRound(round, league rules)
 }
 
 export interface DraftHistoryKeeper {
@@ -527,7 +678,7 @@ export interface DraftHistoryKeeper {
   salary: number;
   baseRound: number;
   keeperRound: number;  // Round they were kept in this draft
-  nextYearKeeperRound: number;  // keeperRound - 1, minimum 1
+  nextYearKeeperRound: number;  // nextYearKeeperRound(keeperRound, league rules)
 }
 
 export interface DraftHistoryPlayer {
@@ -577,6 +728,123 @@ export interface DailyLineup {
   updatedBy: string;
 }
 
+// Waiver Claims
+export type WaiverClaimStatus = 'pending' | 'awarded' | 'failed' | 'cancelled';
+
+export interface WaiverClaim {
+  id: string;
+  leagueId: string;
+  seasonYear: number;
+  teamId: string;
+  playerId: string;
+  playerName: string;
+  dropPlayerId?: string;      // Optional paired drop, released only if the claim is awarded
+  dropPlayerName?: string;
+  bidAmount?: number;         // FAAB bid (faab mode only); hidden from other teams until processed
+  status: WaiverClaimStatus;
+  failureReason?: string;
+  priority?: number;          // Team's waiver priority when the claim was processed (1 = first)
+  runId?: string;             // Processing run that resolved this claim
+  submittedBy: string;        // User email
+  createdAt: number;
+  processedAt?: number;
+}
+
+// Rolling waiver order for a league season (first team = top priority)
+export interface WaiverOrder {
+  id: string;                 // {leagueId}_{seasonYear}
+  leagueId: string;
+  seasonYear: number;
+  teamIds: string[];
+  updatedAt: number;
+}
+
+export interface WaiverRun {
+  id: string;
+  leagueId: string;
+  seasonYear: number;
+  claimMode: WaiverClaimMode;
+  priorityMode: WaiverPriorityMode;
+  priorityOrder: string[];    // Team order used at the start of the run
+  awarded: number;
+  failed: number;
+  processedBy: string;
+  processedAt: number;
+}
+
+// League Transactions (append-only activity log)
+export type TransactionType =
+  | 'add'
+  | 'drop'
+  | 'trade'
+  | 'move_to_ir'
+  | 'activate_from_ir'
+  | 'redshirt_activation'
+  | 'fee';
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  add: 'Add',
+  drop: 'Drop',
+  trade: 'Trade',
+  move_to_ir: 'IR',
+  activate_from_ir: 'IR Activation',
+  redshirt_activation: 'Redshirt Activation',
+  fee: 'Fee',
+};
+
+export interface Transaction {
+  id: string;
+  leagueId: string;
+  type: TransactionType;
+  teamId?: string;            // Team the transaction happened to (receiving team for trades)
+  otherTeamId?: string;       // Sending team for trades
+  playerId?: string;
+  playerName?: string;
+  fromSlot?: PlayerSlot;
+  toSlot?: PlayerSlot;
+  amount?: number;            // Fee dollars (type 'fee')
+  tradeProposalId?: string;
+  note?: string;
+  performedBy?: string;       // User email, or 'system' for automated runs
+  createdAt: number;
+}
+
+// Season Results (final podium, recorded when the league reaches 'champion')
+export interface SeasonResult {
+  id: string;  // {leagueId}_{seasonYear}
+  leagueId: string;
+  seasonYear: number;
+  championTeamId?: string;
+  championName: string;       // Team name snapshot at the time of recording
+  runnerUpTeamId?: string;
+  runnerUpName?: string;
+  thirdPlaceTeamId?: string;
+  thirdPlaceName?: string;
+  recordedBy: string;
+  createdAt: number;
+}
+
+// Phase Transitions (audit log of league_phase changes)
+export interface PhaseSideEffectOutcome {
+  id: string;
+  label: string;
+  success: boolean;
+  detail?: string;
+}
+
+export interface PhaseTransition {
+  id: string;
+  leagueId: string;
+  seasonYear: number;
+  fromPhase: LeaguePhase;
+  toPhase: LeaguePhase;
+  performedBy: string;
+  forced: boolean;                        // Advanced with unresolved blockers
+  blockers: string[];                     // Blocker labels at the time of the change
+  sideEffects: PhaseSideEffectOutcome[];
+  createdAt: number;
+}
+
 // NBA Game (from the games table)
 export interface NBAGame {
   id: string;
@@ -663,8 +931,13 @@ export interface Wager {
 }
 
 // Trade Machine
-export type TradeAssetType = 'keeper' | 'redshirt' | 'int_stash' | 'rookie_pick';
-export type TradeProposalStatus = 'pending' | 'accepted' | 'rejected' | 'cancelled' | 'expired' | 'executed';
+// rookie_pick = rookie_draft_picks row; draft_pick = main draft slot (pick_assignments)
+export type TradeAssetType = 'keeper' | 'redshirt' | 'int_stash' | 'rookie_pick' | 'draft_pick';
+// Asset types that move a player (the rest are picks: no salary, no roster entry)
+export const PLAYER_ASSET_TYPES: TradeAssetType[] = ['keeper', 'redshirt', 'int_stash'];
+// in_review = every team accepted, waiting out the league review window; vetoed = killed during review;
+// superseded = replaced by a counter-offer
+export type TradeProposalStatus = 'pending' | 'accepted' | 'rejected' | 'cancelled' | 'expired' | 'executed' | 'in_review' | 'vetoed' | 'superseded';
 export type TradeResponseStatus = 'pending' | 'accepted' | 'rejected';
 
 export interface TradeAsset {
@@ -689,6 +962,13 @@ export interface TradeProposal {
   involvedTeamIds: string[];
   note?: string;
   expiresAt?: number;
+  reviewEndsAt?: number;   // Set when the trade enters league review
+  vetoedAt?: number;
+  vetoedBy?: string;       // Commissioner email, or 'league_vote'
+  vetoReason?: string;
+  parentProposalId?: string;  // Proposal this one counters
+  threadId: string;           // First proposal in the negotiation (its own id if it isn't a counter)
+  deadlineExceptionId?: string;  // Commissioner exception that let it through after the trade deadline
   executedAt?: number;
   executedBy?: string;
   createdAt: number;
@@ -707,6 +987,57 @@ export interface TradeProposalResponse {
   updatedAt: number;
 }
 
+// Negotiation comment, shared across every counter-offer in a thread
+export interface TradeComment {
+  id: string;
+  leagueId: string;
+  threadId: string;
+  proposalId: string;  // Version being discussed when the comment was posted
+  teamId: string;
+  authorEmail: string;
+  body: string;
+  createdAt: number;
+}
+
+// One uninvolved team's vote to veto a trade under review
+export interface TradeVetoVote {
+  id: string;
+  proposalId: string;
+  leagueId: string;
+  teamId: string;
+  votedBy: string;
+  createdAt: number;
+}
+
+// Commissioner-granted window for specific teams to trade after the deadline
+export interface TradeDeadlineException {
+  id: string;
+  leagueId: string;
+  teamIds: string[];
+  reason: string;
+  grantedBy: string;
+  expiresAt: number;
+  createdAt: number;
+}
+
+// Trade block — an asset a team is openly shopping
+export type TradeBlockAssetType = 'player' | 'rookie_pick';
+
+export interface TradeBlockEntry {
+  id: string;
+  leagueId: string;
+  teamId: string;
+  assetType: TradeBlockAssetType;
+  assetId: string;               // Player id or rookie pick id
+  displayName: string;
+  askingNote?: string;
+  desiredPositions: string[];    // PG, SG, SF, PF, C
+  desiredCategories: MatchupCategory[];
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 // Prospects
 export interface Prospect {
   id: string;  // Auto-generated or derived ID
@@ -0,0 +1,295 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface AutopickRequest {
+  draftId?: string; // Only check this draft; omit to sweep every live draft (cron)
+}
+
+interface CurrentPick {
+  round: number;
+  pickInRound: number;
+  overallPick: number;
+  teamId: string;
+  startedAt: number;
+}
+
+interface PickRow {
+  round: number;
+  pickInRound: number;
+  overallPick: number;
+  teamId: string;
+  playerId?: string;
+  playerName?: string;
+  isKeeperSlot: boolean;
+  pickedAt?: number;
+  pickedBy?: string;
+  isAutopick?: boolean;
+}
+
+interface DraftRow {
+  id: string;
+  league_id: string;
+  season_year: number;
+  settings: { pickClockSeconds?: number } | null;
+  current_pick: CurrentPick | null;
+  picks: PickRow[] | null;
+}
+
+interface AutopickResult {
+  draftId: string;
+  status: "picked" | "not_expired" | "no_clock" | "already_picked" | "no_players";
+  overallPick?: number;
+  playerName?: string;
+  remainingMs?: number;  // not_expired: time left on the server clock
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Choose the player for an expired pick: the team's queue first (falling
+ * back to its watchlist when no queue was saved), then best available by
+ * projected rk_ov, then ADP.
+ */
+async function choosePlayer(
+  supabase: SupabaseClient,
+  draftId: string,
+  leagueId: string,
+  teamId: string,
+  takenIds: Set<string>
+): Promise<{ id: string; name: string; fantraxId: string } | null> {
+  // Undrafted pool (same rule as the Draft page: no team, not already picked)
+  const pool = new Map<string, { id: string; name: string; fantraxId: string }>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("players")
+      .select("id, name, fantrax_id")
+      .eq("league_id", leagueId)
+      .is("team_id", null)
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const row of data || []) {
+      if (!takenIds.has(row.id)) {
+        pool.set(row.fantrax_id, { id: row.id, name: row.name, fantraxId: row.fantrax_id });
+      }
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  if (pool.size === 0) return null;
+
+  // 1. Queue (or watchlist) order
+  const { data: queueRow } = await supabase
+    .from("draft_queues")
+    .select("player_ids")
+    .eq("draft_id", draftId)
+    .eq("team_id", teamId)
+    .maybeSingle();
+
+  let queue: string[] = queueRow?.player_ids || [];
+  if (!queueRow) {
+    const { data: watchRow } = await supabase
+      .from("watchlists")
+      .select("player_ids")
+      .eq("league_id", leagueId)
+      .eq("team_id", teamId)
+      .maybeSingle();
+    queue = watchRow?.player_ids || [];
+  }
+
+  for (const fantraxId of queue) {
+    const player = pool.get(fantraxId);
+    if (player) return player;
+  }
+
+  // 2. Best available by projection rank, ADP as tiebreaker
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("projected_stats")
+      .select("fantrax_id")
+      .order("rk_ov", { ascending: true, nullsFirst: false })
+      .order("adp", { ascending: true, nullsFirst: false })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const row of data || []) {
+      const player = pool.get(row.fantrax_id);
+      if (player) return player;
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // 3. Nobody has a projection — take anyone rather than stall the draft
+  return [...pool.values()].sort((a, b) => a.name.localeCompare(b.name))[0];
+}
+
+async function autopickIfExpired(
+  supabase: SupabaseClient,
+  draftRow: DraftRow
+): Promise<AutopickResult> {
+  const draftId = draftRow.id;
+  const clockSeconds = draftRow.settings?.pickClockSeconds || 0;
+  const currentPick = draftRow.current_pick;
+
+  if (!clockSeconds || !currentPick) return { draftId, status: "no_clock" };
+  const remainingMs = currentPick.startedAt + clockSeconds * 1000 - Date.now();
+  if (remainingMs > 0) {
+    return { draftId, status: "not_expired", remainingMs };
+  }
+
+  const leagueId = draftRow.league_id;
+  const seasonYear = draftRow.season_year;
+  const picks = draftRow.picks || [];
+
+  // Traded picks: pick_assignments holds the current owner
+  const { data: assignment } = await supabase
+    .from("pick_assignments")
+    .select("current_team_id")
+    .eq("id", `${leagueId}_${seasonYear}_pick_${currentPick.overallPick}`)
+    .maybeSingle();
+  const ownerTeamId: string = assignment?.current_team_id || currentPick.teamId;
+
+  const takenIds = new Set(picks.filter((p) => p.playerId).map((p) => p.playerId!));
+  const player = await choosePlayer(supabase, draftId, leagueId, ownerTeamId, takenIds);
+  if (!player) return { draftId, status: "no_players", overallPick: currentPick.overallPick };
+
+  const now = Date.now();
+  const updatedPicks = picks.map((pick) =>
+    pick.overallPick === currentPick.overallPick
+      ? { ...pick, playerId: player.id, playerName: player.name, pickedAt: now, pickedBy: "autopick", isAutopick: true }
+      : pick
+  );
+
+  const nextOpenPick = updatedPicks.find(
+    (p) => p.overallPick > currentPick.overallPick && !p.isKeeperSlot
+  );
+
+  const update: Record<string, unknown> = {
+    picks: updatedPicks,
+    status: nextOpenPick ? "in_progress" : "completed",
+    current_pick: nextOpenPick
+      ? {
+          round: nextOpenPick.round,
+          pickInRound: nextOpenPick.pickInRound,
+          overallPick: nextOpenPick.overallPick,
+          teamId: nextOpenPick.teamId,
+          startedAt: now,
+        }
+      : null,
+  };
+  if (!nextOpenPick) update.completed_at = new Date(now).toISOString();
+
+  // Only write if nobody picked in the meantime (owner beat the clock or another sweep ran)
+  const { data: updatedRows, error: draftError } = await supabase
+    .from("drafts")
+    .update(update)
+    .eq("id", draftId)
+    .eq("status", "in_progress")
+    .eq("current_pick->>overallPick", String(currentPick.overallPick))
+    .select("id");
+
+  if (draftError) throw draftError;
+  if (!updatedRows || updatedRows.length === 0) {
+    return { draftId, status: "already_picked", overallPick: currentPick.overallPick };
+  }
+
+  const { error: playerError } = await supabase
+    .from("players")
+    .update({ team_id: ownerTeamId, league_id: leagueId })
+    .eq("id", player.id);
+  if (playerError) throw playerError;
+
+  const { error: assignmentError } = await supabase
+    .from("pick_assignments")
+    .update({
+      player_id: player.id,
+      player_name: player.name,
+      picked_at: new Date(now).toISOString(),
+      picked_by: "autopick",
+      updated_at: new Date(now).toISOString(),
+    })
+    .eq("id", `${leagueId}_${seasonYear}_pick_${currentPick.overallPick}`);
+  if (assignmentError) console.warn("Failed to update pick_assignments:", assignmentError);
+
+  // Drop the pick from every queue in this draft
+  const { data: queues } = await supabase
+    .from("draft_queues")
+    .select("id, player_ids")
+    .eq("draft_id", draftId);
+  for (const queue of queues || []) {
+    if ((queue.player_ids || []).includes(player.fantraxId)) {
+      await supabase
+        .from("draft_queues")
+        .update({ player_ids: queue.player_ids.filter((id: string) => id !== player.fantraxId) })
+        .eq("id", queue.id);
+    }
+  }
+
+  // Post to the league's draft Telegram group (same format as manual picks)
+  const { data: league } = await supabase
+    .from("leagues")
+    .select("telegram_chat_id")
+    .eq("id", leagueId)
+    .maybeSingle();
+
+  if (league?.telegram_chat_id) {
+    const { data: team } = await supabase
+      .from("teams")
+      .select("name")
+      .eq("id", ownerTeamId)
+      .maybeSingle();
+    const message =
+      `⏱️ *Pick ${currentPick.overallPick}* (Rd ${currentPick.round}, Pick ${currentPick.pickInRound}) — clock expired\n` +
+      `${team?.name || "Unknown"} autopicks *${player.name}*`;
+    const { error: telegramError } = await supabase.functions.invoke("send-telegram", {
+      body: { message, botType: "draft", chatId: league.telegram_chat_id },
+    });
+    if (telegramError) console.warn("Failed to send autopick Telegram message:", telegramError);
+  }
+
+  return { draftId, status: "picked", overallPick: currentPick.overallPick, playerName: player.name };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { draftId }: AutopickRequest = await req.json().catch(() => ({}));
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let query = supabase.from("drafts").select("*").eq("status", "in_progress");
+    if (draftId) query = query.eq("id", draftId);
+
+    const { data: drafts, error } = await query;
+    if (error) throw error;
+
+    // Expiry is always checked against server time, so clients can only
+    // ask for a sweep — they can't force an early pick
+    const results: AutopickResult[] = [];
+    for (const draftRow of drafts || []) {
+      results.push(await autopickIfExpired(supabase, draftRow as DraftRow));
+    }
+
+    return new Response(JSON.stringify({ success: true, results }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in draft-autopick function:", error);
+    return new Response(
+      JSON.stringify({ error: `Autopick failed: ${error.message}` }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,154 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface FinalizeRequest {
+  proposalId?: string; // Only finalize this proposal; omit to sweep every closed review (cron)
+}
+
+interface ProposalAsset {
+  type: string;
+  id: string;
+  displayName?: string;
+  fromTeamId: string;
+  toTeamId: string;
+  toTeamName?: string;
+}
+
+interface ProposalRow {
+  id: string;
+  league_id: string;
+  assets: ProposalAsset[];
+}
+
+interface FinalizeResult {
+  proposalId: string;
+  status: "executed" | "failed";
+  error?: string;
+}
+
+const PLAYER_ASSET_TYPES = ["keeper", "redshirt", "int_stash"];
+const EXECUTED_BY = "trade_review";
+
+/**
+ * Execute one trade whose review window has closed, then do the follow-up
+ * the client's executeTrade does: log each asset, clear the trade block and
+ * announce main draft pick moves. execute_trade locks the proposal and
+ * re-checks the window, so a client that got there first makes this a no-op.
+ */
+async function finalizeProposal(
+  supabase: SupabaseClient,
+  proposal: ProposalRow
+): Promise<FinalizeResult> {
+  const proposalId = proposal.id;
+  const leagueId = proposal.league_id;
+  const assets = proposal.assets || [];
+
+  const { data, error } = await supabase.rpc("execute_trade", {
+    p_proposal_id: proposalId,
+    p_league_id: leagueId,
+    p_assets: assets.map(({ type, id, fromTeamId, toTeamId }) => ({ type, id, fromTeamId, toTeamId })),
+    p_executed_by: EXECUTED_BY,
+  });
+  if (error) return { proposalId, status: "failed", error: error.message };
+  if (!data?.success) return { proposalId, status: "failed", error: data?.error };
+
+  const { error: logError } = await supabase.from("transactions").insert(
+    assets.map((asset) => ({
+      league_id: leagueId,
+      type: "trade",
+      team_id: asset.toTeamId,
+      other_team_id: asset.fromTeamId,
+      player_id: PLAYER_ASSET_TYPES.includes(asset.type) ? asset.id : null,
+      player_name: asset.displayName || null,
+      trade_proposal_id: proposalId,
+      note: asset.type === "rookie_pick" ? "Draft pick" : asset.type === "draft_pick" ? "Main draft pick" : null,
+      performed_by: EXECUTED_BY,
+    }))
+  );
+  if (logError) console.warn("Failed to log trade transactions:", logError);
+
+  const playerIds = assets.filter((a) => PLAYER_ASSET_TYPES.includes(a.type)).map((a) => a.id);
+  const pickIds = assets.filter((a) => a.type === "rookie_pick").map((a) => a.id);
+  for (const [assetType, ids] of [["player", playerIds], ["rookie_pick", pickIds]] as const) {
+    if (ids.length === 0) continue;
+    const { error: blockError } = await supabase
+      .from("trade_block_entries")
+      .delete()
+      .eq("league_id", leagueId)
+      .eq("asset_type", assetType)
+      .in("asset_id", ids);
+    if (blockError) console.warn("Failed to clear trade block entries:", blockError);
+  }
+
+  // Main draft pick trades change who's on the clock — post them like the client does
+  if (assets.some((a) => a.type === "draft_pick")) {
+    const { data: league } = await supabase
+      .from("leagues")
+      .select("telegram_chat_id")
+      .eq("id", leagueId)
+      .maybeSingle();
+
+    if (league?.telegram_chat_id) {
+      const byTeam = new Map<string, string[]>();
+      for (const asset of assets) {
+        const team = asset.toTeamName || asset.toTeamId;
+        byTeam.set(team, [...(byTeam.get(team) || []), asset.displayName || asset.id]);
+      }
+      const lines = Array.from(byTeam, ([team, received]) => `${team} receives: ${received.join(", ")}`);
+      const { error: telegramError } = await supabase.functions.invoke("send-telegram", {
+        body: { message: `🔄 *Trade*\n${lines.join("\n")}`, botType: "draft", chatId: league.telegram_chat_id },
+      });
+      if (telegramError) console.warn("Failed to send trade Telegram message:", telegramError);
+    }
+  }
+
+  return { proposalId, status: "executed" };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { proposalId }: FinalizeRequest = await req.json().catch(() => ({}));
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let query = supabase
+      .from("trade_proposals")
+      .select("id, league_id, assets")
+      .eq("status", "in_review")
+      .lte("review_ends_at", new Date().toISOString());
+    if (proposalId) query = query.eq("id", proposalId);
+
+    const { data: proposals, error } = await query;
+    if (error) throw error;
+
+    const results: FinalizeResult[] = [];
+    for (const proposal of proposals || []) {
+      results.push(await finalizeProposal(supabase, proposal as ProposalRow));
+    }
+
+    return new Response(JSON.stringify({ success: true, results }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in finalize-trade-reviews function:", error);
+    return new Response(
+      JSON.stringify({ error: `Trade review finalization failed: ${error.message}` }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
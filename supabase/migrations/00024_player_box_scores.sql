@@ -0,0 +1,48 @@
+-- ============================================================
+-- Migration 00024: Player box scores + automatic matchup scoring
+-- ============================================================
+-- Stores one row per player per game date with the raw counting
+-- stats needed to compute all nine matchup categories (makes and
+-- attempts are kept separately so FG%, FT% and A/TO can be derived
+-- from weekly totals instead of averaging per-game percentages).
+
+CREATE TABLE IF NOT EXISTS public.player_box_scores (
+  id text PRIMARY KEY,  -- {fantraxId}_{YYYY-MM-DD}
+  fantrax_id text NOT NULL,
+  season_year integer NOT NULL,
+  game_date date NOT NULL,
+  name text,
+  nba_team text,
+  minutes numeric(5,1) NOT NULL DEFAULT 0,
+  fgm integer NOT NULL DEFAULT 0,
+  fga integer NOT NULL DEFAULT 0,
+  ftm integer NOT NULL DEFAULT 0,
+  fta integer NOT NULL DEFAULT 0,
+  three_pm integer NOT NULL DEFAULT 0,
+  points integer NOT NULL DEFAULT 0,
+  rebounds integer NOT NULL DEFAULT 0,
+  assists integer NOT NULL DEFAULT 0,
+  steals integer NOT NULL DEFAULT 0,
+  blocks integer NOT NULL DEFAULT 0,
+  turnovers integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (fantrax_id, game_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_box_scores_date ON public.player_box_scores(game_date);
+CREATE INDEX IF NOT EXISTS idx_box_scores_season ON public.player_box_scores(season_year);
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.player_box_scores
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- No RLS needed — admin-managed table (matches games table)
+ALTER TABLE public.player_box_scores DISABLE ROW LEVEL SECURITY;
+
+-- Per-category breakdown written by the scoring engine.
+-- home_score / away_score keep holding category wins so records
+-- in useMatchups work unchanged.
+ALTER TABLE public.league_matchups
+  ADD COLUMN IF NOT EXISTS category_results jsonb,
+  ADD COLUMN IF NOT EXISTS scored_at timestamptz;
@@ -0,0 +1,43 @@
+-- ============================================================
+-- Migration 00025: Draft pick clock + per-team draft queues
+-- ============================================================
+-- The clock length lives in drafts.settings.pickClockSeconds (jsonb, no
+-- column change needed). When current_pick.startedAt + clock has passed,
+-- the draft-autopick edge function makes the pick for the team on the
+-- clock: first available player in its queue, then best available by
+-- projected_stats.rk_ov / adp.
+
+CREATE TABLE IF NOT EXISTS public.draft_queues (
+  id text PRIMARY KEY,  -- {draftId}_{teamId}
+  draft_id text NOT NULL REFERENCES public.drafts(id) ON DELETE CASCADE,
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  team_id text NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_ids text[] NOT NULL DEFAULT '{}',  -- fantraxIds in pick order
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (draft_id, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_draft_queues_draft ON public.draft_queues(draft_id);
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.draft_queues
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+-- Matches watchlists (team-scoped, shared by co-owners)
+ALTER TABLE public.draft_queues DISABLE ROW LEVEL SECURITY;
+
+-- Schedule the autopick sweep every minute so expired clocks are enforced
+-- even when nobody has the draft page open. Requires pg_cron + pg_net and
+-- the project URL / service key stored in Vault:
+--
+--   SELECT cron.schedule('draft-autopick', '* * * * *', $$
+--     SELECT net.http_post(
+--       url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/draft-autopick',
+--       headers := jsonb_build_object(
+--         'Content-Type', 'application/json',
+--         'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+--       ),
+--       body := '{}'::jsonb
+--     );
+--   $$);
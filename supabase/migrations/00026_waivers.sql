@@ -0,0 +1,72 @@
+-- ============================================================
+-- Migration 00026: Waiver wire
+-- ============================================================
+-- Dropped players sit on waivers until players.waivers_until. While on
+-- waivers they can only be acquired through claims, which a commissioner
+-- resolves in a processing run (rolling or reverse-standings priority).
+
+ALTER TABLE public.leagues ADD COLUMN IF NOT EXISTS waivers jsonb;
+
+ALTER TABLE public.players ADD COLUMN IF NOT EXISTS waivers_until timestamptz;
+
+CREATE TABLE IF NOT EXISTS public.waiver_claims (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  season_year integer NOT NULL,
+  team_id text NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id text NOT NULL,
+  player_name text NOT NULL,
+  drop_player_id text,
+  drop_player_name text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'awarded', 'failed', 'cancelled')),
+  failure_reason text,
+  priority integer,
+  run_id uuid,
+  submitted_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_waiver_claims_league_status ON public.waiver_claims(league_id, status);
+CREATE INDEX IF NOT EXISTS idx_waiver_claims_team ON public.waiver_claims(team_id);
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.waiver_claims
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.waiver_claims DISABLE ROW LEVEL SECURITY;
+
+-- Rolling priority order, persisted between runs
+CREATE TABLE IF NOT EXISTS public.waiver_orders (
+  id text PRIMARY KEY,  -- {leagueId}_{seasonYear}
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  season_year integer NOT NULL,
+  team_ids text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.waiver_orders
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.waiver_orders DISABLE ROW LEVEL SECURITY;
+
+-- One row per processing run (audit trail)
+CREATE TABLE IF NOT EXISTS public.waiver_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  season_year integer NOT NULL,
+  priority_mode text NOT NULL,
+  priority_order text[] NOT NULL DEFAULT '{}',
+  awarded integer NOT NULL DEFAULT 0,
+  failed integer NOT NULL DEFAULT 0,
+  processed_by text NOT NULL,
+  processed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waiver_runs_league ON public.waiver_runs(league_id, season_year);
+
+ALTER TABLE public.waiver_runs DISABLE ROW LEVEL SECURITY;
@@ -0,0 +1,13 @@
+-- ============================================================
+-- Migration 00027: FAAB blind bidding
+-- ============================================================
+-- leagues.waivers.claimMode = 'faab' switches claims from pure waiver
+-- priority to blind bids against a season budget (leagues.waivers.faabBudget).
+-- Spent FAAB is the sum of a team's awarded bids for the season, so no
+-- separate balance table is needed.
+
+ALTER TABLE public.waiver_claims ADD COLUMN IF NOT EXISTS bid_amount integer
+  CHECK (bid_amount IS NULL OR bid_amount >= 0);
+
+ALTER TABLE public.waiver_runs ADD COLUMN IF NOT EXISTS claim_mode text NOT NULL DEFAULT 'priority'
+  CHECK (claim_mode IN ('priority', 'faab'));
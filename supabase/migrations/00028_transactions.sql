@@ -0,0 +1,49 @@
+-- ============================================================
+-- Migration 00028: League transaction log
+-- ============================================================
+-- One row per roster event (adds, drops, IR moves, redshirt activations,
+-- trades, fees). Written by the client lib (rosterOps, executeTrade,
+-- roster view fee actions) and read by the league activity feed and the
+-- player modal history. Rows are never edited or deleted.
+
+CREATE TABLE IF NOT EXISTS public.transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  type text NOT NULL
+    CHECK (type IN ('add', 'drop', 'trade', 'move_to_ir', 'activate_from_ir', 'redshirt_activation', 'fee')),
+  team_id text,
+  other_team_id text,
+  player_id text,
+  player_name text,
+  from_slot text,
+  to_slot text,
+  amount numeric,
+  trade_proposal_id text,
+  note text,
+  performed_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_league_created ON public.transactions(league_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_player ON public.transactions(player_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_team ON public.transactions(team_id);
+
+-- Append-only: reject edits and deletes (league deletion still cascades)
+CREATE OR REPLACE FUNCTION public.prevent_transaction_mutation()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'transactions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transactions_append_only
+  BEFORE UPDATE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_transaction_mutation();
+
+CREATE TRIGGER transactions_no_delete
+  BEFORE DELETE ON public.transactions
+  FOR EACH ROW
+  WHEN (pg_trigger_depth() = 0)
+  EXECUTE FUNCTION public.prevent_transaction_mutation();
+
+ALTER TABLE public.transactions DISABLE ROW LEVEL SECURITY;
@@ -0,0 +1,31 @@
+-- ============================================================
+-- Migration 00029: Season results
+-- ============================================================
+-- Final podium for each league season, recorded when the league moves to
+-- the champion phase. Team names are snapshotted so the Record Book keeps
+-- reading correctly after teams are renamed or removed.
+
+CREATE TABLE IF NOT EXISTS public.season_results (
+  id text PRIMARY KEY,  -- {leagueId}_{seasonYear}
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  season_year integer NOT NULL,
+  champion_team_id text,
+  champion_name text NOT NULL,
+  runner_up_team_id text,
+  runner_up_name text,
+  third_place_team_id text,
+  third_place_name text,
+  recorded_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (league_id, season_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_results_league ON public.season_results(league_id);
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.season_results
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.season_results DISABLE ROW LEVEL SECURITY;
@@ -0,0 +1,40 @@
+-- ============================================================
+-- Migration 00030: Playoff brackets
+-- ============================================================
+-- Post-season matchups live in league_matchups alongside the regular
+-- season, tagged with their bracket and round. playoff_brackets holds the
+-- seeding and which matchup week each round is played in, so winners can
+-- be advanced once a round's scores are final.
+
+ALTER TABLE public.league_matchups
+  ADD COLUMN IF NOT EXISTS bracket text
+    CHECK (bracket IN ('playoff', 'third_place', 'consolation')),
+  ADD COLUMN IF NOT EXISTS playoff_round integer,
+  ADD COLUMN IF NOT EXISTS home_seed integer,
+  ADD COLUMN IF NOT EXISTS away_seed integer;
+
+CREATE TABLE IF NOT EXISTS public.playoff_brackets (
+  id text PRIMARY KEY,  -- {leagueId}_{seasonYear}
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  season_year integer NOT NULL,
+  seeds text[] NOT NULL DEFAULT '{}',
+  bye_teams integer NOT NULL DEFAULT 0,
+  round_weeks integer[] NOT NULL DEFAULT '{}',
+  consolation_team_ids text[] NOT NULL DEFAULT '{}',
+  consolation_weeks integer[] NOT NULL DEFAULT '{}',
+  champion_team_id text,
+  runner_up_team_id text,
+  third_place_team_id text,
+  consolation_winner_team_id text,
+  generated_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE (league_id, season_year)
+);
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.playoff_brackets
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.playoff_brackets DISABLE ROW LEVEL SECURITY;
@@ -0,0 +1,134 @@
+-- ============================================================
+-- Migration 00031: Season rollover
+-- ============================================================
+-- Carries a league from the champion phase into next season in a single
+-- database transaction. The per-player changes (keeper rounds, redshirt
+-- promotions, rookie graduation) are planned and previewed client-side in
+-- seasonRollover.ts and passed in as p_player_updates; this function applies
+-- them together with the league-wide resets so a failure leaves nothing
+-- half-rolled.
+--
+-- Called via: supabase.rpc('rollover_season', { ... })
+
+CREATE OR REPLACE FUNCTION rollover_season(
+  p_league_id TEXT,
+  p_from_season INTEGER,
+  p_next_phase TEXT,
+  p_player_updates JSONB,
+  p_performed_by TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_league RECORD;
+  v_update JSONB;
+  v_players_updated INTEGER := 0;
+  v_rosters_reset INTEGER := 0;
+  v_lineups_cleared INTEGER := 0;
+BEGIN
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 1. LOCK AND VERIFY LEAGUE
+  -- The season check makes a double-submitted rollover a no-op
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT * INTO v_league
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'League not found');
+  END IF;
+
+  IF v_league.season_year != p_from_season THEN
+    RETURN json_build_object('success', false, 'error',
+      'League is already in the ' || v_league.season_year || ' season');
+  END IF;
+
+  IF p_next_phase NOT IN ('rookie_draft', 'keeper_season') THEN
+    RETURN json_build_object('success', false, 'error',
+      'Next season must start in rookie_draft or keeper_season');
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 2. APPLY PLAYER UPDATES
+  -- Keeper rounds, redshirt promotion/expiry, rookie graduation, slot reset
+  -- ═══════════════════════════════════════════════════════════════════════
+  FOR v_update IN SELECT * FROM jsonb_array_elements(p_player_updates)
+  LOOP
+    UPDATE players
+    SET slot = v_update.value->>'slot',
+        on_ir = (v_update.value->>'slot') = 'ir',
+        is_rookie = (v_update.value->>'isRookie')::boolean,
+        rookie_draft_info = CASE
+          WHEN jsonb_typeof(v_update.value->'rookieDraftInfo') = 'object'
+          THEN v_update.value->'rookieDraftInfo'
+          ELSE NULL
+        END,
+        keeper_prior_year_round = (v_update.value->>'priorYearRound')::integer,
+        keeper_derived_base_round = (v_update.value->>'derivedBaseRound')::integer,
+        updated_at = now()
+    WHERE id = v_update.value->>'id'
+      AND league_id = p_league_id;
+
+    IF FOUND THEN
+      v_players_updated := v_players_updated + 1;
+    END IF;
+  END LOOP;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 3. CLEAR IN-SEASON ROSTERS
+  -- ═══════════════════════════════════════════════════════════════════════
+  DELETE FROM regular_season_rosters
+  WHERE league_id = p_league_id;
+  GET DIAGNOSTICS v_lineups_cleared = ROW_COUNT;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 4. FRESH KEEPER ROSTERS FOR EVERY TEAM
+  -- ═══════════════════════════════════════════════════════════════════════
+  DELETE FROM rosters
+  WHERE league_id = p_league_id
+    AND season_year = p_from_season + 1;
+
+  INSERT INTO rosters (id, league_id, team_id, season_year, entries, summary, status, saved_scenarios)
+  SELECT p_league_id || '_' || t.id, p_league_id, t.id, p_from_season + 1,
+         '[]'::jsonb, '{}'::jsonb, 'draft', '[]'::jsonb
+  FROM teams t
+  WHERE t.league_id = p_league_id
+  ON CONFLICT (id) DO UPDATE
+  SET season_year = EXCLUDED.season_year,
+      entries = EXCLUDED.entries,
+      summary = EXCLUDED.summary,
+      status = EXCLUDED.status,
+      saved_scenarios = EXCLUDED.saved_scenarios,
+      updated_at = now();
+  GET DIAGNOSTICS v_rosters_reset = ROW_COUNT;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 5. BUMP THE LEAGUE INTO NEXT SEASON
+  -- ═══════════════════════════════════════════════════════════════════════
+  UPDATE leagues
+  SET season_year = p_from_season + 1,
+      league_phase = p_next_phase,
+      keepers_locked = false,
+      draft_status = NULL,
+      season_status = 'pre_season',
+      season_started_at = NULL,
+      season_started_by = NULL,
+      updated_at = now()
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'season_year', p_from_season + 1,
+    'players_updated', v_players_updated,
+    'rosters_reset', v_rosters_reset,
+    'regular_season_rosters_cleared', v_lineups_cleared,
+    'performed_by', p_performed_by
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
@@ -0,0 +1,29 @@
+-- ============================================================
+-- Migration 00033: Phase transition audit log
+-- ============================================================
+-- One row per league_phase change made from the admin phase stepper,
+-- with who made it, any precondition blockers that were overridden, and
+-- the outcome of each side effect (keeper lock, fee lock, bracket seeding,
+-- notification emails). Rows are never edited or deleted.
+
+CREATE TABLE IF NOT EXISTS public.phase_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  season_year integer NOT NULL,
+  from_phase text NOT NULL,
+  to_phase text NOT NULL,
+  performed_by text NOT NULL,
+  forced boolean NOT NULL DEFAULT false,   -- Advanced with unresolved blockers
+  blockers jsonb NOT NULL DEFAULT '[]'::jsonb,
+  side_effects jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phase_transitions_league_created ON public.phase_transitions(league_id, created_at DESC);
+
+ALTER TABLE public.phase_transitions DISABLE ROW LEVEL SECURITY;
+
+-- Notification sent to every owner when the league changes phase
+INSERT INTO email_templates (name, subject, html_body, description) VALUES
+  ('phase-changed', '{{leagueName}} is now in {{phaseLabel}}', '', 'Sent to all owners when the commissioner advances the league phase')
+ON CONFLICT (name) DO NOTHING;
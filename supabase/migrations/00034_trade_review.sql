@@ -0,0 +1,392 @@
+-- ============================================================
+-- Migration 00034: Trade review period and veto
+-- ============================================================
+-- Leagues can opt into a review window (leagues.trade_review). Once every
+-- team accepts, the proposal moves to 'in_review' until review_ends_at
+-- instead of executing straight away. During the window owners of
+-- uninvolved teams can vote to veto, and the commissioner can veto with a
+-- reason; enough votes or a commissioner veto moves it to 'vetoed'. When
+-- the window closes the trade still goes through execute_trade, which now
+-- accepts 'in_review' proposals whose window has passed.
+
+ALTER TABLE public.leagues ADD COLUMN IF NOT EXISTS trade_review jsonb;
+
+ALTER TABLE public.trade_proposals DROP CONSTRAINT IF EXISTS trade_proposals_status_check;
+ALTER TABLE public.trade_proposals ADD CONSTRAINT trade_proposals_status_check
+  CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled', 'expired', 'executed', 'in_review', 'vetoed'));
+
+ALTER TABLE public.trade_proposals ADD COLUMN IF NOT EXISTS review_ends_at timestamptz;
+ALTER TABLE public.trade_proposals ADD COLUMN IF NOT EXISTS vetoed_at timestamptz;
+ALTER TABLE public.trade_proposals ADD COLUMN IF NOT EXISTS vetoed_by text;
+ALTER TABLE public.trade_proposals ADD COLUMN IF NOT EXISTS veto_reason text;
+
+-- ============================================================
+-- Table: trade_veto_votes
+-- ============================================================
+-- One vote per uninvolved team per proposal.
+CREATE TABLE IF NOT EXISTS public.trade_veto_votes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id text NOT NULL REFERENCES public.trade_proposals(id) ON DELETE CASCADE,
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  team_id text NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  voted_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+
+  UNIQUE(proposal_id, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_veto_votes_proposal ON public.trade_veto_votes(proposal_id);
+CREATE INDEX IF NOT EXISTS idx_trade_veto_votes_league ON public.trade_veto_votes(league_id);
+
+ALTER TABLE public.trade_veto_votes DISABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Function: cast_trade_veto_vote
+-- ============================================================
+-- Records one team's veto vote and vetoes the trade once the league's
+-- vetoVotesRequired threshold is reached. Locks the proposal so the vote
+-- that crosses the threshold can't race the window closing.
+--
+-- Called via: supabase.rpc('cast_trade_veto_vote', { ... })
+
+CREATE OR REPLACE FUNCTION cast_trade_veto_vote(
+  p_proposal_id TEXT,
+  p_team_id TEXT,
+  p_voted_by TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_proposal RECORD;
+  v_required INTEGER;
+  v_votes INTEGER;
+BEGIN
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 1. LOCK AND VERIFY PROPOSAL
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT * INTO v_proposal
+  FROM trade_proposals
+  WHERE id = p_proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Proposal not found');
+  END IF;
+
+  IF v_proposal.status != 'in_review' THEN
+    RETURN json_build_object('success', false, 'error',
+      'Trade is not under review (' || v_proposal.status || ')');
+  END IF;
+
+  IF v_proposal.review_ends_at <= now() THEN
+    RETURN json_build_object('success', false, 'error', 'Review period has ended');
+  END IF;
+
+  IF p_team_id = ANY(v_proposal.involved_team_ids) THEN
+    RETURN json_build_object('success', false, 'error', 'Teams in the trade cannot vote on it');
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 2. RECORD VOTE
+  -- ═══════════════════════════════════════════════════════════════════════
+  INSERT INTO trade_veto_votes (proposal_id, league_id, team_id, voted_by)
+  VALUES (p_proposal_id, v_proposal.league_id, p_team_id, p_voted_by)
+  ON CONFLICT (proposal_id, team_id) DO NOTHING;
+
+  SELECT count(*) INTO v_votes
+  FROM trade_veto_votes
+  WHERE proposal_id = p_proposal_id;
+
+  SELECT COALESCE((trade_review->>'vetoVotesRequired')::integer, 4) INTO v_required
+  FROM leagues
+  WHERE id = v_proposal.league_id;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 3. VETO ON THRESHOLD
+  -- ═══════════════════════════════════════════════════════════════════════
+  IF v_votes >= v_required THEN
+    UPDATE trade_proposals
+    SET status = 'vetoed',
+        vetoed_at = now(),
+        vetoed_by = 'league_vote',
+        veto_reason = v_votes || ' owner veto votes',
+        updated_at = now()
+    WHERE id = p_proposal_id;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'votes', v_votes,
+    'required', v_required,
+    'vetoed', v_votes >= v_required
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- ============================================================
+-- Function: execute_trade (redefined from 00023)
+-- ============================================================
+-- Same transfer logic; now also executes 'in_review' proposals once
+-- review_ends_at has passed, and cancels conflicting in-review proposals.
+
+CREATE OR REPLACE FUNCTION execute_trade(
+  p_proposal_id TEXT,
+  p_league_id TEXT,
+  p_assets JSONB,
+  p_executed_by TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_proposal RECORD;
+  v_asset JSONB;
+  v_player RECORD;
+  v_pick RECORD;
+  v_roster RECORD;
+  v_entries JSONB;
+  v_filtered JSONB;
+  v_entry JSONB;
+  v_roster_id TEXT;
+  v_team_id TEXT;
+  v_from_team TEXT;
+  v_to_team TEXT;
+  v_asset_type TEXT;
+  v_asset_id TEXT;
+  v_slot TEXT;
+  v_decision TEXT;
+  v_all_asset_ids TEXT[];
+  v_team_ids TEXT[];
+  v_conflicting_ids TEXT[];
+  v_other RECORD;
+  v_other_asset JSONB;
+  v_other_id TEXT;
+BEGIN
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 1. LOCK AND VERIFY PROPOSAL
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT * INTO v_proposal
+  FROM trade_proposals
+  WHERE id = p_proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Proposal not found');
+  END IF;
+
+  IF v_proposal.status NOT IN ('pending', 'in_review') THEN
+    RETURN json_build_object('success', false, 'error',
+      'Proposal is already ' || v_proposal.status);
+  END IF;
+
+  -- Trades under league review only execute once the window has closed
+  IF v_proposal.status = 'in_review' AND v_proposal.review_ends_at > now() THEN
+    RETURN json_build_object('success', false, 'error',
+      'Trade is still under review until ' || v_proposal.review_ends_at);
+  END IF;
+
+  -- Collect all asset IDs for conflict detection later
+  SELECT array_agg(elem->>'id')
+  INTO v_all_asset_ids
+  FROM jsonb_array_elements(p_assets) AS elem;
+
+  -- Collect all involved team IDs
+  SELECT array_agg(DISTINCT tid) INTO v_team_ids
+  FROM (
+    SELECT elem->>'fromTeamId' AS tid FROM jsonb_array_elements(p_assets) AS elem
+    UNION
+    SELECT elem->>'toTeamId' AS tid FROM jsonb_array_elements(p_assets) AS elem
+  ) sub;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 2. LOCK AND VERIFY ALL PLAYER ASSETS
+  -- ═══════════════════════════════════════════════════════════════════════
+  FOR v_asset IN SELECT * FROM jsonb_array_elements(p_assets)
+  LOOP
+    v_asset_type := v_asset.value->>'type';
+    v_asset_id := v_asset.value->>'id';
+    v_from_team := v_asset.value->>'fromTeamId';
+    v_to_team := v_asset.value->>'toTeamId';
+
+    IF v_asset_type != 'rookie_pick' THEN
+      -- Lock the player row and verify ownership
+      SELECT * INTO v_player
+      FROM players
+      WHERE id = v_asset_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error',
+          'Player ' || v_asset_id || ' not found');
+      END IF;
+
+      IF v_player.team_id IS DISTINCT FROM v_from_team THEN
+        RETURN json_build_object('success', false, 'error',
+          v_player.name || ' no longer belongs to the sending team. They may have been moved by another trade.');
+      END IF;
+    ELSE
+      -- Lock the rookie pick row and verify ownership
+      SELECT * INTO v_pick
+      FROM rookie_draft_picks
+      WHERE id = v_asset_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error',
+          'Draft pick ' || v_asset_id || ' not found');
+      END IF;
+
+      IF v_pick.current_owner IS DISTINCT FROM v_from_team THEN
+        RETURN json_build_object('success', false, 'error',
+          'Draft pick ' || v_asset_id || ' no longer belongs to the sending team. It may have been moved by another trade.');
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 3. UPDATE KEEPER ROSTER ENTRIES
+  -- For each involved team: remove outgoing players, add incoming players
+  -- ═══════════════════════════════════════════════════════════════════════
+  FOREACH v_team_id IN ARRAY v_team_ids
+  LOOP
+    v_roster_id := p_league_id || '_' || v_team_id;
+
+    SELECT * INTO v_roster
+    FROM rosters
+    WHERE id = v_roster_id
+    FOR UPDATE;
+
+    IF FOUND THEN
+      v_entries := COALESCE(v_roster.entries, '[]'::jsonb);
+
+      -- Remove outgoing players from this team's entries
+      v_filtered := '[]'::jsonb;
+      FOR v_entry IN SELECT * FROM jsonb_array_elements(v_entries)
+      LOOP
+        -- Keep entry if it's NOT a player being traded away from this team
+        IF NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(p_assets) AS a
+          WHERE a.value->>'type' != 'rookie_pick'
+            AND a.value->>'id' = v_entry.value->>'playerId'
+            AND a.value->>'fromTeamId' = v_team_id
+        ) THEN
+          v_filtered := v_filtered || jsonb_build_array(v_entry.value);
+        END IF;
+      END LOOP;
+
+      -- Add incoming players to this team's entries
+      FOR v_asset IN SELECT * FROM jsonb_array_elements(p_assets)
+      LOOP
+        IF v_asset.value->>'type' != 'rookie_pick'
+           AND v_asset.value->>'toTeamId' = v_team_id THEN
+          v_asset_type := v_asset.value->>'type';
+          v_decision := CASE v_asset_type
+            WHEN 'redshirt' THEN 'REDSHIRT'
+            WHEN 'int_stash' THEN 'INT_STASH'
+            ELSE 'KEEP'
+          END;
+
+          v_filtered := v_filtered || jsonb_build_array(
+            jsonb_build_object(
+              'playerId', v_asset.value->>'id',
+              'decision', v_decision,
+              'baseRound', 13
+            )
+          );
+        END IF;
+      END LOOP;
+
+      -- Save updated entries
+      UPDATE rosters
+      SET entries = v_filtered,
+          updated_at = now()
+      WHERE id = v_roster_id;
+    END IF;
+  END LOOP;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 4. TRANSFER PLAYERS (update players.team_id + slot)
+  -- ═══════════════════════════════════════════════════════════════════════
+  FOR v_asset IN SELECT * FROM jsonb_array_elements(p_assets)
+  LOOP
+    v_asset_type := v_asset.value->>'type';
+    v_asset_id := v_asset.value->>'id';
+    v_to_team := v_asset.value->>'toTeamId';
+
+    IF v_asset_type != 'rookie_pick' THEN
+      v_slot := CASE v_asset_type
+        WHEN 'redshirt' THEN 'redshirt'
+        WHEN 'int_stash' THEN 'international'
+        ELSE 'active'
+      END;
+
+      UPDATE players
+      SET team_id = v_to_team,
+          slot = v_slot,
+          on_ir = false
+      WHERE id = v_asset_id;
+    ELSE
+      -- Transfer rookie pick ownership
+      UPDATE rookie_draft_picks
+      SET current_owner = v_to_team,
+          updated_at = now()
+      WHERE id = v_asset_id;
+    END IF;
+  END LOOP;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 5. CANCEL CONFLICTING OPEN PROPOSALS
+  -- Any other pending or in-review proposal involving the same assets gets cancelled
+  -- ═══════════════════════════════════════════════════════════════════════
+  v_conflicting_ids := ARRAY[]::TEXT[];
+
+  FOR v_other IN
+    SELECT id, assets
+    FROM trade_proposals
+    WHERE league_id = p_league_id
+      AND status IN ('pending', 'in_review')
+      AND id != p_proposal_id
+    FOR UPDATE
+  LOOP
+    FOR v_other_asset IN SELECT * FROM jsonb_array_elements(v_other.assets)
+    LOOP
+      v_other_id := v_other_asset.value->>'id';
+      IF v_other_id = ANY(v_all_asset_ids) THEN
+        v_conflicting_ids := array_append(v_conflicting_ids, v_other.id);
+        EXIT; -- Found one overlap, no need to check more assets in this proposal
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  IF array_length(v_conflicting_ids, 1) > 0 THEN
+    UPDATE trade_proposals
+    SET status = 'cancelled',
+        updated_at = now()
+    WHERE id = ANY(v_conflicting_ids);
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 6. MARK PROPOSAL AS EXECUTED
+  -- ═══════════════════════════════════════════════════════════════════════
+  UPDATE trade_proposals
+  SET status = 'executed',
+      executed_at = now(),
+      executed_by = p_executed_by,
+      updated_at = now()
+  WHERE id = p_proposal_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'cancelled_proposals', COALESCE(array_length(v_conflicting_ids, 1), 0)
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
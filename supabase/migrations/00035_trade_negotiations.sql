@@ -0,0 +1,151 @@
+-- ============================================================
+-- Migration 00035: Trade counter-offers and negotiation threads
+-- ============================================================
+-- A counter-offer is a new proposal cloned from a pending one with edited
+-- assets. It points at the proposal it answers (parent_proposal_id) and
+-- shares the thread_id of the first proposal in the negotiation, and the
+-- parent is marked 'superseded' in the same transaction. Comments hang off
+-- the thread so the discussion survives every counter.
+
+ALTER TABLE public.trade_proposals DROP CONSTRAINT IF EXISTS trade_proposals_status_check;
+ALTER TABLE public.trade_proposals ADD CONSTRAINT trade_proposals_status_check
+  CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled', 'expired', 'executed', 'in_review', 'vetoed', 'superseded'));
+
+ALTER TABLE public.trade_proposals ADD COLUMN IF NOT EXISTS parent_proposal_id text REFERENCES public.trade_proposals(id) ON DELETE SET NULL;
+-- NULL for a proposal that opened its own thread (thread id = its own id)
+ALTER TABLE public.trade_proposals ADD COLUMN IF NOT EXISTS thread_id text;
+
+CREATE INDEX IF NOT EXISTS idx_trade_proposals_thread ON public.trade_proposals(thread_id);
+
+-- ============================================================
+-- Table: trade_comments
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.trade_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  thread_id text NOT NULL,
+  proposal_id text NOT NULL REFERENCES public.trade_proposals(id) ON DELETE CASCADE,  -- Version the comment was made on
+  team_id text NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  author_email text NOT NULL,
+  body text NOT NULL CHECK (length(body) BETWEEN 1 AND 1000),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_comments_thread ON public.trade_comments(thread_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_trade_comments_league ON public.trade_comments(league_id);
+
+ALTER TABLE public.trade_comments DISABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Function: counter_trade_proposal
+-- ============================================================
+-- Creates the counter-offer, its per-team responses (the countering team
+-- auto-accepts) and supersedes the parent in one transaction, so two owners
+-- countering the same proposal can't both succeed.
+--
+-- Called via: supabase.rpc('counter_trade_proposal', { ... })
+
+CREATE OR REPLACE FUNCTION counter_trade_proposal(
+  p_parent_id TEXT,
+  p_proposal_id TEXT,
+  p_proposed_by_team_id TEXT,
+  p_proposed_by_email TEXT,
+  p_assets JSONB,
+  p_note TEXT,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_parent RECORD;
+  v_team_ids TEXT[];
+  v_thread_id TEXT;
+BEGIN
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 1. LOCK AND VERIFY PARENT
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT * INTO v_parent
+  FROM trade_proposals
+  WHERE id = p_parent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Proposal not found');
+  END IF;
+
+  IF v_parent.status != 'pending' THEN
+    RETURN json_build_object('success', false, 'error',
+      'Proposal is already ' || v_parent.status);
+  END IF;
+
+  IF v_parent.expires_at IS NOT NULL AND v_parent.expires_at <= now() THEN
+    RETURN json_build_object('success', false, 'error', 'Proposal has expired');
+  END IF;
+
+  IF NOT (p_proposed_by_team_id = ANY(v_parent.involved_team_ids)) THEN
+    RETURN json_build_object('success', false, 'error', 'Only teams in the trade can counter it');
+  END IF;
+
+  SELECT array_agg(DISTINCT tid) INTO v_team_ids
+  FROM (
+    SELECT elem->>'fromTeamId' AS tid FROM jsonb_array_elements(p_assets) AS elem
+    UNION
+    SELECT elem->>'toTeamId' AS tid FROM jsonb_array_elements(p_assets) AS elem
+  ) sub
+  WHERE COALESCE(tid, '') <> '';
+
+  IF v_team_ids IS NULL OR array_length(v_team_ids, 1) < 2 THEN
+    RETURN json_build_object('success', false, 'error', 'A counter-offer needs at least two teams');
+  END IF;
+
+  IF NOT (p_proposed_by_team_id = ANY(v_team_ids)) THEN
+    RETURN json_build_object('success', false, 'error', 'The countering team must be part of the counter-offer');
+  END IF;
+
+  v_thread_id := COALESCE(v_parent.thread_id, v_parent.id);
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 2. CREATE COUNTER-OFFER AND RESPONSES
+  -- ═══════════════════════════════════════════════════════════════════════
+  INSERT INTO trade_proposals (
+    id, league_id, season_year, proposed_by_team_id, proposed_by_email,
+    status, assets, involved_team_ids, note, expires_at,
+    parent_proposal_id, thread_id
+  )
+  VALUES (
+    p_proposal_id, v_parent.league_id, v_parent.season_year, p_proposed_by_team_id, p_proposed_by_email,
+    'pending', p_assets, v_team_ids, NULLIF(p_note, ''), p_expires_at,
+    v_parent.id, v_thread_id
+  );
+
+  INSERT INTO trade_proposal_responses (id, proposal_id, team_id, team_name, status, responded_by, responded_at)
+  SELECT p_proposal_id || '_' || t.id,
+         p_proposal_id,
+         t.id,
+         t.name,
+         CASE WHEN t.id = p_proposed_by_team_id THEN 'accepted' ELSE 'pending' END,
+         CASE WHEN t.id = p_proposed_by_team_id THEN p_proposed_by_email END,
+         CASE WHEN t.id = p_proposed_by_team_id THEN now() END
+  FROM teams t
+  WHERE t.id = ANY(v_team_ids);
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 3. SUPERSEDE PARENT
+  -- ═══════════════════════════════════════════════════════════════════════
+  UPDATE trade_proposals
+  SET status = 'superseded',
+      updated_at = now()
+  WHERE id = v_parent.id;
+
+  RETURN json_build_object(
+    'success', true,
+    'proposal_id', p_proposal_id,
+    'thread_id', v_thread_id
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
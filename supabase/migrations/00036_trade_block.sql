@@ -0,0 +1,35 @@
+-- ============================================================
+-- Migration 00036: Trade block
+-- ============================================================
+-- Teams list players and rookie picks they're willing to move, with an
+-- asking note and the positions / categories they want back. Each asset can
+-- be on the block once; the entry is dropped when the asset changes hands.
+
+-- ============================================================
+-- Table: trade_block_entries
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.trade_block_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  team_id text NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  asset_type text NOT NULL CHECK (asset_type IN ('player', 'rookie_pick')),
+  asset_id text NOT NULL,                       -- players.id or rookie_draft_picks.id
+  display_name text NOT NULL,
+  asking_note text CHECK (asking_note IS NULL OR length(asking_note) <= 500),
+  desired_positions text[] NOT NULL DEFAULT '{}',
+  desired_categories text[] NOT NULL DEFAULT '{}',
+  created_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (league_id, asset_type, asset_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_block_entries_league ON public.trade_block_entries(league_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trade_block_entries_team ON public.trade_block_entries(team_id);
+
+ALTER TABLE public.trade_block_entries DISABLE ROW LEVEL SECURITY;
+
+-- Sent to owners whose watchlist includes a player that just went on the block
+INSERT INTO email_templates (name, subject, html_body, description) VALUES
+  ('trade-block-watched', '{{playerName}} is on the trade block', '', 'Sent to owners watching a player when another team puts him on the trade block')
+ON CONFLICT (name) DO NOTHING;
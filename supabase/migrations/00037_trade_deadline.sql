@@ -0,0 +1,156 @@
+-- ============================================================
+-- Migration 00037: Server-side trade deadline
+-- ============================================================
+-- leagues.schedule->>'tradeDeadlineDate' is a YYYY-MM-DD in Eastern time;
+-- trading closes at the end of that day (matches isTradeDeadlinePassed in
+-- scheduleUtils.ts). After that:
+--   * new proposals are rejected (direct inserts and counter_trade_proposal)
+--   * pending proposals can't start a review or be executed by execute_trade
+--   * expire_trades_at_deadline marks leftover pending proposals 'expired'
+-- Trades already under review were agreed before the deadline and still
+-- execute. A commissioner can open a window for specific teams with a
+-- deadline exception; every exception is kept for audit and each proposal
+-- that relied on one records it.
+
+-- ============================================================
+-- Table: trade_deadline_exceptions
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.trade_deadline_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  team_ids text[] NOT NULL CHECK (cardinality(team_ids) >= 2),  -- Teams allowed to trade with each other
+  reason text NOT NULL CHECK (length(reason) BETWEEN 1 AND 500),
+  granted_by text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_deadline_exceptions_league ON public.trade_deadline_exceptions(league_id, created_at DESC);
+
+ALTER TABLE public.trade_deadline_exceptions DISABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.trade_proposals ADD COLUMN IF NOT EXISTS deadline_exception_id uuid
+  REFERENCES public.trade_deadline_exceptions(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- Function: trade_deadline_at
+-- ============================================================
+-- Moment trading closes for a league (midnight ET after the deadline date),
+-- or NULL when the league has no deadline.
+
+CREATE OR REPLACE FUNCTION trade_deadline_at(p_league_id TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (((schedule->>'tradeDeadlineDate')::date + 1)::timestamp AT TIME ZONE 'America/New_York')
+  FROM leagues
+  WHERE id = p_league_id
+    AND schedule->>'tradeDeadlineDate' IS NOT NULL
+    AND schedule->>'tradeDeadlineDate' <> '';
+$$;
+
+-- ============================================================
+-- Function: active_trade_deadline_exception
+-- ============================================================
+-- Newest unexpired exception covering every one of p_team_ids, or NULL.
+
+CREATE OR REPLACE FUNCTION active_trade_deadline_exception(p_league_id TEXT, p_team_ids TEXT[])
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT id
+  FROM trade_deadline_exceptions
+  WHERE league_id = p_league_id
+    AND team_ids @> p_team_ids
+    AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$;
+
+-- ============================================================
+-- Trigger: enforce_trade_deadline
+-- ============================================================
+-- Guards every path that opens or completes a trade: inserting a proposal,
+-- and a pending proposal moving to in_review or executed. Raising here
+-- rolls back the caller — execute_trade and counter_trade_proposal return
+-- the message through their EXCEPTION handlers.
+
+CREATE OR REPLACE FUNCTION enforce_trade_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_deadline TIMESTAMPTZ;
+  v_exception_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NOT (OLD.status = 'pending' AND NEW.status IN ('in_review', 'executed')) THEN
+    RETURN NEW;
+  END IF;
+
+  v_deadline := trade_deadline_at(NEW.league_id);
+  IF v_deadline IS NULL OR now() < v_deadline THEN
+    RETURN NEW;
+  END IF;
+
+  v_exception_id := active_trade_deadline_exception(NEW.league_id, NEW.involved_team_ids);
+  IF v_exception_id IS NULL THEN
+    RAISE EXCEPTION 'The trade deadline has passed (%)', to_char(v_deadline AT TIME ZONE 'America/New_York', 'Mon DD, YYYY');
+  END IF;
+
+  NEW.deadline_exception_id := v_exception_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_trade_deadline ON public.trade_proposals;
+CREATE TRIGGER enforce_trade_deadline
+  BEFORE INSERT OR UPDATE OF status ON public.trade_proposals
+  FOR EACH ROW EXECUTE FUNCTION enforce_trade_deadline();
+
+-- ============================================================
+-- Function: expire_trades_at_deadline
+-- ============================================================
+-- Marks a league's pending proposals 'expired' once the deadline has
+-- passed, with expires_at set to the deadline. Proposals covered by an
+-- active exception are left alone. Idempotent — safe to call on every
+-- page load.
+--
+-- Called via: supabase.rpc('expire_trades_at_deadline', { p_league_id })
+--
+-- Can also run on a schedule with pg_cron:
+--   SELECT cron.schedule('trade-deadline', '*/15 * * * *', $$
+--     SELECT expire_trades_at_deadline(id) FROM leagues WHERE schedule->>'tradeDeadlineDate' IS NOT NULL;
+--   $$);
+
+CREATE OR REPLACE FUNCTION expire_trades_at_deadline(p_league_id TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_deadline TIMESTAMPTZ;
+  v_expired INT;
+BEGIN
+  v_deadline := trade_deadline_at(p_league_id);
+  IF v_deadline IS NULL OR now() < v_deadline THEN
+    RETURN json_build_object('success', true, 'expired', 0);
+  END IF;
+
+  UPDATE trade_proposals
+  SET status = 'expired',
+      expires_at = v_deadline,
+      updated_at = now()
+  WHERE league_id = p_league_id
+    AND status = 'pending'
+    AND active_trade_deadline_exception(p_league_id, involved_team_ids) IS NULL;
+
+  GET DIAGNOSTICS v_expired = ROW_COUNT;
+
+  RETURN json_build_object('success', true, 'expired', v_expired);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
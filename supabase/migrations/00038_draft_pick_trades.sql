@@ -0,0 +1,550 @@
+-- ============================================================
+-- Migration 00038: Trading main draft picks
+-- ============================================================
+-- Main draft slots (pick_assignments) become tradeable assets with type
+-- 'draft_pick', including current-year picks while the draft is live.
+-- execute_trade locks the slot, refuses keeper slots and picks already
+-- used, then moves current_team_id and appends to trade_history.
+-- pick_assignments is already where draft-autopick looks up the owner of
+-- the pick on the clock; complete_draft now does the same when it hands
+-- drafted players to teams.
+
+-- ============================================================
+-- Function: execute_trade (redefined from 00034)
+-- ============================================================
+-- Same flow; adds the 'draft_pick' asset type. Player handling is keyed
+-- on the player asset types instead of "anything but a rookie pick".
+
+CREATE OR REPLACE FUNCTION execute_trade(
+  p_proposal_id TEXT,
+  p_league_id TEXT,
+  p_assets JSONB,
+  p_executed_by TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_proposal RECORD;
+  v_asset JSONB;
+  v_player RECORD;
+  v_pick RECORD;
+  v_slot_pick RECORD;
+  v_roster RECORD;
+  v_entries JSONB;
+  v_filtered JSONB;
+  v_entry JSONB;
+  v_roster_id TEXT;
+  v_team_id TEXT;
+  v_from_team TEXT;
+  v_to_team TEXT;
+  v_asset_type TEXT;
+  v_asset_id TEXT;
+  v_slot TEXT;
+  v_decision TEXT;
+  v_all_asset_ids TEXT[];
+  v_team_ids TEXT[];
+  v_conflicting_ids TEXT[];
+  v_other RECORD;
+  v_other_asset JSONB;
+  v_other_id TEXT;
+BEGIN
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 1. LOCK AND VERIFY PROPOSAL
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT * INTO v_proposal
+  FROM trade_proposals
+  WHERE id = p_proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Proposal not found');
+  END IF;
+
+  IF v_proposal.status NOT IN ('pending', 'in_review') THEN
+    RETURN json_build_object('success', false, 'error',
+      'Proposal is already ' || v_proposal.status);
+  END IF;
+
+  -- Trades under league review only execute once the window has closed
+  IF v_proposal.status = 'in_review' AND v_proposal.review_ends_at > now() THEN
+    RETURN json_build_object('success', false, 'error',
+      'Trade is still under review until ' || v_proposal.review_ends_at);
+  END IF;
+
+  -- Collect all asset IDs for conflict detection later
+  SELECT array_agg(elem->>'id')
+  INTO v_all_asset_ids
+  FROM jsonb_array_elements(p_assets) AS elem;
+
+  -- Collect all involved team IDs
+  SELECT array_agg(DISTINCT tid) INTO v_team_ids
+  FROM (
+    SELECT elem->>'fromTeamId' AS tid FROM jsonb_array_elements(p_assets) AS elem
+    UNION
+    SELECT elem->>'toTeamId' AS tid FROM jsonb_array_elements(p_assets) AS elem
+  ) sub;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 2. LOCK AND VERIFY ALL PLAYER ASSETS
+  -- ═══════════════════════════════════════════════════════════════════════
+  FOR v_asset IN SELECT * FROM jsonb_array_elements(p_assets)
+  LOOP
+    v_asset_type := v_asset.value->>'type';
+    v_asset_id := v_asset.value->>'id';
+    v_from_team := v_asset.value->>'fromTeamId';
+    v_to_team := v_asset.value->>'toTeamId';
+
+    IF v_asset_type IN ('keeper', 'redshirt', 'int_stash') THEN
+      -- Lock the player row and verify ownership
+      SELECT * INTO v_player
+      FROM players
+      WHERE id = v_asset_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error',
+          'Player ' || v_asset_id || ' not found');
+      END IF;
+
+      IF v_player.team_id IS DISTINCT FROM v_from_team THEN
+        RETURN json_build_object('success', false, 'error',
+          v_player.name || ' no longer belongs to the sending team. They may have been moved by another trade.');
+      END IF;
+    ELSIF v_asset_type = 'draft_pick' THEN
+      -- Lock the main draft slot, verify ownership and that it hasn't been used
+      SELECT * INTO v_slot_pick
+      FROM pick_assignments
+      WHERE id = v_asset_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error',
+          'Draft pick ' || v_asset_id || ' not found');
+      END IF;
+
+      IF v_slot_pick.current_team_id IS DISTINCT FROM v_from_team THEN
+        RETURN json_build_object('success', false, 'error',
+          'Pick ' || v_slot_pick.overall_pick || ' no longer belongs to the sending team. It may have been moved by another trade.');
+      END IF;
+
+      IF v_slot_pick.is_keeper_slot THEN
+        RETURN json_build_object('success', false, 'error',
+          'Pick ' || v_slot_pick.overall_pick || ' is a keeper slot and can''t be traded');
+      END IF;
+
+      IF v_slot_pick.player_id IS NOT NULL THEN
+        RETURN json_build_object('success', false, 'error',
+          'Pick ' || v_slot_pick.overall_pick || ' has already been used on ' || COALESCE(v_slot_pick.player_name, 'a player'));
+      END IF;
+    ELSE
+      -- Lock the rookie pick row and verify ownership
+      SELECT * INTO v_pick
+      FROM rookie_draft_picks
+      WHERE id = v_asset_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error',
+          'Draft pick ' || v_asset_id || ' not found');
+      END IF;
+
+      IF v_pick.current_owner IS DISTINCT FROM v_from_team THEN
+        RETURN json_build_object('success', false, 'error',
+          'Draft pick ' || v_asset_id || ' no longer belongs to the sending team. It may have been moved by another trade.');
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 3. UPDATE KEEPER ROSTER ENTRIES
+  -- For each involved team: remove outgoing players, add incoming players
+  -- ═══════════════════════════════════════════════════════════════════════
+  FOREACH v_team_id IN ARRAY v_team_ids
+  LOOP
+    v_roster_id := p_league_id || '_' || v_team_id;
+
+    SELECT * INTO v_roster
+    FROM rosters
+    WHERE id = v_roster_id
+    FOR UPDATE;
+
+    IF FOUND THEN
+      v_entries := COALESCE(v_roster.entries, '[]'::jsonb);
+
+      -- Remove outgoing players from this team's entries
+      v_filtered := '[]'::jsonb;
+      FOR v_entry IN SELECT * FROM jsonb_array_elements(v_entries)
+      LOOP
+        -- Keep entry if it's NOT a player being traded away from this team
+        IF NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(p_assets) AS a
+          WHERE a.value->>'type' IN ('keeper', 'redshirt', 'int_stash')
+            AND a.value->>'id' = v_entry.value->>'playerId'
+            AND a.value->>'fromTeamId' = v_team_id
+        ) THEN
+          v_filtered := v_filtered || jsonb_build_array(v_entry.value);
+        END IF;
+      END LOOP;
+
+      -- Add incoming players to this team's entries
+      FOR v_asset IN SELECT * FROM jsonb_array_elements(p_assets)
+      LOOP
+        IF v_asset.value->>'type' IN ('keeper', 'redshirt', 'int_stash')
+           AND v_asset.value->>'toTeamId' = v_team_id THEN
+          v_asset_type := v_asset.value->>'type';
+          v_decision := CASE v_asset_type
+            WHEN 'redshirt' THEN 'REDSHIRT'
+            WHEN 'int_stash' THEN 'INT_STASH'
+            ELSE 'KEEP'
+          END;
+
+          v_filtered := v_filtered || jsonb_build_array(
+            jsonb_build_object(
+              'playerId', v_asset.value->>'id',
+              'decision', v_decision,
+              'baseRound', 13
+            )
+          );
+        END IF;
+      END LOOP;
+
+      -- Save updated entries
+      UPDATE rosters
+      SET entries = v_filtered,
+          updated_at = now()
+      WHERE id = v_roster_id;
+    END IF;
+  END LOOP;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 4. TRANSFER PLAYERS AND PICKS
+  -- ═══════════════════════════════════════════════════════════════════════
+  FOR v_asset IN SELECT * FROM jsonb_array_elements(p_assets)
+  LOOP
+    v_asset_type := v_asset.value->>'type';
+    v_asset_id := v_asset.value->>'id';
+    v_from_team := v_asset.value->>'fromTeamId';
+    v_to_team := v_asset.value->>'toTeamId';
+
+    IF v_asset_type IN ('keeper', 'redshirt', 'int_stash') THEN
+      v_slot := CASE v_asset_type
+        WHEN 'redshirt' THEN 'redshirt'
+        WHEN 'int_stash' THEN 'international'
+        ELSE 'active'
+      END;
+
+      UPDATE players
+      SET team_id = v_to_team,
+          slot = v_slot,
+          on_ir = false
+      WHERE id = v_asset_id;
+    ELSIF v_asset_type = 'draft_pick' THEN
+      -- Transfer the main draft slot. The live draft reads the owner from
+      -- here, so the board and the on-the-clock team update via realtime.
+      UPDATE pick_assignments
+      SET current_team_id = v_to_team,
+          was_traded = true,
+          trade_history = COALESCE(trade_history, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+            'from', v_from_team,
+            'to', v_to_team,
+            'tradedAt', floor(extract(epoch FROM now()) * 1000)::bigint
+          )),
+          updated_at = now()
+      WHERE id = v_asset_id;
+    ELSE
+      -- Transfer rookie pick ownership
+      UPDATE rookie_draft_picks
+      SET current_owner = v_to_team,
+          updated_at = now()
+      WHERE id = v_asset_id;
+    END IF;
+  END LOOP;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 5. CANCEL CONFLICTING OPEN PROPOSALS
+  -- Any other pending or in-review proposal involving the same assets gets cancelled
+  -- ═══════════════════════════════════════════════════════════════════════
+  v_conflicting_ids := ARRAY[]::TEXT[];
+
+  FOR v_other IN
+    SELECT id, assets
+    FROM trade_proposals
+    WHERE league_id = p_league_id
+      AND status IN ('pending', 'in_review')
+      AND id != p_proposal_id
+    FOR UPDATE
+  LOOP
+    FOR v_other_asset IN SELECT * FROM jsonb_array_elements(v_other.assets)
+    LOOP
+      v_other_id := v_other_asset.value->>'id';
+      IF v_other_id = ANY(v_all_asset_ids) THEN
+        v_conflicting_ids := array_append(v_conflicting_ids, v_other.id);
+        EXIT; -- Found one overlap, no need to check more assets in this proposal
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  IF array_length(v_conflicting_ids, 1) > 0 THEN
+    UPDATE trade_proposals
+    SET status = 'cancelled',
+        updated_at = now()
+    WHERE id = ANY(v_conflicting_ids);
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 6. MARK PROPOSAL AS EXECUTED
+  -- ═══════════════════════════════════════════════════════════════════════
+  UPDATE trade_proposals
+  SET status = 'executed',
+      executed_at = now(),
+      executed_by = p_executed_by,
+      updated_at = now()
+  WHERE id = p_proposal_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'cancelled_proposals', COALESCE(array_length(v_conflicting_ids, 1), 0)
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- ============================================================
+-- Function: complete_draft (redefined from 00032)
+-- ============================================================
+-- Same flow; drafted players are assigned to the slot's current owner
+-- from pick_assignments, so picks traded before or during the draft land
+-- on the right roster.
+
+CREATE OR REPLACE FUNCTION complete_draft(
+  p_draft_id TEXT,
+  p_league_id TEXT,
+  p_season_year INTEGER,
+  p_max_active INTEGER,
+  p_history JSONB,
+  p_team_fees JSONB,
+  p_completed_by TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_draft RECORD;
+  v_assignments JSONB;
+  v_errors JSONB := '[]'::jsonb;
+  v_row RECORD;
+  v_players_assigned INTEGER := 0;
+BEGIN
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 1. LOCK AND VERIFY DRAFT
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT * INTO v_draft
+  FROM drafts
+  WHERE id = p_draft_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Draft not found',
+      'errors', jsonb_build_array(jsonb_build_object('code', 'draft_not_found', 'message', 'Draft not found')));
+  END IF;
+
+  IF v_draft.status = 'completed' THEN
+    RETURN json_build_object('success', false, 'error', 'Draft is already completed',
+      'errors', jsonb_build_array(jsonb_build_object('code', 'already_completed', 'message', 'Draft is already completed')));
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 2. BUILD SLOT ASSIGNMENTS
+  -- Keepers/redshirts/int stashes from rosters, plus every drafted player
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('teamId', a.team_id, 'playerId', a.player_id, 'slot', a.slot)), '[]'::jsonb)
+  INTO v_assignments
+  FROM (
+    SELECT r.team_id,
+           e.value->>'playerId' AS player_id,
+           CASE e.value->>'decision'
+             WHEN 'REDSHIRT' THEN 'redshirt'
+             WHEN 'INT_STASH' THEN 'international'
+             ELSE 'active'
+           END AS slot
+    FROM rosters r, jsonb_array_elements(COALESCE(r.entries, '[]'::jsonb)) e
+    WHERE r.league_id = p_league_id
+      AND e.value->>'decision' IN ('KEEP', 'REDSHIRT', 'INT_STASH')
+    UNION ALL
+    -- Drafted players go to whoever owns the slot now (pick_assignments), not the original team
+    SELECT COALESCE(pa.current_team_id, p.value->>'teamId'), p.value->>'playerId', 'active'
+    FROM jsonb_array_elements(v_draft.picks) p
+    LEFT JOIN pick_assignments pa
+      ON pa.id = p_league_id || '_' || p_season_year || '_pick_' || (p.value->>'overallPick')
+    WHERE COALESCE((p.value->>'isKeeperSlot')::boolean, false) = false
+      AND COALESCE(p.value->>'playerId', '') <> ''
+  ) a;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 3. VALIDATE
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- Every pick must have a player
+  FOR v_row IN
+    SELECT (p.value->>'overallPick')::integer AS overall_pick,
+           (p.value->>'round')::integer AS round,
+           p.value->>'teamId' AS team_id,
+           p.value->>'teamName' AS team_name
+    FROM jsonb_array_elements(v_draft.picks) p
+    WHERE COALESCE(p.value->>'playerId', '') = ''
+    ORDER BY 1
+  LOOP
+    v_errors := v_errors || jsonb_build_array(jsonb_build_object(
+      'code', 'empty_pick',
+      'message', 'Pick ' || v_row.overall_pick || ' (Round ' || v_row.round || ', ' || COALESCE(v_row.team_name, v_row.team_id) || ') has no player',
+      'teamId', v_row.team_id,
+      'overallPick', v_row.overall_pick
+    ));
+  END LOOP;
+
+  -- No player may land on two teams
+  FOR v_row IN
+    SELECT a.value->>'playerId' AS player_id,
+           COALESCE(pl.name, a.value->>'playerId') AS player_name,
+           count(DISTINCT a.value->>'teamId') AS team_count
+    FROM jsonb_array_elements(v_assignments) a
+    LEFT JOIN players pl ON pl.id = a.value->>'playerId'
+    GROUP BY 1, 2
+    HAVING count(DISTINCT a.value->>'teamId') > 1
+  LOOP
+    v_errors := v_errors || jsonb_build_array(jsonb_build_object(
+      'code', 'duplicate_player',
+      'message', v_row.player_name || ' is assigned to ' || v_row.team_count || ' teams',
+      'playerId', v_row.player_id
+    ));
+  END LOOP;
+
+  -- Every team must fit under the active roster limit
+  FOR v_row IN
+    SELECT a.value->>'teamId' AS team_id,
+           COALESCE(t.name, a.value->>'teamId') AS team_name,
+           count(DISTINCT a.value->>'playerId') AS active_count
+    FROM jsonb_array_elements(v_assignments) a
+    LEFT JOIN teams t ON t.id = a.value->>'teamId'
+    WHERE a.value->>'slot' = 'active'
+    GROUP BY 1, 2
+    HAVING count(DISTINCT a.value->>'playerId') > p_max_active
+  LOOP
+    v_errors := v_errors || jsonb_build_array(jsonb_build_object(
+      'code', 'over_max_active',
+      'message', v_row.team_name || ' has ' || v_row.active_count || ' active players (max ' || p_max_active || ')',
+      'teamId', v_row.team_id
+    ));
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Draft cannot be completed: ' || jsonb_array_length(v_errors) || ' problem(s) found',
+      'errors', v_errors
+    );
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 4. ARCHIVE DRAFT HISTORY
+  -- ═══════════════════════════════════════════════════════════════════════
+  INSERT INTO draft_history (id, league_id, season_year, picks, keepers, redshirt_players, international_players, completed_at, completed_by)
+  VALUES (
+    p_league_id || '_' || p_season_year,
+    p_league_id,
+    p_season_year,
+    COALESCE(p_history->'picks', '[]'::jsonb),
+    COALESCE(p_history->'keepers', '[]'::jsonb),
+    COALESCE(p_history->'redshirtPlayers', '[]'::jsonb),
+    COALESCE(p_history->'internationalPlayers', '[]'::jsonb),
+    now(),
+    p_completed_by
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET picks = EXCLUDED.picks,
+      keepers = EXCLUDED.keepers,
+      redshirt_players = EXCLUDED.redshirt_players,
+      international_players = EXCLUDED.international_players,
+      completed_at = EXCLUDED.completed_at,
+      completed_by = EXCLUDED.completed_by;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 5. ASSIGN PLAYERS (players.team_id + slot)
+  -- ═══════════════════════════════════════════════════════════════════════
+  UPDATE players pl
+  SET team_id = a.team_id,
+      slot = a.slot,
+      on_ir = false,
+      updated_at = now()
+  FROM (
+    SELECT DISTINCT ON (x.value->>'playerId')
+           x.value->>'playerId' AS player_id,
+           x.value->>'teamId' AS team_id,
+           x.value->>'slot' AS slot
+    FROM jsonb_array_elements(v_assignments) x
+  ) a
+  WHERE pl.id = a.player_id;
+  GET DIAGNOSTICS v_players_assigned = ROW_COUNT;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 6. TEAM FEES (pre-draft fees only)
+  -- ═══════════════════════════════════════════════════════════════════════
+  INSERT INTO team_fees (
+    id, league_id, team_id, season_year,
+    franchise_tag_fees, redshirt_fees, first_apron_fee, second_apron_penalty, unredshirt_fees,
+    fees_locked, total_fees, fee_transactions
+  )
+  SELECT p_league_id || '_' || (f.value->>'teamId') || '_' || p_season_year,
+         p_league_id,
+         f.value->>'teamId',
+         p_season_year,
+         COALESCE((f.value->>'franchiseTagFees')::numeric, 0),
+         COALESCE((f.value->>'redshirtFees')::numeric, 0),
+         COALESCE((f.value->>'firstApronFee')::numeric, 0),
+         COALESCE((f.value->>'secondApronPenalty')::numeric, 0),
+         COALESCE((f.value->>'unredshirtFees')::numeric, 0),
+         false,
+         COALESCE((f.value->>'totalFees')::numeric, 0),
+         COALESCE(f.value->'feeTransactions', '[]'::jsonb)
+  FROM jsonb_array_elements(p_team_fees) f
+  ON CONFLICT (id) DO UPDATE
+  SET franchise_tag_fees = EXCLUDED.franchise_tag_fees,
+      redshirt_fees = EXCLUDED.redshirt_fees,
+      first_apron_fee = EXCLUDED.first_apron_fee,
+      second_apron_penalty = EXCLUDED.second_apron_penalty,
+      unredshirt_fees = EXCLUDED.unredshirt_fees,
+      fees_locked = EXCLUDED.fees_locked,
+      total_fees = EXCLUDED.total_fees,
+      fee_transactions = EXCLUDED.fee_transactions,
+      updated_at = now();
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 7. MARK DRAFT AND LEAGUE COMPLETE
+  -- ═══════════════════════════════════════════════════════════════════════
+  UPDATE drafts
+  SET status = 'completed',
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_draft_id;
+
+  UPDATE leagues
+  SET draft_status = 'completed',
+      season_status = 'pre_season',
+      league_phase = 'regular_season',
+      updated_at = now()
+  WHERE id = p_league_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'players_assigned', v_players_assigned
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM,
+    'errors', jsonb_build_array(jsonb_build_object('code', 'database_error', 'message', SQLERRM)));
+END;
+$$;
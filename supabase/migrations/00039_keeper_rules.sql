@@ -0,0 +1,11 @@
+-- ============================================================
+-- Migration 00039: Per-league keeper rules
+-- ============================================================
+-- Keeper round rules move out of keeperAlgorithms.ts into
+-- leagues.keeper_rules (LeagueKeeperRules): the rookie pick → keeper round
+-- scale, how many rounds earlier a player costs each season he's kept, the
+-- last round of the main draft, and how many round-1 keepers are free
+-- before franchise tags apply. NULL means the original MNS rules
+-- (DEFAULT_KEEPER_RULES), so existing leagues are unchanged.
+
+ALTER TABLE public.leagues ADD COLUMN IF NOT EXISTS keeper_rules jsonb;
@@ -0,0 +1,98 @@
+-- ============================================================
+-- Migration 00040: Auditable rookie draft lottery
+-- ============================================================
+-- The official lottery is drawn from a seeded PRNG (createSeededRandom in
+-- lottery.ts). A commissioner commits to a seed by storing its SHA-256
+-- hash, together with the lottery and money teams in order, before the
+-- draw. Drawing reveals the seed and stores every ball draw (discarded
+-- combinations included) and the resulting order, so any owner can replay
+-- the seed and check both the hash and the results.
+--
+-- The guard trigger keeps the commitment honest:
+--   * the hash, teams and draft year never change after commit
+--   * the revealed seed must hash to the committed value
+--   * a drawn lottery can't be changed or deleted
+
+-- ============================================================
+-- Table: lottery_results
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.lottery_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id text NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  draft_year integer NOT NULL,
+  seed_hash text NOT NULL CHECK (seed_hash ~ '^[0-9a-f]{64}$'),   -- hex SHA-256 of the seed
+  seed text CHECK (seed IS NULL OR seed ~ '^[0-9a-f]{64}$'),      -- NULL until drawn
+  status text NOT NULL DEFAULT 'committed' CHECK (status IN ('committed', 'drawn')),
+  lottery_teams jsonb NOT NULL,                 -- TeamStanding[], worst first
+  money_teams jsonb NOT NULL DEFAULT '[]',      -- TeamStanding[], best first
+  draws jsonb,                                  -- LotteryDraw[]
+  results jsonb,                                -- LotteryResult[]
+  committed_by text NOT NULL,
+  committed_at timestamptz NOT NULL DEFAULT now(),
+  drawn_by text,
+  drawn_at timestamptz,
+  UNIQUE (league_id, draft_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lottery_results_league ON public.lottery_results(league_id, draft_year DESC);
+
+ALTER TABLE public.lottery_results DISABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Trigger: guard_lottery_results
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION guard_lottery_results()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'drawn' THEN
+      RAISE EXCEPTION 'Lottery for % has been drawn and can''t be deleted', OLD.draft_year;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'committed' OR NEW.seed IS NOT NULL THEN
+      RAISE EXCEPTION 'A lottery must be committed before it is drawn';
+    END IF;
+    NEW.committed_at := now();
+    RETURN NEW;
+  END IF;
+
+  -- UPDATE
+  IF OLD.status = 'drawn' THEN
+    RAISE EXCEPTION 'Lottery for % has already been drawn', OLD.draft_year;
+  END IF;
+  IF NEW.seed_hash IS DISTINCT FROM OLD.seed_hash
+    OR NEW.league_id IS DISTINCT FROM OLD.league_id
+    OR NEW.draft_year IS DISTINCT FROM OLD.draft_year
+    OR NEW.lottery_teams IS DISTINCT FROM OLD.lottery_teams
+    OR NEW.money_teams IS DISTINCT FROM OLD.money_teams
+    OR NEW.committed_by IS DISTINCT FROM OLD.committed_by
+    OR NEW.committed_at IS DISTINCT FROM OLD.committed_at THEN
+    RAISE EXCEPTION 'A committed lottery can''t be changed';
+  END IF;
+
+  IF NEW.status = 'drawn' THEN
+    IF NEW.seed IS NULL OR NEW.draws IS NULL OR NEW.results IS NULL OR NEW.drawn_by IS NULL THEN
+      RAISE EXCEPTION 'Drawing a lottery needs the seed, draws and results';
+    END IF;
+    IF encode(sha256(convert_to(NEW.seed, 'UTF8')), 'hex') <> NEW.seed_hash THEN
+      RAISE EXCEPTION 'Seed does not match the committed hash';
+    END IF;
+    NEW.drawn_at := now();
+  ELSIF NEW.seed IS NOT NULL THEN
+    RAISE EXCEPTION 'The seed is only revealed with the draw';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_lottery_results ON public.lottery_results;
+CREATE TRIGGER guard_lottery_results
+  BEFORE INSERT OR UPDATE OR DELETE ON public.lottery_results
+  FOR EACH ROW EXECUTE FUNCTION guard_lottery_results();
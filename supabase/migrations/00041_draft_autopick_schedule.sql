@@ -0,0 +1,27 @@
+-- ============================================================
+-- Migration 00041: Schedule the draft-autopick sweep
+-- ============================================================
+-- 00025 only documented the schedule, so expired picks were enforced only
+-- while someone had the draft page open. This installs it: every minute,
+-- pg_cron posts to the draft-autopick edge function, which sweeps every
+-- in-progress draft against server time.
+--
+-- Needs the project URL and service role key in Vault:
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- cron.schedule replaces an existing job with the same name
+SELECT cron.schedule('draft-autopick', '* * * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/draft-autopick',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (SELECT 1 FROM public.drafts WHERE status = 'in_progress');
+$$);
@@ -0,0 +1,117 @@
+-- ============================================================
+-- Migration 00042: Keep FAAB bids blind
+-- ============================================================
+-- waiver_claims is readable league-wide, so a bid stored on the claim was
+-- visible to every owner before processing. Pending bids now live in
+-- waiver_bids, which clients can't read directly:
+--   * place_waiver_bid      — an owner bids on their team's pending claim
+--   * get_my_waiver_bids    — the caller's own bids only
+--   * reveal_waiver_bids    — the commissioner's processing run copies the
+--                             bids it is about to resolve onto the claims,
+--                             where they become the public bid history
+
+CREATE TABLE IF NOT EXISTS public.waiver_bids (
+  claim_id uuid PRIMARY KEY REFERENCES public.waiver_claims(id) ON DELETE CASCADE,
+  bid_amount integer NOT NULL CHECK (bid_amount >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.waiver_bids
+  FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.waiver_bids DISABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.waiver_bids FROM anon, authenticated;
+
+-- Move bids on claims that haven't been processed out of sight
+INSERT INTO public.waiver_bids (claim_id, bid_amount)
+SELECT id, bid_amount FROM public.waiver_claims
+WHERE status = 'pending' AND bid_amount IS NOT NULL
+ON CONFLICT (claim_id) DO NOTHING;
+
+UPDATE public.waiver_claims SET bid_amount = NULL
+WHERE status = 'pending' AND bid_amount IS NOT NULL;
+
+-- ============================================================
+-- Function: place_waiver_bid
+-- ============================================================
+-- Called via: supabase.rpc('place_waiver_bid', { p_claim_id, p_bid_amount })
+
+CREATE OR REPLACE FUNCTION place_waiver_bid(p_claim_id UUID, p_bid_amount INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_claim public.waiver_claims%ROWTYPE;
+BEGIN
+  SELECT * INTO v_claim FROM public.waiver_claims WHERE id = p_claim_id;
+  IF NOT FOUND OR v_claim.status <> 'pending' THEN
+    RAISE EXCEPTION 'Claim is no longer pending';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = v_claim.team_id
+      AND (SELECT email FROM public.profiles WHERE id = auth.uid()) = ANY(owners)
+  ) THEN
+    RAISE EXCEPTION 'Only the claiming team can bid';
+  END IF;
+
+  INSERT INTO public.waiver_bids (claim_id, bid_amount)
+  VALUES (p_claim_id, p_bid_amount)
+  ON CONFLICT (claim_id) DO UPDATE SET bid_amount = EXCLUDED.bid_amount;
+
+  -- Touch the claim so realtime subscribers refetch with the bid in place
+  UPDATE public.waiver_claims SET updated_at = now() WHERE id = p_claim_id;
+END;
+$$;
+
+-- ============================================================
+-- Function: get_my_waiver_bids
+-- ============================================================
+-- Called via: supabase.rpc('get_my_waiver_bids', { p_league_id })
+
+CREATE OR REPLACE FUNCTION get_my_waiver_bids(p_league_id TEXT)
+RETURNS TABLE (claim_id UUID, bid_amount INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT b.claim_id, b.bid_amount
+  FROM public.waiver_bids b
+  JOIN public.waiver_claims c ON c.id = b.claim_id
+  JOIN public.teams t ON t.id = c.team_id
+  WHERE c.league_id = p_league_id
+    AND (SELECT email FROM public.profiles WHERE id = auth.uid()) = ANY(t.owners);
+$$;
+
+-- ============================================================
+-- Function: reveal_waiver_bids
+-- ============================================================
+-- Called via: supabase.rpc('reveal_waiver_bids', { p_league_id, p_claim_ids })
+-- by processWaivers for the claims it is about to resolve.
+
+CREATE OR REPLACE FUNCTION reveal_waiver_bids(p_league_id TEXT, p_claim_ids UUID[])
+RETURNS TABLE (claim_id UUID, bid_amount INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.leagues WHERE id = p_league_id AND commissioner_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only the commissioner can process waivers';
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.waiver_claims c
+  SET bid_amount = b.bid_amount
+  FROM public.waiver_bids b
+  WHERE b.claim_id = c.id
+    AND c.league_id = p_league_id
+    AND c.status = 'pending'
+    AND c.id = ANY(p_claim_ids)
+  RETURNING c.id, c.bid_amount;
+END;
+$$;
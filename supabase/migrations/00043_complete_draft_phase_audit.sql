@@ -0,0 +1,260 @@
+-- ============================================================
+-- Migration 00043: Record draft completion as a phase transition
+-- ============================================================
+-- complete_draft moves the league to regular_season but, unlike the admin
+-- phase stepper, left no phase_transitions row. Redefined from 00038 with
+-- the audit row written in the same transaction as the phase change.
+
+-- ============================================================
+-- Function: complete_draft (redefined from 00038)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION complete_draft(
+  p_draft_id TEXT,
+  p_league_id TEXT,
+  p_season_year INTEGER,
+  p_max_active INTEGER,
+  p_history JSONB,
+  p_team_fees JSONB,
+  p_completed_by TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_draft RECORD;
+  v_assignments JSONB;
+  v_errors JSONB := '[]'::jsonb;
+  v_row RECORD;
+  v_players_assigned INTEGER := 0;
+  v_from_phase TEXT;
+BEGIN
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 1. LOCK AND VERIFY DRAFT
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT * INTO v_draft
+  FROM drafts
+  WHERE id = p_draft_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Draft not found',
+      'errors', jsonb_build_array(jsonb_build_object('code', 'draft_not_found', 'message', 'Draft not found')));
+  END IF;
+
+  IF v_draft.status = 'completed' THEN
+    RETURN json_build_object('success', false, 'error', 'Draft is already completed',
+      'errors', jsonb_build_array(jsonb_build_object('code', 'already_completed', 'message', 'Draft is already completed')));
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 2. BUILD SLOT ASSIGNMENTS
+  -- Keepers/redshirts/int stashes from rosters, plus every drafted player
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('teamId', a.team_id, 'playerId', a.player_id, 'slot', a.slot)), '[]'::jsonb)
+  INTO v_assignments
+  FROM (
+    SELECT r.team_id,
+           e.value->>'playerId' AS player_id,
+           CASE e.value->>'decision'
+             WHEN 'REDSHIRT' THEN 'redshirt'
+             WHEN 'INT_STASH' THEN 'international'
+             ELSE 'active'
+           END AS slot
+    FROM rosters r, jsonb_array_elements(COALESCE(r.entries, '[]'::jsonb)) e
+    WHERE r.league_id = p_league_id
+      AND e.value->>'decision' IN ('KEEP', 'REDSHIRT', 'INT_STASH')
+    UNION ALL
+    -- Drafted players go to whoever owns the slot now (pick_assignments), not the original team
+    SELECT COALESCE(pa.current_team_id, p.value->>'teamId'), p.value->>'playerId', 'active'
+    FROM jsonb_array_elements(v_draft.picks) p
+    LEFT JOIN pick_assignments pa
+      ON pa.id = p_league_id || '_' || p_season_year || '_pick_' || (p.value->>'overallPick')
+    WHERE COALESCE((p.value->>'isKeeperSlot')::boolean, false) = false
+      AND COALESCE(p.value->>'playerId', '') <> ''
+  ) a;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 3. VALIDATE
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- Every pick must have a player
+  FOR v_row IN
+    SELECT (p.value->>'overallPick')::integer AS overall_pick,
+           (p.value->>'round')::integer AS round,
+           p.value->>'teamId' AS team_id,
+           p.value->>'teamName' AS team_name
+    FROM jsonb_array_elements(v_draft.picks) p
+    WHERE COALESCE(p.value->>'playerId', '') = ''
+    ORDER BY 1
+  LOOP
+    v_errors := v_errors || jsonb_build_array(jsonb_build_object(
+      'code', 'empty_pick',
+      'message', 'Pick ' || v_row.overall_pick || ' (Round ' || v_row.round || ', ' || COALESCE(v_row.team_name, v_row.team_id) || ') has no player',
+      'teamId', v_row.team_id,
+      'overallPick', v_row.overall_pick
+    ));
+  END LOOP;
+
+  -- No player may land on two teams
+  FOR v_row IN
+    SELECT a.value->>'playerId' AS player_id,
+           COALESCE(pl.name, a.value->>'playerId') AS player_name,
+           count(DISTINCT a.value->>'teamId') AS team_count
+    FROM jsonb_array_elements(v_assignments) a
+    LEFT JOIN players pl ON pl.id = a.value->>'playerId'
+    GROUP BY 1, 2
+    HAVING count(DISTINCT a.value->>'teamId') > 1
+  LOOP
+    v_errors := v_errors || jsonb_build_array(jsonb_build_object(
+      'code', 'duplicate_player',
+      'message', v_row.player_name || ' is assigned to ' || v_row.team_count || ' teams',
+      'playerId', v_row.player_id
+    ));
+  END LOOP;
+
+  -- Every team must fit under the active roster limit
+  FOR v_row IN
+    SELECT a.value->>'teamId' AS team_id,
+           COALESCE(t.name, a.value->>'teamId') AS team_name,
+           count(DISTINCT a.value->>'playerId') AS active_count
+    FROM jsonb_array_elements(v_assignments) a
+    LEFT JOIN teams t ON t.id = a.value->>'teamId'
+    WHERE a.value->>'slot' = 'active'
+    GROUP BY 1, 2
+    HAVING count(DISTINCT a.value->>'playerId') > p_max_active
+  LOOP
+    v_errors := v_errors || jsonb_build_array(jsonb_build_object(
+      'code', 'over_max_active',
+      'message', v_row.team_name || ' has ' || v_row.active_count || ' active players (max ' || p_max_active || ')',
+      'teamId', v_row.team_id
+    ));
+  END LOOP;
+
+  IF jsonb_array_length(v_errors) > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Draft cannot be completed: ' || jsonb_array_length(v_errors) || ' problem(s) found',
+      'errors', v_errors
+    );
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 4. ARCHIVE DRAFT HISTORY
+  -- ═══════════════════════════════════════════════════════════════════════
+  INSERT INTO draft_history (id, league_id, season_year, picks, keepers, redshirt_players, international_players, completed_at, completed_by)
+  VALUES (
+    p_league_id || '_' || p_season_year,
+    p_league_id,
+    p_season_year,
+    COALESCE(p_history->'picks', '[]'::jsonb),
+    COALESCE(p_history->'keepers', '[]'::jsonb),
+    COALESCE(p_history->'redshirtPlayers', '[]'::jsonb),
+    COALESCE(p_history->'internationalPlayers', '[]'::jsonb),
+    now(),
+    p_completed_by
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET picks = EXCLUDED.picks,
+      keepers = EXCLUDED.keepers,
+      redshirt_players = EXCLUDED.redshirt_players,
+      international_players = EXCLUDED.international_players,
+      completed_at = EXCLUDED.completed_at,
+      completed_by = EXCLUDED.completed_by;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 5. ASSIGN PLAYERS (players.team_id + slot)
+  -- ═══════════════════════════════════════════════════════════════════════
+  UPDATE players pl
+  SET team_id = a.team_id,
+      slot = a.slot,
+      on_ir = false,
+      updated_at = now()
+  FROM (
+    SELECT DISTINCT ON (x.value->>'playerId')
+           x.value->>'playerId' AS player_id,
+           x.value->>'teamId' AS team_id,
+           x.value->>'slot' AS slot
+    FROM jsonb_array_elements(v_assignments) x
+  ) a
+  WHERE pl.id = a.player_id;
+  GET DIAGNOSTICS v_players_assigned = ROW_COUNT;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 6. TEAM FEES (pre-draft fees only)
+  -- ═══════════════════════════════════════════════════════════════════════
+  INSERT INTO team_fees (
+    id, league_id, team_id, season_year,
+    franchise_tag_fees, redshirt_fees, first_apron_fee, second_apron_penalty, unredshirt_fees,
+    fees_locked, total_fees, fee_transactions
+  )
+  SELECT p_league_id || '_' || (f.value->>'teamId') || '_' || p_season_year,
+         p_league_id,
+         f.value->>'teamId',
+         p_season_year,
+         COALESCE((f.value->>'franchiseTagFees')::numeric, 0),
+         COALESCE((f.value->>'redshirtFees')::numeric, 0),
+         COALESCE((f.value->>'firstApronFee')::numeric, 0),
+         COALESCE((f.value->>'secondApronPenalty')::numeric, 0),
+         COALESCE((f.value->>'unredshirtFees')::numeric, 0),
+         false,
+         COALESCE((f.value->>'totalFees')::numeric, 0),
+         COALESCE(f.value->'feeTransactions', '[]'::jsonb)
+  FROM jsonb_array_elements(p_team_fees) f
+  ON CONFLICT (id) DO UPDATE
+  SET franchise_tag_fees = EXCLUDED.franchise_tag_fees,
+      redshirt_fees = EXCLUDED.redshirt_fees,
+      first_apron_fee = EXCLUDED.first_apron_fee,
+      second_apron_penalty = EXCLUDED.second_apron_penalty,
+      unredshirt_fees = EXCLUDED.unredshirt_fees,
+      fees_locked = EXCLUDED.fees_locked,
+      total_fees = EXCLUDED.total_fees,
+      fee_transactions = EXCLUDED.fee_transactions,
+      updated_at = now();
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 7. MARK DRAFT AND LEAGUE COMPLETE
+  -- ═══════════════════════════════════════════════════════════════════════
+  UPDATE drafts
+  SET status = 'completed',
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_draft_id;
+
+  SELECT league_phase INTO v_from_phase FROM leagues WHERE id = p_league_id;
+
+  UPDATE leagues
+  SET draft_status = 'completed',
+      season_status = 'pre_season',
+      league_phase = 'regular_season',
+      updated_at = now()
+  WHERE id = p_league_id;
+
+  -- Same audit row performPhaseTransition writes for the admin stepper
+  IF v_from_phase IS DISTINCT FROM 'regular_season' THEN
+    INSERT INTO phase_transitions (league_id, season_year, from_phase, to_phase, performed_by, side_effects)
+    VALUES (
+      p_league_id,
+      p_season_year,
+      COALESCE(v_from_phase, 'draft'),
+      'regular_season',
+      p_completed_by,
+      jsonb_build_array(jsonb_build_object(
+        'id', 'complete_draft',
+        'label', 'Complete draft',
+        'success', true,
+        'detail', v_players_assigned || ' players assigned'
+      ))
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'players_assigned', v_players_assigned
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM,
+    'errors', jsonb_build_array(jsonb_build_object('code', 'database_error', 'message', SQLERRM)));
+END;
+$$;
@@ -0,0 +1,16 @@
+-- ============================================================
+-- Migration 00044: Default body for the phase-changed email
+-- ============================================================
+-- 00033 seeded 'phase-changed' with an empty html_body, so send-email
+-- rejected every phase notification with a 422. Ship a plain default;
+-- templates already edited in the Admin UI are left alone.
+
+UPDATE email_templates
+SET html_body = '<div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #111;">
+  <h2 style="margin: 0 0 16px;">{{leagueName}} is now in {{phaseLabel}}</h2>
+  <p style="margin: 0 0 16px;">The commissioner has moved the league into <strong>{{phaseLabel}}</strong>.</p>
+  <p style="margin: 0;">Open the MNS app to see what''s changed for your team.</p>
+</div>',
+    updated_at = now()
+WHERE name = 'phase-changed'
+  AND html_body = '';
@@ -0,0 +1,32 @@
+-- ============================================================
+-- Migration 00045: Finalize closed trade reviews on a schedule
+-- ============================================================
+-- In-review trades only executed when an open TradeProposalCard or the
+-- commissioner's review panel noticed the window had closed. Every minute
+-- pg_cron now posts to the finalize-trade-reviews edge function, which runs
+-- execute_trade for each in_review proposal past review_ends_at.
+--
+-- Uses the same Vault secrets as 00041 (project_url, service_role_key).
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE INDEX IF NOT EXISTS idx_trade_proposals_review_ends
+  ON public.trade_proposals(review_ends_at)
+  WHERE status = 'in_review';
+
+-- cron.schedule replaces an existing job with the same name
+SELECT cron.schedule('finalize-trade-reviews', '* * * * *', $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/finalize-trade-reviews',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.trade_proposals
+    WHERE status = 'in_review' AND review_ends_at <= now()
+  );
+$$);
@@ -0,0 +1,207 @@
+-- ============================================================
+-- Migration 00047: Lottery entropy the commissioner can't choose
+-- ============================================================
+-- 00040's commitment only bound the commissioner to a seed they picked
+-- themselves, and an undrawn commitment could be deleted and recommitted
+-- until a seed gave the order they wanted. Now:
+--   * committing also makes the database generate a server seed, kept in
+--     lottery_server_seeds (unreadable by clients) with only its hash
+--     published on the row
+--   * reveal_lottery_seeds reveals both seeds together; from then on the
+--     lottery can only be drawn. The draw uses SHA-256 of the
+--     commissioner's seed followed by the server seed, so nobody knows the
+--     outcome before they are locked in
+--   * lotteries can't be deleted; an undrawn commitment is marked 'void'
+--     and stays on the lottery page for owners to see
+
+ALTER TABLE public.lottery_results ADD COLUMN IF NOT EXISTS server_seed_hash text
+  CHECK (server_seed_hash IS NULL OR server_seed_hash ~ '^[0-9a-f]{64}$');
+ALTER TABLE public.lottery_results ADD COLUMN IF NOT EXISTS server_seed text
+  CHECK (server_seed IS NULL OR server_seed ~ '^[0-9a-f]{64}$');     -- NULL until revealed
+ALTER TABLE public.lottery_results ADD COLUMN IF NOT EXISTS voided_by text;
+ALTER TABLE public.lottery_results ADD COLUMN IF NOT EXISTS voided_at timestamptz;
+
+ALTER TABLE public.lottery_results DROP CONSTRAINT IF EXISTS lottery_results_status_check;
+ALTER TABLE public.lottery_results ADD CONSTRAINT lottery_results_status_check
+  CHECK (status IN ('committed', 'revealed', 'drawn', 'void'));
+
+-- Voided commitments stay on record, so only one live lottery per draft year
+ALTER TABLE public.lottery_results DROP CONSTRAINT IF EXISTS lottery_results_league_id_draft_year_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lottery_results_live_year
+  ON public.lottery_results(league_id, draft_year)
+  WHERE status <> 'void';
+
+-- ============================================================
+-- Table: lottery_server_seeds
+-- ============================================================
+-- Written by the guard trigger before the lottery row exists, so no FK.
+CREATE TABLE IF NOT EXISTS public.lottery_server_seeds (
+  lottery_id uuid PRIMARY KEY,
+  server_seed text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lottery_server_seeds DISABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.lottery_server_seeds FROM anon, authenticated;
+
+-- Commitments already waiting on a draw get their server seed now
+-- (before the new trigger, which refuses to change server_seed_hash)
+INSERT INTO public.lottery_server_seeds (lottery_id, server_seed)
+SELECT id, encode(sha256(convert_to(gen_random_uuid()::text || gen_random_uuid()::text, 'UTF8')), 'hex')
+FROM public.lottery_results
+WHERE status = 'committed'
+ON CONFLICT (lottery_id) DO NOTHING;
+
+UPDATE public.lottery_results r
+SET server_seed_hash = encode(sha256(convert_to(s.server_seed, 'UTF8')), 'hex')
+FROM public.lottery_server_seeds s
+WHERE s.lottery_id = r.id
+  AND r.server_seed_hash IS NULL;
+
+-- ============================================================
+-- Trigger: guard_lottery_results (redefined from 00040)
+-- ============================================================
+-- SECURITY DEFINER so the insert can store the server seed.
+
+CREATE OR REPLACE FUNCTION guard_lottery_results()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_server_seed TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Only deleting the league itself (ON DELETE CASCADE) removes lotteries
+    IF NOT EXISTS (SELECT 1 FROM public.leagues WHERE id = OLD.league_id) THEN
+      RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'Lotteries can''t be deleted — void an undrawn commitment instead';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'committed' OR NEW.seed IS NOT NULL OR NEW.server_seed IS NOT NULL THEN
+      RAISE EXCEPTION 'A lottery must be committed before it is drawn';
+    END IF;
+    v_server_seed := encode(sha256(convert_to(gen_random_uuid()::text || gen_random_uuid()::text, 'UTF8')), 'hex');
+    INSERT INTO public.lottery_server_seeds (lottery_id, server_seed) VALUES (NEW.id, v_server_seed);
+    NEW.server_seed_hash := encode(sha256(convert_to(v_server_seed, 'UTF8')), 'hex');
+    NEW.committed_at := now();
+    NEW.voided_by := NULL;
+    NEW.voided_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- UPDATE
+  IF OLD.status IN ('drawn', 'void') THEN
+    RAISE EXCEPTION 'Lottery for % has already been %', OLD.draft_year, OLD.status;
+  END IF;
+  IF NEW.seed_hash IS DISTINCT FROM OLD.seed_hash
+    OR NEW.server_seed_hash IS DISTINCT FROM OLD.server_seed_hash
+    OR NEW.league_id IS DISTINCT FROM OLD.league_id
+    OR NEW.draft_year IS DISTINCT FROM OLD.draft_year
+    OR NEW.lottery_teams IS DISTINCT FROM OLD.lottery_teams
+    OR NEW.money_teams IS DISTINCT FROM OLD.money_teams
+    OR NEW.committed_by IS DISTINCT FROM OLD.committed_by
+    OR NEW.committed_at IS DISTINCT FROM OLD.committed_at THEN
+    RAISE EXCEPTION 'A committed lottery can''t be changed';
+  END IF;
+
+  IF NEW.status = 'void' THEN
+    IF OLD.status <> 'committed' THEN
+      RAISE EXCEPTION 'Seeds have been revealed — the lottery must be drawn';
+    END IF;
+    IF NEW.voided_by IS NULL OR NEW.seed IS NOT NULL OR NEW.server_seed IS NOT NULL THEN
+      RAISE EXCEPTION 'Voiding a commitment needs who voided it and reveals nothing';
+    END IF;
+    NEW.voided_at := now();
+    RETURN NEW;
+  END IF;
+  IF NEW.voided_by IS NOT NULL OR NEW.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Only a voided commitment records who voided it';
+  END IF;
+
+  IF NEW.status = 'committed' THEN
+    IF OLD.status <> 'committed' THEN
+      RAISE EXCEPTION 'Seeds have been revealed — the lottery must be drawn';
+    END IF;
+    IF NEW.seed IS NOT NULL OR NEW.server_seed IS NOT NULL THEN
+      RAISE EXCEPTION 'The seeds are only revealed with the draw';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- 'revealed' or 'drawn': both seeds are public and final
+  IF OLD.status = 'committed' AND NEW.status = 'drawn' THEN
+    RAISE EXCEPTION 'Reveal the seeds before drawing';
+  END IF;
+  IF OLD.status = 'revealed'
+    AND (NEW.seed IS DISTINCT FROM OLD.seed OR NEW.server_seed IS DISTINCT FROM OLD.server_seed) THEN
+    RAISE EXCEPTION 'Revealed seeds can''t be changed';
+  END IF;
+  IF NEW.seed IS NULL OR encode(sha256(convert_to(NEW.seed, 'UTF8')), 'hex') <> NEW.seed_hash THEN
+    RAISE EXCEPTION 'Seed does not match the committed hash';
+  END IF;
+  -- Lotteries committed before 00047 have no server seed
+  IF NEW.server_seed_hash IS NOT NULL
+    AND (NEW.server_seed IS NULL
+      OR encode(sha256(convert_to(NEW.server_seed, 'UTF8')), 'hex') <> NEW.server_seed_hash) THEN
+    RAISE EXCEPTION 'Server seed does not match the committed hash';
+  END IF;
+
+  IF NEW.status = 'drawn' THEN
+    IF NEW.draws IS NULL OR NEW.results IS NULL OR NEW.drawn_by IS NULL THEN
+      RAISE EXCEPTION 'Drawing a lottery needs the draws and results';
+    END IF;
+    NEW.drawn_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================
+-- Function: reveal_lottery_seeds
+-- ============================================================
+-- Called via: supabase.rpc('reveal_lottery_seeds', { p_lottery_id, p_seed })
+-- by drawCommittedLottery. Stores the commissioner's seed next to the server
+-- seed and returns the server seed; the lottery can't be voided afterwards.
+
+CREATE OR REPLACE FUNCTION reveal_lottery_seeds(p_lottery_id UUID, p_seed TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_lottery public.lottery_results%ROWTYPE;
+  v_server_seed TEXT;
+BEGIN
+  SELECT * INTO v_lottery FROM public.lottery_results WHERE id = p_lottery_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lottery not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.leagues WHERE id = v_lottery.league_id AND commissioner_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only the commissioner can run the lottery';
+  END IF;
+
+  IF v_lottery.status <> 'committed' THEN
+    RAISE EXCEPTION 'Lottery for % is already %', v_lottery.draft_year, v_lottery.status;
+  END IF;
+
+  SELECT server_seed INTO v_server_seed FROM public.lottery_server_seeds WHERE lottery_id = p_lottery_id;
+  IF v_server_seed IS NULL THEN
+    RAISE EXCEPTION 'Server seed for this lottery is missing';
+  END IF;
+
+  -- guard_lottery_results checks both seeds against their hashes
+  UPDATE public.lottery_results
+  SET status = 'revealed',
+      seed = p_seed,
+      server_seed = v_server_seed
+  WHERE id = p_lottery_id;
+
+  RETURN v_server_seed;
+END;
+$$;
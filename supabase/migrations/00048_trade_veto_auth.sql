@@ -0,0 +1,166 @@
+-- ============================================================
+-- Migration 00048: Check who is vetoing a trade
+-- ============================================================
+-- cast_trade_veto_vote trusted the team and voter sent by the client, so
+-- one signed-in user could vote for every uninvolved team and reach the
+-- threshold alone, and the commissioner veto was a plain client update any
+-- owner could make. Both now run as RPCs that identify the caller:
+--   * cast_trade_veto_vote   — the caller must own p_team_id; voted_by is
+--                              their profile email
+--   * commissioner_veto_trade — the league commissioner or a site admin
+
+-- ============================================================
+-- Function: cast_trade_veto_vote (redefined from 00034)
+-- ============================================================
+-- Called via: supabase.rpc('cast_trade_veto_vote', { p_proposal_id, p_team_id })
+
+DROP FUNCTION IF EXISTS cast_trade_veto_vote(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION cast_trade_veto_vote(
+  p_proposal_id TEXT,
+  p_team_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_proposal RECORD;
+  v_email TEXT;
+  v_required INTEGER;
+  v_votes INTEGER;
+BEGIN
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 1. LOCK AND VERIFY PROPOSAL
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT * INTO v_proposal
+  FROM trade_proposals
+  WHERE id = p_proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Proposal not found');
+  END IF;
+
+  IF v_proposal.status != 'in_review' THEN
+    RETURN json_build_object('success', false, 'error',
+      'Trade is not under review (' || v_proposal.status || ')');
+  END IF;
+
+  IF v_proposal.review_ends_at <= now() THEN
+    RETURN json_build_object('success', false, 'error', 'Review period has ended');
+  END IF;
+
+  IF p_team_id = ANY(v_proposal.involved_team_ids) THEN
+    RETURN json_build_object('success', false, 'error', 'Teams in the trade cannot vote on it');
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 2. VERIFY VOTER OWNS THE TEAM
+  -- ═══════════════════════════════════════════════════════════════════════
+  SELECT email INTO v_email FROM profiles WHERE id = auth.uid();
+
+  IF v_email IS NULL OR NOT EXISTS (
+    SELECT 1 FROM teams
+    WHERE id = p_team_id
+      AND league_id = v_proposal.league_id
+      AND v_email = ANY(owners)
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Only an owner of this team can vote for it');
+  END IF;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 3. RECORD VOTE
+  -- ═══════════════════════════════════════════════════════════════════════
+  INSERT INTO trade_veto_votes (proposal_id, league_id, team_id, voted_by)
+  VALUES (p_proposal_id, v_proposal.league_id, p_team_id, v_email)
+  ON CONFLICT (proposal_id, team_id) DO NOTHING;
+
+  SELECT count(*) INTO v_votes
+  FROM trade_veto_votes
+  WHERE proposal_id = p_proposal_id;
+
+  SELECT COALESCE((trade_review->>'vetoVotesRequired')::integer, 4) INTO v_required
+  FROM leagues
+  WHERE id = v_proposal.league_id;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 4. VETO ON THRESHOLD
+  -- ═══════════════════════════════════════════════════════════════════════
+  IF v_votes >= v_required THEN
+    UPDATE trade_proposals
+    SET status = 'vetoed',
+        vetoed_at = now(),
+        vetoed_by = 'league_vote',
+        veto_reason = v_votes || ' owner veto votes',
+        updated_at = now()
+    WHERE id = p_proposal_id;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'votes', v_votes,
+    'required', v_required,
+    'vetoed', v_votes >= v_required
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- ============================================================
+-- Function: commissioner_veto_trade
+-- ============================================================
+-- Called via: supabase.rpc('commissioner_veto_trade', { p_proposal_id, p_reason })
+
+CREATE OR REPLACE FUNCTION commissioner_veto_trade(
+  p_proposal_id TEXT,
+  p_reason TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_proposal RECORD;
+  v_email TEXT;
+BEGIN
+  SELECT * INTO v_proposal
+  FROM trade_proposals
+  WHERE id = p_proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Proposal not found');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM leagues WHERE id = v_proposal.league_id AND commissioner_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN json_build_object('success', false, 'error', 'Only the commissioner can veto trades');
+  END IF;
+
+  IF v_proposal.status != 'in_review' THEN
+    RETURN json_build_object('success', false, 'error', 'Trade is no longer under review');
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RETURN json_build_object('success', false, 'error', 'A veto needs a reason');
+  END IF;
+
+  SELECT email INTO v_email FROM profiles WHERE id = auth.uid();
+
+  UPDATE trade_proposals
+  SET status = 'vetoed',
+      vetoed_at = now(),
+      vetoed_by = COALESCE(v_email, 'commissioner'),
+      veto_reason = trim(p_reason),
+      updated_at = now()
+  WHERE id = p_proposal_id;
+
+  RETURN json_build_object('success', true);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
@@ -0,0 +1,70 @@
+-- ============================================================
+-- Migration 00049: Lock vetoed and executed trades
+-- ============================================================
+-- trade_proposals has RLS disabled, so a client update could flip a
+-- vetoed trade back to 'in_review' or rewrite who vetoed it, and veto
+-- votes could be edited or deleted. Now:
+--   * a vetoed or executed proposal never changes status again
+--   * only the SECURITY DEFINER RPCs (cast_trade_veto_vote,
+--     commissioner_veto_trade, execute_trade) move a proposal to 'vetoed'
+--     or 'executed', or touch the veto columns
+--   * trade_veto_votes is append-only and only written by
+--     cast_trade_veto_vote (league deletion still cascades)
+
+-- ============================================================
+-- Trigger: guard_trade_proposal_status
+-- ============================================================
+-- Client requests run as anon/authenticated; the RPCs run as their owner.
+
+CREATE OR REPLACE FUNCTION public.guard_trade_proposal_status()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.status IN ('vetoed', 'executed') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Trade is already % and can''t change status', OLD.status;
+  END IF;
+
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF NEW.status IN ('vetoed', 'executed') AND NEW.status IS DISTINCT FROM OLD.status THEN
+      RAISE EXCEPTION 'Trades are % only through the trade RPCs', NEW.status;
+    END IF;
+    IF NEW.vetoed_at IS DISTINCT FROM OLD.vetoed_at
+      OR NEW.vetoed_by IS DISTINCT FROM OLD.vetoed_by
+      OR NEW.veto_reason IS DISTINCT FROM OLD.veto_reason THEN
+      RAISE EXCEPTION 'Veto details can''t be changed';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_trade_proposal_status ON public.trade_proposals;
+CREATE TRIGGER guard_trade_proposal_status
+  BEFORE UPDATE ON public.trade_proposals
+  FOR EACH ROW EXECUTE FUNCTION public.guard_trade_proposal_status();
+
+-- ============================================================
+-- trade_veto_votes: append-only
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.prevent_veto_vote_mutation()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'trade_veto_votes is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trade_veto_votes_append_only ON public.trade_veto_votes;
+CREATE TRIGGER trade_veto_votes_append_only
+  BEFORE UPDATE ON public.trade_veto_votes
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_veto_vote_mutation();
+
+DROP TRIGGER IF EXISTS trade_veto_votes_no_delete ON public.trade_veto_votes;
+CREATE TRIGGER trade_veto_votes_no_delete
+  BEFORE DELETE ON public.trade_veto_votes
+  FOR EACH ROW
+  WHEN (pg_trigger_depth() = 0)
+  EXECUTE FUNCTION public.prevent_veto_vote_mutation();
+
+-- Votes are cast through cast_trade_veto_vote; clients keep read access
+REVOKE INSERT, UPDATE, DELETE ON public.trade_veto_votes FROM anon, authenticated;
@@ -0,0 +1,88 @@
+-- ============================================================
+-- Migration 00050: Commissioner-only deadline exceptions, scheduled expiry
+-- ============================================================
+-- Deadline exceptions were plain client inserts into
+-- trade_deadline_exceptions, so any signed-in user could reopen trading
+-- for any teams. They are now granted through
+-- grant_trade_deadline_exception, which checks the caller is the league
+-- commissioner or a site admin and records their email as granted_by.
+--
+-- Pending proposals were only expired when someone opened a trades page.
+-- pg_cron now runs expire_trades_at_deadline every minute for leagues
+-- whose deadline has passed and still have pending proposals.
+
+-- ============================================================
+-- Function: grant_trade_deadline_exception
+-- ============================================================
+-- Called via: supabase.rpc('grant_trade_deadline_exception', { p_league_id, p_team_ids, p_reason, p_expires_at })
+
+CREATE OR REPLACE FUNCTION grant_trade_deadline_exception(
+  p_league_id TEXT,
+  p_team_ids TEXT[],
+  p_reason TEXT,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_email TEXT;
+  v_team_ids TEXT[];
+  v_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM leagues WHERE id = p_league_id AND commissioner_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN json_build_object('success', false, 'error', 'Only the commissioner can grant deadline exceptions');
+  END IF;
+
+  SELECT array_agg(DISTINCT t) INTO v_team_ids FROM unnest(p_team_ids) AS t;
+
+  IF COALESCE(cardinality(v_team_ids), 0) < 2 THEN
+    RETURN json_build_object('success', false, 'error', 'Pick at least two teams');
+  END IF;
+
+  IF (SELECT count(*) FROM teams WHERE league_id = p_league_id AND id = ANY(v_team_ids)) <> cardinality(v_team_ids) THEN
+    RETURN json_build_object('success', false, 'error', 'Every team must belong to this league');
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RETURN json_build_object('success', false, 'error', 'A reason is required');
+  END IF;
+
+  IF p_expires_at IS NULL OR p_expires_at <= now() THEN
+    RETURN json_build_object('success', false, 'error', 'Exception must end in the future');
+  END IF;
+
+  SELECT email INTO v_email FROM profiles WHERE id = auth.uid();
+
+  INSERT INTO trade_deadline_exceptions (league_id, team_ids, reason, granted_by, expires_at)
+  VALUES (p_league_id, v_team_ids, trim(p_reason), COALESCE(v_email, 'commissioner'), p_expires_at)
+  RETURNING id INTO v_id;
+
+  RETURN json_build_object('success', true, 'id', v_id);
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Exceptions are granted through grant_trade_deadline_exception and kept
+-- for audit; clients keep read access
+REVOKE INSERT, UPDATE, DELETE ON public.trade_deadline_exceptions FROM anon, authenticated;
+
+-- ============================================================
+-- Schedule: expire-trades-at-deadline
+-- ============================================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- cron.schedule replaces an existing job with the same name
+SELECT cron.schedule('expire-trades-at-deadline', '* * * * *', $$
+  SELECT public.expire_trades_at_deadline(l.id)
+  FROM public.leagues l
+  WHERE public.trade_deadline_at(l.id) <= now()
+    AND EXISTS (
+      SELECT 1 FROM public.trade_proposals p
+      WHERE p.league_id = l.id AND p.status = 'pending'
+    );
+$$);
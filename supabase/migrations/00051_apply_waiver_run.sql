@@ -0,0 +1,233 @@
+-- ============================================================
+-- Migration 00051: Apply a waiver run in one transaction
+-- ============================================================
+-- processWaivers used to reveal the run's FAAB bids first and then apply
+-- each claim with separate client writes. A failure part-way left some
+-- players moved, the rest of the claims pending and every bid already
+-- public. The client still resolves the run (waiverOps.ts), but everything
+-- it decides is now written by apply_waiver_run in a single transaction:
+--   * get_pending_waiver_bids — the commissioner reads the bids to resolve
+--                               without publishing them
+--   * apply_waiver_run        — drops/adds, claim outcomes, the bid reveal,
+--                               the rolling order and clearing waivers;
+--                               all of it or none of it
+-- A claim whose drop or add no longer holds fails on its own (its drop is
+-- rolled back with it). A claim that is no longer pending aborts the whole
+-- run, so two commissioners processing at once can't double-apply.
+-- reveal_waiver_bids is dropped: bids only become public through a run.
+
+DROP FUNCTION IF EXISTS reveal_waiver_bids(TEXT, UUID[]);
+
+-- ============================================================
+-- Function: get_pending_waiver_bids
+-- ============================================================
+-- Called via: supabase.rpc('get_pending_waiver_bids', { p_league_id, p_claim_ids })
+-- by processWaivers for the claims it is about to resolve.
+
+CREATE OR REPLACE FUNCTION get_pending_waiver_bids(p_league_id TEXT, p_claim_ids UUID[])
+RETURNS TABLE (claim_id UUID, bid_amount INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.leagues WHERE id = p_league_id AND commissioner_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only the commissioner can process waivers';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.claim_id, b.bid_amount
+  FROM public.waiver_bids b
+  JOIN public.waiver_claims c ON c.id = b.claim_id
+  WHERE c.league_id = p_league_id
+    AND c.status = 'pending'
+    AND c.id = ANY(p_claim_ids);
+END;
+$$;
+
+-- ============================================================
+-- Function: apply_waiver_run
+-- ============================================================
+-- p_awards:   [{ claim_id, priority }] in the order they were awarded
+-- p_failures: [{ claim_id, priority, reason }]
+-- p_final_order: rolling priority after the run, NULL for other modes
+-- p_as_of:    the moment the run decided which periods were over
+--
+-- Called via: supabase.rpc('apply_waiver_run', { p_league_id, p_season_year, p_claim_mode,
+--   p_priority_mode, p_priority_order, p_awards, p_failures, p_final_order, p_as_of })
+
+CREATE OR REPLACE FUNCTION apply_waiver_run(
+  p_league_id TEXT,
+  p_season_year INTEGER,
+  p_claim_mode TEXT,
+  p_priority_mode TEXT,
+  p_priority_order TEXT[],
+  p_awards JSONB,
+  p_failures JSONB,
+  p_final_order TEXT[],
+  p_as_of TIMESTAMPTZ
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_email TEXT;
+  v_run_id UUID;
+  v_drop_waivers_until TIMESTAMPTZ;
+  v_item RECORD;
+  v_claim public.waiver_claims%ROWTYPE;
+  v_player public.players%ROWTYPE;
+  v_bid INTEGER;
+  v_failure TEXT;
+  v_awarded INTEGER := 0;
+  v_failed INTEGER := 0;
+BEGIN
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 1. VERIFY CALLER AND RECORD THE RUN
+  -- ═══════════════════════════════════════════════════════════════════════
+  IF NOT EXISTS (SELECT 1 FROM leagues WHERE id = p_league_id AND commissioner_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN json_build_object('success', false, 'error', 'Only the commissioner can process waivers');
+  END IF;
+
+  SELECT email INTO v_email FROM profiles WHERE id = auth.uid();
+
+  -- Players dropped to make room start their own waiver period
+  SELECT CASE
+    WHEN COALESCE((waivers->>'enabled')::boolean, false)
+      AND COALESCE((waivers->>'periodHours')::numeric, 48) > 0
+    THEN now() + COALESCE((waivers->>'periodHours')::numeric, 48) * interval '1 hour'
+  END
+  INTO v_drop_waivers_until
+  FROM leagues
+  WHERE id = p_league_id;
+
+  INSERT INTO waiver_runs (league_id, season_year, claim_mode, priority_mode, priority_order, processed_by)
+  VALUES (p_league_id, p_season_year, p_claim_mode, p_priority_mode, p_priority_order, COALESCE(v_email, 'commissioner'))
+  RETURNING id INTO v_run_id;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 2. APPLY AWARDS (drop first so the roster has room)
+  -- ═══════════════════════════════════════════════════════════════════════
+  FOR v_item IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_awards, '[]'::jsonb)) AS x(claim_id UUID, priority INTEGER)
+  LOOP
+    SELECT * INTO v_claim
+    FROM waiver_claims
+    WHERE id = v_item.claim_id AND league_id = p_league_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_claim.status <> 'pending' THEN
+      RAISE EXCEPTION 'A claim in this run was already processed — reload and run again';
+    END IF;
+
+    SELECT bid_amount INTO v_bid FROM waiver_bids WHERE claim_id = v_claim.id;
+    v_failure := NULL;
+
+    -- A failed claim rolls back only its own drop/add
+    BEGIN
+      IF v_claim.drop_player_id IS NOT NULL THEN
+        SELECT * INTO v_player FROM players WHERE id = v_claim.drop_player_id FOR UPDATE;
+        IF NOT FOUND OR v_player.team_id IS DISTINCT FROM v_claim.team_id THEN
+          RAISE EXCEPTION '% is no longer on your roster', COALESCE(v_claim.drop_player_name, 'Drop player');
+        END IF;
+
+        UPDATE players
+        SET team_id = NULL, slot = 'active', on_ir = false, waivers_until = v_drop_waivers_until
+        WHERE id = v_player.id;
+
+        INSERT INTO transactions (league_id, type, team_id, player_id, player_name, from_slot, note, performed_by)
+        VALUES (p_league_id, 'drop', v_claim.team_id, v_player.id, v_player.name, v_player.slot,
+          'Dropped for waiver claim on ' || v_claim.player_name, v_email);
+      END IF;
+
+      SELECT * INTO v_player FROM players WHERE id = v_claim.player_id FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Player % not found', v_claim.player_id;
+      END IF;
+      IF v_player.team_id IS NOT NULL AND v_player.team_id <> v_claim.team_id THEN
+        RAISE EXCEPTION '% already belongs to team %', v_player.name, v_player.team_id;
+      END IF;
+
+      UPDATE players
+      SET team_id = v_claim.team_id, slot = 'active', on_ir = false, waivers_until = NULL
+      WHERE id = v_player.id;
+
+      INSERT INTO transactions (league_id, type, team_id, player_id, player_name, to_slot, note, performed_by)
+      VALUES (p_league_id, 'add', v_claim.team_id, v_player.id, v_player.name, 'active',
+        CASE WHEN v_bid IS NOT NULL THEN 'Waiver claim ($' || v_bid || ' FAAB)' ELSE 'Waiver claim' END, v_email);
+    EXCEPTION WHEN OTHERS THEN
+      v_failure := SQLERRM;
+    END;
+
+    UPDATE waiver_claims
+    SET status = CASE WHEN v_failure IS NULL THEN 'awarded' ELSE 'failed' END,
+        failure_reason = v_failure,
+        priority = v_item.priority,
+        bid_amount = COALESCE(v_bid, bid_amount),
+        run_id = v_run_id,
+        processed_at = now()
+    WHERE id = v_claim.id;
+
+    IF v_failure IS NULL THEN
+      v_awarded := v_awarded + 1;
+    ELSE
+      v_failed := v_failed + 1;
+    END IF;
+  END LOOP;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 3. MARK FAILURES
+  -- ═══════════════════════════════════════════════════════════════════════
+  FOR v_item IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_failures, '[]'::jsonb)) AS x(claim_id UUID, priority INTEGER, reason TEXT)
+  LOOP
+    UPDATE waiver_claims c
+    SET status = 'failed',
+        failure_reason = v_item.reason,
+        priority = NULLIF(v_item.priority, 0),
+        bid_amount = COALESCE((SELECT b.bid_amount FROM waiver_bids b WHERE b.claim_id = c.id), c.bid_amount),
+        run_id = v_run_id,
+        processed_at = now()
+    WHERE c.id = v_item.claim_id
+      AND c.league_id = p_league_id
+      AND c.status = 'pending';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A claim in this run was already processed — reload and run again';
+    END IF;
+    v_failed := v_failed + 1;
+  END LOOP;
+
+  UPDATE waiver_runs SET awarded = v_awarded, failed = v_failed WHERE id = v_run_id;
+
+  -- ═══════════════════════════════════════════════════════════════════════
+  -- 4. PERSIST THE ROLLING ORDER AND CLEAR WAIVERS
+  -- ═══════════════════════════════════════════════════════════════════════
+  IF p_final_order IS NOT NULL THEN
+    INSERT INTO waiver_orders (id, league_id, season_year, team_ids)
+    VALUES (p_league_id || '_' || p_season_year, p_league_id, p_season_year, p_final_order)
+    ON CONFLICT (id) DO UPDATE SET team_ids = EXCLUDED.team_ids;
+  END IF;
+
+  -- Players whose period is over clear waivers and become free agents
+  UPDATE players
+  SET waivers_until = NULL
+  WHERE league_id = p_league_id
+    AND team_id IS NULL
+    AND waivers_until <= p_as_of;
+
+  RETURN json_build_object(
+    'success', true,
+    'run_id', v_run_id,
+    'awarded', v_awarded,
+    'failed', v_failed
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
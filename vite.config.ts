@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { ViteImageOptimizer } from 'vite-plugin-image-optimizer'
@@ -75,4 +76,9 @@ export default defineConfig({
     // Increase chunk size warning limit since we're intentionally code-splitting
     chunkSizeWarningLimit: 600,
   },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Week math builds dates from local midnight — pin the zone so results don't depend on the machine
+    env: { TZ: 'UTC' },
+  },
 })